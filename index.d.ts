@@ -9,6 +9,7 @@ export {
 export type {
   ActiveTimeline,
   AudioSession,
+  BgmIntensityOptions,
   CreateSessionOptions,
   PauseBgmOptions,
   PlayBgmOptions,
@@ -17,6 +18,7 @@ export type {
   PlaybackEvent,
   ResumeBgmOptions,
   SePlaybackDefaults,
+  TransitionBgmOptions,
   TriggerSeOptions,
   QuantizedSEOptions,
 } from "./packages/util/dist/index";
@@ -0,0 +1,151 @@
+/**
+ * NSF stub serialization of APU register logs.
+ *
+ * The file contains a 59-byte 6502 player followed by the register stream. Each
+ * frame is a list of `(register, value)` pairs terminated by {@link END_OF_FRAME};
+ * {@link END_OF_STREAM} jumps back to the loop frame. No bankswitching is used, so
+ * the stream must fit in the $8000–$FFFF window.
+ */
+
+import type { PipelineResult } from "../types.js";
+import { eventsToApuLog, type ApuRegisterLog, type ApuRegisterLogOptions } from "./register-log.js";
+
+const LOAD_ADDRESS = 0x8000;
+const INIT_ADDRESS = 0x8000;
+const PLAY_ADDRESS = 0x800e;
+/** NTSC play-routine period in microseconds (60.0988 Hz) */
+const NTSC_SPEED_MICROS = 16_639;
+const NSF_HEADER_SIZE = 0x80;
+const MAX_IMAGE_SIZE = 0x8000;
+/** Keeps the player's Y index from wrapping within one frame */
+const MAX_WRITES_PER_FRAME = 100;
+
+const END_OF_FRAME = 0xff;
+const END_OF_STREAM = 0xfe;
+
+/** Byte offsets inside {@link PLAYER_CODE} patched with stream addresses */
+const DATA_LOW_OFFSET = 0x01;
+const DATA_HIGH_OFFSET = 0x05;
+const LOOP_LOW_OFFSET = 0x31;
+const LOOP_HIGH_OFFSET = 0x35;
+
+/**
+ * Minimal register-stream player. Zero page $00/$01 holds the stream pointer.
+ *
+ *   INIT  LDA #<DATA / STA $00 / LDA #>DATA / STA $01 / LDA #$0F / STA $4015 / RTS
+ *   PLAY  LDY #0
+ *   NEXT  LDA ($00),Y / CMP #$FF / BEQ FRAME / CMP #$FE / BEQ LOOP
+ *         TAX / INY / LDA ($00),Y / STA $4000,X / INY / BNE NEXT
+ *   FRAME INY / TYA / CLC / ADC $00 / STA $00 / BCC DONE / INC $01
+ *   DONE  RTS
+ *   LOOP  LDA #<LOOPDATA / STA $00 / LDA #>LOOPDATA / STA $01 / JMP PLAY
+ */
+const PLAYER_CODE = [
+  0xa9, 0x00, 0x85, 0x00, 0xa9, 0x00, 0x85, 0x01, 0xa9, 0x0f, 0x8d, 0x15, 0x40, 0x60,
+  0xa0, 0x00,
+  0xb1, 0x00, 0xc9, END_OF_FRAME, 0xf0, 0x0e, 0xc9, END_OF_STREAM, 0xf0, 0x16,
+  0xaa, 0xc8, 0xb1, 0x00, 0x9d, 0x00, 0x40, 0xc8, 0xd0, 0xec,
+  0xc8, 0x98, 0x18, 0x65, 0x00, 0x85, 0x00, 0x90, 0x02, 0xe6, 0x01,
+  0x60,
+  0xa9, 0x00, 0x85, 0x00, 0xa9, 0x00, 0x85, 0x01, 0x4c, PLAY_ADDRESS & 0xff, PLAY_ADDRESS >> 8
+];
+
+/** Header strings; `approximatePitch` only applies to {@link exportCompositionToNsf} */
+export interface NsfExportOptions extends Pick<ApuRegisterLogOptions, "approximatePitch"> {
+  title?: string;
+  artist?: string;
+  copyright?: string;
+}
+
+/**
+ * Serializes a register log as a single-song NSF with a minimal player.
+ *
+ * Logs without a loop frame hold their final register state after the last frame.
+ *
+ * @param log 60 Hz log from {@link eventsToApuLog}
+ * @param options Header strings (truncated to 31 ASCII characters)
+ * @returns NSF bytes
+ * @throws Error when a frame has too many writes or the stream exceeds 32 KiB
+ */
+export function encodeNsf(log: ApuRegisterLog, options: NsfExportOptions = {}): Uint8Array {
+  const stream: number[] = [];
+  let loopOffset = -1;
+  let cursor = 0;
+  for (let frame = 0; frame < log.frameCount; frame++) {
+    if (frame === log.loopFrame) {
+      loopOffset = stream.length;
+    }
+    let count = 0;
+    while (cursor < log.writes.length && log.writes[cursor]!.frame === frame) {
+      const { address, value } = log.writes[cursor++]!;
+      stream.push(address - 0x4000, value);
+      count += 1;
+    }
+    if (count > MAX_WRITES_PER_FRAME) {
+      throw new Error(`NSF export supports at most ${MAX_WRITES_PER_FRAME} register writes per frame (frame ${frame} has ${count})`);
+    }
+    stream.push(END_OF_FRAME);
+  }
+  if (loopOffset < 0) {
+    // One-shot: park on an empty frame forever
+    loopOffset = stream.length;
+    stream.push(END_OF_FRAME);
+  }
+  stream.push(END_OF_STREAM);
+
+  const imageSize = PLAYER_CODE.length + stream.length;
+  if (imageSize > MAX_IMAGE_SIZE) {
+    throw new Error(`Register stream is too long for a non-bankswitched NSF (${imageSize} bytes, max ${MAX_IMAGE_SIZE})`);
+  }
+
+  const dataAddress = LOAD_ADDRESS + PLAYER_CODE.length;
+  const loopAddress = dataAddress + loopOffset;
+  const code = [...PLAYER_CODE];
+  code[DATA_LOW_OFFSET] = dataAddress & 0xff;
+  code[DATA_HIGH_OFFSET] = dataAddress >> 8;
+  code[LOOP_LOW_OFFSET] = loopAddress & 0xff;
+  code[LOOP_HIGH_OFFSET] = loopAddress >> 8;
+
+  const output = new Uint8Array(NSF_HEADER_SIZE + imageSize);
+  const view = new DataView(output.buffer);
+  output.set([0x4e, 0x45, 0x53, 0x4d, 0x1a, 0x01, 0x01, 0x01], 0); // "NESM\x1A", v1, 1 song, start at 1
+  view.setUint16(0x08, LOAD_ADDRESS, true);
+  view.setUint16(0x0a, INIT_ADDRESS, true);
+  view.setUint16(0x0c, PLAY_ADDRESS, true);
+  writeHeaderString(output, 0x0e, options.title ?? "AlgoChip");
+  writeHeaderString(output, 0x2e, options.artist ?? "");
+  writeHeaderString(output, 0x4e, options.copyright ?? "");
+  view.setUint16(0x6e, NTSC_SPEED_MICROS, true);
+  output.set(code, NSF_HEADER_SIZE);
+  output.set(stream, NSF_HEADER_SIZE + code.length);
+  return output;
+}
+
+/**
+ * Exports a composition as an NSF that loops unless the composition is a one-shot.
+ *
+ * @param result Pipeline result from {@link generateComposition}
+ * @param options Header strings and pitch approximation
+ * @returns NSF bytes
+ * @throws Error when an event cannot be represented on the APU or the song does not fit
+ */
+export function exportCompositionToNsf(
+  result: PipelineResult,
+  options: NsfExportOptions = {}
+): Uint8Array {
+  const { loopInfo, form } = result.meta;
+  return encodeNsf(
+    eventsToApuLog(result.events, {
+      durationSeconds: loopInfo.totalDuration,
+      loopStartSeconds: form === "oneShot" ? undefined : loopInfo.loopStartTime,
+      approximatePitch: options.approximatePitch
+    }),
+    options
+  );
+}
+
+/** Writes a NUL-terminated 32-byte header field. */
+function writeHeaderString(output: Uint8Array, offset: number, text: string): void {
+  const bytes = Array.from(text.slice(0, 31), (char) => char.charCodeAt(0) & 0x7f);
+  output.set(bytes, offset);
+}
@@ -0,0 +1,517 @@
+/**
+ * Translation of chip `Event` streams into NES APU register writes.
+ *
+ * The log is frame-based (60 Hz) like a sound driver: every event is applied on
+ * the frame it falls into, and level envelopes the APU cannot produce on its own
+ * (noise decay/release) are written as per-frame constant-volume updates.
+ * `volume` steps on pulse and noise scale the sounding note's level.
+ *
+ * Levels are quantized to the 4-bit pulse/noise volume and the triangle plays at
+ * its fixed hardware level. Anything that would change pitch or timbre in a way
+ * the registers cannot reproduce (detune, slides, pitch-bend ramps, non-hardware
+ * duty cycles, noise filtering) is rejected with an error instead of being
+ * silently approximated. With `approximatePitch`, detune is rounded into the
+ * note's timer and slides and pitch-bend ramps become per-frame timer updates
+ * following the offline renderer's curves; their targets must still fit the timer.
+ */
+
+import type { Event as PlaybackEvent } from "../types.js";
+import {
+  CHIP_BASE_CLOCK,
+  NOISE_PERIOD_TABLE,
+  mapNoiseData,
+  mapPitchData,
+  midiToFrequency
+} from "../playback/chip-core.js";
+
+/** Register write rate of the log (NTSC vertical blank) */
+export const APU_FRAME_RATE = 60;
+
+/** Duty cycles selectable through the pulse DD bits */
+export const APU_DUTY_CYCLES = [0.125, 0.25, 0.5, 0.75] as const;
+
+/** Maximum value of the 11-bit pulse/triangle timers */
+const MAX_TIMER = 0x7ff;
+/** Pulse timers below 8 silence the channel on hardware */
+const MIN_PULSE_TIMER = 8;
+/** Length counter index 1 (254 frames); irrelevant while the halt flag is set */
+const LENGTH_LOAD = 0x08;
+/** Sweep disabled with negate set so low notes are never muted by overflow */
+const SWEEP_DISABLED = 0x08;
+/** Unrepresentable events listed in the error message before truncating */
+const MAX_REPORTED_ISSUES = 10;
+
+const PULSE_BASE: Record<"square1" | "square2", number> = { square1: 0x4000, square2: 0x4004 };
+const TRIANGLE_LINEAR = 0x4008;
+const TRIANGLE_TIMER_LOW = 0x400a;
+const TRIANGLE_TIMER_HIGH = 0x400b;
+const NOISE_VOLUME = 0x400c;
+const NOISE_PERIOD = 0x400e;
+const NOISE_LENGTH = 0x400f;
+const APU_STATUS = 0x4015;
+
+/** Single APU register write on a frame */
+export interface ApuRegisterWrite {
+  frame: number;
+  /** CPU address ($4000–$4017) */
+  address: number;
+  value: number;
+}
+
+export interface ApuRegisterLog {
+  /** Frames per second of {@link ApuRegisterWrite.frame} */
+  frameRate: number;
+  /** Total length in frames */
+  frameCount: number;
+  /** Frame playback restarts from when looping (absent for one-shot logs) */
+  loopFrame?: number;
+  /** Writes ordered by frame, then issue order */
+  writes: ApuRegisterWrite[];
+}
+
+export interface ApuRegisterLogOptions {
+  /** Length of the log; defaults to the last event */
+  durationSeconds?: number;
+  /** Loop restart point in seconds */
+  loopStartSeconds?: number;
+  /**
+   * Rounds `detuneCents` into the note's timer and writes note slides and ramped
+   * `pitchBend`s as per-frame timer updates instead of rejecting them (default false)
+   */
+  approximatePitch?: boolean;
+}
+
+/** Pitch glide in progress (note slide or pitch-bend ramp), advanced once per frame */
+interface SlideState {
+  startFrame: number;
+  startFrequency: number;
+  targetFrequency: number;
+  frames: number;
+  /** Cubic ease-in like the offline renderer's exponential curve */
+  exponential: boolean;
+}
+
+interface PulseState {
+  duty: number;
+  volume: number;
+  /** Volume of the sounding note before `volume` envelope steps */
+  noteVolume: number;
+  timer: number | null;
+  /** Frequency the timer was derived from; glides start here */
+  frequency: number | null;
+  sweepEnabled: boolean;
+  slide: SlideState | null;
+}
+
+interface NoiseState {
+  level: number;
+  stepPerFrame: number;
+  /** Level of the sounding note; 0 once it is released */
+  noteLevel: number;
+}
+
+/**
+ * Converts chip events into a 60 Hz APU register-write log.
+ *
+ * @param events Events from a composition or sound effect (seconds)
+ * @param options Log length, loop point and pitch approximation
+ * @returns Register writes per frame
+ * @throws Error listing every event that cannot be represented on the APU
+ */
+export function eventsToApuLog(
+  events: PlaybackEvent[],
+  options: ApuRegisterLogOptions = {}
+): ApuRegisterLog {
+  const sorted = events
+    .map((event, order) => ({ event, order }))
+    .sort((a, b) => a.event.time - b.event.time || a.order - b.order)
+    .map(({ event }) => event);
+  const frameOf = (seconds: number) => Math.max(0, Math.round(seconds * APU_FRAME_RATE));
+  const lastEventFrame = sorted.length ? frameOf(sorted[sorted.length - 1]!.time) : 0;
+  const frameCount = Math.max(
+    lastEventFrame + 1,
+    options.durationSeconds !== undefined ? Math.ceil(options.durationSeconds * APU_FRAME_RATE) : 0
+  );
+
+  const writes: ApuRegisterWrite[] = [];
+  const shadow = new Map<number, number>();
+  let frame = 0;
+  /** Always emits; used for registers with side effects ($4001/$4003/$400B/$400F/$4015) */
+  const write = (address: number, value: number) => {
+    writes.push({ frame, address, value: value & 0xff });
+    shadow.set(address, value & 0xff);
+  };
+  /** Emits only when the register value changes */
+  const update = (address: number, value: number) => {
+    if (shadow.get(address) !== (value & 0xff)) write(address, value);
+  };
+
+  const issues: string[] = [];
+  const reject = (event: PlaybackEvent, reason: string) =>
+    issues.push(`${event.channel} ${event.command} at ${event.time.toFixed(3)}s: ${reason}`);
+
+  const pulses: Record<"square1" | "square2", PulseState> = {
+    square1: { duty: 2, volume: 0, noteVolume: 0, timer: null, frequency: null, sweepEnabled: false, slide: null },
+    square2: { duty: 2, volume: 0, noteVolume: 0, timer: null, frequency: null, sweepEnabled: false, slide: null }
+  };
+  const triangle = {
+    active: false,
+    muted: false,
+    timer: null as number | null,
+    frequency: null as number | null,
+    slide: null as SlideState | null
+  };
+  const noise: NoiseState = { level: 0, stepPerFrame: 0, noteLevel: 0 };
+
+  const writePulseControl = (channel: "square1" | "square2") => {
+    const state = pulses[channel];
+    update(PULSE_BASE[channel], (state.duty << 6) | 0x30 | state.volume);
+  };
+  const writeTimer = (lowAddress: number, highAddress: number, timer: number, previous: number | null, restart: boolean) => {
+    update(lowAddress, timer & 0xff);
+    if (restart || previous === null || previous >> 8 !== timer >> 8) {
+      write(highAddress, LENGTH_LOAD | (timer >> 8));
+    }
+  };
+
+  // Power-on state: all channels enabled and silent
+  write(APU_STATUS, 0x0f);
+  for (const channel of ["square1", "square2"] as const) {
+    writePulseControl(channel);
+    write(PULSE_BASE[channel] + 1, SWEEP_DISABLED);
+  }
+  update(TRIANGLE_LINEAR, 0x80);
+  update(NOISE_VOLUME, 0x30);
+
+  let cursor = 0;
+  for (frame = 0; frame < frameCount; frame++) {
+    while (cursor < sorted.length && frameOf(sorted[cursor]!.time) === frame) {
+      const event = sorted[cursor++]!;
+      const data = (event.data ?? {}) as Record<string, unknown>;
+      switch (event.channel) {
+        case "square1":
+        case "square2":
+          applyPulseEvent(event, data, event.channel);
+          break;
+        case "triangle":
+          applyTriangleEvent(event, data);
+          break;
+        case "noise":
+          applyNoiseEvent(event, data);
+          break;
+      }
+    }
+    for (const channel of ["square1", "square2"] as const) {
+      const state = pulses[channel];
+      if (!state.slide) continue;
+      // Both ends were range-checked, so every step in between fits the timer
+      state.frequency = slideFrequency(state.slide);
+      const timer = pulseTimerFor(state.frequency);
+      writeTimer(PULSE_BASE[channel] + 2, PULSE_BASE[channel] + 3, timer, state.timer, false);
+      state.timer = timer;
+      if (frame - state.slide.startFrame >= state.slide.frames) state.slide = null;
+    }
+    if (triangle.slide) {
+      triangle.frequency = slideFrequency(triangle.slide);
+      const timer = triangleTimerFor(triangle.frequency);
+      writeTimer(TRIANGLE_TIMER_LOW, TRIANGLE_TIMER_HIGH, timer, triangle.timer, false);
+      triangle.timer = timer;
+      if (frame - triangle.slide.startFrame >= triangle.slide.frames) triangle.slide = null;
+    }
+    update(NOISE_VOLUME, 0x30 | Math.round(noise.level * 15));
+    noise.level = Math.max(0, noise.level - noise.stepPerFrame);
+  }
+
+  if (issues.length > 0) {
+    const listed = issues.slice(0, MAX_REPORTED_ISSUES).map((issue) => `  - ${issue}`);
+    if (issues.length > MAX_REPORTED_ISSUES) {
+      listed.push(`  ...and ${issues.length - MAX_REPORTED_ISSUES} more`);
+    }
+    throw new Error(
+      `Cannot export to APU registers: ${issues.length} event(s) are not representable exactly:\n${listed.join("\n")}`
+    );
+  }
+
+  const loopFrame =
+    options.loopStartSeconds !== undefined
+      ? Math.min(frameCount - 1, frameOf(options.loopStartSeconds))
+      : undefined;
+  return { frameRate: APU_FRAME_RATE, frameCount, loopFrame, writes };
+
+  function applyPulseEvent(event: PlaybackEvent, data: Record<string, unknown>, channel: "square1" | "square2") {
+    const state = pulses[channel];
+    const base = PULSE_BASE[channel];
+    if (event.command === "noteOn") {
+      if (!checkPitchData(event, data)) return;
+      if (data.duty !== undefined) {
+        const duty = resolveDuty(event, data.duty);
+        if (duty === null) return;
+        state.duty = duty;
+      }
+      const frequency = noteFrequency(data);
+      const timer = pulseTimer(event, frequency, `MIDI note ${Number(data.midi ?? 60)}`);
+      if (timer === null) return;
+      const slide = state.sweepEnabled ? null : noteSlide(event, data, frequency, pulseTimer);
+      if (slide === undefined) return;
+      state.volume = velocityToVolume(data.velocity);
+      state.noteVolume = state.volume;
+      writePulseControl(channel);
+      writeTimer(base + 2, base + 3, timer, state.timer, true);
+      state.timer = timer;
+      state.frequency = frequency;
+      state.slide = slide;
+      return;
+    }
+    if (event.command === "noteOff") {
+      state.volume = 0;
+      state.noteVolume = 0;
+      state.slide = null;
+      writePulseControl(channel);
+      if (state.sweepEnabled) {
+        write(base + 1, SWEEP_DISABLED);
+        state.sweepEnabled = false;
+      }
+      return;
+    }
+    if (data.param === "duty") {
+      const duty = resolveDuty(event, data.value);
+      if (duty === null) return;
+      state.duty = duty;
+      writePulseControl(channel);
+    } else if (data.param === "volume" && typeof data.value === "number") {
+      state.volume = Math.round(state.noteVolume * Math.min(1, Math.max(0, data.value)));
+      writePulseControl(channel);
+    } else if (data.param === "sweep") {
+      if (data.enabled === false) {
+        write(base + 1, SWEEP_DISABLED);
+        state.sweepEnabled = false;
+        return;
+      }
+      const period = typeof data.period === "number" ? data.period : 0;
+      const shift = typeof data.shift === "number" ? data.shift : 0;
+      if (!isRegisterField(period, 7) || !isRegisterField(shift, 7)) {
+        reject(event, `sweep period ${period} / shift ${shift} must be integers in 0-7`);
+        return;
+      }
+      write(base + 1, 0x80 | (period << 4) | (data.negate === true ? 0x08 : 0) | shift);
+      state.sweepEnabled = true;
+      state.slide = null;
+    } else if (data.param === "pitchBend" && typeof data.value === "number" && !state.sweepEnabled) {
+      if (!checkPitchBend(event, data)) return;
+      const frequency = midiToFrequency(data.value);
+      const timer = pulseTimer(event, frequency, `MIDI note ${data.value}`);
+      if (timer === null) return;
+      state.slide = bendRamp(data, state.frequency, frequency);
+      if (!state.slide) {
+        writeTimer(base + 2, base + 3, timer, state.timer, false);
+        state.timer = timer;
+        state.frequency = frequency;
+      }
+    }
+  }
+
+  function applyTriangleEvent(event: PlaybackEvent, data: Record<string, unknown>) {
+    if (event.command === "noteOn") {
+      if (!checkPitchData(event, data)) return;
+      const frequency = noteFrequency(data);
+      const timer = triangleTimer(event, frequency, `MIDI note ${Number(data.midi ?? 60)}`);
+      if (timer === null) return;
+      const slide = noteSlide(event, data, frequency, triangleTimer);
+      if (slide === undefined) return;
+      triangle.active = true;
+      triangle.muted = false;
+      update(TRIANGLE_LINEAR, 0xff);
+      writeTimer(TRIANGLE_TIMER_LOW, TRIANGLE_TIMER_HIGH, timer, triangle.timer, true);
+      triangle.timer = timer;
+      triangle.frequency = frequency;
+      triangle.slide = slide;
+      return;
+    }
+    if (event.command === "noteOff") {
+      triangle.active = false;
+      triangle.slide = null;
+      update(TRIANGLE_LINEAR, 0x80);
+      return;
+    }
+    if (data.param === "gain" && typeof data.value === "number") {
+      // The triangle has no volume control: only silence is representable
+      triangle.muted = data.value <= 0;
+      update(TRIANGLE_LINEAR, triangle.active && !triangle.muted ? 0xff : 0x80);
+    } else if (data.param === "pitchBend" && typeof data.value === "number") {
+      if (!checkPitchBend(event, data)) return;
+      const frequency = midiToFrequency(data.value);
+      const timer = triangleTimer(event, frequency, `MIDI note ${data.value}`);
+      if (timer === null) return;
+      triangle.slide = bendRamp(data, triangle.frequency, frequency);
+      if (!triangle.slide) {
+        writeTimer(TRIANGLE_TIMER_LOW, TRIANGLE_TIMER_HIGH, timer, triangle.timer, false);
+        triangle.timer = timer;
+        triangle.frequency = frequency;
+      }
+    }
+  }
+
+  function applyNoiseEvent(event: PlaybackEvent, data: Record<string, unknown>) {
+    if (event.command === "noteOn") {
+      if (data.cutoffHz !== undefined) {
+        reject(event, `cutoffHz=${String(data.cutoffHz)} (the APU noise channel has no filter)`);
+        return;
+      }
+      const noiseData = mapNoiseData(data);
+      if (!isRegisterField(noiseData.periodIndex, NOISE_PERIOD_TABLE.length - 1)) {
+        reject(event, `periodIndex ${noiseData.periodIndex} is not an index into NOISE_PERIOD_TABLE`);
+        return;
+      }
+      update(NOISE_PERIOD, (noiseData.mode === "short" ? 0x80 : 0) | noiseData.periodIndex);
+      write(NOISE_LENGTH, LENGTH_LOAD);
+      noise.level = noiseData.amplitude;
+      noise.noteLevel = noiseData.amplitude;
+      noise.stepPerFrame = noiseData.amplitude / Math.max(1, noiseData.decaySeconds * APU_FRAME_RATE);
+      return;
+    }
+    if (event.command === "noteOff") {
+      const releaseSeconds = Math.max(0.001, Number(data.releaseSeconds ?? 0.03));
+      noise.stepPerFrame = noise.level / Math.max(1, releaseSeconds * APU_FRAME_RATE);
+      noise.noteLevel = 0;
+      return;
+    }
+    if (data.param === "volume" && typeof data.value === "number") {
+      if (noise.noteLevel > 0) {
+        noise.level = noise.noteLevel * Math.min(1, Math.max(0, data.value));
+        noise.stepPerFrame = 0;
+      }
+      return;
+    }
+    if (data.param === "mode" && typeof data.value === "string") {
+      const current = shadow.get(NOISE_PERIOD) ?? 0;
+      update(NOISE_PERIOD, (data.value === "short" ? 0x80 : 0) | (current & 0x0f));
+    } else if (data.param === "periodIndex") {
+      const periodIndex = Number(data.value);
+      if (!isRegisterField(periodIndex, NOISE_PERIOD_TABLE.length - 1)) {
+        reject(event, `periodIndex ${String(data.value)} is not an index into NOISE_PERIOD_TABLE`);
+        return;
+      }
+      const current = shadow.get(NOISE_PERIOD) ?? 0;
+      update(NOISE_PERIOD, (current & 0x80) | periodIndex);
+    }
+  }
+
+  function checkPitchData(event: PlaybackEvent, data: Record<string, unknown>): boolean {
+    if (options.approximatePitch) return true;
+    if (typeof data.detuneCents === "number" && data.detuneCents !== 0) {
+      reject(event, `detuneCents=${data.detuneCents} (timer periods are tuned per note)`);
+      return false;
+    }
+    if (data.slide) {
+      reject(event, "slide (pitch ramps need driver-side timer updates)");
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Linear glide from the note's frequency to its slide target; null without a slide,
+   * undefined when the target is outside the timer range.
+   */
+  function noteSlide(
+    event: PlaybackEvent,
+    data: Record<string, unknown>,
+    frequency: number,
+    timerFor: (event: PlaybackEvent, frequency: number, pitch: string) => number | null
+  ): SlideState | null | undefined {
+    const slide = mapPitchData(data).slide;
+    if (!slide) return null;
+    if (timerFor(event, slide.targetFrequency, `slide target ${slide.targetFrequency.toFixed(1)} Hz`) === null) {
+      return undefined;
+    }
+    return startGlide(frequency, slide.targetFrequency, slide.durationSeconds, false);
+  }
+
+  /** Glide of a ramped pitch bend from the sounding frequency; null for an immediate bend */
+  function bendRamp(data: Record<string, unknown>, from: number | null, to: number): SlideState | null {
+    const rampDuration = Number(data.rampDuration ?? 0);
+    if (rampDuration <= 0 || from === null) return null;
+    return startGlide(from, to, rampDuration, data.curve === "exponential");
+  }
+
+  function startGlide(from: number, to: number, durationSeconds: number, exponential: boolean): SlideState {
+    return {
+      startFrame: frame,
+      startFrequency: from,
+      targetFrequency: to,
+      frames: Math.max(1, Math.round(durationSeconds * APU_FRAME_RATE)),
+      exponential
+    };
+  }
+
+  function slideFrequency(slide: SlideState): number {
+    const ratio = Math.min(1, (frame - slide.startFrame) / slide.frames);
+    const curved = slide.exponential ? ratio * ratio * ratio : ratio;
+    return slide.startFrequency + (slide.targetFrequency - slide.startFrequency) * curved;
+  }
+
+  function checkPitchBend(event: PlaybackEvent, data: Record<string, unknown>): boolean {
+    const rampDuration = Number(data.rampDuration ?? 0);
+    if (rampDuration > 0 && !options.approximatePitch) {
+      reject(event, `pitchBend ramp (${String(data.curve ?? "linear")} curve over ${rampDuration}s)`);
+      return false;
+    }
+    if (typeof data.value === "number" && data.value <= 0) {
+      reject(event, "pitchBend to silence");
+      return false;
+    }
+    return true;
+  }
+
+  function resolveDuty(event: PlaybackEvent, value: unknown): number | null {
+    const index = APU_DUTY_CYCLES.findIndex((duty) => Math.abs(duty - Number(value)) < 1e-6);
+    if (index < 0) {
+      reject(event, `duty ${String(value)} (hardware supports ${APU_DUTY_CYCLES.join(", ")})`);
+      return null;
+    }
+    return index;
+  }
+
+  function pulseTimer(event: PlaybackEvent, frequency: number, pitch: string): number | null {
+    const timer = pulseTimerFor(frequency);
+    if (timer < MIN_PULSE_TIMER || timer > MAX_TIMER) {
+      reject(event, `${pitch} is outside the pulse timer range`);
+      return null;
+    }
+    return timer;
+  }
+
+  function triangleTimer(event: PlaybackEvent, frequency: number, pitch: string): number | null {
+    const timer = triangleTimerFor(frequency);
+    if (timer < 0 || timer > MAX_TIMER) {
+      reject(event, `${pitch} is outside the triangle timer range`);
+      return null;
+    }
+    return timer;
+  }
+}
+
+/** Frequency of a pitched note with its detune (only accepted when approximating) applied */
+function noteFrequency(data: Record<string, unknown>): number {
+  const pitch = mapPitchData(data);
+  return pitch.frequency * Math.pow(2, pitch.detuneCents / 1200);
+}
+
+function pulseTimerFor(frequency: number): number {
+  return Math.round(CHIP_BASE_CLOCK / (16 * frequency)) - 1;
+}
+
+function triangleTimerFor(frequency: number): number {
+  return Math.round(CHIP_BASE_CLOCK / (32 * frequency)) - 1;
+}
+
+/** Maps MIDI velocity onto the 4-bit constant volume (audible notes never reach 0). */
+function velocityToVolume(velocity: unknown): number {
+  const value = typeof velocity === "number" ? velocity : 100;
+  if (value <= 0) return 0;
+  return Math.max(1, Math.min(15, Math.round((value / 127) * 15)));
+}
+
+function isRegisterField(value: number, max: number): boolean {
+  return Number.isInteger(value) && value >= 0 && value <= max;
+}
@@ -0,0 +1,84 @@
+/**
+ * VGM serialization of APU register logs.
+ *
+ * Writes a VGM 1.61 file using the NES APU write command (0xB4) and one
+ * 1/60-second wait (0x62) per frame, so emulators and hardware players replay
+ * the exact register sequence.
+ */
+
+import type { PipelineResult } from "../types.js";
+import { CHIP_BASE_CLOCK } from "../playback/chip-core.js";
+import { eventsToApuLog, type ApuRegisterLog, type ApuRegisterLogOptions } from "./register-log.js";
+
+const VGM_VERSION = 0x161;
+const VGM_HEADER_SIZE = 0xc0;
+const VGM_SAMPLE_RATE = 44_100;
+const CMD_NES_APU_WRITE = 0xb4;
+const CMD_WAIT_60TH = 0x62;
+const CMD_END = 0x66;
+
+/**
+ * Serializes a register log as a VGM file.
+ *
+ * @param log 60 Hz log from {@link eventsToApuLog}
+ * @returns VGM bytes (loop point taken from `log.loopFrame`)
+ * @throws Error when the log is not at 60 frames per second
+ */
+export function encodeVgm(log: ApuRegisterLog): Uint8Array {
+  if (log.frameRate !== 60) {
+    throw new Error(`VGM export requires a 60 Hz register log (got ${log.frameRate} Hz)`);
+  }
+  const samplesPerFrame = VGM_SAMPLE_RATE / log.frameRate;
+  const body: number[] = [];
+  let loopOffset: number | null = null;
+  let cursor = 0;
+  for (let frame = 0; frame < log.frameCount; frame++) {
+    if (frame === log.loopFrame) {
+      loopOffset = VGM_HEADER_SIZE + body.length;
+    }
+    while (cursor < log.writes.length && log.writes[cursor]!.frame === frame) {
+      const { address, value } = log.writes[cursor++]!;
+      body.push(CMD_NES_APU_WRITE, address - 0x4000, value);
+    }
+    body.push(CMD_WAIT_60TH);
+  }
+  body.push(CMD_END);
+
+  const output = new Uint8Array(VGM_HEADER_SIZE + body.length);
+  const view = new DataView(output.buffer);
+  output.set([0x56, 0x67, 0x6d, 0x20], 0); // "Vgm "
+  view.setUint32(0x04, output.length - 0x04, true);
+  view.setUint32(0x08, VGM_VERSION, true);
+  view.setUint32(0x18, log.frameCount * samplesPerFrame, true);
+  if (loopOffset !== null) {
+    view.setUint32(0x1c, loopOffset - 0x1c, true);
+    view.setUint32(0x20, (log.frameCount - log.loopFrame!) * samplesPerFrame, true);
+  }
+  view.setUint32(0x24, log.frameRate, true);
+  view.setUint32(0x34, VGM_HEADER_SIZE - 0x34, true);
+  view.setUint32(0x84, CHIP_BASE_CLOCK, true);
+  output.set(body, VGM_HEADER_SIZE);
+  return output;
+}
+
+/**
+ * Exports a composition as a VGM file that loops unless the composition is a one-shot.
+ *
+ * @param result Pipeline result from {@link generateComposition}
+ * @param options Pitch approximation (see {@link ApuRegisterLogOptions.approximatePitch})
+ * @returns VGM bytes
+ * @throws Error when an event cannot be represented on the APU (see {@link eventsToApuLog})
+ */
+export function exportCompositionToVgm(
+  result: PipelineResult,
+  options: Pick<ApuRegisterLogOptions, "approximatePitch"> = {}
+): Uint8Array {
+  const { loopInfo, form } = result.meta;
+  return encodeVgm(
+    eventsToApuLog(result.events, {
+      durationSeconds: loopInfo.totalDuration,
+      loopStartSeconds: form === "oneShot" ? undefined : loopInfo.loopStartTime,
+      approximatePitch: options.approximatePitch
+    })
+  );
+}
@@ -0,0 +1,45 @@
+import type { PipelineResult, TheoryNoteDiagnostic } from "./types.js";
+
+/** Penalties per issue and the weight of melodic variety in {@link scoreComposition} */
+const SCORE_WEIGHTS = {
+  theoryError: 10,
+  theoryWarning: 1,
+  motifFallback: 2,
+  loopProblem: 5,
+  melodicVariety: 20
+};
+
+/**
+ * Default quality score used by {@link generateBest}.
+ *
+ * Starts at 100 and subtracts 10 per theory-audit error, 1 per warning, 2 per motif
+ * candidate-pool fallback and 5 per loop integrity problem (unmatched note-ons or
+ * note-offs, releases past the loop end), then adds up to 20 for melodic variety: distinct
+ * melody pitches (out of 12) and distinct melodic intervals (out of 8), averaged. Scores
+ * are meant for comparing candidates of one request, not songs of different lengths.
+ */
+export function scoreComposition(result: PipelineResult): number {
+  const { theoryAudit, motifSelection, loopIntegrity } = result.diagnostics;
+  const loopProblems =
+    loopIntegrity.unmatchedNoteOnCount + loopIntegrity.unmatchedNoteOffCount + loopIntegrity.lateReleaseCount;
+  const score =
+    100 -
+    SCORE_WEIGHTS.theoryError * theoryAudit.errors.length -
+    SCORE_WEIGHTS.theoryWarning * theoryAudit.warnings.length -
+    SCORE_WEIGHTS.motifFallback * motifSelection.fallbackCount -
+    SCORE_WEIGHTS.loopProblem * loopProblems +
+    SCORE_WEIGHTS.melodicVariety * melodicVariety(theoryAudit.notes);
+  return Number(score.toFixed(6));
+}
+
+/** 0 for a single repeated pitch, 1 for a melody using 12 pitches and 8 interval sizes */
+function melodicVariety(notes: TheoryNoteDiagnostic[]): number {
+  const melody = notes.filter((note) => note.role === "melody");
+  if (!melody.length) return 0;
+  const pitches = new Set(melody.map((note) => note.midi));
+  const intervals = new Set<number>();
+  for (let index = 1; index < melody.length; index++) {
+    intervals.add(Math.abs(melody[index].midi - melody[index - 1].midi));
+  }
+  return (Math.min(1, pitches.size / 12) + Math.min(1, intervals.size / 8)) / 2;
+}
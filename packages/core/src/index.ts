@@ -1,23 +1,100 @@
-export { generateComposition, runPipeline } from "./pipeline.js";
+export {
+  generateComposition,
+  runPipeline,
+  remixComposition,
+  runRemixPipeline,
+  generateBest,
+  runBestPipeline
+} from "./pipeline.js";
+export { scoreComposition } from "./composition-score.js";
 export { DEFAULT_SECTION_REPEAT_BIAS } from "./types.js";
 export { SEGenerator } from "./se/seGenerator.js";
+export { JingleGenerator } from "./jingle/jingleGenerator.js";
 export { AlgoChipSynthesizer } from "./playback/synthesizer.js";
-export type { SynthPlayOptions } from "./playback/synthesizer.js";
+export type { SynthPlayOptions, SynthEventFilter } from "./playback/synthesizer.js";
+export { createTransitionFill } from "./playback/transition-fill.js";
+export type { TransitionFill, TransitionFillOptions } from "./playback/transition-fill.js";
+export { validateMotifLibraries } from "./motif-library.js";
+export { beatToSeconds, secondsToBeat, tempoAtBeat, steadyTempoMap } from "./tempo-map.js";
+export {
+  renderEventsToPcm,
+  renderCompositionToWav,
+  encodeWav
+} from "./playback/offline-renderer.js";
+export type { OfflineRenderOptions } from "./playback/offline-renderer.js";
+export { exportCompositionToMidi } from "./midi/smf-export.js";
+export type { MidiExportOptions } from "./midi/smf-export.js";
+export { importMidiToEvents, GM_DRUM_PRESETS } from "./midi/smf-import.js";
+export type {
+  MidiChannelRule,
+  MidiImportOptions,
+  MidiImportDiagnostics,
+  MidiImportResult,
+  MidiDropReason
+} from "./midi/smf-import.js";
+export { eventsToApuLog, APU_FRAME_RATE, APU_DUTY_CYCLES } from "./apu/register-log.js";
+export type { ApuRegisterLog, ApuRegisterWrite, ApuRegisterLogOptions } from "./apu/register-log.js";
+export { encodeVgm, exportCompositionToVgm } from "./apu/vgm.js";
+export { encodeNsf, exportCompositionToNsf } from "./apu/nsf.js";
+export type { NsfExportOptions } from "./apu/nsf.js";
 export type {
   CompositionOptions,
+  CustomHook,
   PipelineResult,
+  BestOfOptions,
+  BestOfDiagnostics,
+  CompositionScorer,
   Event,
   Channel,
   Command,
   TwoAxisStyle,
+  TimeSignature,
+  CompositionForm,
+  MusicalKey,
+  KeyTonic,
+  KeyModulation,
+  TempoChange,
+  TempoSegment,
   StyleOverrides,
+  MotifLibraries,
+  MotifLibraryMode,
+  ChordLibrary,
+  RhythmMotif,
+  RhythmPatternStep,
+  MelodyFragment,
+  MelodyRhythmMotif,
+  MelodyRhythmStep,
+  DrumPattern,
+  BassPatternMotif,
+  TransitionMotif,
+  Voice,
+  VoiceRole,
+  VoiceArrangement,
   NoteOnEventData,
   NoteOffEventData,
-  SetParamEventData
+  SetParamEventData,
+  TheoryAuditOptions,
+  TheoryAuditRule,
+  TheoryRuleContext,
+  TheoryRuleFinding,
+  TheoryNoteDiagnostic,
+  TheoryIssueDiagnostic,
+  TheoryIssueSeverity
 } from "./types.js";
 export type {
+  BuiltInSEType,
+  PitchRange,
   SEGenerationOptions,
   SEGenerationResult,
+  SEGeneratorOptions,
+  SESynthParams,
+  SETemplate,
   SETemplateTag,
   SEType
 } from "./se/seTypes.js";
+export type {
+  JingleChord,
+  JingleGenerationOptions,
+  JingleGenerationResult,
+  JingleType
+} from "./jingle/jingleTypes.js";
@@ -0,0 +1,557 @@
+/**
+ * Jingle Generation
+ *
+ * Composes short stingers (victory fanfare, game over, item get, level start) from the
+ * same motif libraries as BGM, so a jingle can follow the track that was playing.
+ *
+ * ## Phrase Shape
+ *
+ * Every jingle is one phrase in 4/4, counted in beats:
+ * - **Body** (4 beats): a melody fragment on a melody rhythm over two chords taken from a
+ *   `chords.json` progression with the type's mood tags
+ * - **Cadence** (2 beats): the approach chord of the type's cadence, with the last notes of a
+ *   cadence-tagged fragment snapped to it
+ * - **Hold**: the arrival chord, sustained on every pitched channel
+ *
+ * Cadences are fixed per type rather than left to the progression, because the closing
+ * gesture is what makes a jingle read as "won", "lost" or "go":
+ * - fanfare / itemGet: authentic (V7 → I), melody lands on the tonic
+ * - defeat: plagal (iv → i), melody lands on the tonic
+ * - levelStart: half (IV → V), melody stays on a dominant chord tone
+ *
+ * ## Tempo
+ *
+ * Jingles follow the requested (or matched) tempo but must stay between 2 and 6 seconds.
+ * A matched composition's tempo and key are read at `matchBeat`, after its tempo changes
+ * and modulations up to that beat.
+ * A phrase that would run longer is counted in double time, and a shorter one in half time,
+ * which keeps it on the composition's beat grid.
+ *
+ * ## Voices
+ *
+ * - square1: lead melody
+ * - square2: chord tones below the lead, as stabs, 16th arpeggios or sustained notes
+ * - triangle: bass line from `bass-patterns.json` in eighth notes
+ * - noise: a transition fill leading into the final chord (fanfare and levelStart)
+ */
+
+import type { BassPatternMotif, Channel, Event, MelodyFragment, MelodyRhythmMotif, PipelineResult } from "../types.js";
+import type { JingleChord, JingleGenerationOptions, JingleGenerationResult, JingleType } from "./jingleTypes.js";
+import {
+  bassPatternList,
+  chordLibrary,
+  expandMelodyRhythmPattern,
+  melodyList,
+  melodyRhythmList
+} from "../motif-library.js";
+import {
+  chordRootToMidi,
+  getChordIntervals,
+  METER_PROFILES,
+  motifMeterTag,
+  parseKey,
+  quantizeMidiToChord,
+  scaleDegreeToMidi,
+  transposeKey
+} from "../musicUtils.js";
+import { parseSectionStructure, resolveKeyChords, transposeChord } from "../phase/structure-planning.js";
+import { bassStepToMidi } from "../phase/motif-selection.js";
+import { createTransitionFill } from "../playback/transition-fill.js";
+import { assertBpm, tempoAtBeat } from "../tempo-map.js";
+
+type HarmonyStyle = "stab" | "arpeggio" | "sustain";
+
+interface JingleProfile {
+  mode: "major" | "minor";
+  bpm: number;
+  /** Beats of the arrival chord after the cadence */
+  holdBeats: number;
+  cadence: "authentic" | "plagal" | "half";
+  progressionTags: string[];
+  /** Melody fragments must carry the first tag and prefer the rest */
+  melodyTags: string[];
+  rhythmTags: string[];
+  harmony: HarmonyStyle;
+  bassTexture: BassPatternMotif["texture"];
+  bassTags?: string[];
+  /** Transition fill tags; no fill when omitted */
+  fillTags?: string[];
+  /** Duty cycles of square1 and square2 */
+  duty: [number, number];
+}
+
+const JINGLE_PROFILES: Record<JingleType, JingleProfile> = {
+  fanfare: {
+    mode: "major",
+    bpm: 150,
+    holdBeats: 4,
+    cadence: "authentic",
+    progressionTags: ["heroic_fanfare", "triumph", "heroic"],
+    melodyTags: ["ascending", "heroic", "bright"],
+    rhythmTags: ["drive", "start"],
+    harmony: "stab",
+    bassTexture: "steady",
+    fillTags: ["build"],
+    duty: [0.5, 0.25]
+  },
+  defeat: {
+    mode: "minor",
+    bpm: 100,
+    holdBeats: 3,
+    cadence: "plagal",
+    progressionTags: ["ending_sorrowful", "sorrowful_deep", "melancholy"],
+    melodyTags: ["descending", "melancholic", "dark"],
+    rhythmTags: ["legato", "end"],
+    harmony: "sustain",
+    bassTexture: "steady",
+    bassTags: ["rest_heavy"],
+    duty: [0.5, 0.5]
+  },
+  itemGet: {
+    mode: "major",
+    bpm: 180,
+    holdBeats: 2,
+    cadence: "authentic",
+    progressionTags: ["playful", "overworld_bright", "simple"],
+    melodyTags: ["arpeggio", "bright"],
+    rhythmTags: ["staccato", "drive"],
+    harmony: "arpeggio",
+    bassTexture: "arpeggio",
+    duty: [0.125, 0.25]
+  },
+  levelStart: {
+    mode: "major",
+    bpm: 140,
+    holdBeats: 4,
+    cadence: "half",
+    progressionTags: ["adventure", "adventure_bright", "overworld_bright", "heroic_fanfare"],
+    melodyTags: ["ascending", "start", "bright"],
+    rhythmTags: ["start", "drive"],
+    harmony: "stab",
+    bassTexture: "broken",
+    fillTags: ["drum_fill"],
+    duty: [0.25, 0.5]
+  }
+};
+
+const BODY_BEATS = 4;
+const CADENCE_BEATS = 2;
+const MIN_JINGLE_SECONDS = 2;
+const MAX_JINGLE_SECONDS = 6;
+
+const LEAD_VELOCITY = 100;
+const HARMONY_VELOCITY = 72;
+const BASS_VELOCITY = 108;
+
+/**
+ * Key and tempo of a composition at a beat.
+ *
+ * Beats past the end wrap into the loop (one-shots hold their last section), and the key
+ * follows the composition's `modulations`, each of which holds until the next one.
+ *
+ * @throws Error when the beat is negative or not a number
+ */
+function resolveMatch(meta: PipelineResult["meta"], matchBeat: number): { key: string; bpm: number } {
+  if (typeof matchBeat !== "number" || !Number.isFinite(matchBeat) || matchBeat < 0) {
+    throw new Error(`Invalid matchBeat ${JSON.stringify(matchBeat)} for jingle; expected a non-negative number`);
+  }
+  const loop = meta.loopInfo;
+  let beat = matchBeat;
+  const lapBeats = loop ? loop.totalBeats - loop.loopStartBeat : 0;
+  if (loop && meta.form !== "oneShot" && lapBeats > 0 && beat >= loop.totalBeats) {
+    beat = loop.loopStartBeat + ((beat - loop.loopStartBeat) % lapBeats);
+  }
+  const bpm = meta.tempoMap?.length ? tempoAtBeat(meta.tempoMap, beat) : meta.bpm;
+
+  const modulations = meta.replayOptions?.modulations ?? [];
+  if (!modulations.length || !meta.sectionPattern) {
+    return { key: meta.key, bpm };
+  }
+  const measure = Math.floor(beat / (meta.beatsPerMeasure || 4));
+  const sections = parseSectionStructure(meta.sectionPattern);
+  let sectionIndex = sections.length - 1;
+  let start = 0;
+  for (let index = 0; index < sections.length; index++) {
+    start += sections[index].measures;
+    if (measure < start) {
+      sectionIndex = index;
+      break;
+    }
+  }
+  const offset = modulations
+    .filter((modulation) => modulation.section <= sectionIndex)
+    .reduce((latest, modulation) => (modulation.section >= latest.section ? modulation : latest), { section: -1, semitones: 0 });
+  return { key: transposeKey(meta.key, offset.semitones), bpm };
+}
+
+/**
+ * Seeded random number generator (LCG), the same algorithm as SE generation.
+ */
+function seedRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  if (state === 0) {
+    state = 1;
+  }
+  return () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return state / 0xffffffff;
+  };
+}
+
+export class JingleGenerator {
+  /**
+   * Generates a jingle.
+   *
+   * The generation process:
+   * 1. Resolve key and tempo (explicit, matched to a composition, or seeded)
+   * 2. Pick a progression, melody fragment, rhythm and bass pattern for the type
+   * 3. Lay out body, cadence and hold on the four channels
+   * 4. Return events + metadata, with `match` resolved into `key` and `bpm` for replay
+   *
+   * @param options - Jingle type and optional seed, key, tempo or composition to match
+   * @returns Jingle result with events, metadata, and replay options
+   * @throws Error when the type is unknown or the key or tempo is invalid
+   */
+  generateJingle(options: JingleGenerationOptions): JingleGenerationResult {
+    const profile = JINGLE_PROFILES[options.type];
+    if (!profile) {
+      throw new Error(
+        `Unknown jingle type ${JSON.stringify(options.type)}; expected one of ${Object.keys(JINGLE_PROFILES).join(", ")}`
+      );
+    }
+    const seed = options.seed ?? Math.floor(Math.random() * 1e9);
+    const rng = seedRandom(seed);
+    const startTime = options.startTime ?? 0.0;
+    const velocityScale = options.velocityScale ?? 1;
+
+    const matched = options.match ? resolveMatch(options.match.meta, options.matchBeat ?? 0) : undefined;
+    const key = this.resolveKey(options, profile, seed, matched?.key);
+    const bpm = options.bpm ?? matched?.bpm ?? profile.bpm;
+    assertBpm(bpm, "jingle");
+
+    const phraseBeats = BODY_BEATS + CADENCE_BEATS + profile.holdBeats;
+    let pulse = 1;
+    while (phraseBeats * pulse * (60 / bpm) > MAX_JINGLE_SECONDS) pulse /= 2;
+    while (phraseBeats * pulse * (60 / bpm) < MIN_JINGLE_SECONDS) pulse *= 2;
+    const secondsPerBeat = pulse * (60 / bpm);
+
+    const chords = this.planChords(key, profile, rng);
+    const melody = this.pickMelody(profile, rng);
+    const cadenceMelody = pick(melodyList.filter((fragment) => fragment.tags.includes("cadence")), rng);
+    const rhythm = pick(
+      preferTagged(
+        melodyRhythmList.filter((motif) => motif.length === BODY_BEATS && isCommonTime(motif.tags)),
+        profile.rhythmTags
+      ),
+      rng
+    );
+    const bassPattern = pick(
+      preferTagged(
+        bassPatternList.filter((pattern) => pattern.texture === profile.bassTexture && isCommonTime(pattern.tags)),
+        profile.bassTags ?? []
+      ),
+      rng
+    );
+
+    const notes: JingleNote[] = [];
+    const lead = this.writeLead(key, chords, melody, cadenceMelody, rhythm, profile);
+    notes.push(...lead.map((note) => ({ ...note, channel: "square1" as const, velocity: LEAD_VELOCITY })));
+    notes.push(...this.writeHarmony(chords, lead, profile));
+    notes.push(...this.writeBass(chords, bassPattern, profile));
+
+    const events: Event[] = [];
+    const toSeconds = (beat: number) => startTime + beat * secondsPerBeat;
+    profile.duty.forEach((value, index) => {
+      events.push({
+        time: startTime,
+        channel: index === 0 ? "square1" : "square2",
+        command: "setParam",
+        data: { param: "duty", value }
+      });
+    });
+    for (const note of notes) {
+      const velocity = Math.round(Math.max(1, Math.min(127, note.velocity * velocityScale)));
+      events.push({
+        time: toSeconds(note.startBeat),
+        channel: note.channel,
+        command: "noteOn",
+        data: { midi: note.midi, velocity }
+      });
+      events.push({
+        time: toSeconds(note.startBeat + note.durationBeats),
+        channel: note.channel,
+        command: "noteOff",
+        data: {}
+      });
+    }
+
+    let fillId: string | undefined;
+    if (profile.fillTags) {
+      const fill = createTransitionFill({ bpm: 60 / secondsPerBeat, tags: profile.fillTags, seed });
+      // Fills longer than body and cadence start with the jingle
+      const fillStart = toSeconds(Math.max(0, BODY_BEATS + CADENCE_BEATS - fill.lengthBeats));
+      fillId = fill.id;
+      for (const event of fill.events) {
+        events.push({
+          ...event,
+          time: fillStart + event.time,
+          data: event.command === "noteOn" ? { ...event.data, velocity: scaleVelocity(event.data.velocity, velocityScale) } : event.data
+        });
+      }
+    }
+
+    events.sort((a, b) => {
+      if (a.time !== b.time) return a.time - b.time;
+      return commandOrder(a) - commandOrder(b);
+    });
+
+    const channels: Channel[] = ["square1", "square2", "triangle"];
+    if (fillId) {
+      channels.push("noise");
+    }
+
+    const replayOptions: JingleGenerationOptions = {
+      type: options.type,
+      seed,
+      key,
+      bpm,
+      startTime
+    };
+    if (options.velocityScale !== undefined) {
+      replayOptions.velocityScale = options.velocityScale;
+    }
+
+    return {
+      events,
+      meta: {
+        type: options.type,
+        seed,
+        key,
+        bpm,
+        duration: phraseBeats * secondsPerBeat,
+        lengthBeats: phraseBeats * pulse,
+        chords: chords.map(({ chord, startBeat }) => ({ chord, startBeat: startBeat * pulse })),
+        melodyId: melody.id,
+        rhythmId: rhythm.id,
+        bassPatternId: bassPattern.id,
+        ...(fillId ? { fillId } : {}),
+        channels,
+        replayOptions
+      }
+    };
+  }
+
+  private resolveKey(
+    options: JingleGenerationOptions,
+    profile: JingleProfile,
+    seed: number,
+    matchedKey: string | undefined
+  ): string {
+    if (options.key !== undefined) {
+      parseKey(options.key);
+      return options.key;
+    }
+    const home = profile.mode === "major" ? "C_Major" : "C_Minor";
+    if (matchedKey) {
+      return transposeKey(home, parseKey(matchedKey).semitone);
+    }
+    // Straight from the seed: the first LCG draws of nearby seeds are nearly equal
+    const candidates = Object.keys(chordLibrary).filter((key) => parseKey(key).mode === profile.mode);
+    return candidates[Math.abs(Math.floor(seed)) % candidates.length];
+  }
+
+  /**
+   * Chords in two-beat slots: two from a tagged progression, then the cadence.
+   */
+  private planChords(key: string, profile: JingleProfile, rng: () => number): PlannedChord[] {
+    const byTag = resolveKeyChords(chordLibrary, key);
+    const tagged = profile.progressionTags.flatMap((tag) => byTag[tag] ?? []);
+    const progression = pick(tagged.length ? tagged : Object.values(byTag).flat(), rng);
+
+    const { tonic, mode, preferFlats } = parseKey(key);
+    const minor = mode === "minor" ? "m" : "";
+    const home = tonic + minor;
+    const subdominant = transposeChord(tonic, 5, preferFlats) + minor;
+    const dominant = transposeChord(tonic, 7, preferFlats);
+    const [approach, arrival] =
+      profile.cadence === "authentic"
+        ? [`${dominant}7`, home]
+        : profile.cadence === "plagal"
+          ? [subdominant, home]
+          : [subdominant, dominant];
+
+    return [
+      { chord: progression[0] ?? home, startBeat: 0, durationBeats: 2 },
+      { chord: progression[1] ?? progression[0] ?? home, startBeat: 2, durationBeats: 2 },
+      { chord: approach, startBeat: BODY_BEATS, durationBeats: CADENCE_BEATS },
+      { chord: arrival, startBeat: BODY_BEATS + CADENCE_BEATS, durationBeats: profile.holdBeats }
+    ];
+  }
+
+  private pickMelody(profile: JingleProfile, rng: () => number): MelodyFragment {
+    const [required, ...preferred] = profile.melodyTags;
+    const candidates = melodyList.filter((fragment) => fragment.tags.includes(required));
+    return pick(preferTagged(candidates, preferred), rng);
+  }
+
+  /**
+   * Lead line: the fragment's degrees on the rhythm's onsets, strong beats snapped to the
+   * chord; the last two cadence degrees over the approach chord; then the arrival note.
+   */
+  private writeLead(
+    key: string,
+    chords: PlannedChord[],
+    melody: MelodyFragment,
+    cadenceMelody: MelodyFragment,
+    rhythm: MelodyRhythmMotif,
+    profile: JingleProfile
+  ): PitchedNote[] {
+    const { semitone, mode } = parseKey(key);
+    const scale = mode === "major" ? [0, 2, 4, 5, 7, 9, 11] : [0, 2, 3, 5, 7, 8, 10];
+    // Tonic within a tritone of C5, like the BGM melody register
+    const baseMidi = 72 + (semitone > 6 ? semitone - 12 : semitone);
+    const notes: PitchedNote[] = [];
+
+    let beat = 0;
+    let degreeIndex = 0;
+    for (const step of expandMelodyRhythmPattern(rhythm)) {
+      if (!step.rest) {
+        const chord = chordAt(chords, beat);
+        const scaleMidi = scaleDegreeToMidi(melody.pattern[degreeIndex % melody.pattern.length], scale, baseMidi);
+        const midi = beat % 1 === 0 ? quantizeMidiToChord(scaleMidi, chord) : scaleMidi;
+        notes.push({ midi, startBeat: beat, durationBeats: step.durationBeats });
+        degreeIndex += 1;
+      }
+      beat += step.durationBeats;
+    }
+
+    const [approach, arrival] = chords.slice(-2);
+    for (const [index, degree] of cadenceMelody.pattern.slice(-CADENCE_BEATS).entries()) {
+      const midi = quantizeMidiToChord(scaleDegreeToMidi(degree, scale, baseMidi), approach.chord);
+      notes.push({ midi, startBeat: approach.startBeat + index, durationBeats: 1 });
+    }
+
+    const previous = notes[notes.length - 1].midi;
+    const finalMidi =
+      profile.cadence === "half" ? quantizeMidiToChord(previous, arrival.chord) : nearestRoot(arrival.chord, previous);
+    notes.push({ midi: finalMidi, startBeat: arrival.startBeat, durationBeats: arrival.durationBeats });
+    return notes;
+  }
+
+  private writeHarmony(chords: PlannedChord[], lead: PitchedNote[], profile: JingleProfile): JingleNote[] {
+    const notes: JingleNote[] = [];
+    const harmonyNote = (midi: number, startBeat: number, durationBeats: number, velocity = HARMONY_VELOCITY) =>
+      notes.push({ channel: "square2", midi, startBeat, durationBeats, velocity });
+
+    for (const slot of chords) {
+      const isArrival = slot === chords[chords.length - 1];
+      if (isArrival || profile.harmony === "sustain") {
+        harmonyNote(chordToneBelow(leadAt(lead, slot.startBeat), slot.chord), slot.startBeat, slot.durationBeats);
+        continue;
+      }
+      if (profile.harmony === "stab") {
+        for (let beat = slot.startBeat; beat < slot.startBeat + slot.durationBeats; beat++) {
+          harmonyNote(chordToneBelow(leadAt(lead, beat), slot.chord), beat, 0.5);
+        }
+        continue;
+      }
+      // 16th-note arpeggio climbing the chord from its root
+      const root = chordRootToMidi(slot.chord, 60);
+      const tones = [...getChordIntervals(slot.chord).slice(0, 3), 12].map((interval) => root + interval);
+      for (let step = 0; step < slot.durationBeats * 4; step++) {
+        harmonyNote(tones[step % tones.length], slot.startBeat + step * 0.25, 0.25, HARMONY_VELOCITY - 8);
+      }
+    }
+    return notes;
+  }
+
+  private writeBass(chords: PlannedChord[], pattern: BassPatternMotif, profile: JingleProfile): JingleNote[] {
+    const notes: JingleNote[] = [];
+    const arrival = chords[chords.length - 1];
+    let step = 0;
+    for (const [index, slot] of chords.slice(0, -1).entries()) {
+      const nextChord = chords[index + 1].chord;
+      for (let beat = slot.startBeat; beat < slot.startBeat + slot.durationBeats; beat += 0.5) {
+        const midi = bassStepToMidi(
+          pattern.steps[step % pattern.steps.length],
+          slot.chord,
+          nextChord,
+          chordRootToMidi(slot.chord, 36)
+        );
+        step += 1;
+        if (midi !== null) {
+          notes.push({ channel: "triangle", midi, startBeat: beat, durationBeats: 0.5, velocity: BASS_VELOCITY });
+        }
+      }
+    }
+    notes.push({
+      channel: "triangle",
+      midi: chordRootToMidi(arrival.chord, 36),
+      startBeat: arrival.startBeat,
+      durationBeats: arrival.durationBeats,
+      velocity: profile.harmony === "sustain" ? BASS_VELOCITY - 12 : BASS_VELOCITY
+    });
+    return notes;
+  }
+}
+
+interface PlannedChord extends JingleChord {
+  durationBeats: number;
+}
+
+interface PitchedNote {
+  midi: number;
+  startBeat: number;
+  durationBeats: number;
+}
+
+interface JingleNote extends PitchedNote {
+  channel: Channel;
+  velocity: number;
+}
+
+function pick<T>(items: T[], rng: () => number): T {
+  return items[Math.floor(rng() * items.length) % items.length];
+}
+
+/** Items carrying any of the tags, or all items when none do */
+function preferTagged<T extends { tags?: string[] }>(items: T[], tags: string[]): T[] {
+  const tagged = items.filter((item) => item.tags?.some((tag) => tags.includes(tag)));
+  return tagged.length ? tagged : items;
+}
+
+function chordAt(chords: PlannedChord[], beat: number): string {
+  return chords.reduce((current, slot) => (slot.startBeat <= beat ? slot.chord : current), chords[0].chord);
+}
+
+/** Lead pitch sounding at a beat (the latest note started by then) */
+function leadAt(lead: PitchedNote[], beat: number): number {
+  return lead.reduce((current, note) => (note.startBeat <= beat ? note.midi : current), lead[0].midi);
+}
+
+/** Highest chord tone at least a minor third below the given pitch */
+function chordToneBelow(midi: number, chord: string): number {
+  const root = chordRootToMidi(chord, 0);
+  const pitchClasses = getChordIntervals(chord).map((interval) => (root + interval) % 12);
+  for (let candidate = midi - 3; candidate > midi - 15; candidate--) {
+    if (pitchClasses.includes(((candidate % 12) + 12) % 12)) return candidate;
+  }
+  return midi - 12;
+}
+
+function nearestRoot(chord: string, midi: number): number {
+  const root = chordRootToMidi(chord, midi);
+  return midi - root > 6 ? root + 12 : root - midi > 6 ? root - 12 : root;
+}
+
+function isCommonTime(tags: string[] | undefined): boolean {
+  return motifMeterTag(tags) === METER_PROFILES["4/4"].tag;
+}
+
+function scaleVelocity(value: unknown, scale: number): unknown {
+  return typeof value === "number" ? Math.round(Math.max(1, Math.min(127, value * scale))) : value;
+}
+
+function commandOrder(event: Event): number {
+  return event.command === "setParam" ? 0 : event.command === "noteOff" ? 1 : 2;
+}
@@ -0,0 +1,75 @@
+/**
+ * Jingle Type Definitions
+ *
+ * Jingles sit between SE and BGM: short (2-6 second) multi-channel phrases that play once
+ * on a game event, such as clearing a stage. Unlike SEs they are composed from the BGM
+ * motif libraries and close on a cadence, so they can follow a composition in its key and tempo.
+ */
+
+import type { Channel, Event, PipelineResult } from "../types.js";
+
+/**
+ * Jingle categories and the cadence each one closes on:
+ * - **fanfare**: Victory fanfare; authentic cadence (V7 → I) on a held major chord
+ * - **defeat**: Game over; plagal cadence (iv → i) in minor, slow and sustained
+ * - **itemGet**: Item pickup; quick arpeggiated authentic cadence
+ * - **levelStart**: Stage intro; half cadence (IV → V) that leaves the phrase open
+ */
+export type JingleType = "fanfare" | "defeat" | "itemGet" | "levelStart";
+
+/**
+ * Jingle generation options (user-facing API).
+ *
+ * Key and tempo resolve in this order: explicit `key` / `bpm`, then `match`, then a seeded choice.
+ */
+export interface JingleGenerationOptions {
+  type: JingleType;              // Required: jingle category
+  seed?: number;                 // Optional: RNG seed (undefined = random)
+  key?: string;                  // Optional: Exact key, e.g. "G_Major" (default: seeded, in the type's mode)
+  bpm?: number;                  // Optional: Tempo (default: per type)
+  /**
+   * Optional: Composition to follow, typically the BGM that is playing.
+   * The jingle takes its tempo and its tonic, in the jingle type's mode
+   * (a defeat jingle after a C major track is in C minor).
+   */
+  match?: Pick<PipelineResult, "meta">;
+  /**
+   * Optional: Beat of `match` the jingle plays at, counted across loop passes (default: 0).
+   * Tempo changes and key modulations in effect at that beat are followed.
+   */
+  matchBeat?: number;
+  startTime?: number;            // Optional: Event time offset in seconds (default: 0.0)
+  velocityScale?: number;        // Optional: Scale note velocities for context mixing (default: 1.0)
+}
+
+/** A chord of the jingle and where it starts, in beats from the start of the jingle */
+export interface JingleChord {
+  chord: string;
+  startBeat: number;
+}
+
+/**
+ * Jingle generation result.
+ *
+ * Events use the BGM Event[] format; `replayOptions` carry the resolved key and tempo,
+ * so a jingle matched to a composition replays without it.
+ */
+export interface JingleGenerationResult {
+  events: Event[];
+  meta: {
+    type: JingleType;
+    seed: number;
+    key: string;
+    /** Tempo the jingle follows; phrases that would run past 6 seconds are counted in double time */
+    bpm: number;
+    duration: number;            // Seconds from the first note to the end of the final chord
+    lengthBeats: number;         // Phrase length in beats at `bpm`
+    chords: JingleChord[];
+    melodyId: string;            // Melody fragment from motifs/melody.json
+    rhythmId: string;            // Melody rhythm from motifs/melody-rhythm.json
+    bassPatternId: string;       // Bass pattern from motifs/bass-patterns.json
+    fillId?: string;             // Transition fill on the noise channel, when the type uses one
+    channels: Channel[];
+    replayOptions: JingleGenerationOptions;
+  };
+}
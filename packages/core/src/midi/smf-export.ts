@@ -0,0 +1,301 @@
+/**
+ * Standard MIDI File export of AlgoChip compositions.
+ *
+ * Produces a Type-1 SMF with a conductor track (tempo map, time/key signature, loop
+ * markers unless the composition is a one-shot) followed by one track per chip `Channel`. Chip-specific event data is
+ * translated into the closest MIDI equivalent so the result can be opened in a DAW:
+ * - `detuneCents`, noteOn `slide` and `pitchBend` setParam → pitch-bend messages
+ * - duty `setParam` (and per-note `duty`) → {@link DUTY_CONTROLLER}
+ * - triangle `gain` setParam → Expression (CC 11)
+ * - noise hits → General MIDI drum notes on channel 10, keyed by `DrumHit` instrument
+ */
+
+import type { Channel, DrumHit, Event as PlaybackEvent, PipelineResult, TempoSegment } from "../types.js";
+import { chordRootToMidi } from "../musicUtils.js";
+import { beatToSeconds, secondsToBeat, steadyTempoMap } from "../tempo-map.js";
+import { midiToFrequency } from "../playback/chip-core.js";
+import {
+  DEFAULT_PPQ,
+  GM_DRUM_CHANNEL,
+  PITCH_BEND_CENTER,
+  SMF_PRIORITY,
+  buildSmf,
+  buildTrackChunk,
+  channelMessage,
+  keySignatureMetaEvent,
+  pitchBendMessage,
+  tempoMetaEvent,
+  textMetaEvent,
+  timeSignatureMetaEvent,
+  type SmfTrackEvent
+} from "./smf.js";
+
+/** Controller number carrying square duty cycle (Sound Controller 2 / Timbre) */
+export const DUTY_CONTROLLER = 71;
+/** Controller number carrying triangle gain automation (Expression) */
+const EXPRESSION_CONTROLLER = 11;
+
+/** Fixed channel order; also the MIDI track order after the conductor track */
+const CHANNEL_ORDER: Channel[] = ["square1", "square2", "triangle", "noise"];
+
+/** MIDI channel and GM program per chip channel */
+const CHANNEL_SETUP: Record<Channel, { midiChannel: number; program: number }> = {
+  square1: { midiChannel: 0, program: 80 }, // Lead 1 (square)
+  square2: { midiChannel: 1, program: 80 },
+  triangle: { midiChannel: 2, program: 38 }, // Synth Bass 1
+  noise: { midiChannel: GM_DRUM_CHANNEL, program: 0 }
+};
+
+/** General MIDI percussion keys for each drum instrument code */
+export const GM_DRUM_NOTES: Record<DrumHit["instrument"], number> = {
+  K: 36, // Bass Drum 1
+  S: 38, // Acoustic Snare
+  H: 42, // Closed Hi-Hat
+  O: 46, // Open Hi-Hat
+  T: 45, // Low Tom
+  N: 49 // Crash Cymbal 1
+};
+
+/** Major-key signature (sharps > 0, flats < 0) indexed by tonic pitch class */
+const MAJOR_KEY_SIGNATURES = [0, -5, 2, -3, 4, -1, 6, 1, -4, 3, -2, 5];
+
+/** Pitch-bend messages emitted per second while ramping slides */
+const BEND_STEPS_PER_SECOND = 100;
+const MAX_BEND_STEPS = 32;
+
+export interface MidiExportOptions {
+  /** Pulses per quarter note (default: 480) */
+  ppq?: number;
+  /**
+   * Pitch-bend range in semitones announced via RPN 0 on every melodic track
+   * (default: 12). Bends beyond the range are clamped.
+   */
+  pitchBendRange?: number;
+}
+
+interface ChannelState {
+  midi: number | null;
+  bendSemitones: number;
+}
+
+/**
+ * Exports a composition as a Type-1 Standard MIDI File.
+ *
+ * @param result Pipeline result from {@link generateComposition}
+ * @param options PPQ and pitch-bend range
+ * @returns SMF bytes
+ */
+export function exportCompositionToMidi(
+  result: PipelineResult,
+  options: MidiExportOptions = {}
+): Uint8Array {
+  const ppq = Math.max(24, Math.floor(options.ppq ?? DEFAULT_PPQ));
+  const bendRange = Math.max(1, Math.min(24, Math.round(options.pitchBendRange ?? 12)));
+  const { bpm, key, loopInfo, timeSignature, form } = result.meta;
+  const tempoMap = result.meta.tempoMap ?? steadyTempoMap(bpm);
+  const [numerator, denominator] = timeSignature.split("/").map(Number);
+  const beatToTick = (beat: number) => Math.round(beat * ppq);
+  const timeToTick = (seconds: number) => beatToTick(secondsToBeat(tempoMap, seconds));
+
+  const conductor: SmfTrackEvent[] = [
+    { tick: 0, priority: SMF_PRIORITY.META, bytes: textMetaEvent(0x03, "AlgoChip") },
+    ...tempoEvents(tempoMap).map(({ beat, bpm }) => ({
+      tick: beatToTick(beat),
+      priority: SMF_PRIORITY.META,
+      bytes: tempoMetaEvent(bpm)
+    })),
+    { tick: 0, priority: SMF_PRIORITY.META, bytes: timeSignatureMetaEvent(numerator, denominator) },
+    { tick: 0, priority: SMF_PRIORITY.META, bytes: keySignatureFromKey(key) },
+    ...(form === "oneShot"
+      ? []
+      : [
+          { tick: beatToTick(loopInfo.loopStartBeat), priority: SMF_PRIORITY.META, bytes: textMetaEvent(0x06, "loopStart") },
+          { tick: beatToTick(loopInfo.loopEndBeat), priority: SMF_PRIORITY.META, bytes: textMetaEvent(0x06, "loopEnd") }
+        ])
+  ];
+
+  const tracks = [buildTrackChunk(conductor)];
+  for (const channel of CHANNEL_ORDER) {
+    const channelEvents = result.events.filter((event) => event.channel === channel);
+    tracks.push(buildTrackChunk(buildChannelTrack(channel, channelEvents, timeToTick, bendRange)));
+  }
+  return buildSmf(1, ppq, tracks);
+}
+
+/**
+ * Tempo meta events for a tempo map.
+ * SMF tempos are steps, so ramps change tempo every beat using the average tempo of that beat.
+ */
+function tempoEvents(tempoMap: TempoSegment[]): Array<{ beat: number; bpm: number }> {
+  const events: Array<{ beat: number; bpm: number }> = [];
+  for (const segment of tempoMap) {
+    if (segment.startBpm === segment.endBpm) {
+      events.push({ beat: segment.startBeat, bpm: segment.startBpm });
+      continue;
+    }
+    for (let beat = segment.startBeat; beat < segment.endBeat; beat += 1) {
+      const next = Math.min(segment.endBeat, beat + 1);
+      const seconds = beatToSeconds(tempoMap, next) - beatToSeconds(tempoMap, beat);
+      events.push({ beat, bpm: (60 * (next - beat)) / seconds });
+    }
+  }
+  return events;
+}
+
+/**
+ * Converts the composition key (e.g. "E_Minor") to a Key Signature meta event.
+ * Flat-spelled tonics ("Eb", "Bb") prefer the flat signature for F#/Gb.
+ */
+function keySignatureFromKey(key: string): number[] {
+  const minor = /_minor$/i.test(key);
+  const tonic = ((chordRootToMidi(key, 0) % 12) + 12) % 12;
+  const relativeMajor = minor ? (tonic + 3) % 12 : tonic;
+  let signature = MAJOR_KEY_SIGNATURES[relativeMajor]!;
+  if (signature === 6 && /^[A-G]b/.test(key)) {
+    signature = -6;
+  }
+  return keySignatureMetaEvent(signature, minor);
+}
+
+function buildChannelTrack(
+  channel: Channel,
+  events: PlaybackEvent[],
+  timeToTick: (seconds: number) => number,
+  bendRange: number
+): SmfTrackEvent[] {
+  const { midiChannel, program } = CHANNEL_SETUP[channel];
+  const track: SmfTrackEvent[] = [
+    { tick: 0, priority: SMF_PRIORITY.META, bytes: textMetaEvent(0x03, channel) }
+  ];
+  const control = (tick: number, bytes: number[]) =>
+    track.push({ tick, priority: SMF_PRIORITY.CONTROL, bytes });
+
+  if (channel !== "noise") {
+    control(0, channelMessage(0xc0, midiChannel, program));
+    // RPN 0 (pitch-bend sensitivity)
+    control(0, channelMessage(0xb0, midiChannel, 101, 0));
+    control(0, channelMessage(0xb0, midiChannel, 100, 0));
+    control(0, channelMessage(0xb0, midiChannel, 6, bendRange));
+    control(0, channelMessage(0xb0, midiChannel, 38, 0));
+  }
+
+  const state: ChannelState = { midi: null, bendSemitones: 0 };
+  const bendValue = (semitones: number) =>
+    PITCH_BEND_CENTER + (Math.max(-bendRange, Math.min(bendRange, semitones)) / bendRange) * PITCH_BEND_CENTER;
+  const setBend = (tick: number, semitones: number) => {
+    if (Math.abs(semitones - state.bendSemitones) < 1e-4) return;
+    state.bendSemitones = semitones;
+    control(tick, pitchBendMessage(midiChannel, bendValue(semitones)));
+  };
+  const rampBend = (
+    startTime: number,
+    durationSeconds: number,
+    startFrequency: number,
+    targetFrequency: number,
+    curve: string,
+    baseFrequency: number
+  ) => {
+    const steps = Math.max(1, Math.min(MAX_BEND_STEPS, Math.ceil(durationSeconds * BEND_STEPS_PER_SECOND)));
+    for (let step = 1; step <= steps; step++) {
+      const ratio = step / steps;
+      const curved = curve === "exponential" ? ratio * ratio * ratio : ratio;
+      const frequency = startFrequency + (targetFrequency - startFrequency) * curved;
+      if (frequency <= 0) continue;
+      setBend(timeToTick(startTime + durationSeconds * ratio), 12 * Math.log2(frequency / baseFrequency));
+    }
+  };
+  const releaseCurrent = (tick: number) => {
+    if (state.midi === null) return;
+    track.push({ tick, priority: SMF_PRIORITY.NOTE_OFF, bytes: channelMessage(0x80, midiChannel, state.midi, 0) });
+    state.midi = null;
+  };
+
+  for (const event of events) {
+    const tick = timeToTick(event.time);
+    const data = (event.data ?? {}) as Record<string, unknown>;
+
+    if (event.command === "noteOff") {
+      releaseCurrent(tick);
+      continue;
+    }
+
+    if (event.command === "noteOn") {
+      releaseCurrent(tick);
+      const velocity = typeof data.velocity === "number" ? data.velocity : 100;
+      if (channel === "noise") {
+        const note = GM_DRUM_NOTES[resolveDrumInstrument(data)];
+        track.push({ tick, priority: SMF_PRIORITY.NOTE_ON, bytes: channelMessage(0x90, midiChannel, note, Math.max(1, velocity)) });
+        state.midi = note;
+        continue;
+      }
+
+      const midi = Math.round(Number(data.midi ?? 60));
+      const detuneSemitones = Number(data.detuneCents ?? 0) / 100;
+      if (typeof data.duty === "number") {
+        control(tick, channelMessage(0xb0, midiChannel, DUTY_CONTROLLER, data.duty * 127));
+      }
+      setBend(tick, detuneSemitones);
+      track.push({ tick, priority: SMF_PRIORITY.NOTE_ON, bytes: channelMessage(0x90, midiChannel, midi, Math.max(1, velocity)) });
+      state.midi = midi;
+
+      const slide = data.slide as Record<string, unknown> | undefined;
+      const slideTarget =
+        typeof slide?.targetMidi === "number"
+          ? midiToFrequency(slide.targetMidi)
+          : typeof slide?.targetFrequency === "number"
+          ? slide.targetFrequency
+          : null;
+      if (slide && slideTarget !== null) {
+        const baseFrequency = midiToFrequency(midi);
+        const startFrequency = baseFrequency * Math.pow(2, detuneSemitones / 12);
+        rampBend(event.time, Number(slide.durationSeconds ?? 0), startFrequency, slideTarget, "linear", baseFrequency);
+      }
+      continue;
+    }
+
+    // setParam
+    if (channel === "noise") {
+      continue;
+    }
+    if (data.param === "duty" && typeof data.value === "number") {
+      control(tick, channelMessage(0xb0, midiChannel, DUTY_CONTROLLER, data.value * 127));
+    } else if (data.param === "gain" && typeof data.value === "number") {
+      control(tick, channelMessage(0xb0, midiChannel, EXPRESSION_CONTROLLER, data.value * 127));
+    } else if (data.param === "pitchBend" && typeof data.value === "number" && state.midi !== null) {
+      const baseFrequency = midiToFrequency(state.midi);
+      if (data.value <= 0) {
+        setBend(tick, 0);
+        continue;
+      }
+      const rampDuration = Number(data.rampDuration ?? 0);
+      const targetFrequency = midiToFrequency(data.value);
+      if (rampDuration > 0) {
+        const startFrequency = baseFrequency * Math.pow(2, state.bendSemitones / 12);
+        rampBend(event.time, rampDuration, startFrequency, targetFrequency, String(data.curve ?? "linear"), baseFrequency);
+      } else {
+        setBend(tick, data.value - state.midi);
+      }
+    }
+  }
+
+  const lastTick = events.length ? timeToTick(events[events.length - 1]!.time) : 0;
+  releaseCurrent(lastTick);
+  return track;
+}
+
+/**
+ * Resolves the drum instrument of a noise noteOn.
+ *
+ * Pipeline drums carry their `instrument` code; other noise notes (e.g. sound
+ * effects) are classified from the LFSR mode and period instead.
+ */
+function resolveDrumInstrument(data: Record<string, unknown>): DrumHit["instrument"] {
+  if (typeof data.instrument === "string" && data.instrument in GM_DRUM_NOTES) {
+    return data.instrument as DrumHit["instrument"];
+  }
+  const periodIndex = typeof data.periodIndex === "number" ? data.periodIndex : 3;
+  if (data.mode === "long") {
+    return periodIndex <= 3 ? "K" : periodIndex <= 6 ? "T" : "N";
+  }
+  return periodIndex <= 0 ? "H" : periodIndex === 1 ? "S" : "O";
+}
@@ -0,0 +1,372 @@
+/**
+ * Standard MIDI File import into chip `Event` streams.
+ *
+ * Each MIDI source (track + MIDI channel) is routed to one chip `Channel`. The chip
+ * is monophonic per channel, so overlapping notes are resolved by voice stealing:
+ * a new note cuts the sounding one, and among notes starting together only the
+ * outer voice survives (highest on squares, lowest on triangle). Everything that
+ * could not be played as written is reported in the diagnostics.
+ */
+
+import type { Channel, DrumHit, Event as PlaybackEvent } from "../types.js";
+import { NOISE_MODE_CONFIG } from "../phase/event-realization.js";
+import { GM_DRUM_CHANNEL, parseSmf, type ParsedSmf } from "./smf.js";
+
+/** Default tempo when the file has no Set Tempo event (120 BPM) */
+const DEFAULT_MICROS_PER_QUARTER = 500_000;
+
+/** Upper bound for imported drum hits, mirroring the pipeline's noise clamp */
+const DRUM_MAX_DURATION_BEATS = 0.5;
+/**
+ * Shortest imported note (a 128th). Drum tracks often end a hit on the tick it starts,
+ * and a zero-length note would sort its noteOff before its noteOn.
+ */
+const MIN_NOTE_BEATS = 1 / 32;
+
+/** Melodic channels filled in order by the default routing */
+const MELODIC_ROUTING_ORDER: Channel[] = ["square1", "square2", "triangle"];
+
+/** Default General MIDI percussion key → drum instrument code */
+export const GM_DRUM_PRESETS: Record<number, DrumHit["instrument"]> = {
+  35: "K", 36: "K",
+  37: "S", 38: "S", 39: "S", 40: "S",
+  42: "H", 44: "H",
+  46: "O",
+  41: "T", 43: "T", 45: "T", 47: "T", 48: "T", 50: "T",
+  49: "N", 51: "N", 52: "N", 55: "N", 57: "N", 59: "N"
+};
+
+/** Routes a MIDI source to a chip channel. Omitted fields match anything. */
+export interface MidiChannelRule {
+  /** Zero-based track index in file order */
+  track?: number;
+  /** Zero-based MIDI channel (9 = GM percussion) */
+  midiChannel?: number;
+  /** Target chip channel; `null` ignores the source */
+  channel: Channel | null;
+}
+
+export interface MidiImportOptions {
+  /**
+   * Routing rules, first match wins. Unmatched sources fall back to the default
+   * routing: MIDI channel 10 → noise, other sources → square1, square2, triangle
+   * in order of their first note; further sources are dropped.
+   */
+  channelRules?: MidiChannelRule[];
+  /** Overrides for {@link GM_DRUM_PRESETS}; keys without a preset are dropped */
+  drumPresets?: Partial<Record<number, DrumHit["instrument"]>>;
+  /** Semitone offset applied to melodic notes (default: 0) */
+  transpose?: number;
+}
+
+export type MidiDropReason = "voice_stealing" | "truncated" | "unmapped" | "no_drum_preset";
+
+export interface MidiImportDiagnostics {
+  /** Requested simultaneous notes per chip channel (values above 1 needed stealing) */
+  voiceAllocation: Array<{
+    time: number;
+    channel: Channel;
+    activeCount: number;
+  }>;
+  /** Notes that were dropped or cut short */
+  droppedNotes: Array<{
+    time: number;
+    channel: Channel | null;
+    track: number;
+    midiChannel: number;
+    note: number;
+    reason: MidiDropReason;
+  }>;
+}
+
+export interface MidiImportResult {
+  events: PlaybackEvent[];
+  diagnostics: MidiImportDiagnostics;
+  meta: {
+    /** Initial tempo */
+    bpm: number;
+    /** Time of the last imported event */
+    durationSeconds: number;
+    /** Resolved routing per source, in order of first note */
+    routing: Array<{ track: number; midiChannel: number; channel: Channel | null }>;
+  };
+}
+
+interface SourceNote {
+  track: number;
+  midiChannel: number;
+  note: number;
+  velocity: number;
+  startTick: number;
+  endTick: number;
+}
+
+/**
+ * Imports an SMF (format 0 or 1) as chip events ready for the synthesizer.
+ *
+ * @param bytes SMF file contents
+ * @param options Channel routing, drum presets and transposition
+ * @returns Sorted events, diagnostics and tempo metadata
+ * @throws Error when the file cannot be parsed
+ */
+export function importMidiToEvents(
+  bytes: Uint8Array,
+  options: MidiImportOptions = {}
+): MidiImportResult {
+  const smf = parseSmf(bytes);
+  const tickToSeconds = createTempoMap(smf);
+  const drumPresets = { ...GM_DRUM_PRESETS, ...options.drumPresets };
+  const transpose = Math.round(options.transpose ?? 0);
+
+  const notes = collectNotes(smf);
+  const routing = resolveRouting(notes, options.channelRules ?? []);
+  const diagnostics: MidiImportDiagnostics = { voiceAllocation: [], droppedNotes: [] };
+  const drop = (note: SourceNote, channel: Channel | null, reason: MidiDropReason) =>
+    diagnostics.droppedNotes.push({
+      time: tickToSeconds(note.startTick),
+      channel,
+      track: note.track,
+      midiChannel: note.midiChannel,
+      note: note.note,
+      reason
+    });
+
+  const byChannel = new Map<Channel, SourceNote[]>();
+  for (const note of notes) {
+    const channel = routing.get(sourceKey(note.track, note.midiChannel)) ?? null;
+    if (channel === null) {
+      drop(note, null, "unmapped");
+      continue;
+    }
+    if (channel === "noise" && drumPresets[note.note] === undefined) {
+      drop(note, channel, "no_drum_preset");
+      continue;
+    }
+    const list = byChannel.get(channel) ?? [];
+    list.push(note);
+    byChannel.set(channel, list);
+  }
+
+  const minNoteTicks = Math.max(1, Math.round(MIN_NOTE_BEATS * smf.ppq));
+  const events: PlaybackEvent[] = [];
+  for (const [channel, channelNotes] of byChannel) {
+    recordVoiceAllocation(channel, channelNotes, tickToSeconds, diagnostics);
+
+    // Outer voice first among notes sharing a start tick
+    const preferLow = channel === "triangle";
+    const ordered = [...channelNotes].sort(
+      (a, b) => a.startTick - b.startTick || (preferLow ? a.note - b.note : b.note - a.note)
+    );
+
+    let current: SourceNote | null = null;
+    let currentEndTick = 0;
+    const flush = () => {
+      if (!current) return;
+      pushNote(events, channel, current, currentEndTick, tickToSeconds, drumPresets, transpose, smf.ppq);
+      current = null;
+    };
+
+    for (const note of ordered) {
+      if (current && note.startTick === current.startTick) {
+        drop(note, channel, "voice_stealing");
+        continue;
+      }
+      if (current && note.startTick < currentEndTick) {
+        // Cutting back a note lengthened to the minimum is not a truncation
+        if (note.startTick < current.endTick) drop(current, channel, "truncated");
+        currentEndTick = note.startTick;
+      }
+      flush();
+      current = note;
+      currentEndTick = Math.max(note.endTick, note.startTick + minNoteTicks);
+    }
+    flush();
+  }
+
+  events.sort((a, b) => a.time - b.time || commandOrder(a) - commandOrder(b));
+  diagnostics.voiceAllocation.sort((a, b) => a.time - b.time);
+  diagnostics.droppedNotes.sort((a, b) => a.time - b.time);
+
+  const firstTempo = smf.tracks
+    .flatMap((track) => track.events)
+    .filter((event) => event.type === "tempo" && event.tick === 0)[0];
+  const microsPerQuarter =
+    firstTempo?.type === "tempo" ? firstTempo.microsPerQuarter : DEFAULT_MICROS_PER_QUARTER;
+
+  return {
+    events,
+    diagnostics,
+    meta: {
+      bpm: 60_000_000 / microsPerQuarter,
+      durationSeconds: events.length ? events[events.length - 1]!.time : 0,
+      routing: Array.from(routing, ([key, channel]) => {
+        const [track, midiChannel] = key.split(":").map(Number) as [number, number];
+        return { track, midiChannel, channel };
+      })
+    }
+  };
+}
+
+/**
+ * Builds a tick → seconds converter from every Set Tempo event in the file
+ * (format 1 files keep them in the conductor track).
+ */
+function createTempoMap(smf: ParsedSmf): (tick: number) => number {
+  const changes = smf.tracks
+    .flatMap((track) => track.events)
+    .flatMap((event) => (event.type === "tempo" ? [{ tick: event.tick, micros: event.microsPerQuarter }] : []))
+    .sort((a, b) => a.tick - b.tick);
+
+  const segments: Array<{ tick: number; seconds: number; secondsPerTick: number }> = [
+    { tick: 0, seconds: 0, secondsPerTick: DEFAULT_MICROS_PER_QUARTER / 1_000_000 / smf.ppq }
+  ];
+  for (const change of changes) {
+    const last = segments[segments.length - 1]!;
+    const seconds = last.seconds + (change.tick - last.tick) * last.secondsPerTick;
+    const segment = { tick: change.tick, seconds, secondsPerTick: change.micros / 1_000_000 / smf.ppq };
+    if (change.tick === last.tick) {
+      segments[segments.length - 1] = segment;
+    } else {
+      segments.push(segment);
+    }
+  }
+
+  return (tick: number) => {
+    let segment = segments[0]!;
+    for (const candidate of segments) {
+      if (candidate.tick > tick) break;
+      segment = candidate;
+    }
+    return segment.seconds + (tick - segment.tick) * segment.secondsPerTick;
+  };
+}
+
+/** Pairs note-ons with their note-offs (FIFO per key); unterminated notes end at the track end. */
+function collectNotes(smf: ParsedSmf): SourceNote[] {
+  const notes: SourceNote[] = [];
+  smf.tracks.forEach((track, trackIndex) => {
+    const open = new Map<string, SourceNote[]>();
+    const lastTick = track.events.length ? track.events[track.events.length - 1]!.tick : 0;
+    for (const event of track.events) {
+      if (event.type !== "noteOn" && event.type !== "noteOff") continue;
+      const key = `${event.channel}:${event.note}`;
+      if (event.type === "noteOn") {
+        const note: SourceNote = {
+          track: trackIndex,
+          midiChannel: event.channel,
+          note: event.note,
+          velocity: event.velocity,
+          startTick: event.tick,
+          endTick: lastTick
+        };
+        notes.push(note);
+        const stack = open.get(key) ?? [];
+        stack.push(note);
+        open.set(key, stack);
+      } else {
+        const note = open.get(key)?.shift();
+        if (note) note.endTick = event.tick;
+      }
+    }
+  });
+  return notes.sort((a, b) => a.startTick - b.startTick || a.track - b.track);
+}
+
+function sourceKey(track: number, midiChannel: number): string {
+  return `${track}:${midiChannel}`;
+}
+
+/** Resolves every source that has notes to a chip channel (or `null`). */
+function resolveRouting(notes: SourceNote[], rules: MidiChannelRule[]): Map<string, Channel | null> {
+  const routing = new Map<string, Channel | null>();
+  const used = new Set<Channel>();
+  for (const note of notes) {
+    const key = sourceKey(note.track, note.midiChannel);
+    if (routing.has(key)) continue;
+    const rule = rules.find(
+      (candidate) =>
+        (candidate.track === undefined || candidate.track === note.track) &&
+        (candidate.midiChannel === undefined || candidate.midiChannel === note.midiChannel)
+    );
+    if (rule) {
+      routing.set(key, rule.channel);
+      if (rule.channel) used.add(rule.channel);
+      continue;
+    }
+    if (note.midiChannel === GM_DRUM_CHANNEL) {
+      routing.set(key, "noise");
+      continue;
+    }
+    const channel = MELODIC_ROUTING_ORDER.find((candidate) => !used.has(candidate)) ?? null;
+    routing.set(key, channel);
+    if (channel) used.add(channel);
+  }
+  return routing;
+}
+
+function recordVoiceAllocation(
+  channel: Channel,
+  notes: SourceNote[],
+  tickToSeconds: (tick: number) => number,
+  diagnostics: MidiImportDiagnostics
+): void {
+  const edges = notes
+    .flatMap((note) => [
+      { tick: note.startTick, delta: 1 },
+      { tick: note.endTick, delta: -1 }
+    ])
+    .sort((a, b) => a.tick - b.tick || a.delta - b.delta);
+  let active = 0;
+  for (const edge of edges) {
+    active += edge.delta;
+    diagnostics.voiceAllocation.push({ time: tickToSeconds(edge.tick), channel, activeCount: active });
+  }
+}
+
+function pushNote(
+  events: PlaybackEvent[],
+  channel: Channel,
+  note: SourceNote,
+  endTick: number,
+  tickToSeconds: (tick: number) => number,
+  drumPresets: Partial<Record<number, DrumHit["instrument"]>>,
+  transpose: number,
+  ppq: number
+): void {
+  const time = tickToSeconds(note.startTick);
+
+  if (channel === "noise") {
+    const instrument = drumPresets[note.note]!;
+    const config = NOISE_MODE_CONFIG[instrument]!;
+    const releaseSeconds = (config.releaseRange[0] + config.releaseRange[1]) / 2;
+    const clampedEnd = Math.min(endTick, note.startTick + DRUM_MAX_DURATION_BEATS * ppq);
+    events.push({
+      time,
+      channel,
+      command: "noteOn",
+      data: {
+        instrument,
+        mode: config.mode,
+        velocity: note.velocity,
+        amplitude: config.amplitude,
+        releaseSeconds,
+        decaySeconds: Math.max(0.01, releaseSeconds * 0.7),
+        periodIndex: config.periodIndex
+      }
+    });
+    events.push({ time: tickToSeconds(clampedEnd), channel, command: "noteOff", data: { releaseSeconds } });
+    return;
+  }
+
+  events.push({
+    time,
+    channel,
+    command: "noteOn",
+    data: { midi: Math.max(0, Math.min(127, note.note + transpose)), velocity: note.velocity }
+  });
+  events.push({ time: tickToSeconds(endTick), channel, command: "noteOff", data: {} });
+}
+
+function commandOrder(event: PlaybackEvent): number {
+  return event.command === "noteOff" ? 0 : event.command === "setParam" ? 1 : 2;
+}
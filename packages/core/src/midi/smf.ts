@@ -0,0 +1,304 @@
+/**
+ * Minimal Standard MIDI File (SMF) byte-level helpers.
+ *
+ * Only the subset needed by the AlgoChip exporter and importer is implemented:
+ * variable-length quantities, channel/meta events, MThd/MTrk chunk assembly and
+ * parsing. Musical decisions (tick conversion, channel mapping, pitch bends)
+ * belong to the callers.
+ */
+
+/** Default pulses per quarter note for exported files */
+export const DEFAULT_PPQ = 480;
+
+/** MIDI channel index reserved for percussion by General MIDI (channel 10) */
+export const GM_DRUM_CHANNEL = 9;
+
+/** Center value of the 14-bit pitch-bend range */
+export const PITCH_BEND_CENTER = 8192;
+
+/** A single event placed on a track at an absolute tick */
+export interface SmfTrackEvent {
+  tick: number;
+  /**
+   * Tie-breaker for events on the same tick (lower first). Keeps note-offs
+   * ahead of note-ons and controllers ahead of the notes they affect.
+   */
+  priority: number;
+  bytes: number[];
+}
+
+/** Sort priorities for events sharing a tick */
+export const SMF_PRIORITY = {
+  META: 0,
+  NOTE_OFF: 1,
+  CONTROL: 2,
+  NOTE_ON: 3,
+  END: 9
+} as const;
+
+/**
+ * Encodes a non-negative integer as a MIDI variable-length quantity.
+ *
+ * @param value Integer in [0, 0x0FFFFFFF]
+ * @returns Big-endian 7-bit groups with continuation bits
+ */
+export function encodeVariableLength(value: number): number[] {
+  let remaining = Math.max(0, Math.floor(value));
+  const bytes = [remaining & 0x7f];
+  remaining >>= 7;
+  while (remaining > 0) {
+    bytes.unshift((remaining & 0x7f) | 0x80);
+    remaining >>= 7;
+  }
+  return bytes;
+}
+
+/** Builds a meta event (FF type len data). */
+export function metaEvent(type: number, data: number[]): number[] {
+  return [0xff, type, ...encodeVariableLength(data.length), ...data];
+}
+
+/** Builds a text-like meta event (track name, marker, ...). */
+export function textMetaEvent(type: number, text: string): number[] {
+  const data = Array.from(text, (char) => char.charCodeAt(0) & 0x7f);
+  return metaEvent(type, data);
+}
+
+/** Builds a Set Tempo meta event from BPM. */
+export function tempoMetaEvent(bpm: number): number[] {
+  const microsPerQuarter = Math.round(60_000_000 / bpm);
+  return metaEvent(0x51, [
+    (microsPerQuarter >> 16) & 0xff,
+    (microsPerQuarter >> 8) & 0xff,
+    microsPerQuarter & 0xff
+  ]);
+}
+
+/**
+ * Builds a Time Signature meta event.
+ *
+ * @param numerator Beats per measure
+ * @param denominator Note value of one beat (power of two)
+ */
+export function timeSignatureMetaEvent(numerator: number, denominator: number): number[] {
+  const denominatorPower = Math.round(Math.log2(denominator));
+  return metaEvent(0x58, [numerator, denominatorPower, 24, 8]);
+}
+
+/**
+ * Builds a Key Signature meta event.
+ *
+ * @param sharpsOrFlats -7..+7 (negative = flats)
+ * @param minor Whether the key is minor
+ */
+export function keySignatureMetaEvent(sharpsOrFlats: number, minor: boolean): number[] {
+  return metaEvent(0x59, [sharpsOrFlats & 0xff, minor ? 1 : 0]);
+}
+
+/** Builds a channel voice message with data bytes clamped to 7 bits. */
+export function channelMessage(status: number, channel: number, ...data: number[]): number[] {
+  return [(status & 0xf0) | (channel & 0x0f), ...data.map((byte) => Math.max(0, Math.min(127, Math.round(byte))))];
+}
+
+/** Builds a 14-bit pitch-bend message. */
+export function pitchBendMessage(channel: number, value: number): number[] {
+  const clamped = Math.max(0, Math.min(16383, Math.round(value)));
+  return [0xe0 | (channel & 0x0f), clamped & 0x7f, (clamped >> 7) & 0x7f];
+}
+
+/**
+ * Serializes events into an MTrk chunk, appending End of Track.
+ *
+ * @param events Track events in any order (sorted by tick, then priority)
+ */
+export function buildTrackChunk(events: SmfTrackEvent[]): Uint8Array {
+  const sorted = events
+    .map((event, order) => ({ event, order }))
+    .sort(
+      (a, b) =>
+        a.event.tick - b.event.tick ||
+        a.event.priority - b.event.priority ||
+        a.order - b.order
+    )
+    .map(({ event }) => event);
+  const lastTick = sorted.length ? sorted[sorted.length - 1]!.tick : 0;
+  sorted.push({ tick: lastTick, priority: SMF_PRIORITY.END, bytes: metaEvent(0x2f, []) });
+
+  const body: number[] = [];
+  let previousTick = 0;
+  for (const event of sorted) {
+    const tick = Math.max(previousTick, Math.round(event.tick));
+    body.push(...encodeVariableLength(tick - previousTick), ...event.bytes);
+    previousTick = tick;
+  }
+  return buildChunk("MTrk", body);
+}
+
+/**
+ * Assembles a complete SMF from pre-built track chunks.
+ *
+ * @param format 0 (single track) or 1 (multi-track, shared tempo map)
+ * @param ppq Pulses per quarter note
+ * @param tracks MTrk chunks from {@link buildTrackChunk}
+ */
+export function buildSmf(format: 0 | 1, ppq: number, tracks: Uint8Array[]): Uint8Array {
+  const header = buildChunk("MThd", [
+    0, format,
+    (tracks.length >> 8) & 0xff, tracks.length & 0xff,
+    (ppq >> 8) & 0x7f, ppq & 0xff
+  ]);
+  const totalLength = tracks.reduce((sum, track) => sum + track.length, header.length);
+  const output = new Uint8Array(totalLength);
+  output.set(header, 0);
+  let offset = header.length;
+  for (const track of tracks) {
+    output.set(track, offset);
+    offset += track.length;
+  }
+  return output;
+}
+
+function buildChunk(id: string, body: number[]): Uint8Array {
+  const output = new Uint8Array(8 + body.length);
+  for (let i = 0; i < 4; i++) {
+    output[i] = id.charCodeAt(i);
+  }
+  const view = new DataView(output.buffer);
+  view.setUint32(4, body.length);
+  output.set(body, 8);
+  return output;
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/** Channel/meta event decoded from an MTrk chunk */
+export type ParsedSmfEvent =
+  | { tick: number; type: "noteOn" | "noteOff"; channel: number; note: number; velocity: number }
+  | { tick: number; type: "controller"; channel: number; controller: number; value: number }
+  | { tick: number; type: "programChange"; channel: number; program: number }
+  | { tick: number; type: "pitchBend"; channel: number; value: number }
+  | { tick: number; type: "tempo"; microsPerQuarter: number }
+  | { tick: number; type: "meta"; metaType: number; data: Uint8Array };
+
+export interface ParsedSmfTrack {
+  name?: string;
+  events: ParsedSmfEvent[];
+}
+
+export interface ParsedSmf {
+  format: number;
+  ppq: number;
+  tracks: ParsedSmfTrack[];
+}
+
+/**
+ * Parses an SMF (format 0 or 1, PPQ timing) into absolute-tick events.
+ *
+ * Running status and zero-velocity note-ons are normalized; SysEx and
+ * aftertouch messages are skipped.
+ *
+ * @param bytes File contents
+ * @throws Error when the header is missing, uses SMPTE timing, or a chunk is truncated
+ */
+export function parseSmf(bytes: Uint8Array): ParsedSmf {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const readId = (offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+  if (bytes.length < 14 || readId(0) !== "MThd") {
+    throw new Error("Invalid MIDI file: missing MThd header");
+  }
+  const headerLength = view.getUint32(4);
+  const format = view.getUint16(8);
+  const trackCount = view.getUint16(10);
+  const division = view.getUint16(12);
+  if (division & 0x8000) {
+    throw new Error("Unsupported MIDI file: SMPTE time division");
+  }
+
+  const tracks: ParsedSmfTrack[] = [];
+  let offset = 8 + headerLength;
+  while (tracks.length < trackCount && offset + 8 <= bytes.length) {
+    const id = readId(offset);
+    const length = view.getUint32(offset + 4);
+    const start = offset + 8;
+    if (start + length > bytes.length) {
+      throw new Error(`Invalid MIDI file: chunk ${tracks.length} is truncated`);
+    }
+    if (id === "MTrk") {
+      tracks.push(parseTrack(bytes.subarray(start, start + length)));
+    }
+    offset = start + length;
+  }
+  return { format, ppq: division, tracks };
+}
+
+function parseTrack(body: Uint8Array): ParsedSmfTrack {
+  const events: ParsedSmfEvent[] = [];
+  let name: string | undefined;
+  let position = 0;
+  let tick = 0;
+  let runningStatus = 0;
+
+  const readVariableLength = () => {
+    let value = 0;
+    for (let i = 0; i < 4 && position < body.length; i++) {
+      const byte = body[position++]!;
+      value = (value << 7) | (byte & 0x7f);
+      if ((byte & 0x80) === 0) break;
+    }
+    return value;
+  };
+
+  while (position < body.length) {
+    tick += readVariableLength();
+    let status = body[position]!;
+    if (status & 0x80) {
+      position += 1;
+    } else {
+      status = runningStatus;
+    }
+
+    if (status === 0xff) {
+      const metaType = body[position++]!;
+      const length = readVariableLength();
+      const data = body.subarray(position, position + length);
+      position += length;
+      if (metaType === 0x2f) break;
+      if (metaType === 0x51 && data.length === 3) {
+        events.push({ tick, type: "tempo", microsPerQuarter: (data[0]! << 16) | (data[1]! << 8) | data[2]! });
+      } else {
+        if (metaType === 0x03 && name === undefined) {
+          name = String.fromCharCode(...data);
+        }
+        events.push({ tick, type: "meta", metaType, data });
+      }
+      continue;
+    }
+    if (status === 0xf0 || status === 0xf7) {
+      position += readVariableLength();
+      continue;
+    }
+
+    runningStatus = status;
+    const channel = status & 0x0f;
+    const kind = status & 0xf0;
+    const data1 = body[position++] ?? 0;
+    if (kind === 0xc0 || kind === 0xd0) {
+      if (kind === 0xc0) events.push({ tick, type: "programChange", channel, program: data1 });
+      continue;
+    }
+    const data2 = body[position++] ?? 0;
+    if (kind === 0x90 && data2 > 0) {
+      events.push({ tick, type: "noteOn", channel, note: data1, velocity: data2 });
+    } else if (kind === 0x80 || kind === 0x90) {
+      events.push({ tick, type: "noteOff", channel, note: data1, velocity: data2 });
+    } else if (kind === 0xb0) {
+      events.push({ tick, type: "controller", channel, controller: data1, value: data2 });
+    } else if (kind === 0xe0) {
+      events.push({ tick, type: "pitchBend", channel, value: data1 | (data2 << 7) });
+    }
+  }
+  return { name, events };
+}
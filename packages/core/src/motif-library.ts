@@ -1,8 +1,13 @@
 import type {
   BassPatternMotif,
+  ChordLibrary,
+  CustomHook,
   DrumPattern,
   MelodyFragment,
   MelodyRhythmMotif,
+  MeterProfile,
+  MotifLibraries,
+  MotifLibraryMode,
   RhythmMotif,
   TransitionMotif
 } from "./types.js";
@@ -12,6 +17,9 @@ import melodyRhythmsJson from "../motifs/melody-rhythm.json" with { type: "json"
 import drumPatternsJson from "../motifs/drums.json" with { type: "json" };
 import bassPatternsJson from "../motifs/bass-patterns.json" with { type: "json" };
 import transitionsJson from "../motifs/transitions.json" with { type: "json" };
+import chordsJson from "../motifs/chords.json" with { type: "json" };
+import { lintMotifEntries, type MotifListKind } from "./motif-schema.js";
+import { motifMeterTag, parseKey } from "./musicUtils.js";
 
 export interface ExpandedRhythmStep {
   durationBeats: number;
@@ -42,6 +50,307 @@ export const bassPatternsByTexture = bassPatternList.reduce<Map<string, BassPatt
   new Map()
 );
 export const transitionList = (transitionsJson.transitions ?? []) as TransitionMotif[];
+export const chordLibrary = chordsJson as ChordLibrary;
+
+/**
+ * Motif pools consumed by the pipeline, with lookup tables derived from the lists.
+ */
+export interface MotifLibrary {
+  rhythm: RhythmMotif[];
+  rhythmById: Map<string, RhythmMotif>;
+  melody: MelodyFragment[];
+  melodyById: Map<string, MelodyFragment>;
+  melodyRhythm: MelodyRhythmMotif[];
+  melodyRhythmById: Map<string, MelodyRhythmMotif>;
+  drums: DrumPattern[];
+  drumById: Map<string, DrumPattern>;
+  bass: BassPatternMotif[];
+  bassByTexture: Map<string, BassPatternMotif[]>;
+  transitions: TransitionMotif[];
+  chords: ChordLibrary;
+}
+
+/** Built-in motifs shipped with the package */
+export const DEFAULT_MOTIF_LIBRARY: MotifLibrary = {
+  rhythm: rhythmList,
+  rhythmById,
+  melody: melodyList,
+  melodyById,
+  melodyRhythm: melodyRhythmList,
+  melodyRhythmById,
+  drums: drumList,
+  drumById,
+  bass: bassPatternList,
+  bassByTexture: bassPatternsByTexture,
+  transitions: transitionList,
+  chords: chordLibrary
+};
+
+/**
+ * Combines user motifs with the built-in library.
+ *
+ * In `"merge"` mode custom motifs are added to the defaults, and a custom motif whose
+ * id matches a built-in one replaces it. In `"replace"` mode every list that is given
+ * replaces the corresponding default list; lists that are omitted keep the defaults.
+ * Chord progressions are merged or replaced per key and tag.
+ *
+ * @param custom User-supplied motifs
+ * @param mode How custom motifs combine with the defaults (default `"merge"`)
+ * @returns Resolved library ready for the pipeline
+ * @throws Error naming the offending motif id when a custom motif fails validation
+ */
+export function resolveMotifLibrary(
+  custom: MotifLibraries | undefined,
+  mode: MotifLibraryMode = "merge"
+): MotifLibrary {
+  if (!custom) {
+    return DEFAULT_MOTIF_LIBRARY;
+  }
+  validateMotifLibraries(custom);
+
+  const rhythm = combineMotifs(rhythmList, custom.rhythm, mode, "rhythm");
+  const melody = combineMotifs(melodyList, custom.melody, mode, "melody");
+  const melodyRhythm = combineMotifs(melodyRhythmList, custom.melodyRhythm, mode, "melodyRhythm");
+  const drums = combineMotifs(drumList, custom.drums, mode, "drums");
+  const bass = combineMotifs(bassPatternList, custom.bass, mode, "bass");
+  const transitions = combineMotifs(transitionList, custom.transitions, mode, "transitions");
+
+  return {
+    rhythm,
+    rhythmById: indexById(rhythm),
+    melody,
+    melodyById: indexById(melody),
+    melodyRhythm,
+    melodyRhythmById: indexById(melodyRhythm),
+    drums,
+    drumById: indexById(drums),
+    bass,
+    bassByTexture: groupByTexture(bass),
+    transitions,
+    chords: combineChords(chordLibrary, custom.chords, mode)
+  };
+}
+
+/**
+ * Checks user motifs against the motif schema used by `npm run lint:motifs`.
+ *
+ * @throws Error naming the library and motif id of the first invalid entry
+ */
+export function validateMotifLibraries(custom: MotifLibraries): void {
+  const lists: Array<[MotifListKind, unknown]> = [
+    ["rhythm", custom.rhythm],
+    ["melody", custom.melody],
+    ["melodyRhythm", custom.melodyRhythm],
+    ["drums", custom.drums],
+    ["bass", custom.bass],
+    ["transitions", custom.transitions]
+  ];
+  for (const [kind, motifs] of lists) {
+    if (motifs === undefined) {
+      continue;
+    }
+    if (!Array.isArray(motifs)) {
+      throw new Error(`Custom ${kind} motifs must be an array`);
+    }
+    const issue = lintMotifEntries(kind, motifs, kind).find((candidate) => candidate.severity === "error");
+    if (!issue) {
+      continue;
+    }
+    if (!issue.id) {
+      throw new Error(`Custom ${kind} motif at ${issue.path} is invalid: ${issue.message}`);
+    }
+    if (issue.rule === "duplicate-id") {
+      throw new Error(`Custom ${kind} motif "${issue.id}" is defined more than once`);
+    }
+    throw new Error(`Custom ${kind} motif "${issue.id}" is invalid: ${issue.path}: ${issue.message}`);
+  }
+
+  for (const [key, progressionsByTag] of Object.entries(custom.chords ?? {})) {
+    try {
+      parseKey(key);
+    } catch {
+      throw new Error(
+        `Custom chords use unknown key "${key}"; expected a tonic (C, C#, Db ... B) followed by "_Major" or "_Minor", e.g. "F#_Major"`
+      );
+    }
+    for (const [tag, progressions] of Object.entries(progressionsByTag)) {
+      const valid =
+        Array.isArray(progressions) &&
+        progressions.every(
+          (progression) =>
+            Array.isArray(progression) &&
+            progression.length > 0 &&
+            progression.every((chord) => typeof chord === "string" && chord.length > 0)
+        );
+      if (!valid) {
+        throw new Error(`Custom chords "${key}.${tag}" must be a list of non-empty chord name arrays`);
+      }
+    }
+  }
+}
+
+function combineMotifs<T extends { id: string }>(
+  defaults: T[],
+  custom: T[] | undefined,
+  mode: MotifLibraryMode,
+  library: string
+): T[] {
+  if (!custom) {
+    return defaults;
+  }
+  if (mode === "replace") {
+    if (!custom.length) {
+      throw new Error(`Custom ${library} motifs cannot be empty in replace mode`);
+    }
+    return [...custom];
+  }
+  const overrides = indexById(custom);
+  const merged = defaults.map((motif) => overrides.get(motif.id) ?? motif);
+  const defaultIds = new Set(defaults.map((motif) => motif.id));
+  return [...merged, ...custom.filter((motif) => !defaultIds.has(motif.id))];
+}
+
+function combineChords(
+  defaults: ChordLibrary,
+  custom: ChordLibrary | undefined,
+  mode: MotifLibraryMode
+): ChordLibrary {
+  if (!custom) {
+    return defaults;
+  }
+  const result: ChordLibrary = {};
+  for (const [key, progressionsByTag] of Object.entries(defaults)) {
+    const overrides = custom[key];
+    if (!overrides) {
+      result[key] = progressionsByTag;
+    } else if (mode === "replace") {
+      result[key] = { ...overrides };
+    } else {
+      const merged = { ...progressionsByTag };
+      for (const [tag, progressions] of Object.entries(overrides)) {
+        merged[tag] = [...(progressionsByTag[tag] ?? []), ...progressions];
+      }
+      result[key] = merged;
+    }
+  }
+  // Keys without built-in progressions start from the custom ones in either mode
+  for (const [key, progressionsByTag] of Object.entries(custom)) {
+    if (!(key in defaults)) {
+      result[key] = { ...progressionsByTag };
+    }
+  }
+  return result;
+}
+
+/**
+ * Narrows a library to the motifs written for one meter.
+ *
+ * Rhythm, melody rhythm, drum, bass and transition motifs carry a `meter_*` tag
+ * (untagged motifs are 4/4); melody fragments and chords are meter independent.
+ *
+ * @throws Error when the meter leaves no rhythm, melody rhythm, drum or bass motifs
+ */
+export function restrictMotifLibraryToMeter(library: MotifLibrary, meter: MeterProfile): MotifLibrary {
+  const fits = (motif: { tags?: string[] }) => motifMeterTag(motif.tags) === meter.tag;
+  const rhythm = library.rhythm.filter(fits);
+  const melodyRhythm = library.melodyRhythm.filter(fits);
+  const drums = library.drums.filter(fits);
+  const bass = library.bass.filter(fits);
+  const required = { rhythm, melodyRhythm, drums, bass };
+  for (const [kind, motifs] of Object.entries(required)) {
+    if (!motifs.length) {
+      throw new Error(`No ${kind} motifs for time signature ${meter.timeSignature}; tag them "${meter.tag}"`);
+    }
+  }
+
+  return {
+    ...library,
+    rhythm,
+    rhythmById: indexById(rhythm),
+    melodyRhythm,
+    melodyRhythmById: indexById(melodyRhythm),
+    drums,
+    drumById: indexById(drums),
+    bass,
+    bassByTexture: groupByTexture(bass),
+    transitions: library.transitions.filter(fits)
+  };
+}
+
+/** Longest supported hook, matching the longest template phrase */
+const MAX_HOOK_MEASURES = 4;
+
+const HOOK_NOTE_VALUES = [2, 4, 8, 16];
+
+/**
+ * Checks a user-supplied hook against a meter.
+ *
+ * @throws Error when a degree is not a whole number, a rhythm step uses an unknown note
+ * value, the degrees do not match the sounding steps or the rhythm does not fill whole measures
+ */
+export function validateCustomHook(hook: CustomHook, meter: MeterProfile): void {
+  if (!Array.isArray(hook.degrees) || !hook.degrees.length) {
+    throw new Error("Hook degrees must be a non-empty array");
+  }
+  if (!Array.isArray(hook.rhythm) || !hook.rhythm.length) {
+    throw new Error("Hook rhythm must be a non-empty array");
+  }
+  hook.degrees.forEach((degree, index) => {
+    if (!Number.isInteger(degree)) {
+      throw new Error(`Hook degree at [${index}] is ${degree}; expected a whole number`);
+    }
+  });
+  hook.rhythm.forEach((step, index) => {
+    if (!HOOK_NOTE_VALUES.includes(step?.value)) {
+      throw new Error(`Hook rhythm step at [${index}] has value ${step?.value}; expected 2, 4, 8 or 16`);
+    }
+  });
+  const sounding = hook.rhythm.filter((step) => !step.rest).length;
+  if (sounding !== hook.degrees.length) {
+    throw new Error(`Hook has ${hook.degrees.length} degrees for ${sounding} sounding rhythm steps; they must match`);
+  }
+  const beats = hook.rhythm.reduce((sum, step) => sum + convertToBeats(step.value), 0);
+  const measures = beats / meter.beatsPerMeasure;
+  if (!Number.isInteger(measures) || measures > MAX_HOOK_MEASURES) {
+    throw new Error(
+      `Hook rhythm lasts ${beats} beats; expected 1 to ${MAX_HOOK_MEASURES} whole measures of ${meter.timeSignature}`
+    );
+  }
+}
+
+/**
+ * Motifs playing a user-supplied hook, in the shape of library motifs.
+ *
+ * They are not added to the library lists, so they are never picked for other phrases.
+ */
+export function createCustomHookMotifs(
+  hook: CustomHook,
+  meter: MeterProfile
+): { melody: MelodyFragment; melodyRhythm: MelodyRhythmMotif } {
+  const pattern = hook.rhythm.map((step) => ({ ...step }));
+  return {
+    melody: { id: "HOOK", pattern: [...hook.degrees], tags: ["hook"] },
+    melodyRhythm: {
+      id: "HOOK_RHYTHM",
+      length: pattern.reduce((sum, step) => sum + convertToBeats(step.value), 0),
+      pattern,
+      tags: ["hook", meter.tag]
+    }
+  };
+}
+
+function indexById<T extends { id: string }>(motifs: T[]): Map<string, T> {
+  return new Map(motifs.map((motif) => [motif.id, motif]));
+}
+
+function groupByTexture(motifs: BassPatternMotif[]): Map<string, BassPatternMotif[]> {
+  return motifs.reduce<Map<string, BassPatternMotif[]>>((result, motif) => {
+    const grouped = result.get(motif.texture) ?? [];
+    grouped.push(motif);
+    result.set(motif.texture, grouped);
+    return result;
+  }, new Map());
+}
 
 export function convertToBeats(value: number): number {
   switch (value) {
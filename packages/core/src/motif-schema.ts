@@ -0,0 +1,565 @@
+/**
+ * Motif library schema.
+ *
+ * Typed validators for every JSON file in `motifs/`. Each validator walks the raw JSON
+ * and reports issues instead of throwing, so a linter can list every problem in one pass.
+ * The pipeline relies on the same checks for user-supplied libraries
+ * (see `validateMotifLibraries`).
+ */
+
+import type { BassPatternMotif, Channel, DrumHit, TextureProfile } from "./types.js";
+import type { BuiltInSEType, SETemplateTag } from "./se/seTypes.js";
+import { METER_PROFILES } from "./musicUtils.js";
+
+export type MotifLintSeverity = "error" | "warning";
+
+export type MotifLintRule =
+  | "shape"
+  | "duplicate-id"
+  | "note-value"
+  | "rhythm-length"
+  | "drum-char"
+  | "drum-length"
+  | "bass-step"
+  | "chord-key"
+  | "meter"
+  | "unknown-tag"
+  | "se-range";
+
+export interface MotifLintIssue {
+  severity: MotifLintSeverity;
+  rule: MotifLintRule;
+  /** Motif file name, e.g. `"drums.json"` */
+  file: string;
+  /** Id of the offending entry, when it has one */
+  id?: string;
+  /** Location of the offending value inside the entry, e.g. `"pattern[3]"` */
+  path: string;
+  message: string;
+}
+
+export interface MotifLintOptions {
+  /**
+   * Tags the generator reacts to. When given, BGM motif tags outside this set are
+   * reported as `unknown-tag` warnings because selecting on them has no effect.
+   */
+  knownTags?: ReadonlySet<string>;
+}
+
+/** Motif list kinds shared by the JSON files and `MotifLibraries` */
+export type MotifListKind = "rhythm" | "melody" | "melodyRhythm" | "drums" | "bass" | "transitions";
+
+/** Files in `motifs/` and the top-level property holding their entries */
+export const MOTIF_FILES: Record<string, { kind: MotifListKind | "chords" | "techniques" | "seTemplates"; listKey?: string }> = {
+  "rhythm.json": { kind: "rhythm" },
+  "melody.json": { kind: "melody" },
+  "melody-rhythm.json": { kind: "melodyRhythm" },
+  "drums.json": { kind: "drums" },
+  "bass-patterns.json": { kind: "bass", listKey: "patterns" },
+  "transitions.json": { kind: "transitions", listKey: "transitions" },
+  "chords.json": { kind: "chords" },
+  "techniques.json": { kind: "techniques" },
+  "se-templates.json": { kind: "seTemplates", listKey: "templates" }
+};
+
+/** Beat length of each note value allowed in rhythm patterns */
+const NOTE_VALUE_BEATS: Record<number, number> = { 2: 2, 4: 1, 8: 0.5, 16: 0.25 };
+
+const DRUM_SYMBOLS: Record<DrumHit["instrument"] | "-", true> = {
+  K: true,
+  S: true,
+  H: true,
+  O: true,
+  T: true,
+  N: true,
+  "-": true
+};
+
+/** Drum patterns are written on a 16th-note grid */
+const DRUM_STEPS_PER_BEAT = 4;
+
+const BASS_STEPS: Record<BassPatternMotif["steps"][number], true> = {
+  root: true,
+  fifth: true,
+  lowFifth: true,
+  octave: true,
+  octaveHigh: true,
+  approach: true,
+  rest: true
+};
+
+const TEXTURES: Record<TextureProfile, true> = { broken: true, steady: true, arpeggio: true };
+
+const CHANNELS: Record<Channel, true> = { square1: true, square2: true, triangle: true, noise: true };
+
+const SE_TYPES: Record<BuiltInSEType, true> = {
+  jump: true,
+  coin: true,
+  explosion: true,
+  hit: true,
+  powerup: true,
+  select: true,
+  laser: true,
+  click: true,
+  synth: true,
+  tone: true
+};
+
+const SE_TAGS: Record<SETemplateTag, true> = {
+  bright: true,
+  soft: true,
+  heavy: true,
+  short: true,
+  long: true,
+  ui: true,
+  combat: true,
+  pickup: true,
+  retro: true
+};
+
+/** Chord library keys are a tonic and a mode, e.g. `C_Major` */
+const CHORD_KEY_PATTERN = /^[A-G][#b]?_(Major|Minor)$/;
+
+type JsonObject = Record<string, unknown>;
+
+type Report = (rule: MotifLintRule, path: string, message: string, severity?: MotifLintSeverity) => void;
+
+/**
+ * Validates one motif file.
+ *
+ * @param file File name inside `motifs/` (selects the schema)
+ * @param data Parsed JSON content
+ * @param options Optional tag vocabulary for `unknown-tag` warnings
+ * @returns Issues found, in file order
+ */
+export function lintMotifFile(file: string, data: unknown, options: MotifLintOptions = {}): MotifLintIssue[] {
+  const spec = MOTIF_FILES[file];
+  if (!spec) {
+    return [{ severity: "error", rule: "shape", file, path: "", message: `Unknown motif file "${file}"` }];
+  }
+
+  switch (spec.kind) {
+    case "chords":
+      return lintChords(file, data);
+    case "techniques":
+      return lintTechniques(file, data);
+    default: {
+      const entries = spec.listKey ? (isObject(data) ? data[spec.listKey] : undefined) : data;
+      if (!Array.isArray(entries)) {
+        const where = spec.listKey ? `"${spec.listKey}" array` : "array";
+        return [{ severity: "error", rule: "shape", file, path: spec.listKey ?? "", message: `Expected an ${where}` }];
+      }
+      return spec.kind === "seTemplates"
+        ? lintSETemplates(entries, file)
+        : lintMotifEntries(spec.kind, entries, file, options);
+    }
+  }
+}
+
+/**
+ * Validates a list of motifs of one kind (file contents or a custom library list).
+ *
+ * @param kind Motif kind that selects the schema
+ * @param entries Raw entries
+ * @param file File name used in the issues
+ * @param options Optional tag vocabulary for `unknown-tag` warnings
+ */
+export function lintMotifEntries(
+  kind: MotifListKind,
+  entries: readonly unknown[],
+  file: string,
+  options: MotifLintOptions = {}
+): MotifLintIssue[] {
+  const tags = kind === "drums" || kind === "bass" ? "optional" : "required";
+  return lintEntries(file, entries, ENTRY_VALIDATORS[kind], { tags, knownTags: options.knownTags });
+}
+
+/**
+ * Validates SE templates (file contents or templates registered with `SEGenerator`).
+ *
+ * @param entries Raw templates
+ * @param file File name used in the issues
+ * @param options `customTypes` accepts any non-empty type string instead of the built-in types
+ */
+export function lintSETemplates(
+  entries: readonly unknown[],
+  file: string,
+  options: { customTypes?: boolean } = {}
+): MotifLintIssue[] {
+  return lintEntries(file, entries, (entry, report) => lintSETemplate(entry, report, options.customTypes ?? false), {
+    tags: "optional"
+  });
+}
+
+const ENTRY_VALIDATORS: Record<MotifListKind, (entry: JsonObject, report: Report) => void> = {
+  rhythm: (entry, report) => {
+    checkNoteValues(entry, report, (step) => (isObject(step) ? step.value : step));
+    checkStringArray(entry, "variations", report, true);
+    checkMeter(entry, report, "length", (beats) =>
+      entry.length === beats ? undefined : `length must be one measure (${beats} beats)`
+    );
+  },
+  melody: (entry, report) => {
+    const pattern = entry.pattern;
+    if (!Array.isArray(pattern) || !pattern.length) {
+      report("shape", "pattern", "pattern must be a non-empty array");
+    } else {
+      pattern.forEach((degree, index) => {
+        if (!Number.isInteger(degree)) {
+          report("shape", `pattern[${index}]`, `scale degree must be an integer, got ${JSON.stringify(degree)}`);
+        }
+      });
+    }
+    checkStringArray(entry, "variations", report, true);
+  },
+  melodyRhythm: (entry, report) => {
+    checkNoteValues(entry, report, (step) => (isObject(step) ? step.value : undefined));
+    checkMeter(entry, report, "length", (beats) =>
+      typeof entry.length === "number" && entry.length % beats === 0
+        ? undefined
+        : `length must be a whole number of measures (${beats} beats each)`
+    );
+  },
+  drums: (entry, report) => {
+    if (entry.type !== "beat" && entry.type !== "fill") {
+      report("shape", "type", `type must be "beat" or "fill", got ${JSON.stringify(entry.type)}`);
+    }
+    checkDrumPattern(entry, report);
+    checkMeter(entry, report, "length_beats", (beats) => fitsMeasure(entry.length_beats, beats));
+  },
+  bass: (entry, report) => {
+    if (typeof entry.texture !== "string" || !(entry.texture in TEXTURES)) {
+      report("shape", "texture", `texture must be one of ${Object.keys(TEXTURES).join(", ")}, got ${JSON.stringify(entry.texture)}`);
+    }
+    const steps = entry.steps;
+    if (!Array.isArray(steps) || !steps.length) {
+      report("shape", "steps", "steps must be a non-empty array");
+      return;
+    }
+    steps.forEach((step, index) => {
+      if (typeof step !== "string" || !(step in BASS_STEPS)) {
+        report("bass-step", `steps[${index}]`, `unknown bass step ${JSON.stringify(step)} (expected ${Object.keys(BASS_STEPS).join(", ")})`);
+      }
+    });
+    checkMeter(entry, report, "steps", (beats) =>
+      steps.length === beats * 2 ? undefined : `steps must cover one measure (${beats * 2} half-beat steps)`
+    );
+  },
+  transitions: (entry, report) => {
+    if (typeof entry.channel !== "string" || !(entry.channel in CHANNELS)) {
+      report("shape", "channel", `channel must be one of ${Object.keys(CHANNELS).join(", ")}, got ${JSON.stringify(entry.channel)}`);
+    }
+    checkDrumPattern(entry, report);
+    checkMeter(entry, report, "length_beats", (beats) => fitsMeasure(entry.length_beats, beats));
+  }
+};
+
+function lintEntries(
+  file: string,
+  entries: readonly unknown[],
+  validate: (entry: JsonObject, report: Report) => void,
+  options: { tags: "required" | "optional"; knownTags?: ReadonlySet<string> }
+): MotifLintIssue[] {
+  const issues: MotifLintIssue[] = [];
+  const seen = new Set<string>();
+  const unknownTags = new Map<string, string[]>();
+
+  entries.forEach((entry, index) => {
+    const id = isObject(entry) && typeof entry.id === "string" && entry.id ? entry.id : undefined;
+    const report: Report = (rule, path, message, severity = "error") => {
+      issues.push({ severity, rule, file, id, path: id ? path : `[${index}]${path ? `.${path}` : ""}`, message });
+    };
+    if (!isObject(entry)) {
+      report("shape", "", "entry must be an object");
+      return;
+    }
+    if (!id) {
+      report("shape", "id", "id must be a non-empty string");
+    } else if (seen.has(id)) {
+      report("duplicate-id", "id", `id "${id}" is defined more than once`);
+    } else {
+      seen.add(id);
+    }
+
+    checkStringArray(entry, "tags", report, options.tags === "optional");
+    validate(entry, report);
+
+    if (options.knownTags && id && Array.isArray(entry.tags)) {
+      for (const tag of entry.tags) {
+        // Meter tags are checked by the meter rule
+        if (typeof tag === "string" && !options.knownTags.has(tag) && !tag.startsWith("meter_")) {
+          unknownTags.set(tag, [...(unknownTags.get(tag) ?? []), id]);
+        }
+      }
+    }
+  });
+
+  // One warning per tag keeps descriptive tags from flooding the report
+  for (const [tag, ids] of unknownTags) {
+    issues.push({
+      severity: "warning",
+      rule: "unknown-tag",
+      file,
+      id: ids[0],
+      path: "tags",
+      message: `tag "${tag}" is not referenced by motif selection (${ids.length} motif${ids.length === 1 ? "" : "s"}: ${ids.join(", ")})`
+    });
+  }
+  return issues;
+}
+
+function checkNoteValues(entry: JsonObject, report: Report, valueOf: (step: unknown) => unknown): void {
+  const pattern = entry.pattern;
+  if (!Array.isArray(pattern) || !pattern.length) {
+    report("shape", "pattern", "pattern must be a non-empty array");
+    return;
+  }
+  let total = 0;
+  let valid = true;
+  pattern.forEach((step, index) => {
+    const value = valueOf(step);
+    const beats = typeof value === "number" ? NOTE_VALUE_BEATS[value] : undefined;
+    if (beats === undefined) {
+      valid = false;
+      report("note-value", `pattern[${index}]`, `note value must be 2, 4, 8 or 16, got ${JSON.stringify(value)}`);
+    } else {
+      total += beats;
+    }
+  });
+  if (typeof entry.length !== "number" || !(entry.length > 0)) {
+    report("shape", "length", "length must be a positive number of beats");
+  } else if (valid && Math.abs(total - entry.length) > 1e-6) {
+    report("rhythm-length", "pattern", `length mismatch. expected=${entry.length}, got=${total}`);
+  }
+}
+
+function checkDrumPattern(entry: JsonObject, report: Report): void {
+  const lengthBeats = entry.length_beats;
+  if (typeof lengthBeats !== "number" || !(lengthBeats > 0)) {
+    report("shape", "length_beats", "length_beats must be a positive number");
+  }
+  const pattern = entry.pattern;
+  if (typeof pattern !== "string" || !pattern.length) {
+    report("shape", "pattern", "pattern must be a non-empty string");
+    return;
+  }
+  for (let index = 0; index < pattern.length; index++) {
+    if (!(pattern[index] in DRUM_SYMBOLS)) {
+      report("drum-char", `pattern[${index}]`, `invalid drum character "${pattern[index]}" (expected ${Object.keys(DRUM_SYMBOLS).join("")})`);
+    }
+  }
+  if (typeof lengthBeats === "number" && pattern.length !== lengthBeats * DRUM_STEPS_PER_BEAT) {
+    report(
+      "drum-length",
+      "pattern",
+      `pattern spans ${pattern.length / DRUM_STEPS_PER_BEAT} beats but length_beats is ${lengthBeats}`,
+      "warning"
+    );
+  }
+}
+
+/**
+ * Checks the entry's `meter_*` tag names a supported meter and that the entry fits
+ * that meter's measure. Untagged entries are 4/4 motifs and are not checked.
+ */
+function checkMeter(
+  entry: JsonObject,
+  report: Report,
+  path: string,
+  mismatch: (beatsPerMeasure: number) => string | undefined
+): void {
+  const tags = Array.isArray(entry.tags)
+    ? entry.tags.filter((tag): tag is string => typeof tag === "string" && tag.startsWith("meter_"))
+    : [];
+  if (!tags.length) {
+    return;
+  }
+  if (tags.length > 1) {
+    report("meter", "tags", `only one meter tag is allowed, got ${tags.join(", ")}`);
+    return;
+  }
+  const meter = Object.values(METER_PROFILES).find((profile) => profile.tag === tags[0]);
+  if (!meter) {
+    const expected = Object.values(METER_PROFILES).map((profile) => profile.tag).join(", ");
+    report("meter", "tags", `unknown meter tag "${tags[0]}" (expected ${expected})`);
+    return;
+  }
+  const message = mismatch(meter.beatsPerMeasure);
+  if (message) {
+    report("meter", path, `${message} in ${meter.timeSignature}`);
+  }
+}
+
+function fitsMeasure(lengthBeats: unknown, beatsPerMeasure: number): string | undefined {
+  return typeof lengthBeats === "number" && lengthBeats <= beatsPerMeasure
+    ? undefined
+    : `length_beats must fit in one measure (${beatsPerMeasure} beats)`;
+}
+
+function checkStringArray(entry: JsonObject, key: string, report: Report, optional: boolean): void {
+  const value = entry[key];
+  if (value === undefined && optional) {
+    return;
+  }
+  if (!Array.isArray(value) || value.some((item) => typeof item !== "string")) {
+    report("shape", key, `${key} must be an array of strings`);
+  }
+}
+
+function lintChords(file: string, data: unknown): MotifLintIssue[] {
+  const issues: MotifLintIssue[] = [];
+  const report = (rule: MotifLintRule, path: string, message: string) =>
+    issues.push({ severity: "error", rule, file, path, message });
+  if (!isObject(data)) {
+    report("shape", "", "Expected an object of keys");
+    return issues;
+  }
+  for (const [key, progressionsByTag] of Object.entries(data)) {
+    if (!CHORD_KEY_PATTERN.test(key)) {
+      report("chord-key", key, `key "${key}" must look like "C_Major" or "A_Minor"`);
+    }
+    if (!isObject(progressionsByTag)) {
+      report("shape", key, "Expected an object of progression tags");
+      continue;
+    }
+    for (const [tag, progressions] of Object.entries(progressionsByTag)) {
+      if (!Array.isArray(progressions)) {
+        report("shape", `${key}.${tag}`, "Expected an array of progressions");
+        continue;
+      }
+      progressions.forEach((progression, index) => {
+        const valid =
+          Array.isArray(progression) &&
+          progression.length > 0 &&
+          progression.every((chord) => typeof chord === "string" && /^[A-G][#b]?/.test(chord));
+        if (!valid) {
+          report("shape", `${key}.${tag}[${index}]`, "progression must be a non-empty array of chord names");
+        }
+      });
+    }
+  }
+  return issues;
+}
+
+function lintTechniques(file: string, data: unknown): MotifLintIssue[] {
+  const issues: MotifLintIssue[] = [];
+  if (!isObject(data)) {
+    return [{ severity: "error", rule: "shape", file, path: "", message: "Expected an object" }];
+  }
+  for (const [group, entries] of Object.entries(data)) {
+    if (!Array.isArray(entries)) {
+      issues.push({ severity: "error", rule: "shape", file, path: group, message: `${group} must be an array` });
+      continue;
+    }
+    entries.forEach((entry, index) => {
+      const id = isObject(entry) && typeof entry.id === "string" ? entry.id : undefined;
+      const report = (path: string, message: string) =>
+        issues.push({ severity: "error", rule: "shape", file, id, path: id ? path : `${group}[${index}].${path}`, message });
+      if (!isObject(entry)) {
+        report("", "entry must be an object");
+        return;
+      }
+      if (group !== "initialParams" && !id) {
+        report("id", "id must be a non-empty string");
+      }
+      const channels = entry.channel !== undefined ? [entry.channel] : entry.channels;
+      if (!Array.isArray(channels) || channels.some((channel) => typeof channel !== "string" || !(channel in CHANNELS))) {
+        report(entry.channel !== undefined ? "channel" : "channels", "channels must be valid channel names");
+      }
+    });
+  }
+  return issues;
+}
+
+function lintSETemplate(entry: JsonObject, report: Report, customTypes: boolean): void {
+  if (customTypes) {
+    if (typeof entry.type !== "string" || !entry.type.trim()) {
+      report("shape", "type", `type must be a non-empty string, got ${JSON.stringify(entry.type)}`);
+    }
+  } else if (typeof entry.type !== "string" || !(entry.type in SE_TYPES)) {
+    report("shape", "type", `type must be one of ${Object.keys(SE_TYPES).join(", ")}, got ${JSON.stringify(entry.type)}`);
+  }
+  if (Array.isArray(entry.tags)) {
+    entry.tags.forEach((tag, index) => {
+      if (typeof tag !== "string" || !(tag in SE_TAGS)) {
+        report("unknown-tag", `tags[${index}]`, `unknown SE tag ${JSON.stringify(tag)}`);
+      }
+    });
+  }
+  const channels = entry.channels;
+  if (!Array.isArray(channels) || !channels.length || channels.some((channel) => typeof channel !== "string" || !(channel in CHANNELS))) {
+    report("shape", "channels", "channels must be a non-empty array of channel names");
+  }
+  checkRange(entry.durationRange, "durationRange", report, true);
+  if (Array.isArray(entry.durationRange) && typeof entry.durationRange[0] === "number" && entry.durationRange[0] <= 0) {
+    report("se-range", "durationRange", `durationRange must be positive, got min ${entry.durationRange[0]}`);
+  }
+
+  const channelParams = entry.channelParams;
+  if (!isObject(channelParams)) {
+    report("shape", "channelParams", "channelParams must be an object");
+  } else {
+    if (Array.isArray(channels)) {
+      for (const channel of channels) {
+        if (typeof channel === "string" && !(channel in channelParams)) {
+          report("shape", `channelParams.${channel}`, `channel ${channel} is listed in channels but has no channelParams`);
+        }
+      }
+    }
+    for (const [channel, params] of Object.entries(channelParams)) {
+      if (!(channel in CHANNELS) || !isObject(params)) {
+        report("shape", `channelParams.${channel}`, "channelParams must map channel names to parameter objects");
+        continue;
+      }
+      if (Array.isArray(channels) && !channels.includes(channel)) {
+        report("shape", `channelParams.${channel}`, `channelParams.${channel} is set but ${channel} is not listed in channels`);
+      }
+      for (const key of ["pitchStart", "pitchEnd", "dutyCycleRange", "velocityRange", "releaseRange", "startOffsetRange"]) {
+        checkRange(params[key], `channelParams.${channel}.${key}`, report, false);
+      }
+    }
+  }
+
+  if (isObject(entry.pitchSweep)) {
+    checkRange(entry.pitchSweep.durationRange, "pitchSweep.durationRange", report, false);
+  }
+  if (isObject(entry.noteSequence)) {
+    const { intervals, noteDurations } = entry.noteSequence;
+    if (!Array.isArray(intervals) || !Array.isArray(noteDurations) || intervals.length !== noteDurations.length) {
+      report("shape", "noteSequence", "intervals and noteDurations must be arrays of the same length");
+    } else if (!intervals.length) {
+      report("shape", "noteSequence", "noteSequence must have at least one note");
+    } else {
+      intervals.forEach((interval, index) => {
+        if (typeof interval !== "number" || !Number.isFinite(interval)) {
+          report("shape", `noteSequence.intervals[${index}]`, `interval must be a number of semitones, got ${JSON.stringify(interval)}`);
+        }
+      });
+      noteDurations.forEach((duration, index) => {
+        if (typeof duration !== "number" || !(duration > 0)) {
+          report("se-range", `noteSequence.noteDurations[${index}]`, `note duration must be positive, got ${JSON.stringify(duration)}`);
+        }
+      });
+    }
+  }
+}
+
+/** Accepts `[min, max]` tuples and `{ min, max }` objects */
+function checkRange(value: unknown, path: string, report: Report, required: boolean): void {
+  if (value === undefined) {
+    if (required) {
+      report("shape", path, `${path} is required`);
+    }
+    return;
+  }
+  const [min, max] = Array.isArray(value) ? value : isObject(value) ? [value.min, value.max] : [];
+  if (typeof min !== "number" || typeof max !== "number") {
+    report("shape", path, `${path} must be [min, max] or { min, max }`);
+  } else if (min > max) {
+    report("se-range", path, `${path} is inverted (min ${min} > max ${max})`);
+  }
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
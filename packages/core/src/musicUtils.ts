@@ -1,4 +1,13 @@
-import { AbstractNote, DrumHit, StructurePlanResult } from "./types.js";
+import {
+  AbstractNote,
+  DrumHit,
+  MeterProfile,
+  MusicalKey,
+  ParsedKey,
+  SectionDefinition,
+  StructurePlanResult,
+  TimeSignature
+} from "./types.js";
 
 /**
  * Drum durations are deliberately short to emulate chiptune hardware constraints.
@@ -53,30 +62,185 @@ const NOTE_TO_SEMITONE: Record<string, number> = {
  * This supports quantizing melody notes to chord tones (ensures harmony), generating
  * broken chords and arpeggios in Phase 3, and voice leading and consonance checking in Phase 2.
  *
- * Limited to common chords because chiptune music typically uses simple harmony
- * (hardware limitations inspired this), complex jazz chords would require 4+ note
- * polyphony (we only have 3 melodic channels), and retro game music rarely used extended chords.
+ * Symbols are read as a root, a triad quality, an extension, a suspension, added tones
+ * and alterations, in that order: "Am", "E7", "Fmaj7", "Bm7b5", "Gsus4", "D7sus4",
+ * "Cadd9", "G7#9". The built-in progressions only use triads and dominant sevenths;
+ * the rest is for caller-supplied progressions.
  */
-const DEFAULT_CHORD_INTERVALS: Record<string, number[]> = {
-  "": [0, 4, 7],        // Major triad (C-E-G)
-  m: [0, 3, 7],         // Minor triad (C-Eb-G)
-  7: [0, 4, 7, 10],     // Dominant 7th (C-E-G-Bb)
-  m7: [0, 3, 7, 10],    // Minor 7th (C-Eb-G-Bb)
-  maj7: [0, 4, 7, 11],  // Major 7th (C-E-G-B)
-  sus2: [0, 2, 7],      // Suspended 2nd (C-D-G) - removes 3rd for ambiguity
-  sus4: [0, 5, 7],      // Suspended 4th (C-F-G) - tension/resolution
-  dim: [0, 3, 6],       // Diminished (C-Eb-Gb) - for dramatic passages
-  aug: [0, 4, 8]        // Augmented (C-E-G#) - for surreal/tense moments
+const CHORD_SYMBOL_PATTERN =
+  /^[A-G](?:#|b)?(mMaj|mM|maj|M|Δ|min|m|-|dim|°|ø|aug|\+)?(6\/9|5|6|7|9|11|13)?(sus2|sus4|sus)?((?:add(?:2|4|9|11|13))*)((?:[b#](?:5|9|11|13))*)$/;
+
+const MINOR_THIRD_QUALITIES = new Set(["m", "min", "-", "mM", "mMaj", "dim", "°", "ø"]);
+const MAJOR_SEVENTH_QUALITIES = new Set(["maj", "M", "Δ", "mM", "mMaj"]);
+/** Qualities that are seventh chords without an extension ("CΔ" = "Cmaj7", "Cø" = "Cm7b5") */
+const SEVENTH_QUALITIES = new Set(["Δ", "mM", "mMaj", "ø"]);
+
+/** Tones stacked above the seventh by each extension (9th = 14, 11th = 17, 13th = 21) */
+const EXTENSION_TONES: Record<string, number[]> = {
+  7: [],
+  9: [14],
+  11: [14, 17],
+  13: [14, 21]
+};
+
+const ADDED_TONES: Record<string, number> = { 2: 2, 4: 5, 9: 14, 11: 17, 13: 21 };
+
+/** Altered tones and the natural tones they replace */
+const ALTERED_TONES: Record<string, { tone: number; replaces: number }> = {
+  b9: { tone: 13, replaces: 14 },
+  "#9": { tone: 15, replaces: 14 },
+  "#11": { tone: 18, replaces: 17 },
+  b13: { tone: 20, replaces: 21 }
 };
 
+const chordIntervalCache = new Map<string, number[] | undefined>();
+
+/** Whether {@link getChordIntervals} understands a chord symbol rather than falling back */
+export function isChordSymbol(chord: string): boolean {
+  return typeof chord === "string" && parseChordIntervals(chord) !== undefined;
+}
+
+function parseChordIntervals(chord: string): number[] | undefined {
+  if (chordIntervalCache.has(chord)) {
+    return chordIntervalCache.get(chord);
+  }
+  const match = CHORD_SYMBOL_PATTERN.exec(chord);
+  let intervals: number[] | undefined;
+  if (match) {
+    const [, quality = "", extension = "", suspension = "", added, alterations] = match;
+    const diminished = quality === "dim" || quality === "°" || quality === "ø";
+    let third: number | undefined = MINOR_THIRD_QUALITIES.has(quality) ? 3 : 4;
+    let fifth = diminished ? 6 : quality === "aug" || quality === "+" ? 8 : 7;
+    if (extension === "5") third = undefined;
+    if (suspension) third = suspension === "sus2" ? 2 : 5;
+    const tones = new Set<number>();
+    if (extension in EXTENSION_TONES || SEVENTH_QUALITIES.has(quality)) {
+      // A diminished triad with a plain 7 is fully diminished; "ø" keeps the minor seventh
+      tones.add(MAJOR_SEVENTH_QUALITIES.has(quality) ? 11 : quality === "ø" ? 10 : diminished ? 9 : 10);
+      (EXTENSION_TONES[extension] ?? []).forEach((tone) => tones.add(tone));
+    }
+    if (extension === "6" || extension === "6/9") tones.add(9);
+    if (extension === "6/9") tones.add(14);
+    for (const [, degree] of added.matchAll(/add(\d+)/g)) {
+      tones.add(ADDED_TONES[degree]);
+    }
+    for (const [alteration] of alterations.matchAll(/[b#]\d+/g)) {
+      if (alteration === "b5") fifth = 6;
+      else if (alteration === "#5") fifth = 8;
+      else {
+        tones.delete(ALTERED_TONES[alteration].replaces);
+        tones.add(ALTERED_TONES[alteration].tone);
+      }
+    }
+    intervals = [0, ...(third === undefined ? [] : [third]), fifth, ...tones].sort((a, b) => a - b);
+  }
+  chordIntervalCache.set(chord, intervals);
+  return intervals;
+}
+
 /**
- * 4/4 time signature is hardcoded because the vast majority of game music uses 4/4
- * (simplifies loop alignment), variable time signatures would complicate beat <-> measure
- * conversion throughout pipeline, and could be parameterized in future but adds
- * complexity for minimal gain.
+ * Beats per measure of the default 4/4 meter.
+ * Other meters come from {@link resolveMeter}; beats stay quarter notes in every meter.
  */
 export const BEATS_PER_MEASURE = 4;
 
+/** Drum patterns are written on a 16th-note grid regardless of meter */
+const DRUM_STEPS_PER_BEAT = 4;
+
+/**
+ * Supported meters.
+ *
+ * 3/4 is a waltz (downbeat only, "oom-pah-pah" snare on 2 and 3), 6/8 groups its six
+ * eighths into two dotted-quarter pulses, and 5/4 is phrased 3+2 with the snare closing
+ * each group.
+ */
+export const METER_PROFILES: Record<TimeSignature, MeterProfile> = {
+  "4/4": { timeSignature: "4/4", beatsPerMeasure: 4, strongBeats: [0, 2], accentBeats: [1, 3], tag: "meter_4_4" },
+  "3/4": { timeSignature: "3/4", beatsPerMeasure: 3, strongBeats: [0], accentBeats: [1, 2], tag: "meter_3_4" },
+  "6/8": { timeSignature: "6/8", beatsPerMeasure: 3, strongBeats: [0, 1.5], accentBeats: [1.5], tag: "meter_6_8" },
+  "5/4": { timeSignature: "5/4", beatsPerMeasure: 5, strongBeats: [0, 3], accentBeats: [2, 4], tag: "meter_5_4" }
+};
+
+/**
+ * Looks up the meter profile for a time signature (default 4/4).
+ *
+ * @throws Error when the time signature is not supported
+ */
+export function resolveMeter(timeSignature: TimeSignature = "4/4"): MeterProfile {
+  const meter = METER_PROFILES[timeSignature];
+  if (!meter) {
+    throw new Error(
+      `Unsupported time signature ${JSON.stringify(timeSignature)}; expected one of ${Object.keys(METER_PROFILES).join(", ")}`
+    );
+  }
+  return meter;
+}
+
+/** Measures a one-shot's final chord rings for after the form ends */
+const RING_OUT_MEASURES = 1;
+
+/**
+ * Beats after the last section that still belong to the composition.
+ * One-shots let their final chord ring out; loops end exactly where the form ends.
+ */
+export function ringOutBeats(phase1: Pick<StructurePlanResult, "form" | "timeSignature">): number {
+  return phase1.form === "oneShot" ? RING_OUT_MEASURES * resolveMeter(phase1.timeSignature).beatsPerMeasure : 0;
+}
+
+/**
+ * Motif tag naming the meter an entry was written for.
+ * Entries without a meter tag are 4/4 motifs.
+ */
+export function motifMeterTag(tags: readonly string[] | undefined): string {
+  return tags?.find((tag) => tag.startsWith("meter_")) ?? METER_PROFILES["4/4"].tag;
+}
+
+/** Major-key tonics (as semitones above C) whose signatures use flats */
+const FLAT_SIDE_MAJOR_TONICS = new Set([5, 10, 3, 8, 1, 6]);
+
+/**
+ * Parses a composition key such as `"Bb_Major"` or `"F#_Minor"`.
+ *
+ * Any of the 17 tonic spellings (naturals plus `#`/`b`) is accepted with `_Major` or `_Minor`.
+ * `preferFlats` tells chord transposition which enharmonic spelling the key signature uses.
+ *
+ * @throws Error when the key is not a tonic followed by `_Major` or `_Minor`
+ */
+export function parseKey(key: string): ParsedKey {
+  const match = typeof key === "string" ? /^([A-G])(#|b)?_(Major|Minor)$/.exec(key) : null;
+  const semitone = match ? NOTE_TO_SEMITONE[match[1] + (match[2] ?? "")] : undefined;
+  if (!match || semitone === undefined) {
+    throw new Error(
+      `Unsupported key ${JSON.stringify(key)}; expected a tonic (C, C#, Db ... B) followed by "_Major" or "_Minor", e.g. "Bb_Major"`
+    );
+  }
+  const mode = match[3] === "Major" ? "major" : "minor";
+  const relativeMajor = (semitone + (mode === "minor" ? 3 : 0)) % 12;
+  return {
+    key: key as MusicalKey,
+    tonic: match[1] + (match[2] ?? ""),
+    semitone,
+    mode,
+    preferFlats: match[2] === "b" || (match[2] !== "#" && FLAT_SIDE_MAJOR_TONICS.has(relativeMajor))
+  };
+}
+
+/** Conventional tonic spelling per semitone above C, by mode */
+const KEY_TONICS: Record<ParsedKey["mode"], string[]> = {
+  major: ["C", "Db", "D", "Eb", "E", "F", "F#", "G", "Ab", "A", "Bb", "B"],
+  minor: ["C", "C#", "D", "Eb", "E", "F", "F#", "G", "G#", "A", "Bb", "B"]
+};
+
+/**
+ * Moves a key's tonic by semitones, keeping its mode (`"C_Major"` + 5 → `"F_Major"`).
+ * The result uses the conventional spelling of the new key, e.g. `"Ab_Major"` rather than `"G#_Major"`.
+ */
+export function transposeKey(key: string, semitones: number): MusicalKey {
+  const { semitone, mode } = parseKey(key);
+  const tonic = KEY_TONICS[mode][(((semitone + semitones) % 12) + 12) % 12];
+  return `${tonic}_${mode === "major" ? "Major" : "Minor"}` as MusicalKey;
+}
+
 /**
  * Converts a chord root (e.g., "C#", "Eb") to MIDI note number in a given octave.
  *
@@ -96,7 +260,8 @@ export function chordRootToMidi(root: string, baseOctaveMidi: number): number {
     // Graceful fallback instead of throwing - invalid chord symbols shouldn't crash generation
     return baseOctaveMidi;
   }
-  const note = noteMatch[0].toUpperCase();
+  // Only the letter is case-insensitive; "Bb" must not become "BB"
+  const note = noteMatch[0][0].toUpperCase() + (noteMatch[1] ?? "");
   const semitone = NOTE_TO_SEMITONE[note] ?? 0;
   // Extract octave from baseOctaveMidi and add semitone offset
   // This keeps the result in the same octave as the base reference
@@ -111,25 +276,21 @@ export function chordRootToMidi(root: string, baseOctaveMidi: number): number {
  * (cycle through chord tones), broken chord patterns (select subset of tones),
  * and melody harmonization (ensure melody notes are consonant).
  *
- * Fallback logic handles unknown suffixes: tries exact match first (handles standard
- * suffixes), then checks if it starts with "m" (handles "m9", "m11", etc. as minor),
- * and defaults to major triad (safest harmonic fallback).
+ * Extensions are stacked above the octave ("G9" → [0, 4, 7, 10, 14]). Symbols outside
+ * the grammar fall back to a minor triad when the suffix starts with "m" and to a major
+ * triad otherwise (safest harmonic fallback).
  *
- * @param chord Chord symbol (e.g., "Am7", "Cmaj7", "G")
+ * @param chord Chord symbol (e.g., "Am7", "Cmaj7", "G", "Dsus4")
  * @returns Array of semitone intervals from root [0, ...]
  */
 export function getChordIntervals(chord: string): number[] {
-  const match = chord.match(/^[A-G](?:#|b)?(.*)$/);
-  const suffix = match?.[1] ?? "";
-  if (suffix in DEFAULT_CHORD_INTERVALS) {
-    return DEFAULT_CHORD_INTERVALS[suffix];
-  }
-  if (suffix.startsWith("m")) {
-    // Treat "m9", "m11" etc. as minor triads for simplicity
-    return DEFAULT_CHORD_INTERVALS.m;
+  const parsed = parseChordIntervals(chord);
+  if (parsed) {
+    return parsed;
   }
+  const suffix = chord.match(/^[A-G](?:#|b)?(.*)$/)?.[1] ?? "";
   // Major triad is the safest default (works with most melodies)
-  return DEFAULT_CHORD_INTERVALS[""];
+  return suffix.startsWith("m") ? [0, 3, 7] : [0, 4, 7];
 }
 
 /**
@@ -175,7 +336,8 @@ export function scaleDegreeToMidi(
  *
  * Uses 16th note resolution as the standard grid for chiptune drums: fine enough for
  * hi-hat patterns and ghost notes, coarse enough to avoid timing jitter on retro
- * hardware, and matches the quantization of classic game music.
+ * hardware, and matches the quantization of classic game music. Each character is one
+ * 16th note, so a 3/4 measure is 12 characters and a 5/4 measure is 20.
  *
  * @param pattern Drum pattern string (e.g., "K---S---K---S---")
  * @param startBeat Beat time to start the pattern
@@ -188,14 +350,13 @@ export function generateDrumHitsFromPattern(
   sectionId: string
 ): DrumHit[] {
   const hits: DrumHit[] = [];
-  const beatResolution = 16; // 16th notes
   for (let idx = 0; idx < pattern.length; idx++) {
     const symbol = pattern[idx] as DrumHit["instrument"] | "-";
     if (symbol === "-") {
       continue;
     }
     // Maps pattern index to beat time on 16th note grid
-    const stepBeat = startBeat + (idx / beatResolution) * BEATS_PER_MEASURE;
+    const stepBeat = startBeat + idx / DRUM_STEPS_PER_BEAT;
     hits.push({
       startBeat: stepBeat,
       durationBeats: DRUM_DURATION_BEATS[symbol] ?? 0.25,
@@ -218,13 +379,13 @@ export function generateDrumHitsFromPattern(
  *
  * @param phase1 Structure planning result with section definitions
  * @param beatTime Current beat time to resolve
- * @param beatsPerMeasure Beats per measure (default 4)
+ * @param beatsPerMeasure Beats per measure (default: the meter of `phase1`)
  * @returns Chord symbol at the given beat time
  */
 export function resolveChordAtBeat(
   phase1: StructurePlanResult,
   beatTime: number,
-  beatsPerMeasure = BEATS_PER_MEASURE
+  beatsPerMeasure = resolveMeter(phase1.timeSignature).beatsPerMeasure
 ): string {
   const measureIndex = Math.floor(beatTime / beatsPerMeasure);
   const section = phase1.sections.find((candidate) => {
@@ -234,6 +395,11 @@ export function resolveChordAtBeat(
     );
   });
   if (!section) {
+    // A one-shot keeps its final chord through the ring-out
+    const last = closingSection(phase1, measureIndex);
+    if (last) {
+      return last.chordProgression[(last.measures - 1) % last.chordProgression.length];
+    }
     // Graceful fallback to first chord instead of crashing
     // Can happen if timing calculations have rounding errors
     const fallback = phase1.sections[0];
@@ -244,6 +410,41 @@ export function resolveChordAtBeat(
   return section.chordProgression[relativeMeasure % section.chordProgression.length];
 }
 
+/**
+ * Resolves the key in effect at a given beat time.
+ *
+ * Sections carry their own key once modulations are planned; sections without one (and
+ * beats outside every section) fall back to the composition key with no offset.
+ *
+ * @param phase1 Structure planning result with section definitions
+ * @param beatTime Current beat time to resolve
+ * @returns Key, scale and signed semitone offset from the composition key
+ */
+export function resolveKeyAtBeat(
+  phase1: StructurePlanResult,
+  beatTime: number
+): Required<Pick<SectionDefinition, "key" | "scaleDegrees" | "keyOffset">> {
+  const measureIndex = Math.floor(beatTime / resolveMeter(phase1.timeSignature).beatsPerMeasure);
+  const section =
+    phase1.sections.find(
+      (candidate) => measureIndex >= candidate.startMeasure && measureIndex < candidate.startMeasure + candidate.measures
+    ) ?? closingSection(phase1, measureIndex);
+  return {
+    key: section?.key ?? phase1.key,
+    scaleDegrees: section?.scaleDegrees ?? phase1.scaleDegrees,
+    keyOffset: section?.keyOffset ?? 0
+  };
+}
+
+/** Last section of a one-shot when the measure lies in its ring-out */
+function closingSection(phase1: StructurePlanResult, measureIndex: number): SectionDefinition | undefined {
+  const last = phase1.sections.at(-1);
+  if (phase1.form !== "oneShot" || !last || measureIndex < last.startMeasure + last.measures) {
+    return undefined;
+  }
+  return last;
+}
+
 /**
  * Converts frequency (Hz) to MIDI note number.
  *
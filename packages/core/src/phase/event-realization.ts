@@ -11,16 +11,19 @@ import {
   TextureProfile,
   TempoSetting,
   SectionDefinition,
-  Voice
+  Voice,
+  MeterProfile
 } from "../types.js";
 import {
-  BEATS_PER_MEASURE,
   chordRootToMidi,
   ensureConsonantPitch,
   getChordIntervals,
   quantizeMidiToChord,
-  resolveChordAtBeat
+  resolveChordAtBeat,
+  resolveMeter,
+  ringOutBeats
 } from "../musicUtils.js";
+import { structureTempoMap, tempoAtBeat } from "../tempo-map.js";
 
 import {
   VELOCITY_GLOBAL,
@@ -65,7 +68,7 @@ interface ArpeggioProfile {
 
 type NoiseModeLabel = "long" | "short";
 
-interface NoiseInstrumentConfig {
+export interface NoiseInstrumentConfig {
   mode: NoiseModeLabel;
   spec: "long_period" | "short_period";
   periodIndex: number;
@@ -74,7 +77,7 @@ interface NoiseInstrumentConfig {
   amplitude: number;
 }
 
-const NOISE_MODE_CONFIG: Record<string, NoiseInstrumentConfig> = {
+export const NOISE_MODE_CONFIG: Record<string, NoiseInstrumentConfig> = {
   K: { mode: "long", spec: "long_period", periodIndex: 3, releaseRange: [0.045, 0.075], velocity: VELOCITY_NOISE.KICK, amplitude: 1.0 },
   T: { mode: "long", spec: "long_period", periodIndex: 5, releaseRange: [0.05, 0.09], velocity: VELOCITY_NOISE.TOM, amplitude: 0.92 },
   N: { mode: "long", spec: "long_period", periodIndex: 8, releaseRange: [0.06, 0.1], velocity: VELOCITY_NOISE.LOW_NOISE, amplitude: 0.88 },
@@ -299,13 +302,14 @@ function findLastNoiseNoteOff(events: TimedEvent[]): TimedEvent<"noteOff"> | und
 }
 
 /**
- * Returns true when the beat falls on a strong snare position (beat 2 or 4
- * within a 4-beat measure, within ±0.1 beat tolerance).
+ * Returns true when the beat falls on a strong snare position of the meter
+ * (beat 2 or 4 in 4/4, within ±0.1 beat tolerance).
  * These accent positions receive the "heavy" long-LFSR snare mode (Case 5).
  */
-function isSnareAccentBeat(beatTime: number): boolean {
-  const beatInMeasure = ((beatTime % BEATS_PER_MEASURE) + BEATS_PER_MEASURE) % BEATS_PER_MEASURE;
-  return Math.abs(beatInMeasure - 1) < 0.1 || Math.abs(beatInMeasure - 3) < 0.1;
+function isSnareAccentBeat(beatTime: number, meter: MeterProfile): boolean {
+  const { beatsPerMeasure } = meter;
+  const beatInMeasure = ((beatTime % beatsPerMeasure) + beatsPerMeasure) % beatsPerMeasure;
+  return meter.accentBeats.some((accentBeat) => Math.abs(beatInMeasure - accentBeat) < 0.1);
 }
 
 function deriveArpeggioPattern(chordIntervals: number[]): number[] {
@@ -416,6 +420,7 @@ interface RealizationContext {
   totalBeats: number;
   styleIntent: StyleIntent;
   tempoSetting: TempoSetting;
+  meter: MeterProfile;
   phase1: StructurePlanResult;
   phase2: MotifSelectionResult;
 }
@@ -428,12 +433,14 @@ function createRealizationContext(
   phase1: StructurePlanResult,
   phase2: MotifSelectionResult
 ): RealizationContext {
+  const meter = resolveMeter(phase1.timeSignature);
   return {
     rng: createRng(options.seed ?? RNG_SEED),
     sectionById: new Map(phase1.sections.map((section) => [section.id, section])),
-    totalBeats: (options.lengthInMeasures ?? 32) * BEATS_PER_MEASURE,
+    totalBeats: (options.lengthInMeasures ?? 32) * meter.beatsPerMeasure,
     styleIntent: phase1.styleIntent,
     tempoSetting: options.tempo ?? "medium",
+    meter,
     phase1,
     phase2
   };
@@ -455,7 +462,7 @@ function realizeMelodyTrack(
     const note = track.notes[i];
     const sectionMeta = context.sectionById.get(note.sectionId);
     const measureInSection = sectionMeta
-      ? Math.max(0, Math.floor(note.startBeat / BEATS_PER_MEASURE) - sectionMeta.startMeasure)
+      ? Math.max(0, Math.floor(note.startBeat / context.meter.beatsPerMeasure) - sectionMeta.startMeasure)
       : 0;
 
     const payload: NoteEventPayload = {
@@ -520,7 +527,7 @@ function realizeAccompanimentTrack(
   // Group seeds by measure
   const seedsByMeasure = new Map<number, MidiNote[]>();
   for (const seed of track.notes) {
-    const measure = Math.floor(seed.startBeat / BEATS_PER_MEASURE);
+    const measure = Math.floor(seed.startBeat / context.meter.beatsPerMeasure);
     const bucket = seedsByMeasure.get(measure) ?? [];
     bucket.push(seed);
     seedsByMeasure.set(measure, bucket);
@@ -532,7 +539,7 @@ function realizeAccompanimentTrack(
     const seeds = seedsByMeasure.get(measure)!;
     const sectionMeta = seeds.length ? context.sectionById.get(seeds[0].sectionId) : undefined;
     const texture = sectionMeta?.texture ?? "steady";
-    const chord = resolveChordAtBeat(context.phase1, seeds[0]?.startBeat ?? measure * BEATS_PER_MEASURE);
+    const chord = resolveChordAtBeat(context.phase1, seeds[0]?.startBeat ?? measure * context.meter.beatsPerMeasure);
 
     // Process notes based on texture
     let processedNotes: MidiNote[];
@@ -662,7 +669,7 @@ function realizeDrumEvents(
     let effectiveMode: NoiseModeLabel = config.mode;
     let effectivePeriodIndex = config.periodIndex;
     let effectiveAmplitude = config.amplitude;
-    if (hit.instrument === "S" && isSnareAccentBeat(adjustedStart)) {
+    if (hit.instrument === "S" && isSnareAccentBeat(adjustedStart, context.meter)) {
       effectiveMode = "long";
       effectivePeriodIndex = 4;  // ~1.75 kHz – deep snare body
       effectiveAmplitude = Math.min(1.0, config.amplitude * 1.05);
@@ -674,6 +681,7 @@ function realizeDrumEvents(
       channel: "noise",
       command: "noteOn",
       data: {
+        instrument: hit.instrument,      // DrumHit code for exporters (MIDI drum mapping)
         noiseMode: config.spec,          // descriptive label (kept for compat)
         mode: effectiveMode,             // actual "long"|"short" LFSR selector
         velocity: config.velocity,
@@ -716,7 +724,7 @@ function realizeDrumEvents(
     // ── Case 1: Kick body — short pitch-falling triangle note ────────────────
     // Only when triangle is genuinely free (no voice-allocation overlap)
     if (hit.instrument === "K" && !triangleIsActiveAtBeat(adjustedStart, context.phase1, context.phase2)) {
-      const kickBodyBeats = KICK_BODY_DURATION_SECONDS * context.phase1.bpm / 60;
+      const kickBodyBeats = KICK_BODY_DURATION_SECONDS * tempoAtBeat(structureTempoMap(context.phase1), adjustedStart) / 60;
       const kickBodyOff = Math.min(adjustedStart + kickBodyBeats, context.totalBeats);
       if (kickBodyOff > adjustedStart) {
         drumEvents.push({
@@ -793,6 +801,8 @@ export function realizeEvents(
   const drumEvents = realizeDrumEvents(phase2.drums, context);
   events.push(...drumEvents);
 
+  events.push(...realizeRingOut(context));
+
   // Sort all events by beat time
   events.sort((a, b) => a.beatTime - b.beatTime);
 
@@ -800,6 +810,48 @@ export function realizeEvents(
   return { events, diagnostics };
 }
 
+/**
+ * Holds the final chord of a one-shot through its ring-out.
+ *
+ * Every pitched voice strikes the chord once the form has ended: melody and bass take the
+ * root nearest their last note, other voices the nearest chord tone.
+ */
+function realizeRingOut(context: RealizationContext): TimedEvent[] {
+  const ringOut = ringOutBeats(context.phase1);
+  if (ringOut <= 0) {
+    return [];
+  }
+  const startBeat = context.totalBeats;
+  const chord = resolveChordAtBeat(context.phase1, startBeat);
+  const events: TimedEvent[] = [];
+  const usedChannels = new Set<TimedEvent["channel"]>();
+
+  for (const track of context.phase2.tracks) {
+    const voiceConfig = context.phase1.voiceArrangement.voices.find((voice) => voice.role === track.role);
+    const last = track.notes.reduce<MidiNote | undefined>(
+      (latest, note) => (!latest || note.startBeat >= latest.startBeat ? note : latest),
+      undefined
+    );
+    if (!voiceConfig || !last || voiceConfig.channel === "noise" || usedChannels.has(voiceConfig.channel)) {
+      continue;
+    }
+    usedChannels.add(voiceConfig.channel);
+    const takesRoot = voiceConfig.role !== "accompaniment" && voiceConfig.role !== "pad";
+    const midi = takesRoot ? nearestChordRoot(chord, last.midi) : quantizeMidiToChord(last.midi, chord);
+    pushNote(events, startBeat, ringOut, voiceConfig.channel, {
+      midi,
+      velocity: adjustVelocityForChannel(voiceConfig.channel, voiceConfig.role, midi, last.velocity)
+    }, startBeat + ringOut);
+  }
+
+  return events;
+}
+
+function nearestChordRoot(chord: string, midi: number): number {
+  const root = chordRootToMidi(chord, midi);
+  return midi - root > 6 ? root + 12 : root;
+}
+
 function pushNote(
   events: TimedEvent[],
   startBeat: number,
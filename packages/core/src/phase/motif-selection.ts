@@ -107,15 +107,18 @@ import {
   MotifSelectionDiagnostics,
   MotifSelectionDiagnosticCategory,
   MotifCacheSource,
-  MelodyFragment
+  MelodyFragment,
+  MeterProfile,
+  CompositionForm
 } from "../types.js";
 import {
-  BEATS_PER_MEASURE,
   chordRootToMidi,
   ensureConsonantPitch,
   generateDrumHitsFromPattern,
   quantizeMidiToChord,
   resolveChordAtBeat,
+  resolveKeyAtBeat,
+  resolveMeter,
   scaleDegreeToMidi
 } from "../musicUtils.js";
 import {
@@ -130,23 +133,17 @@ import {
   repriseHook
 } from "./structure-planning.js";
 import {
-  bassPatternList,
-  bassPatternsByTexture,
+  DEFAULT_MOTIF_LIBRARY,
   convertToBeats,
-  drumById,
-  drumList,
+  createCustomHookMotifs,
   expandMelodyRhythmPattern,
   expandRhythmPattern,
-  melodyById,
-  melodyList,
-  melodyRhythmById,
-  melodyRhythmList,
-  rhythmList,
-  transitionList
+  restrictMotifLibraryToMeter
 } from "../motif-library.js";
 import type {
   ExpandedMelodyRhythmStep,
-  ExpandedRhythmStep
+  ExpandedRhythmStep,
+  MotifLibrary
 } from "../motif-library.js";
 const DEFAULT_BASS_STEPS: BassPatternMotif["steps"] = [
   "root",
@@ -286,8 +283,6 @@ function presetTags(
   return preset ? (PRESET_MOTIF_TAGS[preset]?.[key] ?? []) : [];
 }
 
-const rhythmById = new Map(rhythmList.map((motif) => [motif.id, motif]));
-
 /**
  * Arrangement-specific drum pattern preferences.
  *
@@ -706,12 +701,12 @@ function hasAllTags(source: { tags: string[] }, tags: string[]): boolean {
   return tags.every((tag) => source.tags.includes(tag));
 }
 
-function isStrongBeat(beat: number): boolean {
+function isStrongBeat(beat: number, meter: MeterProfile): boolean {
   const epsilon = 1e-6;
-  // Only beats 1 and 3 (0.0 and 2.0 within a 4-beat measure) are strong beats.
-  // Beats 2 and 4 are backbeats and should allow passing tones via ensureConsonantPitch.
-  const beatInMeasure = beat % BEATS_PER_MEASURE;
-  return Math.abs(beatInMeasure % 2) < epsilon;
+  // In 4/4 only beats 1 and 3 (0.0 and 2.0) are strong beats; other meters list their own.
+  // Weak beats such as backbeats should allow passing tones via ensureConsonantPitch.
+  const beatInMeasure = beat % meter.beatsPerMeasure;
+  return meter.strongBeats.some((strongBeat) => Math.abs(beatInMeasure - strongBeat) < epsilon);
 }
 
 function findMelodyReference(
@@ -737,19 +732,20 @@ function isRhythmMotifConsistent(motif: RhythmMotif): boolean {
 }
 
 function selectRhythmMotif(
+  library: MotifLibrary,
   options: PipelineCompositionOptions,
   styleIntent: StyleIntent,
   functionTag: string,
-  last: (typeof rhythmList)[number] | undefined,
+  last: RhythmMotif | undefined,
   requiredTags: string[],
   rng: () => number,
   used: Set<string>,
   diagnostics?: MotifSelectionDiagnostics
 ) {
-  const safeRhythms = rhythmList.filter(isRhythmMotifConsistent);
+  const safeRhythms = library.rhythm.filter(isRhythmMotifConsistent);
   const basePropTags = RHYTHM_PROPERTY_TAGS[options.mood] ?? [];
   const propertyTags = styleIntent.lofiFeel ? [...basePropTags, "lofi", "swing_hint", "rest_heavy"] : basePropTags;
-  const filterByTags = (source: typeof rhythmList, tags: string[]) =>
+  const filterByTags = (source: RhythmMotif[], tags: string[]) =>
     source.filter((motif) => tags.some((tag) => motif.tags.includes(tag)));
 
   const requiredPool = safeRhythms.filter((motif) => hasAllTags(motif, requiredTags));
@@ -838,8 +834,8 @@ function selectRhythmMotif(
 
   if (last?.variations?.length) {
     const variationCandidates = last.variations
-      .map((id) => rhythmById.get(id))
-      .filter((motif): motif is (typeof rhythmList)[number] => Boolean(motif));
+      .map((id) => library.rhythmById.get(id))
+      .filter((motif): motif is RhythmMotif => Boolean(motif));
     if (variationCandidates.length && rng() < 0.5) {
       const variationPool = preferUnused(variationCandidates, used);
       return pickWithSelectionDiagnostics(variationPool, rng, last.id, diagnostics, "rhythm");
@@ -850,17 +846,19 @@ function selectRhythmMotif(
 }
 
 function selectMelodyFragment(
+  library: MotifLibrary,
   options: PipelineCompositionOptions,
   styleIntent: StyleIntent,
   requiredTags: string[],
   rng: () => number,
-  lastFragment: (typeof melodyList)[number] | undefined,
+  lastFragment: MelodyFragment | undefined,
   used: Set<string>,
-  diagnostics?: MotifSelectionDiagnostics
-): (typeof melodyList)[number] {
+  diagnostics?: MotifSelectionDiagnostics,
+  preferredTags: string[] = []
+): MelodyFragment {
   const moodTags = MELODY_MOOD_TAGS[options.mood] ?? [];
-  let candidates = melodyList.filter((fragment) => moodTags.some((tag) => fragment.tags.includes(tag)));
-  recordCandidatePool(diagnostics, "melody", "mood", moodTags, melodyList.length, candidates.length, candidates.length, candidates.length === 0, candidates.length === 0 ? "empty_match" : undefined);
+  let candidates = library.melody.filter((fragment) => moodTags.some((tag) => fragment.tags.includes(tag)));
+  recordCandidatePool(diagnostics, "melody", "mood", moodTags, library.melody.length, candidates.length, candidates.length, candidates.length === 0, candidates.length === 0 ? "empty_match" : undefined);
   if (requiredTags.length) {
     const requiredFiltered = candidates.filter((fragment) => hasAllTags(fragment, requiredTags));
     recordCandidatePool(
@@ -877,15 +875,15 @@ function selectMelodyFragment(
     if (requiredFiltered.length) {
       candidates = requiredFiltered;
     } else {
-      const globalFallback = melodyList.filter((fragment) => hasAllTags(fragment, requiredTags));
+      const globalFallback = library.melody.filter((fragment) => hasAllTags(fragment, requiredTags));
       if (globalFallback.length) {
         candidates = globalFallback;
       }
     }
   }
   if (!candidates.length) {
-    recordCandidatePool(diagnostics, "melody", "empty-pool-fallback", [], 0, 0, melodyList.length, true, "empty_pool");
-    candidates = melodyList;
+    recordCandidatePool(diagnostics, "melody", "empty-pool-fallback", [], 0, 0, library.melody.length, true, "empty_pool");
+    candidates = library.melody;
   }
 
   if (styleIntent.textureFocus > 0.5) {
@@ -909,11 +907,14 @@ function selectMelodyFragment(
     candidates = preferTagPresenceWithDiagnostics(candidates, presetMelodyTags, diagnostics, "melody", "preset", 0.25);
   }
 
+  candidates = preferTagPresenceWithDiagnostics(candidates, preferredTags, diagnostics, "melody", "closingPhrase", 0);
+
   const pool = preferUnused(candidates, used);
   return pickWithSelectionDiagnostics(pool, rng, lastFragment?.id, diagnostics, "melody");
 }
 
 function selectMelodyRhythmMotif(
+  library: MotifLibrary,
   options: PipelineCompositionOptions,
   styleIntent: StyleIntent,
   functionTag: string,
@@ -927,8 +928,8 @@ function selectMelodyRhythmMotif(
   const tolerance = 1e-6;
   const baseMoodTags = MELODY_RHYTHM_TAGS[options.mood] ?? [];
   const moodTags = styleIntent.lofiFeel ? [...baseMoodTags, "lofi", "rest_heavy", "swing_hint"] : baseMoodTags;
-  let candidates = melodyRhythmList.filter((motif) => Math.abs(motif.length - totalBeats) < tolerance);
-  recordCandidatePool(diagnostics, "melodyRhythm", "length", [`length:${totalBeats}`], melodyRhythmList.length, candidates.length, candidates.length, candidates.length === 0, candidates.length === 0 ? "empty_match" : undefined);
+  let candidates = library.melodyRhythm.filter((motif) => Math.abs(motif.length - totalBeats) < tolerance);
+  recordCandidatePool(diagnostics, "melodyRhythm", "length", [`length:${totalBeats}`], library.melodyRhythm.length, candidates.length, candidates.length, candidates.length === 0, candidates.length === 0 ? "empty_match" : undefined);
   if (!candidates.length) {
     throw new Error(`No melody rhythm motifs of length ${totalBeats}`);
   }
@@ -1021,18 +1022,6 @@ function resolveMelodyVelocity(
  * @param seed - Random seed for deterministic variation
  * @returns Base MIDI register for the composition (clamped 62-82, D4-Bb5), anchored to key tonic
  */
-const KEY_TONIC_MIDI: Record<string, number> = {
-  C_Major: 60,
-  D_Major: 62,
-  E_Minor: 64,
-  F_Major: 65,
-  G_Major: 67,
-  A_Minor: 69,
-  B_Minor: 71,
-  C_Minor: 60,
-  D_Minor: 62,
-};
-
 function resolveBaseRegisterForComposition(
   key: string,
   mood: MoodSetting,
@@ -1042,7 +1031,7 @@ function resolveBaseRegisterForComposition(
   seed: number
 ): number {
   // Anchor to key tonic one octave up (e.g. E4+12=E5) so degree-1 aligns with the tonic
-  const tonicBase = (KEY_TONIC_MIDI[key] ?? 60) + 12;
+  const tonicBase = chordRootToMidi(key, 60) + 12;
 
   // Mood-based offsets: different moods naturally sit in different registers
   const moodBaseOffsets: Record<MoodSetting, number> = {
@@ -1159,7 +1148,7 @@ function resolveMelodyRegister(
 function maybeAddPickupNote(
   melody: AbstractNote[],
   measureStartBeat: number,
-  baseMelody: (typeof melodyList)[number],
+  baseMelody: MelodyFragment,
   sectionId: string
 ) {
   if (measureStartBeat <= 0) {
@@ -1200,19 +1189,20 @@ function resolveTailDegreeVariant(
 }
 
 function pickRhythmVariation(
-  base: (typeof rhythmList)[number],
+  library: MotifLibrary,
+  base: RhythmMotif,
   functionTag: string,
   requiredTags: string[],
   rng: () => number,
   used: Set<string>
-): (typeof rhythmList)[number] | undefined {
+): RhythmMotif | undefined {
   const variationIds = base.variations ?? [];
   if (!variationIds.length) {
     return undefined;
   }
   const variations = variationIds
-    .map((id) => rhythmById.get(id))
-    .filter((motif): motif is (typeof rhythmList)[number] => Boolean(motif))
+    .map((id) => library.rhythmById.get(id))
+    .filter((motif): motif is RhythmMotif => Boolean(motif))
     .filter((motif) => motif.tags.includes(functionTag) && hasAllTags(motif, requiredTags));
   if (!variations.length) {
     return undefined;
@@ -1246,6 +1236,7 @@ function isMelodyVariationCompatible(base: MelodyFragment, candidate: MelodyFrag
 }
 
 function pickMelodyVariation(
+  library: MotifLibrary,
   base: MelodyFragment,
   requiredTags: string[],
   rng: () => number,
@@ -1256,7 +1247,7 @@ function pickMelodyVariation(
     return undefined;
   }
   const variations = variationIds
-    .map((id) => melodyById.get(id))
+    .map((id) => library.melodyById.get(id))
     .filter((motif): motif is MelodyFragment => Boolean(motif))
     .filter((motif) => hasAllTags(motif, requiredTags))
     .filter((motif) => isMelodyVariationCompatible(base, motif));
@@ -1267,7 +1258,7 @@ function pickMelodyVariation(
   return pickWithAvoid(pool, rng, base.id);
 }
 
-type BassStep = "root" | "fifth" | "lowFifth" | "octave" | "octaveHigh" | "approach" | "rest";
+export type BassStep = "root" | "fifth" | "lowFifth" | "octave" | "octaveHigh" | "approach" | "rest";
 
 function buildBassPattern(
   section: StructurePlanResult["sections"][number],
@@ -1305,6 +1296,7 @@ function buildBassPattern(
 }
 
 function resolveBassPattern(
+  library: MotifLibrary,
   section: SectionDefinition,
   measureInSection: number,
   rng: () => number,
@@ -1322,6 +1314,7 @@ function resolveBassPattern(
   if (cached) {
     if (isFinalMeasure && !(cached.tags ?? []).includes("section_end")) {
       const endPattern = selectBassPattern(
+        library,
         section.texture,
         styleIntent,
         stylePreset,
@@ -1343,6 +1336,7 @@ function resolveBassPattern(
   if (styleIntent.harmonicStatic > 0.5) {
     if (!enforceDroneStatic && preferredTags.length) {
       const preferredPattern = selectBassPattern(
+        library,
         section.texture,
         styleIntent,
         stylePreset,
@@ -1360,6 +1354,7 @@ function resolveBassPattern(
     }
 
     const dronePattern = selectBassPattern(
+      library,
       section.texture,
       styleIntent,
       stylePreset,
@@ -1378,14 +1373,15 @@ function resolveBassPattern(
 
   const initialTags = establishesHook(section) ? ["pickup"] : [];
   const basePattern =
-    selectBassPattern(section.texture, styleIntent, stylePreset, rng, used, initialTags, undefined, diagnostics) ??
-    selectBassPattern(section.texture, styleIntent, stylePreset, rng, used, [], undefined, diagnostics) ??
+    selectBassPattern(library, section.texture, styleIntent, stylePreset, rng, used, initialTags, undefined, diagnostics) ??
+    selectBassPattern(library, section.texture, styleIntent, stylePreset, rng, used, [], undefined, diagnostics) ??
     FALLBACK_BASS_PATTERN;
   cache.set(section.id, basePattern);
   used.add(basePattern.id);
 
   if (isFinalMeasure && !(basePattern.tags ?? []).includes("section_end")) {
     const endPattern = selectBassPattern(
+      library,
       section.texture,
       styleIntent,
       stylePreset,
@@ -1405,6 +1401,7 @@ function resolveBassPattern(
 }
 
 function selectBassPattern(
+  library: MotifLibrary,
   texture: TextureProfile,
   styleIntent: StyleIntent,
   stylePreset: StylePreset | undefined,
@@ -1414,11 +1411,11 @@ function selectBassPattern(
   avoidId?: string,
   diagnostics?: MotifSelectionDiagnostics
 ): BassPatternMotif | undefined {
-  let candidates = bassPatternsByTexture.get(texture) ?? [];
-  recordCandidatePool(diagnostics, "bass", "texture", [`texture:${texture}`], bassPatternList.length, candidates.length, candidates.length, candidates.length === 0, candidates.length === 0 ? "empty_match" : undefined);
+  let candidates = library.bassByTexture.get(texture) ?? [];
+  recordCandidatePool(diagnostics, "bass", "texture", [`texture:${texture}`], library.bass.length, candidates.length, candidates.length, candidates.length === 0, candidates.length === 0 ? "empty_match" : undefined);
   if (!candidates.length && texture !== "steady") {
-    candidates = bassPatternsByTexture.get("steady") ?? [];
-    recordCandidatePool(diagnostics, "bass", "texture-steady-fallback", ["texture:steady"], bassPatternList.length, candidates.length, candidates.length, candidates.length === 0, candidates.length === 0 ? "empty_match" : undefined);
+    candidates = library.bassByTexture.get("steady") ?? [];
+    recordCandidatePool(diagnostics, "bass", "texture-steady-fallback", ["texture:steady"], library.bass.length, candidates.length, candidates.length, candidates.length === 0, candidates.length === 0 ? "empty_match" : undefined);
   }
   if (!candidates.length) {
     return undefined;
@@ -1504,8 +1501,10 @@ function mergeTransitionHits(existingHits: DrumHit[], transitionHits: DrumHit[])
 }
 
 function maybeGenerateTransition(
+  library: MotifLibrary,
   section: SectionDefinition,
   measureStartBeat: number,
+  beatsPerMeasure: number,
   isLastSection: boolean,
   rng: () => number,
   lastTransitionId: string | undefined,
@@ -1516,7 +1515,7 @@ function maybeGenerateTransition(
   totalMeasures: number,
   diagnostics?: MotifSelectionDiagnostics
 ): { motifId: string; hits: DrumHit[] } | undefined {
-  if (!transitionList.length) {
+  if (!library.transitions.length) {
     return undefined;
   }
 
@@ -1525,10 +1524,10 @@ function maybeGenerateTransition(
     requiredTags.push("loop_out");
   }
 
-  let candidates = transitionList.filter((motif) => motif.length_beats <= BEATS_PER_MEASURE);
-  recordCandidatePool(diagnostics, "transitions", "length", ["length<=measure"], transitionList.length, candidates.length, candidates.length || transitionList.length, candidates.length === 0, candidates.length === 0 ? "empty_match" : undefined);
+  let candidates = library.transitions.filter((motif) => motif.length_beats <= beatsPerMeasure);
+  recordCandidatePool(diagnostics, "transitions", "length", ["length<=measure"], library.transitions.length, candidates.length, candidates.length || library.transitions.length, candidates.length === 0, candidates.length === 0 ? "empty_match" : undefined);
   if (!candidates.length) {
-    candidates = transitionList;
+    candidates = library.transitions;
   }
 
   const progress = totalMeasures > 1 ? globalMeasureIndex / Math.max(1, totalMeasures - 1) : 0;
@@ -1577,9 +1576,9 @@ function maybeGenerateTransition(
   }
 
   const offset =
-    motif.length_beats >= BEATS_PER_MEASURE
+    motif.length_beats >= beatsPerMeasure
       ? measureStartBeat
-      : measureStartBeat + Math.max(0, BEATS_PER_MEASURE - motif.length_beats);
+      : measureStartBeat + Math.max(0, beatsPerMeasure - motif.length_beats);
   const hits = generateDrumHitsFromPattern(motif.pattern, offset, section.id);
   return { motifId: motif.id, hits };
 }
@@ -1595,7 +1594,14 @@ function resolveBassVelocity(section: StructurePlanResult["sections"][number], s
   return base;
 }
 
-function bassStepToMidi(step: BassStep, chord: string, nextChord: string, baseMidi: number): number | null {
+/**
+ * Resolves one bass pattern step against the chord in effect.
+ *
+ * @param nextChord Chord the `"approach"` step leads into
+ * @param baseMidi Root register of the bass line
+ * @returns MIDI note, or null for `"rest"`
+ */
+export function bassStepToMidi(step: BassStep, chord: string, nextChord: string, baseMidi: number): number | null {
   switch (step) {
     case "root":
       return quantizeMidiToChord(baseMidi, chord);
@@ -1656,8 +1662,9 @@ function resolveAccompanimentVelocity(
 function buildAccompanimentSeeds(
   section: StructurePlanResult["sections"][number],
   measureStartBeat: number,
+  beatsPerMeasure: number,
   rhythmMotif: RhythmMotif,
-  baseMelody: (typeof melodyList)[number],
+  baseMelody: MelodyFragment,
   functionTag: string,
   arrangementId: VoiceArrangementPreset,
   rng: () => number
@@ -1675,11 +1682,11 @@ function buildAccompanimentSeeds(
 
   for (let patternIndex = 0; patternIndex < expandedPattern.length; patternIndex++) {
     const step = expandedPattern[patternIndex];
-    // Stop at measure boundary (4 beats)
-    if (beatCursor >= BEATS_PER_MEASURE) break;
+    // Stop at measure boundary
+    if (beatCursor >= beatsPerMeasure) break;
 
     // Calculate remaining beats in measure
-    const remainingBeats = BEATS_PER_MEASURE - beatCursor;
+    const remainingBeats = beatsPerMeasure - beatCursor;
     const actualDuration = Math.min(step.durationBeats, remainingBeats);
 
     // Resolve degree based on texture
@@ -1724,7 +1731,7 @@ function buildAccompanimentSeeds(
     degreeIndex++;
 
     // Stop if we've reached the measure boundary
-    if (beatCursor >= BEATS_PER_MEASURE) break;
+    if (beatCursor >= beatsPerMeasure) break;
   }
 
   // Mirror hook motion on pickups by echoing the first pitch one beat before the section
@@ -1757,7 +1764,7 @@ function buildAccompanimentSeeds(
       {
         channelRole: "accompaniment",
         startBeat: measureStartBeat,
-        durationBeats: BEATS_PER_MEASURE,
+        durationBeats: beatsPerMeasure,
         degree: collapsedDegree,
         velocity: collapsedVelocity,
         sectionId: section.id
@@ -1842,8 +1849,13 @@ interface MotifContext {
   stylePreset: StylePreset | undefined;
   voiceArrangement: StructurePlanResult["voiceArrangement"];
   totalMeasures: number;
+  form: CompositionForm;
   motifSelectionDiagnostics: MotifSelectionDiagnostics;
   experiments: PipelineCompositionOptions["experiments"];
+  library: MotifLibrary;
+  meter: MeterProfile;
+  /** Motifs of the `hook` option; kept out of the library so only hook phrases play them */
+  customHook?: { melody: MelodyFragment; melodyRhythm: MelodyRhythmMotif };
 
   // Used motif tracking
   usedMotifs: {
@@ -1864,8 +1876,8 @@ interface MotifContext {
 
   // Last selected motifs (for variety/continuity)
   lastMotifs: {
-    rhythm?: (typeof rhythmList)[number];
-    melodyFragment?: (typeof melodyList)[number];
+    rhythm?: RhythmMotif;
+    melodyFragment?: MelodyFragment;
     drumPatternId?: string;
     transitionId?: string;
   };
@@ -1978,6 +1990,7 @@ function initializeMotifContext(
   phase1: StructurePlanResult
 ): MotifContext {
   const rng = createRng(options.seed);
+  const meter = resolveMeter(phase1.timeSignature);
   const compositionSeed = options.seed ?? Date.now();
   const compositionBaseRegister = resolveBaseRegisterForComposition(
     phase1.key,
@@ -1996,8 +2009,12 @@ function initializeMotifContext(
     stylePreset: options.stylePreset,
     voiceArrangement: phase1.voiceArrangement,
     totalMeasures: options.lengthInMeasures,
+    form: phase1.form ?? "loop",
     motifSelectionDiagnostics: createMotifSelectionDiagnostics(),
     experiments: options.experiments,
+    library: restrictMotifLibraryToMeter(options.motifLibrary ?? DEFAULT_MOTIF_LIBRARY, meter),
+    meter,
+    customHook: options.hook ? createCustomHookMotifs(options.hook, meter) : undefined,
 
     usedMotifs: {
       rhythms: new Set<string>(),
@@ -2038,8 +2055,8 @@ interface PhraseContext {
   phraseStartMeasureIndex: number;
   phraseIndex: number;
   cachedHook: HookMotifs | undefined;
-  baseRhythm: (typeof rhythmList)[number];
-  baseMelody: (typeof melodyList)[number];
+  baseRhythm: RhythmMotif;
+  baseMelody: MelodyFragment;
   baseMelodyRhythm: MelodyRhythmMotif;
 }
 
@@ -2056,7 +2073,7 @@ interface MeasureContext {
   isHookMeasure: boolean;
   phraseOffset: number;
   phraseIndex: number;
-  rhythmMotif: (typeof rhythmList)[number];
+  rhythmMotif: RhythmMotif;
 }
 
 /**
@@ -2075,13 +2092,18 @@ function processSectionPhrases(
   context: MotifContext,
   results: MotifResults
 ): void {
-  const sectionStartBeat = section.startMeasure * BEATS_PER_MEASURE;
-  const phraseLength = Math.max(1, getPhraseLengthForSection(section));
+  const phraseLength = resolvePhraseMeasures(section, context);
+  // The custom hook is its own first phrase; the rest of the section phrases as usual
+  const firstPhraseLength =
+    context.customHook && (establishesHook(section) || repriseHook(section))
+      ? context.customHook.melodyRhythm.length / context.meter.beatsPerMeasure
+      : phraseLength;
 
   let measure = 0;
+  let phraseIndex = 0;
   while (measure < section.measures) {
-    const phraseMeasures = Math.min(phraseLength, section.measures - measure);
     const isFirstPhrase = measure === 0;
+    const phraseMeasures = Math.min(isFirstPhrase ? firstPhraseLength : phraseLength, section.measures - measure);
     const phraseStartMeasureIndex = section.startMeasure + measure;
 
     const phraseContext = createPhraseContext(
@@ -2091,6 +2113,7 @@ function processSectionPhrases(
       phraseMeasures,
       isFirstPhrase,
       phraseStartMeasureIndex,
+      phraseIndex,
       context,
       results
     );
@@ -2098,9 +2121,40 @@ function processSectionPhrases(
     processSinglePhrase(phraseContext, phase1, options, context, results);
 
     measure += phraseMeasures;
+    phraseIndex++;
   }
 }
 
+/**
+ * Phrase length in measures for a section.
+ * Each phrase needs a melody rhythm of the same length, so the template's phrase
+ * length is capped at the longest melody rhythm in the library.
+ */
+function resolvePhraseMeasures(section: SectionDefinition, context: MotifContext): number {
+  const longestMelodyRhythm = context.library.melodyRhythm.reduce((max, motif) => Math.max(max, motif.length), 0);
+  return Math.max(
+    1,
+    Math.min(getPhraseLengthForSection(section), Math.floor(longestMelodyRhythm / context.meter.beatsPerMeasure))
+  );
+}
+
+/** Melody fragment tags preferred in the last phrase of a one-shot */
+const ONE_SHOT_CLOSING_MELODY_TAGS = ["cadence", "end"];
+
+/**
+ * Tags motifs must carry in the last two measures of the composition.
+ * A loop's final measure must be loop-safe so the wrap stays smooth; a one-shot's closes on a cadence.
+ */
+function closingTagsForMeasure(measureIndex: number, context: MotifContext, isHookMeasure: boolean): string[] {
+  if (measureIndex === context.totalMeasures - 1) {
+    return [context.form === "oneShot" ? "cadence" : "loop_safe"];
+  }
+  if (measureIndex === context.totalMeasures - 2 && !isHookMeasure) {
+    return ["cadence"];
+  }
+  return [];
+}
+
 /**
  * Create phrase context for a single phrase iteration.
  * Handles hook caching and base motif selection.
@@ -2112,6 +2166,7 @@ function createPhraseContext(
   phraseMeasures: number,
   isFirstPhrase: boolean,
   phraseStartMeasureIndex: number,
+  phraseIndex: number,
   context: MotifContext,
   results: MotifResults
 ): PhraseContext {
@@ -2123,24 +2178,22 @@ function createPhraseContext(
   );
 
   const phraseStartInSection = phraseStartMeasureIndex - section.startMeasure;
-  const phraseIndex = Math.floor(
-    phraseStartInSection / Math.max(1, getPhraseLengthForSection(section))
-  );
   const phraseEndsSection = phraseStartInSection + phraseMeasures >= section.measures;
   const baseFunctionTag = phraseStartInSection === 0
     ? "start"
     : phraseEndsSection
       ? "end"
       : "middle";
-  const baseRequiredTags: string[] = [];
-  if (phraseStartMeasureIndex === context.totalMeasures - 1) {
-    baseRequiredTags.push("loop_safe");
-  } else if (phraseStartMeasureIndex === context.totalMeasures - 2 && !(repriseHook(section) && isFirstPhrase)) {
-    baseRequiredTags.push("cadence");
-  }
+  const baseRequiredTags = closingTagsForMeasure(
+    phraseStartMeasureIndex,
+    context,
+    repriseHook(section) && isFirstPhrase
+  );
+  const closingPhrase =
+    context.form === "oneShot" && phraseStartMeasureIndex + phraseMeasures >= context.totalMeasures;
 
-  let baseRhythm: (typeof rhythmList)[number] | undefined;
-  let baseMelody: (typeof melodyList)[number] | undefined;
+  let baseRhythm: RhythmMotif | undefined;
+  let baseMelody: MelodyFragment | undefined;
   let baseMelodyRhythm: MelodyRhythmMotif | undefined;
   let rhythmSource: MotifCacheSource = "new_selection";
   let melodySource: MotifCacheSource = "new_selection";
@@ -2154,10 +2207,21 @@ function createPhraseContext(
     rhythmKey
   );
 
+  // A custom hook replaces the selected melody and melody rhythm of the hook phrase
+  if (establishesHook(section) && isFirstPhrase && context.customHook) {
+    baseMelody = context.customHook.melody;
+    baseMelodyRhythm = context.customHook.melodyRhythm;
+    melodySource = "custom_hook";
+    melodyRhythmSource = "custom_hook";
+  }
+
   // Retrieve from hook cache if reprising
   if (repriseHook(section) && isFirstPhrase && cachedHook) {
-    const hookRhythm = rhythmById.get(cachedHook.rhythmId);
-    const hookMelody = melodyById.get(cachedHook.melodyId);
+    const hookRhythm = context.library.rhythmById.get(cachedHook.rhythmId);
+    const hookMelody =
+      context.customHook?.melody.id === cachedHook.melodyId
+        ? context.customHook.melody
+        : context.library.melodyById.get(cachedHook.melodyId);
     if (hookRhythm) {
       baseRhythm = hookRhythm;
       rhythmSource = "hook_reuse";
@@ -2171,10 +2235,11 @@ function createPhraseContext(
   // Select base rhythm
   if (!baseRhythm) {
     const cachedRhythmId = cache.rhythm;
-    baseRhythm = cachedRhythmId ? rhythmById.get(cachedRhythmId) : undefined;
+    baseRhythm = cachedRhythmId ? context.library.rhythmById.get(cachedRhythmId) : undefined;
     if (baseRhythm) rhythmSource = "template_cache";
     if (!baseRhythm) {
       baseRhythm = selectRhythmMotif(
+        context.library,
         options,
         context.styleIntent,
         baseFunctionTag,
@@ -2194,18 +2259,20 @@ function createPhraseContext(
       options.experiments?.varyNonInitialPhraseMelody === true &&
       !isFirstPhrase &&
       !repriseHook(section);
-    const cachedMelodyId = varyPhraseMelody ? undefined : cache.melody;
-    baseMelody = cachedMelodyId ? melodyById.get(cachedMelodyId) : undefined;
+    const cachedMelodyId = varyPhraseMelody || closingPhrase ? undefined : cache.melody;
+    baseMelody = cachedMelodyId ? context.library.melodyById.get(cachedMelodyId) : undefined;
     if (baseMelody) melodySource = "template_cache";
     if (!baseMelody) {
       baseMelody = selectMelodyFragment(
+        context.library,
         options,
         context.styleIntent,
         baseRequiredTags,
         context.rng,
         context.lastMotifs.melodyFragment,
         context.usedMotifs.melodies,
-        context.motifSelectionDiagnostics
+        context.motifSelectionDiagnostics,
+        closingPhrase ? ONE_SHOT_CLOSING_MELODY_TAGS : []
       );
       cache.melody = baseMelody.id;
     }
@@ -2226,12 +2293,14 @@ function createPhraseContext(
 
   if (shouldVaryReprisedHook) {
     const linkedVariation = pickMelodyVariation(
+      context.library,
       baseMelody,
       baseRequiredTags,
       context.rng,
       context.usedMotifs.melodies
     );
     const variedMelody = linkedVariation ?? selectMelodyFragment(
+      context.library,
       options,
       context.styleIntent,
       baseRequiredTags,
@@ -2249,7 +2318,10 @@ function createPhraseContext(
 
   // Select melody rhythm
   if (repriseHook(section) && isFirstPhrase && cachedHook) {
-    const hookMelodyRhythm = melodyRhythmById.get(cachedHook.melodyRhythmId);
+    const hookMelodyRhythm =
+      context.customHook?.melodyRhythm.id === cachedHook.melodyRhythmId
+        ? context.customHook.melodyRhythm
+        : context.library.melodyRhythmById.get(cachedHook.melodyRhythmId);
     if (hookMelodyRhythm) {
       baseMelodyRhythm = hookMelodyRhythm;
       melodyRhythmSource = "hook_reuse";
@@ -2257,14 +2329,15 @@ function createPhraseContext(
   }
   if (!baseMelodyRhythm) {
     const cachedMelodyRhythmId = cache.melodyRhythm;
-    baseMelodyRhythm = cachedMelodyRhythmId ? melodyRhythmById.get(cachedMelodyRhythmId) : undefined;
+    baseMelodyRhythm = cachedMelodyRhythmId ? context.library.melodyRhythmById.get(cachedMelodyRhythmId) : undefined;
     if (baseMelodyRhythm) melodyRhythmSource = "template_cache";
     if (!baseMelodyRhythm) {
       baseMelodyRhythm = selectMelodyRhythmMotif(
+        context.library,
         options,
         context.styleIntent,
         baseFunctionTag,
-        phraseMeasures * BEATS_PER_MEASURE,
+        phraseMeasures * context.meter.beatsPerMeasure,
         baseRequiredTags,
         context.rng,
         undefined,
@@ -2353,7 +2426,6 @@ function processSinglePhrase(
   results: MotifResults
 ): void {
   const { section, phraseMeasures, isFirstPhrase, baseMelody, baseMelodyRhythm } = phraseContext;
-  const sectionStartBeat = section.startMeasure * BEATS_PER_MEASURE;
   
   const expandedMelodyRhythm = expandMelodyRhythmPattern(baseMelodyRhythm);
   let phraseBeatCursor = 0;
@@ -2385,7 +2457,7 @@ function processSinglePhrase(
     );
 
     // Update cursors after melody generation
-    const measureBeatLimit = (phraseOffset + 1) * BEATS_PER_MEASURE;
+    const measureBeatLimit = (phraseOffset + 1) * context.meter.beatsPerMeasure;
     while (phraseStepIndex < expandedMelodyRhythm.length && phraseBeatCursor < measureBeatLimit) {
       const step = expandedMelodyRhythm[phraseStepIndex];
       if (!step.rest) {
@@ -2450,17 +2522,11 @@ function createMeasureContext(
   const { section, isFirstPhrase, baseRhythm } = phraseContext;
   const measureInSection = phraseContext.phraseStartMeasureIndex - section.startMeasure + phraseOffset;
   const globalMeasureIndex = section.startMeasure + measureInSection;
-  const measureStartBeat = section.startMeasure * BEATS_PER_MEASURE + measureInSection * BEATS_PER_MEASURE;
+  const measureStartBeat = (section.startMeasure + measureInSection) * context.meter.beatsPerMeasure;
   
   const functionTag = functionalTagForMeasure(measureInSection, section.measures);
-  const requiredTags: string[] = [];
   const isHookMeasure = repriseHook(section) && measureInSection === 0;
-  
-  if (globalMeasureIndex === context.totalMeasures - 1) {
-    requiredTags.push("loop_safe");
-  } else if (globalMeasureIndex === context.totalMeasures - 2 && !isHookMeasure) {
-    requiredTags.push("cadence");
-  }
+  const requiredTags = closingTagsForMeasure(globalMeasureIndex, context, isHookMeasure);
 
   const measureKey = cacheKey(functionTag, requiredTags);
   const measureCache = getOrCreateTemplateCache(
@@ -2478,19 +2544,19 @@ function createMeasureContext(
     shouldVaryByPosition &&
     context.rng() > repeatBias;
   
-  let rhythmMotif = measureCache.rhythm ? rhythmById.get(measureCache.rhythm) : undefined;
+  let rhythmMotif = measureCache.rhythm ? context.library.rhythmById.get(measureCache.rhythm) : undefined;
   let rhythmSource: MotifCacheSource = rhythmMotif ? "template_cache" : "base_reuse";
   
   if (!rhythmMotif) {
     if (preferVariation) {
-      const variation = pickRhythmVariation(baseRhythm, functionTag, requiredTags, context.rng, context.usedMotifs.rhythms);
+      const variation = pickRhythmVariation(context.library, baseRhythm, functionTag, requiredTags, context.rng, context.usedMotifs.rhythms);
       rhythmMotif = variation ?? baseRhythm;
       if (variation) rhythmSource = "variation";
     } else {
       rhythmMotif = baseRhythm;
     }
   } else if (preferVariation && rhythmMotif.id === baseRhythm.id) {
-    const variation = pickRhythmVariation(baseRhythm, functionTag, requiredTags, context.rng, context.usedMotifs.rhythms);
+    const variation = pickRhythmVariation(context.library, baseRhythm, functionTag, requiredTags, context.rng, context.usedMotifs.rhythms);
     if (variation) {
       rhythmMotif = variation;
       rhythmSource = "variation";
@@ -2499,6 +2565,7 @@ function createMeasureContext(
   
   if (!rhythmMotif.tags.includes(functionTag) || !hasAllTags(rhythmMotif, requiredTags)) {
     rhythmMotif = selectRhythmMotif(
+      context.library,
       options,
       context.styleIntent,
       functionTag,
@@ -2543,24 +2610,30 @@ function createMeasureContext(
 function generateMelodyForMeasure(
   measureContext: MeasureContext,
   expandedMelodyRhythm: ExpandedMelodyRhythmStep[],
-  baseMelody: (typeof melodyList)[number],
+  baseMelody: MelodyFragment,
   section: SectionDefinition,
   context: MotifContext,
   melodyOutput: AbstractNote[],
   cursors: { phraseBeatCursor: number; phraseStepIndex: number; melodyDegreeCursor: number }
 ): void {
   const { measureStartBeat, measureInSection, globalMeasureIndex, phraseOffset } = measureContext;
-  const measureBeatLimit = (phraseOffset + 1) * BEATS_PER_MEASURE;
+  const measureBeatLimit = (phraseOffset + 1) * context.meter.beatsPerMeasure;
   
   while (cursors.phraseStepIndex < expandedMelodyRhythm.length && cursors.phraseBeatCursor < measureBeatLimit) {
     const step = expandedMelodyRhythm[cursors.phraseStepIndex];
-    const localStart = cursors.phraseBeatCursor - phraseOffset * BEATS_PER_MEASURE;
+    const localStart = cursors.phraseBeatCursor - phraseOffset * context.meter.beatsPerMeasure;
     
     if (!step.rest) {
       let degree = baseMelody.pattern[cursors.melodyDegreeCursor % baseMelody.pattern.length];
       const isTailStep = cursors.phraseStepIndex === expandedMelodyRhythm.length - 1;
       
-      if (isTailStep && (section.occurrenceIndex > 1 || measureInSection > 0) && !repriseHook(section)) {
+      const customHook = baseMelody === context.customHook?.melody;
+      if (
+        isTailStep &&
+        (section.occurrenceIndex > 1 || measureInSection > 0) &&
+        !repriseHook(section) &&
+        !customHook
+      ) {
         degree = resolveTailDegreeVariant(degree, baseMelody.pattern, context.styleIntent, context.rng);
       }
       
@@ -2607,6 +2680,7 @@ function generateBassForMeasure(
   const source: MotifCacheSource = bassPattern ? "template_cache" : "new_selection";
   if (!bassPattern) {
     bassPattern = resolveBassPattern(
+      context.library,
       section,
       measureInSection,
       context.rng,
@@ -2631,7 +2705,7 @@ function generateBassForMeasure(
   });
   
   const currentChord = resolveChordAtBeat(phase1, measureStartBeat);
-  const nextChord = resolveChordAtBeat(phase1, measureStartBeat + BEATS_PER_MEASURE);
+  const nextChord = resolveChordAtBeat(phase1, measureStartBeat + context.meter.beatsPerMeasure);
   
   bassOutput.push(
     ...buildBassPattern(
@@ -2651,7 +2725,7 @@ function generateBassForMeasure(
  */
 function generateAccompanimentForMeasure(
   measureContext: MeasureContext,
-  baseMelody: (typeof melodyList)[number],
+  baseMelody: MelodyFragment,
   section: SectionDefinition,
   context: MotifContext,
   accompanimentOutput: AbstractNote[]
@@ -2662,6 +2736,7 @@ function generateAccompanimentForMeasure(
     ...buildAccompanimentSeeds(
       section,
       measureStartBeat,
+      context.meter.beatsPerMeasure,
       rhythmMotif,
       baseMelody,
       functionTag,
@@ -2694,13 +2769,15 @@ function generateDrumsForMeasure(
     drumKey
   );
   
-  let drumPattern = drumCache.drum ? drumById.get(drumCache.drum) : undefined;
+  let drumPattern = drumCache.drum ? context.library.drumById.get(drumCache.drum) : undefined;
   const source: MotifCacheSource = drumPattern ? "template_cache" : "new_selection";
   
   if (!drumPattern) {
     drumPattern = selectDrumPattern(
+      context.library,
       measureInSection,
       section.measures,
+      context.meter.beatsPerMeasure,
       requiredTags,
       context.rng,
       context.lastMotifs.drumPatternId,
@@ -2735,8 +2812,10 @@ function generateDrumsForMeasure(
   if (isSectionFinalMeasure) {
     const isLastSection = section.id === context.sectionById.get(Array.from(context.sectionById.keys()).pop()!)?.id;
     const transitionResult = maybeGenerateTransition(
+      context.library,
       section,
       measureStartBeat,
+      context.meter.beatsPerMeasure,
       isLastSection,
       context.rng,
       context.lastMotifs.transitionId,
@@ -2759,6 +2838,17 @@ function generateDrumsForMeasure(
   return drumPattern?.id;
 }
 
+/**
+ * Tonic the custom hook's degrees count from: the composition register moved to the
+ * nearest tonic, so the hook keeps its shape through per-measure register offsets.
+ */
+function resolveCustomHookTonic(phase1: StructurePlanResult, keyOffset: number, context: MotifContext): number {
+  const register = context.compositionBaseRegister + keyOffset;
+  const tonic = chordRootToMidi(phase1.key, 0) + keyOffset;
+  const offset = (((register - tonic) % 12) + 12) % 12;
+  return register - (offset > 6 ? offset - 12 : offset);
+}
+
 /**
  * Convert melody AbstractNotes to MidiNotes with chord quantization.
  * Part of P2-1 refactoring: extracted from selectMotifsLegacy.
@@ -2770,7 +2860,7 @@ function convertMelodyToMidi(
 ): MidiNote[] {
   return melody.map((note) => {
     const section = context.sectionById.get(note.sectionId);
-    const measureIndex = Math.floor(note.startBeat / BEATS_PER_MEASURE);
+    const measureIndex = Math.floor(note.startBeat / context.meter.beatsPerMeasure);
     const measureInSection = section ? measureIndex - section.startMeasure : 0;
     const baseRegister = resolveMelodyRegister(
       section,
@@ -2780,14 +2870,21 @@ function convertMelodyToMidi(
       context.styleIntent,
       context.compositionBaseRegister
     );
-    const baseMidi = scaleDegreeToMidi(note.degree, phase1.scaleDegrees, baseRegister);
+    const sectionKey = resolveKeyAtBeat(phase1, note.startBeat);
+    // Custom hook notes sound as written; the progression was chosen to fit them
+    const customHook = note.motifId === context.customHook?.melody.id;
+    const baseMidi = customHook
+      ? scaleDegreeToMidi(note.degree, sectionKey.scaleDegrees, resolveCustomHookTonic(phase1, sectionKey.keyOffset, context))
+      : scaleDegreeToMidi(note.degree, sectionKey.scaleDegrees, baseRegister + sectionKey.keyOffset);
     const chord = resolveChordAtBeat(phase1, note.startBeat);
-    const strongBeat = isStrongBeat(note.startBeat);
-    const midi = strongBeat
-      ? quantizeMidiToChord(baseMidi, chord)
-      : context.experiments?.weakBeatQuantization === "scale"
-        ? baseMidi
-        : ensureConsonantPitch(baseMidi, chord);
+    const strongBeat = isStrongBeat(note.startBeat, context.meter);
+    const midi = customHook
+      ? baseMidi
+      : strongBeat
+        ? quantizeMidiToChord(baseMidi, chord)
+        : context.experiments?.weakBeatQuantization === "scale"
+          ? baseMidi
+          : ensureConsonantPitch(baseMidi, chord);
     context.motifSelectionDiagnostics.melodyPitch.push({
       sectionId: note.sectionId,
       measureIndex,
@@ -2819,7 +2916,8 @@ function convertAccompanimentToMidi(
   // Place accompaniment a perfect 4th below the melody base register to avoid voice crossing.
   const accompBaseMidi = compositionBaseRegister - 5;
   return accompanimentSeeds.map((note) => {
-    const baseMidi = scaleDegreeToMidi(note.degree, phase1.scaleDegrees, accompBaseMidi);
+    const sectionKey = resolveKeyAtBeat(phase1, note.startBeat);
+    const baseMidi = scaleDegreeToMidi(note.degree, sectionKey.scaleDegrees, accompBaseMidi + sectionKey.keyOffset);
     const chord = resolveChordAtBeat(phase1, note.startBeat);
     const reference = findMelodyReference(note.startBeat, melodyMidi);
     const midi = ensureConsonantPitch(baseMidi, chord, reference?.midi);
@@ -2837,7 +2935,8 @@ function convertBassToMidi(
 ): MidiNote[] {
   return bass.map((note) => {
     const midiOverride = (note as any).midiOverride as number | undefined;
-    const base = midiOverride ?? scaleDegreeToMidi(note.degree, phase1.scaleDegrees, 52, -1);
+    const sectionKey = resolveKeyAtBeat(phase1, note.startBeat);
+    const base = midiOverride ?? scaleDegreeToMidi(note.degree, sectionKey.scaleDegrees, 52 + sectionKey.keyOffset, -1);
     const chord = resolveChordAtBeat(phase1, note.startBeat);
     const midi = quantizeMidiToChord(base, chord);
     return { ...note, midi };
@@ -2974,9 +3073,9 @@ export function selectMotifs(options: PipelineCompositionOptions, phase1: Struct
         midi = (note as any).midiOverride;
       } else {
         // Handle melody/accompaniment/pad with scale conversion
-        const measureIndex = Math.floor(note.startBeat / BEATS_PER_MEASURE);
         const baseRegister = voice.role === "melody" || voice.role === "melodyAlt" ? 72 : 67;
-        const baseMidi = scaleDegreeToMidi(note.degree, phase1.scaleDegrees, baseRegister);
+        const sectionKey = resolveKeyAtBeat(phase1, note.startBeat);
+        const baseMidi = scaleDegreeToMidi(note.degree, sectionKey.scaleDegrees, baseRegister + sectionKey.keyOffset);
         const chord = resolveChordAtBeat(phase1, note.startBeat);
         midi = quantizeMidiToChord(baseMidi, chord);
 
@@ -3014,8 +3113,10 @@ export function selectMotifs(options: PipelineCompositionOptions, phase1: Struct
 }
 
 function selectDrumPattern(
+  library: MotifLibrary,
   measureIndex: number,
   totalMeasures: number,
+  beatsPerMeasure: number,
   requiredTags: string[],
   rng: () => number,
   lastPatternId: string | undefined,
@@ -3052,11 +3153,11 @@ function selectDrumPattern(
   const fillEvery = styleIntent.breakInsertion ? 2 : 4;
   const cycleFill = fillEvery > 0 && totalMeasures >= fillEvery && (measureIndex + 1) % fillEvery === 0;
   const isFill = forceFill || cycleFill;
-  let candidates = drumList.filter((pattern) =>
+  let candidates = library.drums.filter((pattern) =>
     isFill ? pattern.type === "fill" : pattern.type === "beat"
   );
-  recordCandidatePool(diagnostics, "drums", "type", [isFill ? "fill" : "beat"], drumList.length, candidates.length, candidates.length, candidates.length === 0, candidates.length === 0 ? "empty_match" : undefined);
-  const fitsMeasure = candidates.filter((pattern) => pattern.length_beats <= BEATS_PER_MEASURE);
+  recordCandidatePool(diagnostics, "drums", "type", [isFill ? "fill" : "beat"], library.drums.length, candidates.length, candidates.length, candidates.length === 0, candidates.length === 0 ? "empty_match" : undefined);
+  const fitsMeasure = candidates.filter((pattern) => pattern.length_beats <= beatsPerMeasure);
   recordCandidatePool(diagnostics, "drums", "length", ["length<=measure"], candidates.length, fitsMeasure.length, fitsMeasure.length || candidates.length, fitsMeasure.length === 0, fitsMeasure.length === 0 ? "empty_match" : undefined);
   if (fitsMeasure.length) {
     candidates = fitsMeasure;
@@ -3072,12 +3173,12 @@ function selectDrumPattern(
     }
   }
   if (!candidates.length) {
-    recordCandidatePool(diagnostics, "drums", "type-fallback", [isFill ? "fill" : "beat"], drumList.length, drumList.filter((pattern) => (isFill ? pattern.type === "fill" : pattern.type === "beat")).length, drumList.filter((pattern) => (isFill ? pattern.type === "fill" : pattern.type === "beat")).length, true, "empty_pool");
-    candidates = drumList.filter((pattern) => (isFill ? pattern.type === "fill" : pattern.type === "beat"));
+    recordCandidatePool(diagnostics, "drums", "type-fallback", [isFill ? "fill" : "beat"], library.drums.length, library.drums.filter((pattern) => (isFill ? pattern.type === "fill" : pattern.type === "beat")).length, library.drums.filter((pattern) => (isFill ? pattern.type === "fill" : pattern.type === "beat")).length, true, "empty_pool");
+    candidates = library.drums.filter((pattern) => (isFill ? pattern.type === "fill" : pattern.type === "beat"));
   }
   if (!candidates.length) {
-    recordCandidatePool(diagnostics, "drums", "global-fallback", [], 0, 0, drumList.length, true, "empty_pool");
-    candidates = drumList;
+    recordCandidatePool(diagnostics, "drums", "global-fallback", [], 0, 0, library.drums.length, true, "empty_pool");
+    candidates = library.drums;
   }
   const prefersBreakbeatFocus =
     styleIntent.percussiveLayering &&
@@ -3260,6 +3361,8 @@ function generateBassTrackForVoice(
   const styleIntent = phase1.styleIntent;
   const baseSeed = options.seed ?? RNG_SEED;
   const voiceRng = createVoiceRng(baseSeed, seedOffset);
+  const meter = resolveMeter(phase1.timeSignature);
+  const library = restrictMotifLibraryToMeter(options.motifLibrary ?? DEFAULT_MOTIF_LIBRARY, meter);
   const usedBassPatterns = new Set<string>();
   const bassPatternCache = new Map<string, BassPatternMotif>();
 
@@ -3267,7 +3370,7 @@ function generateBassTrackForVoice(
   const baseBassMidi = 40 + octaveOffsetSemitones;
 
   for (const section of phase1.sections) {
-    const sectionStartBeat = section.startMeasure * BEATS_PER_MEASURE;
+    const sectionStartBeat = section.startMeasure * meter.beatsPerMeasure;
 
     for (let measure = 0; measure < section.measures; measure++) {
       // Density check: should this voice play in this measure?
@@ -3275,10 +3378,11 @@ function generateBassTrackForVoice(
         continue;
       }
 
-      const measureStartBeat = sectionStartBeat + measure * BEATS_PER_MEASURE;
+      const measureStartBeat = sectionStartBeat + measure * meter.beatsPerMeasure;
 
       // Reuse existing bass pattern resolution logic
       const bassPattern = resolveBassPattern(
+        library,
         section,
         measure,
         voiceRng,
@@ -3297,7 +3401,7 @@ function generateBassTrackForVoice(
 
       // Build bass notes with adjusted base MIDI
       const chord = resolveChordAtBeat(phase1, measureStartBeat);
-      const nextChord = resolveChordAtBeat(phase1, measureStartBeat + BEATS_PER_MEASURE);
+      const nextChord = resolveChordAtBeat(phase1, measureStartBeat + meter.beatsPerMeasure);
 
       const patternNotes = buildBassPatternWithBaseMidi(
         section,
@@ -3327,23 +3431,24 @@ function generatePadTrackForVoice(
 ): AbstractNote[] {
   const voiceRng = createRng(baseSeed);
   const padNotes: AbstractNote[] = [];
+  const { beatsPerMeasure } = resolveMeter(phase1.timeSignature);
 
   for (const section of phase1.sections) {
-    const sectionStartBeat = section.startMeasure * BEATS_PER_MEASURE;
+    const sectionStartBeat = section.startMeasure * beatsPerMeasure;
 
     for (let measure = 0; measure < section.measures; measure++) {
       if (!shouldGenerateForVoice(priority, measure, section.measures, phase1.styleIntent, voiceRng)) {
         continue;
       }
 
-      const measureStartBeat = sectionStartBeat + measure * BEATS_PER_MEASURE;
+      const measureStartBeat = sectionStartBeat + measure * beatsPerMeasure;
 
       // Generate one long pad note per measure (root or fifth)
       const degree = (measure % 2 === 0) ? 1 : 5;
       padNotes.push({
         channelRole: "accompaniment",
         startBeat: measureStartBeat,
-        durationBeats: BEATS_PER_MEASURE,
+        durationBeats: beatsPerMeasure,
         degree,
         velocity: VELOCITY_ACCOMPANIMENT.PAD_MIN,
         sectionId: section.id
@@ -1,7 +1,12 @@
 import {
+  CompositionForm,
+  CustomHook,
+  KeyModulation,
+  MeterProfile,
   PipelineCompositionOptions,
   StructurePlanResult,
   SectionDefinition,
+  SectionSpec,
   TechniqueStrategy,
   StyleIntent,
   StylePreset,
@@ -10,6 +15,17 @@ import {
   VoiceArrangement,
   VoiceArrangementPreset
 } from "../types.js";
+import {
+  chordRootToMidi,
+  getChordIntervals,
+  isChordSymbol,
+  parseKey,
+  resolveMeter,
+  scaleDegreeToMidi,
+  transposeKey
+} from "../musicUtils.js";
+import { convertToBeats } from "../motif-library.js";
+import { buildTempoMap } from "../tempo-map.js";
 import chordsJson from "../../motifs/chords.json" with { type: "json" };
 
 const chords = chordsJson as Record<string, Record<string, string[][]>>;
@@ -24,6 +40,7 @@ const TEXTURE_VARIATION_PROBABILITY = 0.25;
  * - medium (120): Most action and adventure music (4-on-the-floor electronic dance music standard)
  * - fast (150): High-energy battle themes and chase sequences
  * Each base value is jittered ±15 BPM per seed for variety without straying too far from the intended feel.
+ * An explicit `bpm` option bypasses both.
  */
 const TEMPO_BASE: Record<PipelineCompositionOptions["tempo"], number> = {
   slow: 90,
@@ -220,6 +237,12 @@ const KEY_CANDIDATES_PER_MODE: Record<"major" | "minor", string[]> = {
 
 const AVAILABLE_CHORD_KEYS = Object.keys(chords);
 
+/** Scales for keys without an entry in SCALE_DEGREES */
+const SCALE_DEGREES_PER_MODE: Record<"major" | "minor", number[]> = {
+  major: [0, 2, 4, 5, 7, 9, 11],
+  minor: [0, 2, 3, 5, 7, 8, 10]
+};
+
 const SCALE_DEGREES: Record<string, number[]> = {
   G_Major: [0, 2, 4, 5, 7, 9, 11],
   E_Minor: [0, 2, 3, 5, 7, 8, 10],
@@ -232,6 +255,15 @@ const SCALE_DEGREES: Record<string, number[]> = {
   C_Minor: [0, 2, 3, 5, 7, 8, 10],
 };
 
+/** Triad qualities on each degree of the natural scales, used to find pivot chords */
+const DIATONIC_TRIAD_QUALITIES: Record<"major" | "minor", string[]> = {
+  major: ["", "m", "m", "", "", "m", "dim"],
+  minor: ["m", "dim", "", "m", "m", "", ""]
+};
+
+/** Degrees of the new key tried as pivot chords (0-based), predominants first: IV, ii, vi, iii, V */
+const PIVOT_DEGREE_PREFERENCE = [3, 1, 5, 2, 4];
+
 const SECTION_TEMPLATE_POOL: Array<Array<{ id: string; measures: number }>> = [
   [
     { id: "Intro", measures: 1 },
@@ -359,7 +391,8 @@ const STYLE_INTENT_BASE: StyleIntent = {
   filterMotion: 0,
   syncopationBias: 0,
   atmosPad: 0,
-  lofiFeel: 0
+  lofiFeel: 0,
+  pivotModulation: 0
 };
 
 const STYLE_PRESET_MAP: Record<StylePreset, Partial<StyleIntent>> = {
@@ -569,15 +602,52 @@ function randomTextureAlternative(seed: number | undefined, salt: number): numbe
   return (value >>> 0) / 0xffffffff;
 }
 
+/**
+ * Chord progressions for a key, by progression tag.
+ *
+ * Keys without their own library entry get the progressions of every entry in the
+ * same mode, transposed to the key and spelled to match its signature.
+ */
+export function resolveKeyChords(
+  chordLibrary: Record<string, Record<string, string[][]>>,
+  key: string
+): Record<string, string[][]> {
+  const dedicated = chordLibrary[key];
+  if (dedicated) {
+    return dedicated;
+  }
+  const target = parseKey(key);
+  const transposed: Record<string, string[][]> = {};
+  for (const [sourceKey, progressionsByTag] of Object.entries(chordLibrary)) {
+    let source;
+    try {
+      source = parseKey(sourceKey);
+    } catch {
+      continue;
+    }
+    if (source.mode !== target.mode) continue;
+    const semitones = target.semitone - source.semitone;
+    for (const [tag, progressions] of Object.entries(progressionsByTag)) {
+      transposed[tag] = [
+        ...(transposed[tag] ?? []),
+        ...progressions.map((progression) =>
+          progression.map((chord) => transposeChord(chord, semitones, target.preferFlats))
+        )
+      ];
+    }
+  }
+  if (!Object.keys(transposed).length) {
+    throw new Error(`No ${target.mode} chord motifs to transpose to key ${key}`);
+  }
+  return transposed;
+}
+
 function selectChordProgressions(
+  keyData: Record<string, string[][]>,
   key: string,
   moodTags: string[],
   seed: number | undefined
 ): string[][] {
-  const keyData = (chords as any)[key];
-  if (!keyData) {
-    throw new Error(`No chord motifs for key ${key}`);
-  }
   const matches: string[][] = [];
   for (const tag of moodTags) {
     if (Array.isArray(keyData[tag])) {
@@ -595,15 +665,18 @@ function selectChordProgressions(
  * Transpose a chord by a given number of semitones.
  * @param chord - Original chord (e.g., "C", "Am", "F#7")
  * @param semitones - Number of semitones to transpose (positive = up, negative = down)
+ * @param preferFlats - Spell black-key roots as flats ("Bb") instead of sharps ("A#")
  * @returns Transposed chord string
  */
-function transposeChord(chord: string, semitones: number): string {
+export function transposeChord(chord: string, semitones: number, preferFlats = false): string {
   const rootMatch = chord.match(/^([A-G])(#|b)?(.*)$/);
   if (!rootMatch) return chord;
 
   const [, rootNote, accidental = "", suffix] = rootMatch;
   
-  const NOTE_ORDER = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"];
+  const NOTE_ORDER = preferFlats
+    ? ["C", "Db", "D", "Eb", "E", "F", "Gb", "G", "Ab", "A", "Bb", "B"]
+    : ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"];
   const NOTE_TO_INDEX: Record<string, number> = {
     C: 0, "C#": 1, Db: 1, D: 2, "D#": 3, Eb: 3, E: 4,
     F: 5, "F#": 6, Gb: 6, G: 7, "G#": 8, Ab: 8, A: 9, "A#": 10, Bb: 10, B: 11
@@ -683,18 +756,196 @@ function buildLimitedProgression(
   return progression;
 }
 
+function scaleDegreesForKey(key: string): number[] {
+  return SCALE_DEGREES[key] ?? SCALE_DEGREES_PER_MODE[parseKey(key).mode];
+}
+
+/**
+ * Chord that prepares a change from one key to another.
+ *
+ * Prefers a triad diatonic to both keys that acts as a predominant in the new one; keys a
+ * semitone or tritone apart share none, so the new key's dominant seventh is used instead.
+ */
+function pivotChord(fromKey: string, toKey: string): string {
+  const from = parseKey(fromKey);
+  const to = parseKey(toKey);
+  const fromTriads = new Set(
+    scaleDegreesForKey(fromKey).map(
+      (interval, degree) => `${(from.semitone + interval) % 12}${DIATONIC_TRIAD_QUALITIES[from.mode][degree]}`
+    )
+  );
+  const toScale = scaleDegreesForKey(toKey);
+  for (const degree of PIVOT_DEGREE_PREFERENCE) {
+    const quality = DIATONIC_TRIAD_QUALITIES[to.mode][degree];
+    const root = (to.semitone + toScale[degree]) % 12;
+    if (quality !== "dim" && fromTriads.has(`${root}${quality}`)) {
+      return transposeChord(`C${quality}`, root, to.preferFlats);
+    }
+  }
+  return transposeChord("C7", (to.semitone + 7) % 12, to.preferFlats);
+}
+
+/**
+ * Gives every section its key and moves the chords of modulated sections into it.
+ *
+ * Each modulation holds until the next one. With `pivot`, the last measure before a key
+ * change plays a {@link pivotChord}; otherwise the new key starts directly at the boundary.
+ *
+ * @throws Error when a modulation names a missing or repeated section, or is not a whole
+ *   number of semitones from -11 to 11
+ */
+function applyModulations(
+  sections: SectionDefinition[],
+  key: string,
+  scaleDegrees: number[],
+  modulations: KeyModulation[] | undefined,
+  pivot: boolean
+): SectionDefinition[] {
+  const offsets = new Map<number, number>();
+  (modulations ?? []).forEach((modulation, index) => {
+    const section = modulation?.section;
+    if (!Number.isInteger(section) || !sections[section]) {
+      throw new Error(`Modulation ${index} refers to section ${String(section)}; the form has ${sections.length} sections`);
+    }
+    if (!Number.isInteger(modulation.semitones) || Math.abs(modulation.semitones) > 11) {
+      throw new Error(
+        `Modulation ${index} moves ${String(modulation.semitones)} semitones; expected a whole number from -11 to 11`
+      );
+    }
+    if (offsets.has(section)) {
+      throw new Error(`Modulation ${index} repeats section ${section}`);
+    }
+    offsets.set(section, modulation.semitones);
+  });
+
+  let keyOffset = 0;
+  const planned = sections.map((section, index) => {
+    keyOffset = offsets.get(index) ?? keyOffset;
+    if (!keyOffset) {
+      return { ...section, key, scaleDegrees: [...scaleDegrees], keyOffset };
+    }
+    const sectionKey = transposeKey(key, keyOffset);
+    const { preferFlats } = parseKey(sectionKey);
+    return {
+      ...section,
+      chordProgression: section.chordProgression.map((chord) => transposeChord(chord, keyOffset, preferFlats)),
+      key: sectionKey,
+      scaleDegrees: [...scaleDegreesForKey(sectionKey)],
+      keyOffset
+    };
+  });
+
+  if (pivot) {
+    for (let index = 1; index < planned.length; index++) {
+      const [previous, next] = [planned[index - 1], planned[index]];
+      if (previous.key === next.key) continue;
+      const progression = Array.from(
+        { length: previous.measures },
+        (_, measure) => previous.chordProgression[measure % previous.chordProgression.length]
+      );
+      progression[progression.length - 1] = pivotChord(previous.key, next.key);
+      previous.chordProgression = progression;
+    }
+  }
+  return planned;
+}
+
+/**
+ * Ends the last section on an authentic cadence in its own key: the dominant seventh
+ * in the second-to-last measure, then the tonic.
+ */
+function applyClosingCadence(sections: SectionDefinition[], key: string): SectionDefinition[] {
+  const last = sections.at(-1);
+  if (!last) {
+    return sections;
+  }
+  const { semitone, mode, preferFlats } = parseKey(last.key ?? key);
+  const progression = Array.from(
+    { length: last.measures },
+    (_, measure) => last.chordProgression[measure % last.chordProgression.length]
+  );
+  progression[last.measures - 1] = transposeChord(mode === "major" ? "C" : "Cm", semitone, preferFlats);
+  if (last.measures > 1) {
+    progression[last.measures - 2] = transposeChord("C7", semitone + 7, preferFlats);
+  }
+  return [...sections.slice(0, -1), { ...last, chordProgression: progression }];
+}
+
+/**
+ * Scores how well a progression harmonizes a custom hook.
+ *
+ * Every hook note that is a tone of the chord under it scores a point, two on strong
+ * beats, where melody notes are snapped to the chord.
+ */
+function createHookFit(
+  hook: CustomHook,
+  key: string,
+  scaleDegrees: number[],
+  meter: MeterProfile
+): (progression: string[]) => number {
+  const tonic = parseKey(key).semitone;
+  const notes: Array<{ measure: number; pitchClass: number; weight: number }> = [];
+  let beat = 0;
+  let degreeIndex = 0;
+  for (const step of hook.rhythm) {
+    if (!step.rest) {
+      const beatInMeasure = beat % meter.beatsPerMeasure;
+      const pitch = tonic + scaleDegreeToMidi(hook.degrees[degreeIndex++], scaleDegrees, 0);
+      notes.push({
+        measure: Math.floor(beat / meter.beatsPerMeasure),
+        pitchClass: ((pitch % 12) + 12) % 12,
+        weight: meter.strongBeats.some((strongBeat) => Math.abs(beatInMeasure - strongBeat) < 1e-6) ? 2 : 1
+      });
+    }
+    beat += convertToBeats(step.value);
+  }
+  return (progression) =>
+    notes.reduce((score, note) => {
+      const chord = progression[note.measure % progression.length];
+      const root = chordRootToMidi(chord, 0);
+      const tones = getChordIntervals(chord).map((interval) => (root + interval) % 12);
+      return tones.includes(note.pitchClass) ? score + note.weight : score;
+    }, 0);
+}
+
+/**
+ * The progression at `chordIndex`, unless a later one in the rotation fits the hook better.
+ * Ties keep the scheduled order, so equally fitting progressions still vary by seed.
+ */
+function pickHookProgression(
+  progressions: string[][],
+  chordIndex: number,
+  hookFit: (progression: string[]) => number
+): string[] {
+  let best = progressions[chordIndex % progressions.length];
+  let bestScore = hookFit(best);
+  for (let offset = 1; offset < progressions.length; offset++) {
+    const candidate = progressions[(chordIndex + offset) % progressions.length];
+    const score = hookFit(candidate);
+    if (score > bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
 function buildSections(
   options: PipelineCompositionOptions,
   chordsPool: string[][],
   seed: number | undefined,
-  precomputedIntent: Partial<StyleIntent>
+  precomputedIntent: Partial<StyleIntent>,
+  hookFit?: (progression: string[]) => number
 ): SectionDefinition[] {
   const targetMeasures = options.lengthInMeasures;
 
   // Use length-optimized template if available for this specific length
   let baseTemplate: Array<{ id: string; measures: number }>;
 
-  if (targetMeasures in SECTION_TEMPLATES_BY_LENGTH) {
+  if (options.structure) {
+    // Explicit forms are used verbatim; validateSectionLength rejects a length mismatch
+    baseTemplate = options.structure.map((section) => ({ ...section }));
+  } else if (targetMeasures in SECTION_TEMPLATES_BY_LENGTH) {
     const templates = SECTION_TEMPLATES_BY_LENGTH[targetMeasures][options.mood];
     const templateIndex = Math.floor(randomFromSeed(seed, 0x5EED) * templates.length) % templates.length;
     baseTemplate = templates[templateIndex].map(s => ({ ...s }));
@@ -706,7 +957,7 @@ function buildSections(
   const totalTemplateMeasures = baseTemplate.reduce((sum, section) => sum + section.measures, 0);
   let repeatedTemplate: { id: string; measures: number }[] = [];
 
-  if (targetMeasures === totalTemplateMeasures) {
+  if (targetMeasures === totalTemplateMeasures || options.structure) {
     repeatedTemplate = baseTemplate;
   } else if (targetMeasures > totalTemplateMeasures) {
     const loops = Math.floor(targetMeasures / totalTemplateMeasures);
@@ -766,8 +1017,13 @@ function buildSections(
 
   for (const section of repeatedTemplate) {
     let progression: string[];
+    const id = `${section.id}${sections.filter((s) => s.id.startsWith(section.id)).length + 1}`;
+    const explicitProgression = options.chordProgressions?.[id] ?? options.chordProgressions?.[section.id];
 
-    if (useSingleChord && randomizedProgressions.length > 0) {
+    if (explicitProgression) {
+      // Caller-supplied chords are used verbatim
+      progression = [...explicitProgression];
+    } else if (useSingleChord && randomizedProgressions.length > 0) {
       // Original behavior: single static chord
       progression = [randomizedProgressions[0][0]];
     } else if (useHarmonicStatic && chordsPool.length > 0) {
@@ -775,6 +1031,9 @@ function buildSections(
       // drone on the key's tonic rather than a randomly selected chord.
       const baseChord = chordsPool[0][0];
       progression = buildLimitedProgression(baseChord, rng);
+    } else if (hookFit && HOOK_TEMPLATES.has(section.id)) {
+      // Sections carrying a custom hook get the progression that fits its notes best
+      progression = pickHookProgression(randomizedProgressions, chordIndex, hookFit);
     } else {
       // Normal progression
       progression = randomizedProgressions[chordIndex % randomizedProgressions.length];
@@ -786,7 +1045,7 @@ function buildSections(
     const texture = resolveTexture(templateId, occurrenceIndex, seed);
 
     sections.push({
-      id: `${section.id}${sections.filter((s) => s.id.startsWith(section.id)).length + 1}`,
+      id,
       startMeasure: measureCursor,
       measures: section.measures,
       chordProgression: progression,
@@ -970,31 +1229,91 @@ function applyStyleIntentToTechnique(base: TechniqueStrategy, intent: StyleInten
 export function planStructure(options: PipelineCompositionOptions): StructurePlanResult {
   const baseBpm = TEMPO_BASE[options.tempo];
   const bpmOffset = Math.round((randomFromSeed(options.seed, 1) - 0.5) * 30);
-  const bpm = baseBpm + Math.max(-15, Math.min(15, bpmOffset));
-  const key = resolveKey(options.mood, options.seed, options.mode);
-  const scaleDegrees = SCALE_DEGREES[key];
-
-  if (!scaleDegrees) {
-    throw new Error(`Scale not defined for key ${key}`);
-  }
-
+  const bpm = options.bpm ?? baseBpm + Math.max(-15, Math.min(15, bpmOffset));
+  const styleKey = options.key ?? resolveKey(options.mood, options.seed, options.mode);
+  const key =
+    options.chordProgressions && !options.key
+      ? inferKeyFromChords(options.chordProgressions, styleKey, options.mode)
+      : styleKey;
+  const scaleDegrees = scaleDegreesForKey(key);
+
+  const keyChords = resolveKeyChords(options.motifLibrary?.chords ?? chords, key);
   const chordTags = options.axis
-    ? selectChordTagsFromAxis((chords as any)[key] as Record<string, string[][]>, options.axis)
+    ? selectChordTagsFromAxis(keyChords, options.axis)
     : MOOD_TAG_MAP[options.mood];
-  const chordsPool = selectChordProgressions(key, chordTags, options.seed);
+  const chordsPool = selectChordProgressions(keyChords, key, chordTags, options.seed);
   const precomputedIntent = precomputeStyleIntent(options);
-  const sections = buildSections(options, chordsPool, options.seed, precomputedIntent);
-  const styleIntent = resolveStyleIntent(options, sections);
+  const hookFit = options.hook
+    ? createHookFit(options.hook, key, scaleDegrees, resolveMeter(options.timeSignature))
+    : undefined;
+  const builtSections = buildSections(options, chordsPool, options.seed, precomputedIntent, hookFit);
+  if (options.chordProgressions) {
+    assertChordProgressionSections(options.chordProgressions, builtSections);
+  }
+  if (options.hook && !builtSections.some(establishesHook)) {
+    throw new Error(`The hook needs an "A" section to open; the form has none`);
+  }
+  const styleIntent = resolveStyleIntent(options, builtSections);
   const techniqueStrategy = deriveTechniqueStrategy(options.mood, styleIntent, options.seed);
+  const modulatedSections = applyModulations(
+    builtSections,
+    key,
+    scaleDegrees,
+    options.modulations,
+    styleIntent.pivotModulation > 0.5
+  );
+  const sections = options.form === "oneShot" ? applyClosingCadence(modulatedSections, key) : modulatedSections;
 
   validateSectionLength(options.lengthInMeasures, sections);
+  const loopStartMeasure = options.introOnce ? resolveIntroLoopStart(sections, options.form) : 0;
 
+  const tempoMap = buildTempoMap(bpm, options.tempoChanges, sections, resolveMeter(options.timeSignature).beatsPerMeasure);
   const voiceArrangement = selectVoiceArrangement(options.seed, options.stylePreset);
 
   return {
-    bpm,
+    bpm: tempoMap[0].startBpm,
     key,
     scaleDegrees,
+    timeSignature: options.timeSignature ?? "4/4",
+    form: options.form ?? "loop",
+    ...(loopStartMeasure > 0 ? { loopStartMeasure } : {}),
+    tempoMap,
+    sections,
+    techniqueStrategy,
+    styleIntent,
+    voiceArrangement
+  };
+}
+
+/**
+ * Re-derives the style-dependent parts of an existing structure plan.
+ *
+ * Used for vertical remixes: BPM, key, sections and chord progressions are kept from
+ * `base` so the result stays beat-aligned with it, while style intent, technique
+ * strategy and voice arrangement are resolved again for `options`. An arrangement
+ * without a melody voice is rejected when the base had one, so hooks stay audible.
+ */
+export function restyleStructure(
+  base: StructurePlanResult,
+  options: PipelineCompositionOptions
+): StructurePlanResult {
+  const sections = base.sections.map((section) => ({
+    ...section,
+    chordProgression: [...section.chordProgression],
+    ...(section.scaleDegrees ? { scaleDegrees: [...section.scaleDegrees] } : {})
+  }));
+  const styleIntent = resolveStyleIntent(options, sections);
+  const techniqueStrategy = deriveTechniqueStrategy(options.mood, styleIntent, options.seed);
+
+  const hasMelody = (arrangement: VoiceArrangement) =>
+    arrangement.voices.some((voice) => voice.role === "melody");
+  const candidate = selectVoiceArrangement(options.seed, options.stylePreset);
+  const voiceArrangement =
+    hasMelody(candidate) || !hasMelody(base.voiceArrangement) ? candidate : base.voiceArrangement;
+
+  return {
+    ...base,
+    scaleDegrees: [...base.scaleDegrees],
     sections,
     techniqueStrategy,
     styleIntent,
@@ -1002,6 +1321,124 @@ export function planStructure(options: PipelineCompositionOptions): StructurePla
   };
 }
 
+/**
+ * Checks caller-supplied chord progressions.
+ *
+ * @throws Error when a progression is empty or has a chord symbol outside the grammar
+ *   of {@link getChordIntervals}
+ */
+export function validateChordProgressions(progressions: Record<string, string[]>): void {
+  if (typeof progressions !== "object" || progressions === null || Array.isArray(progressions)) {
+    throw new Error("chordProgressions must map section ids or templates to chord lists");
+  }
+  for (const [section, progression] of Object.entries(progressions)) {
+    if (!Array.isArray(progression) || !progression.length) {
+      throw new Error(`Chord progression for "${section}" must be a non-empty array of chord symbols`);
+    }
+    progression.forEach((chord, index) => {
+      if (!isChordSymbol(chord)) {
+        throw new Error(`Chord progression for "${section}" has unsupported chord ${JSON.stringify(chord)} at [${index}]`);
+      }
+    });
+  }
+}
+
+function assertChordProgressionSections(progressions: Record<string, string[]>, sections: SectionDefinition[]): void {
+  for (const name of Object.keys(progressions)) {
+    if (!sections.some((section) => section.id === name || section.templateId === name)) {
+      throw new Error(
+        `Chord progression for "${name}" matches no section; the form has ${sections.map((section) => section.id).join(", ")}`
+      );
+    }
+  }
+}
+
+/**
+ * Key that fits caller-supplied chord progressions best.
+ *
+ * Each chord tone inside the key's scale scores a point (minor keys also accept the raised
+ * leading tone of E7 in A minor), and each progression opening on the tonic triad scores
+ * three. Ties keep `preferred`, the key the style picked.
+ */
+function inferKeyFromChords(
+  progressions: Record<string, string[]>,
+  preferred: string,
+  mode: "major" | "minor" | undefined
+): string {
+  const modes: Array<"major" | "minor"> = mode ? [mode] : ["major", "minor"];
+  const candidates = modes.flatMap((candidateMode) =>
+    Array.from({ length: 12 }, (_, semitone) => transposeKey(candidateMode === "major" ? "C_Major" : "C_Minor", semitone))
+  );
+  const score = (candidate: string) => {
+    const parsed = parseKey(candidate);
+    const scale = new Set(scaleDegreesForKey(candidate).map((interval) => (parsed.semitone + interval) % 12));
+    if (parsed.mode === "minor") {
+      scale.add((parsed.semitone + 11) % 12);
+    }
+    let total = 0;
+    for (const progression of Object.values(progressions)) {
+      for (const chord of progression) {
+        const root = chordRootToMidi(chord, 0);
+        total += getChordIntervals(chord).filter((interval) => scale.has((root + interval) % 12)).length;
+      }
+      const opening = progression[0];
+      const tonicThird = parsed.mode === "major" ? 4 : 3;
+      if (chordRootToMidi(opening, 0) === parsed.semitone && getChordIntervals(opening).includes(tonicThird)) {
+        total += 3;
+      }
+    }
+    return total;
+  };
+  let best = preferred;
+  let bestScore = score(preferred);
+  for (const candidate of candidates) {
+    const candidateScore = score(candidate);
+    if (candidateScore > bestScore) {
+      best = candidate;
+      bestScore = candidateScore;
+    }
+  }
+  return best;
+}
+
+/**
+ * Normalizes the `structure` option into a section list.
+ *
+ * Accepts a list of `{ id, measures }` or the `meta.sectionPattern` notation
+ * (`"Intro2-A8-B8-A4"`), so a previous composition's form can be passed back in.
+ *
+ * @throws Error when the form is empty or a section has an invalid id or measure count
+ */
+export function parseSectionStructure(structure: SectionSpec[] | string): SectionSpec[] {
+  const sections =
+    typeof structure === "string"
+      ? structure.split("-").map((token) => {
+          const match = /^(.*?)(\d+)$/.exec(token.trim());
+          if (!match) {
+            throw new Error(`Invalid structure section "${token}"; expected a label followed by measures, e.g. "A8"`);
+          }
+          return { id: match[1], measures: Number(match[2]) };
+        })
+      : structure.map((section) => ({ id: section?.id, measures: section?.measures }));
+
+  if (!sections.length) {
+    throw new Error("Structure must contain at least one section");
+  }
+  sections.forEach((section, index) => {
+    if (typeof section.id !== "string" || !/^[A-Za-z][A-Za-z_]*$/.test(section.id)) {
+      throw new Error(
+        `Invalid structure section id ${JSON.stringify(section.id)} at index ${index}; use letters only (e.g. "A", "Intro")`
+      );
+    }
+    if (!Number.isInteger(section.measures) || section.measures <= 0) {
+      throw new Error(
+        `Invalid measure count ${JSON.stringify(section.measures)} for structure section "${section.id}" at index ${index}`
+      );
+    }
+  });
+  return sections as SectionSpec[];
+}
+
 function pickTemplateForMood(mood: PipelineCompositionOptions["mood"], seed: number | undefined) {
   const candidates = TEMPLATE_INDEX_BY_MOOD[mood] ?? SECTION_TEMPLATE_POOL.map((_, index) => index);
   const index = candidates[Math.floor(randomFromSeed(seed, 60) * candidates.length)] ?? 0;
@@ -1047,3 +1484,20 @@ function validateSectionLength(target: number, sections: SectionDefinition[]) {
     throw new Error(`Section length mismatch. expected=${target}, actual=${sum}`);
   }
 }
+
+/**
+ * Measure the loop restarts from when the intro plays only once.
+ *
+ * @throws Error for one-shots and forms that do not start with an Intro followed by more sections
+ */
+function resolveIntroLoopStart(sections: SectionDefinition[], form: CompositionForm | undefined): number {
+  if (form === "oneShot") {
+    throw new Error("introOnce needs a looping form; one-shots play their intro once anyway");
+  }
+  const [intro, next] = sections;
+  if (intro?.templateId !== "Intro" || !next) {
+    const pattern = sections.map((section) => `${section.templateId}${section.measures}`).join("-");
+    throw new Error(`introOnce needs a form that starts with an Intro followed by more sections, got "${pattern}"`);
+  }
+  return next.startMeasure;
+}
@@ -18,11 +18,12 @@ const GRADUAL_BUILD_GAIN_RAMP: Record<TimedEvent["channel"], { base: number; pea
 export function applyTechniques(
   phase3: EventRealizationResult,
   styleIntent: StyleIntent,
-  stylePreset?: StylePreset
+  stylePreset?: StylePreset,
+  beatsPerMeasure = BEATS_PER_MEASURE
 ): TechniquesPostprocessResult {
   const additionalEvents: TimedEvent[] = [];
   const totalTrackBeats = phase3.events.reduce((max, event) => Math.max(max, event.beatTime), 0);
-  const totalMeasures = Math.max(1, Math.ceil(totalTrackBeats / BEATS_PER_MEASURE));
+  const totalMeasures = Math.max(1, Math.ceil(totalTrackBeats / beatsPerMeasure));
   const enableExpressiveAutomation = Boolean(stylePreset);
 
   for (const preset of techniqueLibrary.initialParams ?? []) {
@@ -138,7 +139,7 @@ export function applyTechniques(
       if (duration < sweep.minDurationBeats) continue;
       if (sweep.requireMeasureBoundary) {
         const boundary =
-          isMeasureBoundary(event.beatTime) || (offEvent ? isMeasureBoundary(offEvent.beatTime) : false);
+          isMeasureBoundary(event.beatTime, beatsPerMeasure) || (offEvent ? isMeasureBoundary(offEvent.beatTime, beatsPerMeasure) : false);
         if (!boundary) continue;
       }
       const stepSpacing = duration / (sweep.steps.length + 1);
@@ -154,7 +155,7 @@ export function applyTechniques(
 
     for (const profile of gainProfiles) {
       if (event.channel !== profile.channel) continue;
-      const value = isMeasureBoundary(event.beatTime) ? profile.measureBoundaryValue : profile.defaultValue;
+      const value = isMeasureBoundary(event.beatTime, beatsPerMeasure) ? profile.measureBoundaryValue : profile.defaultValue;
       additionalEvents.push({
         beatTime: event.beatTime,
         channel: event.channel,
@@ -242,10 +243,10 @@ export function applyTechniques(
     }
 
     if (enableExpressiveAutomation && styleIntent.breakInsertion && event.channel === "noise") {
-      const measureIndex = Math.floor(event.beatTime / BEATS_PER_MEASURE);
+      const measureIndex = Math.floor(event.beatTime / beatsPerMeasure);
       if (!breakMeasures.has(measureIndex) && measureIndex > 0 && (measureIndex + 1) % 8 === 0) {
         breakMeasures.add(measureIndex);
-        const startBeat = measureIndex * BEATS_PER_MEASURE;
+        const startBeat = measureIndex * beatsPerMeasure;
         additionalEvents.push({
           beatTime: startBeat - 0.25 >= 0 ? startBeat - 0.25 : startBeat,
           channel: "noise",
@@ -285,7 +286,7 @@ export function applyTechniques(
         const shaped = Math.pow(progress, styleIntent.loopCentric ? 0.8 : 1.0);
         const value = ramp.base + (ramp.peak - ramp.base) * shaped;
         additionalEvents.push({
-          beatTime: measure * BEATS_PER_MEASURE,
+          beatTime: measure * beatsPerMeasure,
           channel: typedChannel,
           command: "setParam",
           data: { param: "gain", value: Number(value.toFixed(3)) }
@@ -336,7 +337,7 @@ function findMatchingNoteOff(events: TimedEvent[], onEvent: TimedEvent): TimedEv
   return matchingOff;
 }
 
-function isMeasureBoundary(beatTime: number): boolean {
+function isMeasureBoundary(beatTime: number, beatsPerMeasure: number): boolean {
   const epsilon = 1e-6;
-  return Math.abs((beatTime % BEATS_PER_MEASURE)) < epsilon;
+  return Math.abs((beatTime % beatsPerMeasure)) < epsilon;
 }
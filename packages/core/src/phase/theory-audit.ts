@@ -2,19 +2,41 @@ import {
   Channel,
   Event,
   StructurePlanResult,
+  TempoSegment,
   TheoryAuditDiagnostics,
+  TheoryAuditOptions,
+  TheoryAuditRule,
   TheoryIssueCause,
   TheoryIssueDiagnostic,
   TheoryNoteDiagnostic,
   TheoryNoteRole,
+  TheoryRuleContext,
   TheoryToneClass,
   VoiceRole
 } from "../types.js";
-import { BEATS_PER_MEASURE, chordRootToMidi, getChordIntervals, resolveChordAtBeat } from "../musicUtils.js";
+import { chordRootToMidi, getChordIntervals, resolveChordAtBeat, resolveKeyAtBeat, resolveMeter } from "../musicUtils.js";
+import { beatToSeconds, secondsToBeat, structureTempoMap, tempoAtBeat } from "../tempo-map.js";
 
 const EPSILON = 1e-6;
 const STRONG_BEAT_EPSILON = 1 / 32;
 const SCALE_TENSION_INTERVALS = new Set([2, 5, 9, 10, 11]);
+const BUILT_IN_RULES = new Set([
+  "bass_downbeat_conflict",
+  "bass_downbeat_tension",
+  "long_strong_non_scale_tone",
+  "sustained_minor_second",
+  "brief_second_or_seventh",
+  "voice_crossing",
+  "unresolved_leading_tone",
+  "dense_unison_repeat",
+  "section_boundary_non_scale_tone",
+  "cadence_unresolved_leap",
+  "loop_tail_non_scale_tone",
+  "unresolved_loop_leap",
+  "large_loop_leap",
+  "loop_release_tail"
+]);
+const SEVERITY_OVERRIDES = new Set(["warning", "error", "off"]);
 
 interface ActiveNote {
   event: Event<"noteOn">;
@@ -30,14 +52,15 @@ interface AuditThresholds {
 export function analyzeTheory(
   phase1: StructurePlanResult,
   events: Event[],
-  totalBeats: number
+  totalBeats: number,
+  options: TheoryAuditOptions = {}
 ): TheoryAuditDiagnostics {
-  const secondsPerBeat = 60 / phase1.bpm;
+  const tempoMap = structureTempoMap(phase1);
   const thresholds = resolveThresholds(phase1);
   const rolesByChannel = new Map<Channel, VoiceRole>(
     phase1.voiceArrangement.voices.map((voice) => [voice.channel, voice.role])
   );
-  const notes = reconstructNotes(phase1, events, totalBeats, secondsPerBeat, rolesByChannel);
+  const notes = reconstructNotes(phase1, events, totalBeats, tempoMap, rolesByChannel);
   const warnings: TheoryIssueDiagnostic[] = [];
   const errors: TheoryIssueDiagnostic[] = [];
   const toneCounts = emptyToneCounts();
@@ -52,7 +75,11 @@ export function analyzeTheory(
 
   const collisionCounts = auditSimultaneousNotes(notes, thresholds, warnings, errors);
   collisionCounts.denseUnisonRepeats = auditMelodyMotion(notes, phase1, warnings);
-  const boundaryCounts = auditBoundaries(notes, events, phase1, totalBeats, secondsPerBeat, thresholds, warnings, errors);
+  const boundaryCounts = auditBoundaries(notes, events, phase1, totalBeats, tempoMap, thresholds, warnings, errors);
+  const issues = applySeverityOverrides(
+    [...warnings, ...errors, ...runCustomRules(notes, phase1, totalBeats, options.rules ?? [])],
+    options.severity ?? {}
+  );
 
   return {
     notes,
@@ -61,22 +88,58 @@ export function analyzeTheory(
     bassFunctions,
     collisionCounts,
     boundaryCounts,
-    warnings: sortIssues(warnings),
-    errors: sortIssues(errors)
+    warnings: sortIssues(issues.filter((issue) => issue.severity === "warning")),
+    errors: sortIssues(issues.filter((issue) => issue.severity === "error"))
   };
 }
 
+/**
+ * Checks custom rules and severity overrides before generation.
+ *
+ * @throws Error when a rule lacks an id or `check` function, reuses a built-in or another
+ * custom id, or when an override names an unknown rule or an unsupported severity
+ */
+export function validateTheoryAuditOptions(options: TheoryAuditOptions): void {
+  const customIds = new Set<string>();
+  (options.rules ?? []).forEach((rule, index) => {
+    if (typeof rule?.id !== "string" || rule.id.trim() === "") {
+      throw new Error(`Theory audit rule at [${index}] needs a non-empty string id`);
+    }
+    if (typeof rule.check !== "function") {
+      throw new Error(`Theory audit rule "${rule.id}" needs a check function`);
+    }
+    if (BUILT_IN_RULES.has(rule.id)) {
+      throw new Error(`Theory audit rule "${rule.id}" clashes with a built-in rule; use severity to change it`);
+    }
+    if (customIds.has(rule.id)) {
+      throw new Error(`Theory audit rule "${rule.id}" is defined more than once`);
+    }
+    if (rule.severity !== undefined && rule.severity !== "warning" && rule.severity !== "error") {
+      throw new Error(`Invalid severity ${JSON.stringify(rule.severity)} for theory audit rule "${rule.id}"; expected "warning" or "error"`);
+    }
+    customIds.add(rule.id);
+  });
+  for (const [rule, severity] of Object.entries(options.severity ?? {})) {
+    if (!BUILT_IN_RULES.has(rule) && !customIds.has(rule)) {
+      throw new Error(`Unknown theory audit rule "${rule}" in severity overrides`);
+    }
+    if (!SEVERITY_OVERRIDES.has(severity)) {
+      throw new Error(`Invalid severity ${JSON.stringify(severity)} for theory audit rule "${rule}"; expected "warning", "error" or "off"`);
+    }
+  }
+}
+
 function reconstructNotes(
   phase1: StructurePlanResult,
   events: Event[],
   totalBeats: number,
-  secondsPerBeat: number,
+  tempoMap: TempoSegment[],
   rolesByChannel: Map<Channel, VoiceRole>
 ): TheoryNoteDiagnostic[] {
   const active = new Map<Channel, ActiveNote[]>();
   const notes: TheoryNoteDiagnostic[] = [];
   for (const event of sortedForPairing(events)) {
-    const beat = event.time / secondsPerBeat;
+    const beat = secondsToBeat(tempoMap, event.time);
     if (event.command === "noteOn") {
       if (typeof event.data.midi !== "number" || event.channel === "noise") continue;
       const queue = active.get(event.channel) ?? [];
@@ -89,6 +152,7 @@ function reconstructNotes(
     const entry = queue.shift();
     if (!entry) continue;
     const endBeat = Math.min(totalBeats, Math.max(entry.startBeat, beat));
+    const secondsPerBeat = 60 / tempoAtBeat(tempoMap, entry.startBeat);
     if (isKickBody(entry.event, endBeat - entry.startBeat, secondsPerBeat)) continue;
     notes.push(classifyNote(phase1, entry.event, entry.startBeat, endBeat, rolesByChannel));
   }
@@ -107,16 +171,18 @@ function classifyNote(
   const chordRoot = mod12(chordRootToMidi(chord, 0));
   const chordInterval = mod12(midi - chordRoot);
   const chordIntervals = new Set(getChordIntervals(chord).map((interval) => mod12(interval)));
-  const keyRoot = mod12(chordRootToMidi(phase1.key, 0));
-  const keyIntervals = new Set(phase1.scaleDegrees.map((interval) => mod12(interval)));
+  const sectionKey = resolveKeyAtBeat(phase1, startBeat);
+  const keyRoot = mod12(chordRootToMidi(sectionKey.key, 0));
+  const keyIntervals = new Set(sectionKey.scaleDegrees.map((interval) => mod12(interval)));
   const keyInterval = mod12(midi - keyRoot);
   let toneClass: TheoryToneClass;
   if (chordIntervals.has(chordInterval)) toneClass = "chord_tone";
   else if (keyIntervals.has(keyInterval) && SCALE_TENSION_INTERVALS.has(chordInterval)) toneClass = "tension";
   else if (keyIntervals.has(keyInterval)) toneClass = "scale_tone";
   else toneClass = "non_scale_tone";
-  const measureIndex = Math.floor((startBeat + EPSILON) / BEATS_PER_MEASURE);
-  const beatInMeasure = mod(startBeat, BEATS_PER_MEASURE);
+  const meter = resolveMeter(phase1.timeSignature);
+  const measureIndex = Math.floor((startBeat + EPSILON) / meter.beatsPerMeasure);
+  const beatInMeasure = mod(startBeat, meter.beatsPerMeasure);
   const section = sectionAtMeasure(phase1, measureIndex);
   return {
     startBeat: roundBeat(startBeat),
@@ -131,7 +197,7 @@ function classifyNote(
     midi,
     toneClass,
     chordInterval,
-    strongBeat: near(beatInMeasure, 0, STRONG_BEAT_EPSILON) || near(beatInMeasure, 2, STRONG_BEAT_EPSILON)
+    strongBeat: meter.strongBeats.some((strongBeat) => near(beatInMeasure, strongBeat, STRONG_BEAT_EPSILON))
   };
 }
 
@@ -205,8 +271,6 @@ function auditMelodyMotion(
   warnings: TheoryIssueDiagnostic[]
 ): number {
   let denseUnisonRepeats = 0;
-  const keyRoot = mod12(chordRootToMidi(phase1.key, 0));
-  const leadingTone = mod12(keyRoot + 11);
   const groups = new Map<string, TheoryNoteDiagnostic[]>();
   for (const note of notes) {
     if (!isMelodyRole(note.role)) continue;
@@ -221,7 +285,8 @@ function auditMelodyMotion(
     for (let i = 0; i < group.length; i++) {
       const current = group[i];
       const next = group[i + 1];
-      if (mod12(current.midi) === leadingTone && current.strongBeat && current.durationBeats >= 0.5) {
+      const keyRoot = mod12(chordRootToMidi(resolveKeyAtBeat(phase1, current.startBeat).key, 0));
+      if (mod12(current.midi) === mod12(keyRoot + 11) && current.strongBeat && current.durationBeats >= 0.5) {
         const resolves = next && next.startBeat - current.endBeat <= 1 + EPSILON && mod12(next.midi) === keyRoot;
         if (!resolves) {
           warnings.push(issue(current, "unresolved_leading_tone", "motif", "Strong leading tone does not resolve to the tonic within one beat."));
@@ -246,7 +311,7 @@ function auditBoundaries(
   events: Event[],
   phase1: StructurePlanResult,
   totalBeats: number,
-  secondsPerBeat: number,
+  tempoMap: TempoSegment[],
   thresholds: AuditThresholds,
   warnings: TheoryIssueDiagnostic[],
   errors: TheoryIssueDiagnostic[]
@@ -254,7 +319,8 @@ function auditBoundaries(
   let sectionWarnings = 0;
   let loopWarnings = 0;
   let loopErrors = 0;
-  const boundaries = phase1.sections.slice(1).map((section) => section.startMeasure * BEATS_PER_MEASURE);
+  const { beatsPerMeasure } = resolveMeter(phase1.timeSignature);
+  const boundaries = phase1.sections.slice(1).map((section) => section.startMeasure * beatsPerMeasure);
   for (const boundary of boundaries) {
     const previous = latestMelodyEndingBefore(notes, boundary);
     if (previous && boundary - previous.endBeat <= thresholds.boundaryWindowBeats && previous.toneClass === "non_scale_tone") {
@@ -271,12 +337,15 @@ function auditBoundaries(
     }
   }
   const tail = latestMelodyEndingBefore(notes, totalBeats + EPSILON);
-  const head = notes.find((note) => isMelodyRole(note.role));
+  const loopStartBeat = (phase1.loopStartMeasure ?? 0) * beatsPerMeasure;
+  const head = notes.find((note) => isMelodyRole(note.role) && note.startBeat >= loopStartBeat - EPSILON);
   if (tail && totalBeats - tail.endBeat <= thresholds.boundaryWindowBeats && tail.toneClass === "non_scale_tone") {
     loopWarnings += 1;
     warnings.push(issue(tail, "loop_tail_non_scale_tone", "motif", "Loop tail closes on a non-scale tone."));
   }
-  if (tail && head && totalBeats - tail.endBeat <= thresholds.boundaryWindowBeats) {
+  // One-shots end on their ring-out and never wrap back to the first note
+  const wraps = phase1.form !== "oneShot";
+  if (wraps && tail && head && totalBeats - tail.endBeat <= thresholds.boundaryWindowBeats) {
     const wrapInterval = Math.abs(tail.midi - head.midi);
     if (wrapInterval > 19 && tail.toneClass !== "chord_tone") {
       loopErrors += 1;
@@ -286,7 +355,7 @@ function auditBoundaries(
       warnings.push(pairIssue(tail, tail, head, "large_loop_leap", "motif", "Loop melody wraps through a leap larger than an octave."));
     }
   }
-  const totalDuration = totalBeats * secondsPerBeat;
+  const totalDuration = beatToSeconds(tempoMap, totalBeats);
   for (const event of events) {
     if (event.command !== "noteOff") continue;
     const release = typeof event.data.releaseSeconds === "number" ? event.data.releaseSeconds : 0;
@@ -297,8 +366,8 @@ function auditBoundaries(
       rule: "loop_release_tail",
       cause: "timeline_finalization",
       message: "Release tail extends beyond the loop boundary.",
-      beat: roundBeat(event.time / secondsPerBeat),
-      measureIndex: Math.floor(totalBeats / BEATS_PER_MEASURE),
+      beat: roundBeat(secondsToBeat(tempoMap, event.time)),
+      measureIndex: Math.floor(totalBeats / beatsPerMeasure),
       sectionId: phase1.sections.at(-1)?.id ?? "unknown",
       channels: [event.channel],
       roles: [phase1.voiceArrangement.voices.find((voice) => voice.channel === event.channel)?.role ?? "unknown"],
@@ -308,6 +377,61 @@ function auditBoundaries(
   return { sectionWarnings, loopWarnings, loopErrors };
 }
 
+function runCustomRules(
+  notes: TheoryNoteDiagnostic[],
+  phase1: StructurePlanResult,
+  totalBeats: number,
+  rules: TheoryAuditRule[]
+): TheoryIssueDiagnostic[] {
+  if (!rules.length) return [];
+  const { beatsPerMeasure } = resolveMeter(phase1.timeSignature);
+  const context: TheoryRuleContext = {
+    beatsPerMeasure,
+    totalBeats,
+    loopStartBeat: (phase1.loopStartMeasure ?? 0) * beatsPerMeasure,
+    sections: phase1.sections.map((section) => ({
+      id: section.id,
+      startBeat: section.startMeasure * beatsPerMeasure,
+      endBeat: (section.startMeasure + section.measures) * beatsPerMeasure
+    }))
+  };
+  const issues: TheoryIssueDiagnostic[] = [];
+  for (const rule of rules) {
+    for (const finding of rule.check(notes, context)) {
+      const [primary] = finding.notes;
+      if (!primary) {
+        throw new Error(`Theory audit rule "${rule.id}" reported a finding without notes`);
+      }
+      issues.push({
+        severity: rule.severity ?? "warning",
+        rule: rule.id,
+        cause: "custom_rule",
+        message: finding.message,
+        beat: Math.max(...finding.notes.map((note) => note.startBeat)),
+        measureIndex: primary.measureIndex,
+        sectionId: primary.sectionId,
+        channels: finding.notes.map((note) => note.channel),
+        roles: finding.notes.map((note) => note.role),
+        midi: finding.notes.map((note) => note.midi)
+      });
+    }
+  }
+  return issues;
+}
+
+function applySeverityOverrides(
+  issues: TheoryIssueDiagnostic[],
+  overrides: NonNullable<TheoryAuditOptions["severity"]>
+): TheoryIssueDiagnostic[] {
+  const result: TheoryIssueDiagnostic[] = [];
+  for (const issue of issues) {
+    const severity = overrides[issue.rule];
+    if (severity === "off") continue;
+    result.push(severity ? { ...issue, severity } : issue);
+  }
+  return result;
+}
+
 function resolveThresholds(phase1: StructurePlanResult): AuditThresholds {
   const tense = phase1.styleIntent.breakInsertion > 0.5 || phase1.styleIntent.syncopationBias > 0.6;
   const atmospheric = phase1.styleIntent.atmosPad > 0.5 || phase1.styleIntent.lofiFeel > 0.5;
@@ -319,7 +443,7 @@ function resolveThresholds(phase1: StructurePlanResult): AuditThresholds {
 }
 
 function isApproachToNextRoot(note: TheoryNoteDiagnostic, phase1: StructurePlanResult): boolean {
-  const nextChord = resolveChordAtBeat(phase1, note.startBeat + BEATS_PER_MEASURE);
+  const nextChord = resolveChordAtBeat(phase1, note.startBeat + resolveMeter(phase1.timeSignature).beatsPerMeasure);
   const nextRoot = mod12(chordRootToMidi(nextChord, 0));
   const currentRoot = mod12(chordRootToMidi(note.chord, 0));
   if (nextRoot === currentRoot) return false;
@@ -387,7 +511,9 @@ function isKickBody(event: Event<"noteOn">, durationBeats: number, secondsPerBea
 }
 
 function sectionAtMeasure(phase1: StructurePlanResult, measureIndex: number) {
-  return phase1.sections.find((section) => measureIndex >= section.startMeasure && measureIndex < section.startMeasure + section.measures);
+  const section = phase1.sections.find((section) => measureIndex >= section.startMeasure && measureIndex < section.startMeasure + section.measures);
+  // A one-shot's ring-out belongs to its last section
+  return section ?? (phase1.form === "oneShot" ? phase1.sections.at(-1) : undefined);
 }
 
 function latestMelodyEndingBefore(notes: TheoryNoteDiagnostic[], beat: number): TheoryNoteDiagnostic | undefined {
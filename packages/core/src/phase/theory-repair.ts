@@ -0,0 +1,367 @@
+import {
+  Channel,
+  Event,
+  StructurePlanResult,
+  TempoSegment,
+  TheoryAuditDiagnostics,
+  TheoryAuditOptions,
+  TheoryIssueDiagnostic,
+  TheoryNoteRole,
+  TheoryRepairAction,
+  TheoryRepairChange,
+  TheoryRepairDiagnostics,
+  TimedEvent
+} from "../types.js";
+import { analyzeTheory } from "./theory-audit.js";
+import { chordRootToMidi, getChordIntervals, resolveChordAtBeat, resolveKeyAtBeat } from "../musicUtils.js";
+import { beatToSeconds, structureTempoMap } from "../tempo-map.js";
+
+const EPSILON = 1e-4;
+const MAX_REPAIR_STEPS = 256;
+/** Shortened sustains keep at least this many beats */
+const MIN_SUSTAIN_BEATS = 0.25;
+/** The audit lets a leading tone resolve up to a beat after it ends */
+const LEADING_TONE_RESOLUTION_BEATS = 1;
+
+interface TimedNote {
+  onIndex: number;
+  offIndex: number;
+  channel: Channel;
+  midi: number;
+  startBeat: number;
+  endBeat: number;
+}
+
+interface RepairCandidate {
+  action: TheoryRepairAction;
+  change: Omit<TheoryRepairChange, "rule" | "action">;
+  apply: (events: TimedEvent[]) => TimedEvent[];
+}
+
+interface RepairContext {
+  phase1: StructurePlanResult;
+  totalBeats: number;
+  tempoMap: TempoSegment[];
+  auditOptions?: TheoryAuditOptions;
+}
+
+export interface TheoryRepairResult {
+  events: TimedEvent[];
+  diagnostics: TheoryRepairDiagnostics;
+}
+
+/**
+ * Fixes error-level theory-audit issues on the beat timeline before finalization.
+ *
+ * Each error gets a short list of candidate edits, accompaniment and bass before melody.
+ * An edit is kept only when the re-audited timeline has fewer errors, so repairs never
+ * trade one error for another; errors without such an edit stay in the audit. Severity
+ * overrides and custom rules in `auditOptions` decide what counts as an error.
+ */
+export function repairTheory(
+  phase1: StructurePlanResult,
+  events: TimedEvent[],
+  totalBeats: number,
+  auditOptions?: TheoryAuditOptions
+): TheoryRepairResult {
+  const context: RepairContext = { phase1, totalBeats, tempoMap: structureTempoMap(phase1), auditOptions };
+  const initial = auditTimedEvents(context, events);
+  const changes: TheoryRepairChange[] = [];
+  const skipped = new Set<string>();
+  let current = events;
+  let audit = initial;
+
+  for (let step = 0; step < MAX_REPAIR_STEPS; step++) {
+    const target = audit.errors.find((issue) => !skipped.has(issueKey(issue)));
+    if (!target) break;
+    let repaired = false;
+    for (const candidate of repairCandidates(context, current, target)) {
+      const next = candidate.apply(current);
+      const nextAudit = auditTimedEvents(context, next);
+      if (nextAudit.errors.length >= audit.errors.length) continue;
+      changes.push({ rule: target.rule, action: candidate.action, ...candidate.change });
+      current = next;
+      audit = nextAudit;
+      repaired = true;
+      break;
+    }
+    if (!repaired) skipped.add(issueKey(target));
+  }
+
+  return {
+    events: current,
+    diagnostics: {
+      errorsBefore: initial.errors.length,
+      errorsAfter: audit.errors.length,
+      warningsBefore: initial.warnings.length,
+      warningsAfter: audit.warnings.length,
+      rules: summarizeRules(initial, audit, changes),
+      changes
+    }
+  };
+}
+
+function repairCandidates(context: RepairContext, events: TimedEvent[], issue: TheoryIssueDiagnostic): RepairCandidate[] {
+  const notes = pairNotes(events);
+  switch (issue.rule) {
+    case "bass_downbeat_conflict": {
+      const note = findNoteStartingAt(notes, issue.channels[0], issue.midi[0], issue.beat);
+      if (!note) return [];
+      return nearestChordTones(context.phase1, note.startBeat, note.midi)
+        .slice(0, 2)
+        .map((midi) => pitchCandidate("nudge_to_chord_tone", note, issue.roles[0], midi));
+    }
+    case "sustained_minor_second":
+      return sustainedSecondCandidates(context, notes, issue);
+    case "unresolved_loop_leap": {
+      const tail = findLastNote(notes, issue.channels[0], issue.midi[0]);
+      if (!tail) return [];
+      const headMidi = issue.midi[1];
+      return nearestChordTones(context.phase1, tail.startBeat, headMidi, 12)
+        .filter((midi) => midi !== tail.midi)
+        .slice(0, 3)
+        .map((midi) => pitchCandidate("retarget_loop_tail", tail, issue.roles[0], midi));
+    }
+    case "loop_tail_non_scale_tone": {
+      const tail = findLastNote(notes, issue.channels[0], issue.midi[0]);
+      if (!tail) return [];
+      return nearestChordTones(context.phase1, tail.startBeat, tail.midi)
+        .slice(0, 3)
+        .map((midi) => pitchCandidate("retarget_loop_tail", tail, issue.roles[0], midi));
+    }
+    case "voice_crossing":
+      return voiceCrossingCandidates(notes, issue);
+    case "unresolved_leading_tone":
+      return leadingToneCandidates(context, notes, issue);
+    case "loop_release_tail":
+      return releaseCandidates(context, events, issue);
+    default:
+      return [];
+  }
+}
+
+/** Moves the voice that is free to move: a non-chord tone to a chord tone, then an octave swap, then an early stop */
+function sustainedSecondCandidates(context: RepairContext, notes: TimedNote[], issue: TheoryIssueDiagnostic): RepairCandidate[] {
+  const pair = [0, 1].map((member) => ({
+    note: findNoteSoundingAt(notes, issue.channels[member], issue.midi[member], issue.beat),
+    role: issue.roles[member]
+  }));
+  const [first, second] = pair;
+  if (!first.note || !second.note) return [];
+  const members = [
+    { note: first.note, role: first.role, partner: second.note },
+    { note: second.note, role: second.role, partner: first.note }
+  ].sort((a, b) => Number(isMelodyRole(a.role)) - Number(isMelodyRole(b.role)) || b.note.startBeat - a.note.startBeat);
+
+  const candidates: RepairCandidate[] = [];
+  for (const { note, role, partner } of members) {
+    if (!isChordTone(context.phase1, note.startBeat, note.midi)) {
+      for (const midi of nearestChordTones(context.phase1, note.startBeat, note.midi)) {
+        // Skip unisons as well: doubling the partner would thin the texture
+        const interval = mod12(Math.abs(midi - partner.midi));
+        if (midi === partner.midi || interval === 1 || interval === 11) continue;
+        candidates.push(pitchCandidate("nudge_to_chord_tone", note, role, midi));
+        break;
+      }
+    }
+    // Inverting the semitone turns it into a major seventh
+    const swapped = note.midi < partner.midi ? note.midi + 12 : note.midi - 12;
+    if (swapped >= 0 && swapped <= 127) {
+      candidates.push(pitchCandidate("swap_voicing", note, role, swapped));
+    }
+    if (partner.startBeat - note.startBeat >= MIN_SUSTAIN_BEATS - EPSILON) {
+      candidates.push(shortenCandidate(note, role, partner.startBeat));
+    }
+  }
+  return candidates;
+}
+
+/** Drops the accompaniment by octaves until it sits within an octave of the melody */
+function voiceCrossingCandidates(notes: TimedNote[], issue: TheoryIssueDiagnostic): RepairCandidate[] {
+  const members = [0, 1].map((member) => ({
+    note: findNoteSoundingAt(notes, issue.channels[member], issue.midi[member], issue.beat),
+    role: issue.roles[member]
+  }));
+  const melody = members.find((member) => isMelodyRole(member.role));
+  const accompaniment = members.find((member) => !isMelodyRole(member.role));
+  if (!melody?.note || !accompaniment?.note) return [];
+  let midi = accompaniment.note.midi;
+  while (midi > melody.note.midi + 12) midi -= 12;
+  return midi >= 0 ? [pitchCandidate("swap_voicing", accompaniment.note, accompaniment.role, midi)] : [];
+}
+
+/** Moves the melody note after the leading tone onto the tonic: a semitone above it, then the nearest one */
+function leadingToneCandidates(context: RepairContext, notes: TimedNote[], issue: TheoryIssueDiagnostic): RepairCandidate[] {
+  const leadingTone = findNoteStartingAt(notes, issue.channels[0], issue.midi[0], issue.beat);
+  if (!leadingTone) return [];
+  const next = notes
+    .filter((note) => note.channel === leadingTone.channel && note.startBeat > leadingTone.startBeat + EPSILON)
+    .sort((a, b) => a.startBeat - b.startBeat)[0];
+  if (!next || next.startBeat - leadingTone.endBeat > LEADING_TONE_RESOLUTION_BEATS + EPSILON) return [];
+  const tonic = mod12(chordRootToMidi(resolveKeyAtBeat(context.phase1, leadingTone.startBeat).key, 0));
+  const below = next.midi - mod12(next.midi - tonic);
+  const nearest = next.midi - below <= below + 12 - next.midi ? below : below + 12;
+  return [...new Set([leadingTone.midi + 1, nearest])]
+    .filter((midi) => midi !== next.midi && midi <= 127)
+    .map((midi) => pitchCandidate("resolve_to_tonic", next, issue.roles[0], midi));
+}
+
+function releaseCandidates(context: RepairContext, events: TimedEvent[], issue: TheoryIssueDiagnostic): RepairCandidate[] {
+  const totalDuration = beatToSeconds(context.tempoMap, context.totalBeats);
+  const index = events.findIndex(
+    (event) =>
+      event.command === "noteOff" &&
+      event.channel === issue.channels[0] &&
+      Math.abs(event.beatTime - issue.beat) <= EPSILON &&
+      typeof event.data.releaseSeconds === "number" &&
+      beatToSeconds(context.tempoMap, event.beatTime) + event.data.releaseSeconds > totalDuration
+  );
+  if (index < 0) return [];
+  const event = events[index];
+  const before = event.data.releaseSeconds as number;
+  const remaining = totalDuration - beatToSeconds(context.tempoMap, event.beatTime);
+  const after = Math.max(0, Math.floor(remaining * 1e6) / 1e6);
+  return [{
+    action: "trim_release",
+    change: { beat: roundBeat(event.beatTime), channel: event.channel, role: issue.roles[0], before, after },
+    apply: (current) => replaceEvent(current, index, (data) => {
+      const next = { ...data };
+      if (after > 0) next.releaseSeconds = after;
+      else delete next.releaseSeconds;
+      return next;
+    })
+  }];
+}
+
+function pitchCandidate(action: TheoryRepairAction, note: TimedNote, role: TheoryNoteRole, midi: number): RepairCandidate {
+  return {
+    action,
+    change: { beat: roundBeat(note.startBeat), channel: note.channel, role, before: note.midi, after: midi },
+    apply: (events) => replaceEvent(events, note.onIndex, (data) => ({ ...data, midi }))
+  };
+}
+
+function shortenCandidate(note: TimedNote, role: TheoryNoteRole, endBeat: number): RepairCandidate {
+  return {
+    action: "shorten_sustain",
+    change: { beat: roundBeat(note.startBeat), channel: note.channel, role, before: roundBeat(note.endBeat), after: roundBeat(endBeat) },
+    apply: (events) => events.map((event, index) => (index === note.offIndex ? { ...event, beatTime: endBeat } : event))
+  };
+}
+
+function replaceEvent(
+  events: TimedEvent[],
+  target: number,
+  update: (data: TimedEvent["data"]) => TimedEvent["data"]
+): TimedEvent[] {
+  return events.map((event, index) => (index === target ? { ...event, data: update(event.data) } : event));
+}
+
+function auditTimedEvents(context: RepairContext, events: TimedEvent[]): TheoryAuditDiagnostics {
+  const timeline: Event[] = events.map((event) => ({
+    time: beatToSeconds(context.tempoMap, event.beatTime),
+    channel: event.channel,
+    command: event.command,
+    data: event.data
+  }));
+  return analyzeTheory(context.phase1, timeline, context.totalBeats, context.auditOptions);
+}
+
+/** Pairs note-ons with note-offs per channel the same way the audit does */
+function pairNotes(events: TimedEvent[]): TimedNote[] {
+  const order = events
+    .map((_, index) => index)
+    .sort((a, b) => events[a].beatTime - events[b].beatTime || commandOrder(events[a]) - commandOrder(events[b]));
+  const active = new Map<Channel, number[]>();
+  const notes: TimedNote[] = [];
+  for (const index of order) {
+    const event = events[index];
+    if (event.command === "noteOn") {
+      if (typeof event.data.midi !== "number" || event.channel === "noise") continue;
+      const queue = active.get(event.channel) ?? [];
+      queue.push(index);
+      active.set(event.channel, queue);
+      continue;
+    }
+    if (event.command !== "noteOff") continue;
+    const onIndex = active.get(event.channel)?.shift();
+    if (onIndex === undefined) continue;
+    const on = events[onIndex];
+    notes.push({
+      onIndex,
+      offIndex: index,
+      channel: on.channel,
+      midi: on.data.midi as number,
+      startBeat: on.beatTime,
+      endBeat: Math.max(on.beatTime, event.beatTime)
+    });
+  }
+  return notes;
+}
+
+function findNoteStartingAt(notes: TimedNote[], channel: Channel, midi: number, beat: number): TimedNote | undefined {
+  return notes.find((note) => note.channel === channel && note.midi === midi && Math.abs(note.startBeat - beat) <= EPSILON);
+}
+
+function findNoteSoundingAt(notes: TimedNote[], channel: Channel, midi: number, beat: number): TimedNote | undefined {
+  return notes
+    .filter((note) => note.channel === channel && note.midi === midi && note.startBeat <= beat + EPSILON && note.endBeat > beat + EPSILON)
+    .sort((a, b) => b.startBeat - a.startBeat)[0];
+}
+
+function findLastNote(notes: TimedNote[], channel: Channel, midi: number): TimedNote | undefined {
+  return notes
+    .filter((note) => note.channel === channel && note.midi === midi)
+    .sort((a, b) => b.endBeat - a.endBeat)[0];
+}
+
+/** Chord tones within `range` semitones of `midi`, nearest first and lower on ties */
+function nearestChordTones(phase1: StructurePlanResult, beat: number, midi: number, range = 6): number[] {
+  const tones: number[] = [];
+  for (let candidate = Math.max(0, midi - range); candidate <= Math.min(127, midi + range); candidate++) {
+    if (candidate !== midi && isChordTone(phase1, beat, candidate)) tones.push(candidate);
+  }
+  return tones.sort((a, b) => Math.abs(a - midi) - Math.abs(b - midi) || a - b);
+}
+
+function isChordTone(phase1: StructurePlanResult, beat: number, midi: number): boolean {
+  const chord = resolveChordAtBeat(phase1, beat);
+  const root = chordRootToMidi(chord, 0);
+  return getChordIntervals(chord).some((interval) => mod12(root + interval) === mod12(midi));
+}
+
+function summarizeRules(
+  before: TheoryAuditDiagnostics,
+  after: TheoryAuditDiagnostics,
+  changes: TheoryRepairChange[]
+): TheoryRepairDiagnostics["rules"] {
+  const rules: TheoryRepairDiagnostics["rules"] = {};
+  const entry = (rule: string) => {
+    rules[rule] = rules[rule] ?? { before: 0, after: 0, changes: 0 };
+    return rules[rule];
+  };
+  for (const issue of before.errors) entry(issue.rule).before += 1;
+  for (const issue of after.errors) entry(issue.rule).after += 1;
+  for (const change of changes) entry(change.rule).changes += 1;
+  return rules;
+}
+
+function issueKey(issue: TheoryIssueDiagnostic): string {
+  return `${issue.rule}\t${issue.beat}\t${issue.channels.join()}\t${issue.midi.join()}`;
+}
+
+function commandOrder(event: TimedEvent): number {
+  return event.command === "noteOff" ? 0 : event.command === "noteOn" ? 1 : 2;
+}
+
+function isMelodyRole(role: TheoryNoteRole): boolean {
+  return role === "melody" || role === "melodyAlt";
+}
+
+function mod12(value: number): number {
+  return ((value % 12) + 12) % 12;
+}
+
+function roundBeat(value: number): number {
+  return Number(value.toFixed(6));
+}
@@ -4,10 +4,13 @@ import {
   StructurePlanResult,
   EventRealizationDiagnostics,
   SectionMotifPlan,
+  TheoryAuditOptions,
   TimedEvent,
   MotifSelectionDiagnostics
 } from "../types.js";
 import { analyzeTheory } from "./theory-audit.js";
+import { resolveMeter, ringOutBeats } from "../musicUtils.js";
+import { beatToSeconds, structureTempoMap } from "../tempo-map.js";
 
 interface TimelineFinalizationResult {
   events: Event[];
@@ -20,16 +23,20 @@ export function finalizeTimeline(
   eventDiagnostics: EventRealizationDiagnostics,
   motifUsage: Diagnostics["motifUsage"],
   sectionMotifPlan: SectionMotifPlan[],
-  motifSelection: MotifSelectionDiagnostics
+  motifSelection: MotifSelectionDiagnostics,
+  theoryAuditOptions?: TheoryAuditOptions
 ): TimelineFinalizationResult {
-  const beatToSecond = 60 / phase1.bpm;
-  const totalBeats = phase1.sections.reduce(
-    (max, section) => Math.max(max, (section.startMeasure + section.measures) * 4),
-    0
-  );
-  const totalDuration = totalBeats * beatToSecond;
+  const tempoMap = structureTempoMap(phase1);
+  const { beatsPerMeasure } = resolveMeter(phase1.timeSignature);
+  const totalBeats =
+    phase1.sections.reduce(
+      (max, section) => Math.max(max, (section.startMeasure + section.measures) * beatsPerMeasure),
+      0
+    ) + ringOutBeats(phase1);
+  const totalDuration = beatToSeconds(tempoMap, totalBeats);
+  const loopStartTime = beatToSeconds(tempoMap, (phase1.loopStartMeasure ?? 0) * beatsPerMeasure);
   const events: Event[] = techniquesEvents.map((event) => ({
-    time: event.beatTime * beatToSecond,
+    time: beatToSeconds(tempoMap, event.beatTime),
     channel: event.channel,
     command: event.command,
     data: event.data
@@ -38,13 +45,13 @@ export function finalizeTimeline(
 
   const diagnostics: Diagnostics = {
     voiceAllocation: eventDiagnostics.voiceAllocation.map((entry) => ({
-      time: entry.beatTime * beatToSecond,
+      time: beatToSeconds(tempoMap, entry.beatTime),
       channel: entry.channel,
       activeCount: entry.activeCount
     })),
-    loopWindow: computeLoopWindow(events),
-    loopIntegrity: computeLoopIntegrity(events, totalDuration),
-    theoryAudit: analyzeTheory(phase1, events, totalBeats),
+    loopWindow: computeLoopWindow(events, loopStartTime),
+    loopIntegrity: computeLoopIntegrity(events, totalDuration, loopStartTime),
+    theoryAudit: analyzeTheory(phase1, events, totalBeats, theoryAuditOptions),
     motifUsage,
     sectionMotifPlan,
     motifSelection
@@ -53,21 +60,26 @@ export function finalizeTimeline(
   return { events, diagnostics };
 }
 
-function computeLoopWindow(events: Event[]) {
+/** Events on both sides of the loop seam, which wraps from the last event to `loopStartTime` */
+function computeLoopWindow(events: Event[], loopStartTime: number) {
   if (!events.length) {
     return { head: [], tail: [] };
   }
   const wrapWindow = 0.1; // seconds
   const lastTime = events[events.length - 1].time;
   const tail = events.filter((event) => lastTime - event.time < wrapWindow);
-  const head = events.filter((event) => event.time < wrapWindow);
+  const head = events.filter((event) => event.time >= loopStartTime && event.time - loopStartTime < wrapWindow);
   return { head, tail };
 }
 
-function computeLoopIntegrity(events: Event[], totalDuration: number): Diagnostics["loopIntegrity"] {
+function computeLoopIntegrity(
+  events: Event[],
+  totalDuration: number,
+  loopStartTime: number
+): Diagnostics["loopIntegrity"] {
   const windows = [0.1, 0.25, 0.5].map((seconds) => ({
     seconds,
-    headEvents: events.filter((event) => event.time < seconds).length,
+    headEvents: events.filter((event) => event.time >= loopStartTime && event.time - loopStartTime < seconds).length,
     tailEvents: events.filter((event) => totalDuration - event.time < seconds).length,
     noiseTailEvents: events.filter(
       (event) => event.channel === "noise" && totalDuration - event.time < seconds
@@ -1,10 +1,26 @@
-import { CompositionOptions, GenerationExperiments, PipelineCompositionOptions, PipelineResult, ResolvedStyleProfile } from "./types.js";
-import { planStructure } from "./phase/structure-planning.js";
+import {
+  BestOfOptions,
+  CompositionOptions,
+  GenerationExperiments,
+  MotifSelectionResult,
+  PipelineCompositionOptions,
+  PipelineResult,
+  ResolvedStyleProfile,
+  StructurePlanResult,
+  TwoAxisStyle
+} from "./types.js";
+import { planStructure, restyleStructure } from "./phase/structure-planning.js";
 import { selectMotifs } from "./phase/motif-selection.js";
 import { realizeEvents } from "./phase/event-realization.js";
 import { applyTechniques } from "./phase/techniques-postprocess.js";
+import { repairTheory } from "./phase/theory-repair.js";
 import { finalizeTimeline } from "./phase/timeline-finalization.js";
 import { resolveGenerationContext } from "./style/profile-resolver.js";
+import { resolveMeter, ringOutBeats } from "./musicUtils.js";
+import { beatToSeconds, structureTempoMap } from "./tempo-map.js";
+import { scoreComposition } from "./composition-score.js";
+
+const DEFAULT_BEST_OF_CANDIDATES = 4;
 
 /**
  * Runs the five-phase composition pipeline to generate chiptune music.
@@ -19,6 +35,7 @@ import { resolveGenerationContext } from "./style/profile-resolver.js";
  * - Phase 2 (Motif Selection): Selects motifs for melody, bass, drums based on structure
  * - Phase 3 (Event Realization): Maps abstract tracks to physical channels
  * - Phase 4 (Techniques Postprocess): Adds timbral decoration (duty sweeps, effects)
+ *   and, with `theoryRepair`, fixes theory-audit errors on the beat timeline
  * - Phase 5 (Timeline Finalization): Converts to time-sorted event list for playback
  *
  * @param options Composition options with two-axis style coordinates or overrides
@@ -54,6 +71,17 @@ function runResolvedPipeline(
   // can use the resolved mood, tempo, and section templates.
   const motifSelection = selectMotifs(pipeline, structurePlan);
 
+  return renderSelection(pipeline, profile, replayOptions, structurePlan, motifSelection);
+}
+
+/** Runs phases 3-5 on a planned structure and motif selection and assembles the result. */
+function renderSelection(
+  pipeline: PipelineCompositionOptions,
+  profile: ResolvedStyleProfile,
+  replayOptions: CompositionOptions,
+  structurePlan: StructurePlanResult,
+  motifSelection: MotifSelectionResult
+): PipelineResult {
   // Event realization maps abstract musical roles to physical channels.
   // This separation allows the same melody to be rendered on different channels
   // based on the Voice Arrangement preset (standard, swapped, dualBass, etc.).
@@ -62,24 +90,41 @@ function runResolvedPipeline(
   // Techniques are applied after basic notes are generated so they can
   // scan the complete note timeline and make context-aware decisions
   // (e.g., duty sweeps only on sustained notes, gain automation across sections).
-  const techniquesApplied = applyTechniques(eventRealization, structurePlan.styleIntent, pipeline.stylePreset);
+  const meter = resolveMeter(structurePlan.timeSignature);
+  const techniquesApplied = applyTechniques(
+    eventRealization,
+    structurePlan.styleIntent,
+    pipeline.stylePreset,
+    meter.beatsPerMeasure
+  );
+  const totalBeats = pipeline.lengthInMeasures * meter.beatsPerMeasure + ringOutBeats(structurePlan);
+
+  // Repair edits the complete note timeline, so it runs after the techniques pass;
+  // the audit in Phase 5 then describes the repaired result.
+  const theoryRepair = pipeline.theoryRepair
+    ? repairTheory(structurePlan, techniquesApplied.events, totalBeats, pipeline.theoryAudit)
+    : undefined;
 
   // Timeline finalization is the last step because it converts beat-time to
   // absolute seconds, which requires knowing the final BPM and validating loop integrity.
   const finalTimeline = finalizeTimeline(
     structurePlan,
-    techniquesApplied.events,
+    theoryRepair?.events ?? techniquesApplied.events,
     eventRealization.diagnostics,
     motifSelection.motifUsage,
     motifSelection.sectionMotifPlan,
-    motifSelection.motifSelection
+    motifSelection.motifSelection,
+    pipeline.theoryAudit
   );
+  if (theoryRepair) {
+    finalTimeline.diagnostics.theoryRepair = theoryRepair.diagnostics;
+  }
 
   // Loop info is calculated here (not in Phase 5) because it's metadata about
   // the composition as a whole, not part of the event timeline itself.
-  const BEATS_PER_MEASURE = 4;
-  const totalBeats = pipeline.lengthInMeasures * BEATS_PER_MEASURE;
-  const totalDuration = (totalBeats / structurePlan.bpm) * 60;
+  const tempoMap = structureTempoMap(structurePlan);
+  const totalDuration = beatToSeconds(tempoMap, totalBeats);
+  const loopStartBeat = (structurePlan.loopStartMeasure ?? 0) * meter.beatsPerMeasure;
 
   const sectionPattern = structurePlan.sections
     .map(s => `${s.templateId}${s.measures}`)
@@ -95,15 +140,19 @@ function runResolvedPipeline(
       mood: pipeline.mood,
       tempo: pipeline.tempo,
       lengthInMeasures: pipeline.lengthInMeasures,
+      timeSignature: meter.timeSignature,
+      beatsPerMeasure: meter.beatsPerMeasure,
+      form: structurePlan.form ?? "loop",
+      tempoMap: tempoMap.map((segment) => ({ ...segment })),
       styleIntent: structurePlan.styleIntent,
       voiceArrangement: structurePlan.voiceArrangement,
       profile,
       replayOptions,
       sectionPattern,
       loopInfo: {
-        loopStartBeat: 0,
+        loopStartBeat,
         loopEndBeat: totalBeats,
-        loopStartTime: 0,
+        loopStartTime: beatToSeconds(tempoMap, loopStartBeat),
         loopEndTime: totalDuration,
         totalBeats,
         totalDuration
@@ -127,6 +176,138 @@ export async function generateComposition(options: CompositionOptions): Promise<
   return runPipeline(options);
 }
 
+/**
+ * Regenerates an existing composition at a different two-axis position (vertical remix).
+ *
+ * The source song is re-planned from its `meta.replayOptions`, and its BPM, key, section
+ * plan, chord progressions and melody (including the hook motifs recorded in the
+ * `SectionMotifPlan`) are kept. Style intent, voice arrangement, accompaniment, bass,
+ * drums and techniques are derived again for `twoAxisStyle`, so both renders share the
+ * same beat grid and loop length and can be swapped mid-play.
+ *
+ * `meta.replayOptions` of the result describes the new style; `meta.remixSource` keeps
+ * the source options so the remix can be reproduced or remixed again.
+ *
+ * @param source Replay options of the original composition (`meta.replayOptions`)
+ * @param twoAxisStyle Style coordinates of the variant
+ * @returns Promise resolving to the remixed composition
+ * @throws Error when `source.seed` is missing (the source could not be re-planned)
+ */
+export async function remixComposition(
+  source: CompositionOptions,
+  twoAxisStyle: TwoAxisStyle
+): Promise<PipelineResult> {
+  return runRemixPipeline(source, twoAxisStyle);
+}
+
+/** Synchronous implementation of {@link remixComposition}. */
+export function runRemixPipeline(
+  source: CompositionOptions,
+  twoAxisStyle: TwoAxisStyle
+): PipelineResult {
+  if (typeof source.seed !== "number" || !Number.isFinite(source.seed)) {
+    throw new Error("Remix source requires a seed; pass the original meta.replayOptions.");
+  }
+
+  const base = resolveOptions(source);
+  const baseStructure = planStructure(base.pipeline);
+  const baseSelection = selectMotifs(base.pipeline, baseStructure);
+
+  const target = resolveOptions({ ...source, twoAxisStyle });
+  // Key selection already happened in the source plan; keep the mode consistent with it
+  const pipeline: PipelineCompositionOptions = { ...target.pipeline, mode: base.pipeline.mode };
+  const structurePlan = restyleStructure(baseStructure, pipeline);
+  const selection = selectMotifs(pipeline, structurePlan);
+
+  // Melody carries the hooks: reuse the source notes wherever the new arrangement has a lead
+  const baseMelody = baseSelection.tracks.find((track) => track.role === "melody");
+  const tracks = selection.tracks.map((track) =>
+    track.role === "melody" && baseMelody
+      ? { role: track.role, notes: baseMelody.notes.map((note) => ({ ...note })) }
+      : track
+  );
+  const motifSelection: MotifSelectionResult = {
+    ...selection,
+    tracks,
+    motifUsage: {
+      ...selection.motifUsage,
+      rhythm: baseSelection.motifUsage.rhythm,
+      melody: baseSelection.motifUsage.melody,
+      melodyRhythm: baseSelection.motifUsage.melodyRhythm
+    },
+    sectionMotifPlan: baseSelection.sectionMotifPlan
+  };
+
+  const result = renderSelection(pipeline, target.profile, target.replayOptions, structurePlan, motifSelection);
+  result.meta.remixSource = base.replayOptions;
+  return result;
+}
+
+/**
+ * Generates several candidate compositions and returns the highest-scoring one (best-of-N).
+ *
+ * The first candidate uses `options.seed` (or a random seed), the others use seeds derived
+ * from it, so the same options always pick the same song. Every candidate is scored with
+ * `selection.scorer` or {@link scoreComposition}; ties go to the earlier candidate.
+ *
+ * The winner's `meta.replayOptions` carries its own seed, so `generateComposition` replays
+ * it without generating the other candidates. `diagnostics.bestOf` lists every seed and score.
+ *
+ * @param options Composition options shared by all candidates
+ * @param selection Candidate count (default 4) and optional scorer
+ * @returns Promise resolving to the best candidate
+ * @throws Error when `candidates` is not a positive whole number or the scorer returns a non-finite value
+ */
+export async function generateBest(
+  options: CompositionOptions,
+  selection: BestOfOptions = {}
+): Promise<PipelineResult> {
+  return runBestPipeline(options, selection);
+}
+
+/** Synchronous implementation of {@link generateBest}. */
+export function runBestPipeline(
+  options: CompositionOptions,
+  selection: BestOfOptions = {}
+): PipelineResult {
+  const count = selection.candidates ?? DEFAULT_BEST_OF_CANDIDATES;
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error(`Invalid candidates ${String(count)}; expected a whole number of at least 1`);
+  }
+  const scorer = selection.scorer ?? scoreComposition;
+  const baseSeed =
+    typeof options.seed === "number" && Number.isFinite(options.seed)
+      ? Math.trunc(options.seed)
+      : Math.floor(Math.random() * 0xffffffff);
+
+  const candidates: Array<{ seed: number; score: number }> = [];
+  let best: PipelineResult | undefined;
+  let bestScore = -Infinity;
+  for (let index = 0; index < count; index++) {
+    const seed = deriveCandidateSeed(baseSeed, index);
+    const result = runPipeline({ ...options, seed });
+    const score = scorer(result);
+    if (typeof score !== "number" || !Number.isFinite(score)) {
+      throw new Error(`Scorer returned ${String(score)} for seed ${seed}; expected a finite number`);
+    }
+    candidates.push({ seed, score });
+    // Only the leader is kept so long candidate lists do not hold every event list in memory
+    if (score > bestScore) {
+      best = result;
+      bestScore = score;
+    }
+  }
+
+  const winner = best as PipelineResult;
+  winner.diagnostics.bestOf = { candidates, selectedSeed: winner.meta.seed };
+  return winner;
+}
+
+/** Seed of the `index`-th best-of candidate; golden-ratio steps spread neighbouring seeds apart */
+function deriveCandidateSeed(baseSeed: number, index: number): number {
+  return index === 0 ? baseSeed : (baseSeed + Math.imul(index, 0x9e3779b9)) >>> 0;
+}
+
 /**
  * Resolves modern CompositionOptions to the simplified pipeline format.
  *
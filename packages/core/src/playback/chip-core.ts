@@ -0,0 +1,218 @@
+/**
+ * Shared chip model used by every AlgoChip renderer.
+ *
+ * The realtime {@link AlgoChipSynthesizer} and the offline renderer must interpret
+ * the same `Event` stream identically, so the hardware constants, the NES mixer
+ * curve and the event-data → voice-parameter mapping live here instead of being
+ * duplicated per backend.
+ */
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Reference clock frequency in Hz (1.789773 MHz) */
+export const CHIP_BASE_CLOCK = 1_789_773;
+
+/** Noise channel period lookup table (clock divider values) */
+export const NOISE_PERIOD_TABLE = [
+  4, 8, 16, 32, 64, 96, 128, 160, 202, 254, 380, 508, 762, 1016, 2034, 4068,
+];
+
+/** Default noise filter cutoff when not specified by the event generator */
+export const DEFAULT_NOISE_CUTOFF_HZ = 5200;
+
+/** Default master gain applied before the NES mixer curve */
+export const BASE_MASTER_GAIN = 0.16;
+
+/** Highpass cutoff matching the NES output capacitor (see {@link AlgoChipSynthesizer.init}) */
+export const DC_BLOCKER_CUTOFF_HZ = 20;
+
+/** Q of the DC blocker biquad */
+export const DC_BLOCKER_Q = 0.707;
+
+/** MIDI note number for A4 (440 Hz) */
+const MIDI_A4 = 69;
+/** Frequency of A4 in Hz */
+const FREQ_A4 = 440;
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+/**
+ * Converts MIDI note number to frequency in Hz.
+ *
+ * @param midi MIDI note number (0-127)
+ * @returns Frequency in Hz
+ */
+export function midiToFrequency(midi: number): number {
+  return FREQ_A4 * Math.pow(2, (midi - MIDI_A4) / 12);
+}
+
+/**
+ * Converts MIDI velocity to linear gain value.
+ *
+ * @param velocity MIDI velocity (0-127, defaults to 100)
+ * @param scale Scaling factor (default 0.85 to avoid clipping)
+ * @returns Linear gain value (0.0-1.0)
+ */
+export function velocityToGain(velocity?: number, scale = 0.85): number {
+  return Math.max(0, Math.min(1, ((velocity ?? 100) / 127) * scale));
+}
+
+/**
+ * Converts a noise period table index to a sample count at the given rate.
+ *
+ * @param periodIndex Index into {@link NOISE_PERIOD_TABLE} (clamped)
+ * @param sampleRate Output sample rate in Hz
+ * @returns LFSR clock period in samples (at least 1)
+ */
+export function noisePeriodToSamples(periodIndex: number, sampleRate: number): number {
+  const index = Math.max(0, Math.min(NOISE_PERIOD_TABLE.length - 1, periodIndex));
+  const periodCycles = NOISE_PERIOD_TABLE[index];
+  const periodSeconds = (periodCycles * 16) / CHIP_BASE_CLOCK;
+  return Math.max(1, Math.round(periodSeconds * sampleRate));
+}
+
+/**
+ * Builds a WaveShaper transfer curve approximating the NES APU non-linear DAC mixer.
+ *
+ * The NES uses separate resistor-ladder DACs for pulse and TND channel groups whose
+ * combined response is non-linear: quiet signals are relatively louder (expansion)
+ * and the combined headroom compresses slightly at high amplitudes.  A tanh curve
+ * with k ≈ 0.55 closely matches that shape across the [0, 1] amplitude range.
+ */
+export function makeNESMixerCurve(n = 256): Float32Array {
+  const k = 0.55;
+  const normFactor = Math.tanh(k);
+  const curve = new Float32Array(n);
+  for (let i = 0; i < n; i++) {
+    const x = (2 * i) / (n - 1) - 1; // map index to [-1, 1]
+    curve[i] = Math.tanh(x * k) / normFactor;
+  }
+  return curve;
+}
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/** Pitch slide/portamento parameters */
+export interface PitchSlide {
+  targetFrequency: number;
+  durationSeconds: number;
+}
+
+/** Data for pitched notes (square/triangle channels) */
+export interface PitchData {
+  frequency: number;
+  amplitude: number;
+  duty?: number;
+  detuneCents: number;
+  slide?: PitchSlide | null;
+}
+
+/** Data for noise channel notes (drums/percussion) */
+export interface NoiseData {
+  amplitude: number;
+  decaySeconds: number;
+  releaseSeconds: number;
+  periodIndex: number;
+  mode: "short" | "long";
+  cutoffHz: number;
+}
+
+// ============================================================================
+// Event Data Mapping
+// ============================================================================
+
+/**
+ * Maps event data to PitchData for square/triangle channels.
+ *
+ * Converts MIDI note numbers to frequencies, applies velocity scaling,
+ * and extracts pitch slide parameters if present.
+ *
+ * @param data Event data object
+ * @returns Formatted pitch data for channel noteOn
+ */
+export function mapPitchData(data: Record<string, unknown>): PitchData {
+  const midi = Number(data.midi ?? 60);
+  const detuneCents = Number(data.detuneCents ?? 0);
+  let slide: PitchSlide | null = null;
+  const slideData = data.slide as Record<string, unknown> | undefined;
+  if (slideData) {
+    if (typeof slideData.targetMidi === "number") {
+      slide = {
+        targetFrequency: midiToFrequency(slideData.targetMidi),
+        durationSeconds: Number(slideData.durationSeconds ?? 0),
+      };
+    } else if (typeof slideData.targetFrequency === "number") {
+      slide = {
+        targetFrequency: slideData.targetFrequency,
+        durationSeconds: Number(slideData.durationSeconds ?? 0),
+      };
+    }
+  }
+
+  return {
+    frequency: midiToFrequency(midi),
+    amplitude: velocityToGain(
+      typeof data.velocity === "number" ? data.velocity : undefined
+    ),
+    duty: typeof data.duty === "number" ? data.duty : undefined,
+    detuneCents,
+    slide,
+  };
+}
+
+/**
+ * Maps event data to NoiseData for the noise channel.
+ *
+ * Applies instrument presets (K/S/H/O/T), scales amplitude by velocity,
+ * and extracts envelope/filter parameters.
+ *
+ * @param data Event data object
+ * @returns Formatted noise data for channel noteOn
+ */
+export function mapNoiseData(data: Record<string, unknown>): NoiseData {
+  const velocity = typeof data.velocity === "number" ? data.velocity : 100;
+  const velocityGain = Math.max(0, Math.min(1, velocity / 127));
+  const amplitude = Math.min(
+    1,
+    Math.max(
+      0,
+      (typeof data.amplitude === "number" ? data.amplitude : 0.6) * velocityGain
+    )
+  );
+  const decaySeconds =
+    typeof data.decaySeconds === "number" ? data.decaySeconds : 0.14;
+  const releaseSeconds =
+    typeof data.releaseSeconds === "number" ? data.releaseSeconds : 0.03;
+  const periodIndex =
+    typeof data.periodIndex === "number"
+      ? data.periodIndex
+      : typeof data.clockDivider === "number"
+      ? data.clockDivider
+      : typeof data.period === "number"
+      ? data.period
+      : 3;
+  const mode = (
+    typeof data.mode === "string"
+      ? data.mode
+      : typeof data.noiseMode === "string"
+      ? data.noiseMode
+      : "short"
+  ) as "short" | "long";
+  const cutoffHz =
+    typeof data.cutoffHz === "number" ? data.cutoffHz : DEFAULT_NOISE_CUTOFF_HZ;
+
+  return {
+    amplitude,
+    decaySeconds,
+    releaseSeconds,
+    periodIndex,
+    mode,
+    cutoffHz,
+  };
+}
@@ -0,0 +1,738 @@
+/**
+ * Offline (non-realtime) renderer for AlgoChip event streams.
+ *
+ * Interprets the same `Event[]` consumed by {@link AlgoChipSynthesizer} without
+ * Web Audio: the square/triangle/noise voices below are sample-exact ports of the
+ * AudioWorklet processors in `packages/core/worklets/`, followed by the same
+ * master gain → NES mixer curve → DC blocker chain built in
+ * `AlgoChipSynthesizer.init()`.
+ *
+ * Rendering is fully deterministic (no clocks, no RNG besides the noise LFSR), so
+ * the PCM/WAV output for a given seed can be hashed and diffed in CI or baked into
+ * asset bundles at build time.
+ */
+
+import type { Channel, Event as PlaybackEvent, PipelineResult } from "../types.js";
+import {
+  BASE_MASTER_GAIN,
+  CHIP_BASE_CLOCK,
+  DC_BLOCKER_CUTOFF_HZ,
+  DC_BLOCKER_Q,
+  NOISE_PERIOD_TABLE,
+  makeNESMixerCurve,
+  mapNoiseData,
+  mapPitchData,
+  midiToFrequency,
+  noisePeriodToSamples,
+} from "./chip-core.js";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Default output sample rate in Hz */
+const DEFAULT_SAMPLE_RATE = 44_100;
+/** Silence appended after the last event, matching the realtime completion delay */
+const DEFAULT_TAIL_SECONDS = 1;
+/** Square worklet amplitude ceiling */
+const SQUARE_MAX_AMPLITUDE = 0.9;
+
+/** 32-step triangle lookup table (same as triangle-processor.js) */
+const TRI_TABLE = (() => {
+  const values = new Float32Array(32);
+  for (let i = 0; i < 32; i++) {
+    const step = i < 16 ? 15 - i : i - 16;
+    values[i] = (step / 15) * 2 - 1;
+  }
+  return values;
+})();
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/** Options for offline rendering */
+export interface OfflineRenderOptions {
+  /** Output sample rate in Hz (default: 44100) */
+  sampleRate?: number;
+  /** Playback volume multiplier, same meaning as `SynthPlayOptions.volume` (default: 1.0) */
+  volume?: number;
+  /** Exact render length in seconds; overrides `tailSeconds` when set */
+  durationSeconds?: number;
+  /** Seconds rendered after the last event when `durationSeconds` is omitted (default: 1) */
+  tailSeconds?: number;
+}
+
+/** Worklet-protocol message with its resolved sample frame */
+interface VoiceMessage {
+  type: string;
+  sampleFrame: number;
+  [key: string]: unknown;
+}
+
+interface SlideState {
+  startFrame: number;
+  startFrequency: number;
+  targetFrequency: number;
+  durationSamples: number;
+}
+
+// ============================================================================
+// Voice Classes
+// ============================================================================
+
+/**
+ * Base class for offline voices.
+ *
+ * Mirrors the worklet event queue: messages are applied once the rendered frame
+ * reaches their `sampleFrame`, preserving insertion order for equal frames.
+ */
+abstract class OfflineVoice {
+  private queue: VoiceMessage[] = [];
+  private queueIndex = 0;
+
+  constructor(protected readonly sampleRate: number) {}
+
+  enqueue(message: VoiceMessage): void {
+    this.queue.push(message);
+  }
+
+  /** Stable-sorts queued messages; call once before rendering. */
+  seal(): void {
+    this.queue = this.queue
+      .map((message, order) => ({ message, order }))
+      .sort((a, b) => a.message.sampleFrame - b.message.sampleFrame || a.order - b.order)
+      .map(({ message }) => message);
+    this.queueIndex = 0;
+  }
+
+  next(frame: number): number {
+    while (
+      this.queueIndex < this.queue.length &&
+      this.queue[this.queueIndex]!.sampleFrame <= frame
+    ) {
+      this.apply(this.queue[this.queueIndex]!);
+      this.queueIndex += 1;
+    }
+    return this.sample(frame);
+  }
+
+  protected abstract apply(message: VoiceMessage): void;
+  protected abstract sample(frame: number): number;
+}
+
+/** Port of square-processor.js including the NES hardware sweep unit. */
+class OfflineSquareVoice extends OfflineVoice {
+  private amplitude = 0;
+  private noteAmplitude = 0;
+  private duty = 0.5;
+  private phase = 0;
+  private baseFrequency = 0;
+  private slide: SlideState | null = null;
+  private slideCurve = "linear";
+  private sweepEnabled = false;
+  private sweepNegate = false;
+  private sweepShift = 0;
+  private sweepPeriod = 0;
+  private readonly sweepSamplesPerHalfFrame: number;
+  private sweepCounter: number;
+  private sweepTimerPeriod = 0;
+  private sweepMuted = false;
+
+  constructor(sampleRate: number) {
+    super(sampleRate);
+    this.sweepSamplesPerHalfFrame = Math.round(sampleRate / 120);
+    this.sweepCounter = this.sweepSamplesPerHalfFrame;
+  }
+
+  protected apply(message: VoiceMessage): void {
+    switch (message.type) {
+      case "noteOn": {
+        this.baseFrequency = Number(message.frequency) || 0;
+        this.amplitude = Math.min(
+          SQUARE_MAX_AMPLITUDE,
+          Math.max(0, Number(message.amplitude ?? SQUARE_MAX_AMPLITUDE))
+        );
+        this.noteAmplitude = this.amplitude;
+        if (typeof message.duty === "number") {
+          this.duty = Math.min(0.99, Math.max(0.01, message.duty));
+        }
+        if (this.baseFrequency > 0) {
+          this.sweepTimerPeriod = Math.max(
+            8,
+            Math.round(CHIP_BASE_CLOCK / (16 * this.baseFrequency) - 1)
+          );
+        }
+        this.sweepMuted = false;
+        const slide = message.slide as
+          | { targetFrequency?: number; durationSamples?: number }
+          | undefined;
+        if (slide && typeof slide.durationSamples === "number") {
+          this.slideCurve = "linear";
+          this.slide = {
+            startFrame: message.sampleFrame,
+            startFrequency: this.baseFrequency,
+            targetFrequency: slide.targetFrequency ?? this.baseFrequency,
+            durationSamples: Math.max(1, slide.durationSamples),
+          };
+        } else {
+          this.slide = null;
+        }
+        break;
+      }
+      case "noteOff":
+        this.amplitude = 0;
+        this.noteAmplitude = 0;
+        this.slide = null;
+        this.sweepEnabled = false;
+        this.sweepMuted = false;
+        break;
+      case "setSweep":
+        this.sweepEnabled = message.enabled !== false;
+        this.sweepNegate = message.negate === true;
+        this.sweepShift = Math.max(0, Math.min(7, Number(message.shift ?? 0)));
+        this.sweepPeriod = Math.max(0, Math.min(7, Number(message.period ?? 0)));
+        this.sweepCounter = (this.sweepPeriod + 1) * this.sweepSamplesPerHalfFrame;
+        this.sweepMuted = false;
+        this.slide = null;
+        break;
+      case "setParam":
+        if (message.param === "duty" && typeof message.value === "number") {
+          this.duty = Math.min(0.99, Math.max(0.01, message.value));
+        }
+        if (message.param === "volume" && typeof message.value === "number") {
+          this.amplitude = this.noteAmplitude * Math.min(1, Math.max(0, message.value));
+        }
+        if (
+          message.param === "pitchBend" &&
+          typeof message.value === "number" &&
+          !this.sweepEnabled
+        ) {
+          const rampDuration = Number(message.rampDuration ?? 0);
+          this.slideCurve = typeof message.curve === "string" ? message.curve : "linear";
+          const currentFrequency = this.computeFrequency(message.sampleFrame);
+          this.baseFrequency = currentFrequency;
+          this.slide = {
+            startFrame: message.sampleFrame,
+            startFrequency: currentFrequency,
+            targetFrequency: message.value,
+            durationSamples: Math.max(1, Math.round(rampDuration * this.sampleRate)),
+          };
+        }
+        break;
+      default:
+        break;
+    }
+  }
+
+  private computeFrequency(frame: number): number {
+    if (this.sweepEnabled || !this.slide) {
+      return this.baseFrequency;
+    }
+    const elapsed = frame - this.slide.startFrame;
+    if (elapsed >= this.slide.durationSamples) {
+      this.baseFrequency = this.slide.targetFrequency;
+      this.slide = null;
+      return this.baseFrequency;
+    }
+    const ratio = elapsed / this.slide.durationSamples;
+    const curvedRatio = this.slideCurve === "exponential" ? ratio * ratio * ratio : ratio;
+    return (
+      this.slide.startFrequency +
+      (this.slide.targetFrequency - this.slide.startFrequency) * curvedRatio
+    );
+  }
+
+  protected sample(frame: number): number {
+    if (this.sweepEnabled) {
+      this.sweepCounter--;
+      if (this.sweepCounter <= 0) {
+        this.sweepCounter = (this.sweepPeriod + 1) * this.sweepSamplesPerHalfFrame;
+        if (this.sweepShift > 0) {
+          const delta = this.sweepTimerPeriod >> this.sweepShift;
+          const targetPeriod = this.sweepNegate
+            ? this.sweepTimerPeriod - delta
+            : this.sweepTimerPeriod + delta;
+          if (targetPeriod > 0x7ff || this.sweepTimerPeriod < 8) {
+            this.sweepMuted = true;
+          } else {
+            this.sweepTimerPeriod = targetPeriod;
+            this.baseFrequency = CHIP_BASE_CLOCK / (16 * (this.sweepTimerPeriod + 1));
+            this.sweepMuted = false;
+          }
+        }
+      }
+    }
+
+    const frequency = this.computeFrequency(frame);
+    const amplitude = this.sweepMuted ? 0 : this.amplitude;
+    if (amplitude <= 0 || frequency <= 0) {
+      return 0;
+    }
+    this.phase += frequency / this.sampleRate;
+    if (this.phase >= 1) {
+      this.phase -= Math.floor(this.phase);
+    }
+    return this.phase < this.duty ? amplitude : -amplitude;
+  }
+}
+
+/** Port of triangle-processor.js (32-step table, legacy pitch override). */
+class OfflineTriangleVoice extends OfflineVoice {
+  private amplitude = 0;
+  private baseFrequency = 0;
+  private pitchOverride = 0;
+  private phase = 0;
+  private slide: SlideState | null = null;
+  private slideCurve = "linear";
+
+  protected apply(message: VoiceMessage): void {
+    switch (message.type) {
+      case "noteOn":
+        this.baseFrequency = Number(message.frequency) || 0;
+        this.amplitude = Math.max(0, Math.min(1, Number(message.amplitude ?? 0.8)));
+        this.pitchOverride = 0;
+        this.slide = null;
+        break;
+      case "noteOff":
+        this.amplitude = 0;
+        this.slide = null;
+        break;
+      case "setParam":
+        if (message.param === "gain" && typeof message.value === "number") {
+          this.amplitude = Math.max(0, Math.min(1, message.value));
+        } else if (message.param === "pitchBend" && typeof message.value === "number") {
+          const rampDuration = Number(message.rampDuration ?? 0);
+          if (rampDuration > 0) {
+            this.slideCurve = typeof message.curve === "string" ? message.curve : "linear";
+            const currentFrequency = this.computeFrequency(message.sampleFrame);
+            this.baseFrequency = currentFrequency;
+            this.slide = {
+              startFrame: message.sampleFrame,
+              startFrequency: currentFrequency,
+              targetFrequency: message.value,
+              durationSamples: Math.max(1, Math.round(rampDuration * this.sampleRate)),
+            };
+            this.pitchOverride = 0;
+          } else {
+            this.pitchOverride = Math.max(0, message.value);
+            this.slide = null;
+          }
+        }
+        break;
+      default:
+        break;
+    }
+  }
+
+  private computeFrequency(frame: number): number {
+    if (this.slide) {
+      const elapsed = frame - this.slide.startFrame;
+      if (elapsed >= this.slide.durationSamples) {
+        this.baseFrequency = this.slide.targetFrequency;
+        this.slide = null;
+        return this.baseFrequency;
+      }
+      const ratio = elapsed / this.slide.durationSamples;
+      const curvedRatio = this.slideCurve === "exponential" ? ratio * ratio * ratio : ratio;
+      return (
+        this.slide.startFrequency +
+        (this.slide.targetFrequency - this.slide.startFrequency) * curvedRatio
+      );
+    }
+    if (this.pitchOverride > 0) {
+      return this.pitchOverride;
+    }
+    return this.baseFrequency;
+  }
+
+  protected sample(frame: number): number {
+    const frequency = this.computeFrequency(frame);
+    if (this.amplitude <= 0 || frequency <= 0) {
+      return 0;
+    }
+    this.phase = (this.phase + (frequency * 32) / this.sampleRate) % 32;
+    return TRI_TABLE[this.phase | 0]! * this.amplitude;
+  }
+}
+
+/** Port of noise-processor.js (15-bit LFSR, 4-bit envelope, one-pole lowpass). */
+class OfflineNoiseVoice extends OfflineVoice {
+  private register = 1;
+  private mode: "short" | "long" = "short";
+  private periodCounter = 1;
+  private periodSamples = 1;
+  private amplitude = 0;
+  private envelope = 0;
+  private envelopeStep = 0;
+  private released = true;
+  private currentSample = 1;
+  private filterState = 0;
+  private filterAlpha = 1;
+  private releaseSamples: number;
+
+  constructor(sampleRate: number) {
+    super(sampleRate);
+    this.releaseSamples = Math.round(0.02 * sampleRate);
+  }
+
+  protected apply(message: VoiceMessage): void {
+    switch (message.type) {
+      case "noteOn": {
+        this.mode = message.mode === "long" ? "long" : "short";
+        this.amplitude = Math.max(0, Math.min(1, Number(message.amplitude ?? 0.5)));
+        const decaySamples = Math.max(1, Number(message.decaySamples));
+        this.periodSamples = Math.max(1, Number(message.periodSamples ?? 1));
+        this.periodCounter = 0;
+        this.envelope = this.amplitude;
+        this.envelopeStep = this.amplitude / decaySamples;
+        this.released = false;
+        this.releaseSamples = Math.max(1, Number(message.releaseSamples ?? this.releaseSamples));
+        const cutoffHz = Math.max(
+          100,
+          Math.min(this.sampleRate / 2, Number(message.cutoffHz ?? 6000))
+        );
+        this.filterAlpha = 1 - Math.exp((-2 * Math.PI * cutoffHz) / this.sampleRate);
+        break;
+      }
+      case "noteOff": {
+        const releaseSamples = Math.max(1, Number(message.releaseSamples ?? this.releaseSamples));
+        if (this.envelope > 0) {
+          this.envelopeStep = this.envelope / releaseSamples;
+        }
+        this.released = true;
+        break;
+      }
+      case "setParam":
+        if (message.param === "mode") {
+          this.mode = message.value === "long" ? "long" : "short";
+        }
+        if (message.param === "volume" && typeof message.value === "number" && !this.released) {
+          this.envelope = this.amplitude * Math.min(1, Math.max(0, message.value));
+          this.envelopeStep = 0;
+        }
+        if (message.param === "periodSamples" && typeof message.value === "number") {
+          this.periodSamples = Math.max(1, Math.round(message.value));
+          this.periodCounter = Math.min(this.periodCounter, this.periodSamples);
+        }
+        break;
+      default:
+        break;
+    }
+  }
+
+  private stepRegister(): number {
+    const feedbackBit = this.mode === "short" ? 6 : 1;
+    const bit0 = this.register & 1;
+    const bit1 = (this.register >> feedbackBit) & 1;
+    this.register = (this.register >> 1) | ((bit0 ^ bit1) << 14);
+    return bit0 ? 1 : -1;
+  }
+
+  protected sample(): number {
+    if (this.periodCounter <= 0) {
+      this.currentSample = this.stepRegister();
+      this.periodCounter += this.periodSamples;
+    }
+    this.periodCounter--;
+
+    let env = this.envelope;
+    if (env > 0) {
+      env = Math.max(0, env - this.envelopeStep);
+      this.envelope = env;
+    }
+    const stepSize = this.amplitude / 15;
+    const quantizedEnv = stepSize > 0 ? Math.round(env / stepSize) * stepSize : env;
+    this.filterState += this.filterAlpha * (this.currentSample * quantizedEnv - this.filterState);
+    return this.filterState;
+  }
+}
+
+type OfflineVoices = Record<Channel, OfflineVoice>;
+
+// ============================================================================
+// Event Translation
+// ============================================================================
+
+/**
+ * Converts events into per-voice worklet messages.
+ *
+ * This follows the Square/Triangle/NoiseChannel classes in `synthesizer.ts`
+ * message-for-message, including the channel-side duty and noise state they keep.
+ */
+function scheduleEvents(events: PlaybackEvent[], voices: OfflineVoices, sampleRate: number): void {
+  const channelDuty: Record<"square1" | "square2", number> = { square1: 0.5, square2: 0.5 };
+  let noisePeriodIndex = 0;
+  const toFrame = (time: number) => Math.max(0, Math.round(time * sampleRate));
+
+  for (const event of events) {
+    const data = (event.data ?? {}) as Record<string, unknown>;
+    const sampleFrame = toFrame(event.time);
+    const voice = voices[event.channel];
+    if (!voice) {
+      continue;
+    }
+
+    if (event.command === "noteOff") {
+      if (event.channel === "noise") {
+        const releaseSeconds = Math.max(0.001, Number(data.releaseSeconds ?? 0.03));
+        voice.enqueue({
+          type: "noteOff",
+          releaseSamples: Math.max(1, Math.round(releaseSeconds * sampleRate)),
+          sampleFrame,
+        });
+      } else {
+        voice.enqueue({ type: "noteOff", sampleFrame });
+      }
+      continue;
+    }
+
+    if (event.channel === "noise") {
+      if (event.command === "noteOn") {
+        const noise = mapNoiseData(data);
+        const periodIndex = Math.max(
+          0,
+          Math.min(NOISE_PERIOD_TABLE.length - 1, noise.periodIndex ?? noisePeriodIndex)
+        );
+        noisePeriodIndex = periodIndex;
+        voice.enqueue({
+          type: "noteOn",
+          mode: noise.mode === "long" ? "long" : "short",
+          amplitude: Math.max(0, Math.min(1, noise.amplitude)),
+          periodSamples: noisePeriodToSamples(periodIndex, sampleRate),
+          decaySamples: Math.max(1, Math.round(Math.max(0.001, noise.decaySeconds) * sampleRate)),
+          releaseSamples: Math.max(
+            1,
+            Math.round(Math.max(0.001, noise.releaseSeconds) * sampleRate)
+          ),
+          cutoffHz: Math.max(100, Math.min(sampleRate / 2, noise.cutoffHz)),
+          sampleFrame,
+        });
+      } else if (data.param === "mode" && typeof data.value === "string") {
+        voice.enqueue({ type: "setParam", param: "mode", value: data.value, sampleFrame });
+      } else if (data.param === "periodIndex") {
+        noisePeriodIndex = Math.max(
+          0,
+          Math.min(NOISE_PERIOD_TABLE.length - 1, Number(data.value ?? noisePeriodIndex))
+        );
+        voice.enqueue({
+          type: "setParam",
+          param: "periodSamples",
+          value: noisePeriodToSamples(noisePeriodIndex, sampleRate),
+          sampleFrame,
+        });
+      } else if (data.param) {
+        voice.enqueue({ type: "setParam", param: data.param, value: data.value, sampleFrame });
+      }
+      continue;
+    }
+
+    if (event.command === "noteOn") {
+      const pitch = mapPitchData(data);
+      if (event.channel === "triangle") {
+        voice.enqueue({ type: "noteOn", frequency: pitch.frequency, amplitude: pitch.amplitude, sampleFrame });
+        continue;
+      }
+      const detuneRatio = Math.pow(2, (pitch.detuneCents ?? 0) / 1200);
+      voice.enqueue({
+        type: "noteOn",
+        frequency: pitch.frequency * detuneRatio,
+        amplitude: pitch.amplitude ?? 0.8,
+        duty: pitch.duty ?? channelDuty[event.channel],
+        slide: pitch.slide
+          ? {
+              targetFrequency: pitch.slide.targetFrequency,
+              durationSamples: Math.round((pitch.slide.durationSeconds ?? 0) * sampleRate),
+            }
+          : undefined,
+        sampleFrame,
+      });
+      continue;
+    }
+
+    // setParam on square/triangle
+    if (event.channel !== "triangle" && data.param === "duty") {
+      channelDuty[event.channel] = Number(data.value ?? channelDuty[event.channel]);
+    }
+    if (data.param === "pitchBend" && typeof data.value === "number") {
+      voice.enqueue({
+        type: "setParam",
+        param: "pitchBend",
+        value: data.value > 0 ? midiToFrequency(data.value) : 0,
+        rampDuration: Number(data.rampDuration ?? 0),
+        curve: (data.curve as string) ?? "linear",
+        sampleFrame,
+      });
+      continue;
+    }
+    if (event.channel !== "triangle" && data.param === "sweep") {
+      voice.enqueue({
+        type: "setSweep",
+        enabled: data.enabled !== false,
+        period: typeof data.period === "number" ? data.period : 0,
+        shift: typeof data.shift === "number" ? data.shift : 0,
+        negate: data.negate === true,
+        sampleFrame,
+      });
+      continue;
+    }
+    voice.enqueue({ type: "setParam", param: data.param, value: data.value, sampleFrame });
+  }
+}
+
+// ============================================================================
+// Mixer
+// ============================================================================
+
+/**
+ * Applies a WaveShaper curve using the Web Audio interpolation rule
+ * (inputs outside [-1, 1] clamp to the curve ends).
+ */
+function shape(curve: Float32Array, input: number): number {
+  const n = curve.length;
+  const position = ((n - 1) / 2) * (Math.max(-1, Math.min(1, input)) + 1);
+  const index = Math.floor(position);
+  if (index >= n - 1) {
+    return curve[n - 1]!;
+  }
+  const fraction = position - index;
+  return (1 - fraction) * curve[index]! + fraction * curve[index + 1]!;
+}
+
+/**
+ * Creates the DC blocker as a Web Audio-compatible biquad highpass
+ * (Q interpreted in dB as specified for BiquadFilterNode).
+ */
+function createDcBlocker(sampleRate: number): (input: number) => number {
+  const w0 = (2 * Math.PI * DC_BLOCKER_CUTOFF_HZ) / sampleRate;
+  const alpha = Math.sin(w0) / (2 * Math.pow(10, DC_BLOCKER_Q / 20));
+  const cosW0 = Math.cos(w0);
+  const a0 = 1 + alpha;
+  const b0 = (1 + cosW0) / 2 / a0;
+  const b1 = -(1 + cosW0) / a0;
+  const b2 = b0;
+  const a1 = (-2 * cosW0) / a0;
+  const a2 = (1 - alpha) / a0;
+  let x1 = 0;
+  let x2 = 0;
+  let y1 = 0;
+  let y2 = 0;
+  return (input: number) => {
+    const output = b0 * input + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+    x2 = x1;
+    x1 = input;
+    y2 = y1;
+    y1 = output;
+    return output;
+  };
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Renders events to mono floating-point PCM.
+ *
+ * @param events Time-sorted playback events (BGM or SE)
+ * @param options Sample rate, volume and render length
+ * @returns Mono samples in [-1, 1]
+ */
+export function renderEventsToPcm(
+  events: PlaybackEvent[],
+  options: OfflineRenderOptions = {}
+): Float32Array {
+  const sampleRate = Math.max(1, Math.floor(options.sampleRate ?? DEFAULT_SAMPLE_RATE));
+  const volume = Math.max(0, options.volume ?? 1.0);
+  const lastEventTime = events.length ? events[events.length - 1]!.time : 0;
+  const durationSeconds =
+    options.durationSeconds ?? lastEventTime + Math.max(0, options.tailSeconds ?? DEFAULT_TAIL_SECONDS);
+  const totalFrames = Math.max(0, Math.ceil(durationSeconds * sampleRate));
+
+  const voices: OfflineVoices = {
+    square1: new OfflineSquareVoice(sampleRate),
+    square2: new OfflineSquareVoice(sampleRate),
+    triangle: new OfflineTriangleVoice(sampleRate),
+    noise: new OfflineNoiseVoice(sampleRate),
+  };
+  scheduleEvents(events, voices, sampleRate);
+  const voiceList = Object.values(voices);
+  voiceList.forEach((voice) => voice.seal());
+
+  const masterGain = BASE_MASTER_GAIN * volume;
+  const mixerCurve = makeNESMixerCurve();
+  const dcBlocker = createDcBlocker(sampleRate);
+  const output = new Float32Array(totalFrames);
+  for (let frame = 0; frame < totalFrames; frame++) {
+    let mix = 0;
+    for (const voice of voiceList) {
+      mix += voice.next(frame);
+    }
+    output[frame] = dcBlocker(shape(mixerCurve, mix * masterGain));
+  }
+  return output;
+}
+
+/**
+ * Encodes mono PCM as a 16-bit little-endian RIFF/WAVE file.
+ *
+ * @param samples Mono samples in [-1, 1] (clipped)
+ * @param sampleRate Sample rate written to the header
+ * @returns WAV file bytes
+ */
+export function encodeWav(samples: Float32Array, sampleRate: number): Uint8Array {
+  const bytesPerSample = 2;
+  const dataSize = samples.length * bytesPerSample;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+  const writeAscii = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) {
+      view.setUint8(offset + i, text.charCodeAt(i));
+    }
+  };
+
+  writeAscii(0, "RIFF");
+  view.setUint32(4, 36 + dataSize, true);
+  writeAscii(8, "WAVE");
+  writeAscii(12, "fmt ");
+  view.setUint32(16, 16, true); // PCM chunk size
+  view.setUint16(20, 1, true); // PCM format
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * bytesPerSample, true);
+  view.setUint16(32, bytesPerSample, true);
+  view.setUint16(34, 16, true);
+  writeAscii(36, "data");
+  view.setUint32(40, dataSize, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const clamped = Math.max(-1, Math.min(1, samples[i]!));
+    view.setInt16(44 + i * bytesPerSample, Math.round(clamped * 0x7fff), true);
+  }
+  return new Uint8Array(buffer);
+}
+
+/**
+ * Renders a composition to WAV bytes.
+ *
+ * The render length defaults to `meta.loopInfo.totalDuration`, so the file loops
+ * seamlessly when played back-to-back; pass `tailSeconds` or `durationSeconds`
+ * to include release tails instead.
+ *
+ * @param result Pipeline result from {@link generateComposition}
+ * @param options Sample rate, volume and render length
+ * @returns WAV file bytes
+ */
+export function renderCompositionToWav(
+  result: PipelineResult,
+  options: OfflineRenderOptions = {}
+): Uint8Array {
+  const sampleRate = Math.max(1, Math.floor(options.sampleRate ?? DEFAULT_SAMPLE_RATE));
+  const durationSeconds =
+    options.durationSeconds ??
+    (options.tailSeconds !== undefined
+      ? undefined
+      : result.meta.loopInfo.totalDuration);
+  const samples = renderEventsToPcm(result.events, { ...options, sampleRate, durationSeconds });
+  return encodeWav(samples, sampleRate);
+}
@@ -16,6 +16,20 @@
  */
 
 import type { Event as PlaybackEvent, Channel } from "../types.js";
+import {
+  BASE_MASTER_GAIN,
+  CHIP_BASE_CLOCK,
+  DC_BLOCKER_CUTOFF_HZ,
+  DC_BLOCKER_Q,
+  NOISE_PERIOD_TABLE,
+  makeNESMixerCurve,
+  mapNoiseData,
+  mapPitchData,
+  midiToFrequency,
+  type NoiseData,
+  type PitchData,
+  type PitchSlide,
+} from "./chip-core.js";
 
 // ============================================================================
 // Constants
@@ -27,85 +41,11 @@ const LOOKAHEAD_SECONDS = 0.1;
 const SCHEDULE_INTERVAL_MS = 25;
 /** Default lead time before playback starts in seconds */
 const LEAD_TIME = 0.3;
-/** Reference clock frequency in Hz (1.789773 MHz) */
-const CHIP_BASE_CLOCK = 1_789_773;
-
-/** Noise channel period lookup table (clock divider values) */
-const NOISE_PERIOD_TABLE = [
-  4, 8, 16, 32, 64, 96, 128, 160, 202, 254, 380, 508, 762, 1016, 2034, 4068,
-];
-
-/** Default noise filter cutoff when not specified by the event generator */
-const DEFAULT_NOISE_CUTOFF_HZ = 5200;
-
-/** MIDI note number for A4 (440 Hz) */
-const MIDI_A4 = 69;
-/** Frequency of A4 in Hz */
-const FREQ_A4 = 440;
-
-// ============================================================================
-// Utility Functions
-// ============================================================================
-
-/**
- * Converts MIDI note number to frequency in Hz.
- *
- * @param midi MIDI note number (0-127)
- * @returns Frequency in Hz
- */
-function midiToFrequency(midi: number): number {
-  return FREQ_A4 * Math.pow(2, (midi - MIDI_A4) / 12);
-}
-
-/**
- * Converts MIDI velocity to linear gain value.
- *
- * @param velocity MIDI velocity (0-127, defaults to 100)
- * @param scale Scaling factor (default 0.85 to avoid clipping)
- * @returns Linear gain value (0.0-1.0)
- */
-function velocityToGain(velocity?: number, scale = 0.85): number {
-  return Math.max(0, Math.min(1, ((velocity ?? 100) / 127) * scale));
-}
-
-/**
- * Builds a WaveShaper transfer curve approximating the NES APU non-linear DAC mixer.
- *
- * The NES uses separate resistor-ladder DACs for pulse and TND channel groups whose
- * combined response is non-linear: quiet signals are relatively louder (expansion)
- * and the combined headroom compresses slightly at high amplitudes.  A tanh curve
- * with k ≈ 0.55 closely matches that shape across the [0, 1] amplitude range.
- */
-function makeNESMixerCurve(n = 256): Float32Array {
-  const k = 0.55;
-  const normFactor = Math.tanh(k);
-  const curve = new Float32Array(n);
-  for (let i = 0; i < n; i++) {
-    const x = (2 * i) / (n - 1) - 1; // map index to [-1, 1]
-    curve[i] = Math.tanh(x * k) / normFactor;
-  }
-  return curve;
-}
 
 // ============================================================================
 // Type Definitions
 // ============================================================================
 
-/** Pitch slide/portamento parameters */
-interface PitchSlide {
-  targetFrequency: number;
-  durationSeconds: number;
-}
-
-/** Data for pitched notes (square/triangle channels) */
-interface PitchData {
-  frequency: number;
-  amplitude: number;
-  duty?: number;
-  detuneCents: number;
-  slide?: PitchSlide | null;
-}
-
 /** Noise channel preset parameters */
 interface NoisePreset {
   mode: "short" | "long";
@@ -116,15 +56,11 @@ interface NoisePreset {
   cutoffHz: number;
 }
 
-/** Data for noise channel notes (drums/percussion) */
-interface NoiseData {
-  amplitude: number;
-  decaySeconds: number;
-  releaseSeconds: number;
-  periodIndex: number;
-  mode: "short" | "long";
-  cutoffHz: number;
-}
+/**
+ * Decides at dispatch time whether an event is played.
+ * Receives the absolute AudioContext time the event is scheduled for.
+ */
+export type SynthEventFilter = (event: PlaybackEvent, when: number) => boolean;
 
 /** Options for synthesizer playback */
 export interface SynthPlayOptions {
@@ -132,6 +68,8 @@ export interface SynthPlayOptions {
   lookahead?: number;
   leadTime?: number;
   offset?: number;
+  /** Seconds that {@link AlgoChipSynthesizer.playLoop} wraps back to, e.g. `meta.loopInfo.loopStartTime` (default: 0) */
+  loopStart?: number;
   onEvent?: (event: PlaybackEvent, when: number) => void;
   volume?: number; // Playback volume multiplier (default: 1.0, range: 0.0+)
 }
@@ -450,7 +388,7 @@ const loadedWorklets = new WeakMap<BaseAudioContext, Set<string>>();
  * ```
  */
 export class AlgoChipSynthesizer {
-  private static readonly BASE_GAIN = 0.16; // Default master gain value
+  private static readonly BASE_GAIN = BASE_MASTER_GAIN;
   private readonly masterGainNode: GainNode;
   private readonly destination: AudioNode;
   private readonly workletBasePath: string;
@@ -464,8 +402,11 @@ export class AlgoChipSynthesizer {
   private lastEventTime = 0;
   private completionResolver: (() => void) | null = null;
   private loopEnabled = false;
+  private loopStart = 0;
+  private loopStartIndex = 0;
   private eventCallback: ((event: PlaybackEvent, when: number) => void) | null =
     null;
+  private eventFilter: SynthEventFilter | null = null;
 
   constructor(
     private readonly context: AudioContext,
@@ -542,14 +483,43 @@ export class AlgoChipSynthesizer {
 
     const dcBlocker = ctx.createBiquadFilter();
     dcBlocker.type = "highpass";
-    dcBlocker.frequency.value = 20;
-    dcBlocker.Q.value = 0.707;
+    dcBlocker.frequency.value = DC_BLOCKER_CUTOFF_HZ;
+    dcBlocker.Q.value = DC_BLOCKER_Q;
 
     this.masterGainNode.connect(nesWaveShaper);
     nesWaveShaper.connect(dcBlocker);
     dcBlocker.connect(this.destination);
   }
 
+  /**
+   * Installs a filter consulted for every event as it is scheduled.
+   *
+   * Unlike the event list passed to {@link play}/{@link playLoop}, the filter can be
+   * swapped or re-evaluated while playback runs, so callers can mute or thin
+   * voices without restarting the loop. Rejected events are neither played nor
+   * reported to `onEvent`. Pass `null` to play everything.
+   */
+  setEventFilter(filter: SynthEventFilter | null): void {
+    this.eventFilter = filter;
+  }
+
+  /**
+   * Schedules one-shot events on top of the current playback.
+   *
+   * The events are sent to the channels immediately (relative to `startTime`),
+   * bypassing the event filter and `onEvent`, so keep overlays short, e.g. a
+   * one-measure drum fill. They share channels with the running track and are
+   * cleared by {@link stop}.
+   *
+   * @param events Events with times relative to the overlay start
+   * @param startTime Absolute AudioContext time of the first event
+   */
+  scheduleOverlay(events: PlaybackEvent[], startTime: number): void {
+    for (const event of events) {
+      this.routeEvent(event, startTime + event.time);
+    }
+  }
+
   /** Returns the master gain node for external ducking/mixing control */
   get masterGain(): GainNode {
     return this.masterGainNode;
@@ -593,7 +563,8 @@ export class AlgoChipSynthesizer {
    *
    * Returns immediately after scheduling begins; call {@link stop} to halt
    * the loop. This keeps the async contract simple for callers that want
-   * background music playback without awaiting.
+   * background music playback without awaiting. Each pass after the first
+   * restarts at `options.loopStart`, so an intro before it plays once.
    */
   playLoop(events: PlaybackEvent[], options: SynthPlayOptions = {}): void {
     this.preparePlayback(events, options, true);
@@ -621,10 +592,16 @@ export class AlgoChipSynthesizer {
     const totalDuration = this.events.length
       ? this.events[this.events.length - 1]!.time
       : 0;
+    const requestedLoopStart = Math.max(0, options.loopStart ?? 0);
+    const loopStart = loop && requestedLoopStart < totalDuration ? requestedLoopStart : 0;
     let offset = Math.max(0, options.offset ?? 0);
     if (offset > 0) {
-      if (loop && totalDuration > 0) {
-        offset = offset % totalDuration;
+      if (loop && totalDuration > loopStart) {
+        // Offsets past the end land inside the looped part, after any intro
+        offset =
+          offset < totalDuration
+            ? offset
+            : loopStart + ((offset - loopStart) % (totalDuration - loopStart));
       } else {
         offset = Math.min(offset, totalDuration);
       }
@@ -634,6 +611,8 @@ export class AlgoChipSynthesizer {
     const baseStart = options.startTime ?? contextStart + this.leadTime;
     this.startTime = baseStart - offset;
     this.lastEventTime = totalDuration;
+    this.loopStart = loopStart;
+    this.loopStartIndex = this.resolveEventIndex(loopStart);
     this.eventIndex = this.resolveEventIndex(offset);
   }
 
@@ -684,8 +663,8 @@ export class AlgoChipSynthesizer {
     }
 
     if (this.loopEnabled && this.eventIndex >= this.events.length) {
-      this.startTime += this.lastEventTime;
-      this.eventIndex = 0;
+      this.startTime += this.lastEventTime - this.loopStart;
+      this.eventIndex = this.loopStartIndex;
     }
 
     if (!this.loopEnabled) {
@@ -706,18 +685,27 @@ export class AlgoChipSynthesizer {
    * @param when Absolute time to schedule the event
    */
   private dispatchEvent(event: PlaybackEvent, when: number): void {
-    const data = event.data ?? {};
+    if (this.eventFilter && !this.eventFilter(event, when)) {
+      return;
+    }
 
     // Notify callback if registered
     if (this.eventCallback) {
       this.eventCallback(event, when);
     }
 
+    this.routeEvent(event, when);
+  }
+
+  /** Routes an event to its channel instance without filtering or callbacks. */
+  private routeEvent(event: PlaybackEvent, when: number): void {
+    const data = event.data ?? {};
+
     switch (event.channel) {
       case "square1":
       case "square2":
         if (event.command === "noteOn") {
-          this.channels[event.channel].noteOn(this.mapPitchData(data), when);
+          this.channels[event.channel].noteOn(mapPitchData(data), when);
         } else if (event.command === "noteOff") {
           this.channels[event.channel].noteOff(data, when);
         } else if (event.command === "setParam") {
@@ -726,7 +714,7 @@ export class AlgoChipSynthesizer {
         break;
       case "triangle":
         if (event.command === "noteOn") {
-          this.channels.triangle.noteOn(this.mapPitchData(data), when);
+          this.channels.triangle.noteOn(mapPitchData(data), when);
         } else if (event.command === "noteOff") {
           this.channels.triangle.noteOff(data, when);
         } else if (event.command === "setParam") {
@@ -735,7 +723,7 @@ export class AlgoChipSynthesizer {
         break;
       case "noise":
         if (event.command === "noteOn") {
-          this.channels.noise.noteOn(this.mapNoiseData(data), when);
+          this.channels.noise.noteOn(mapNoiseData(data), when);
         } else if (event.command === "noteOff") {
           this.channels.noise.noteOff(data, when);
         } else if (event.command === "setParam") {
@@ -746,94 +734,4 @@ export class AlgoChipSynthesizer {
         break;
     }
   }
-
-  /**
-   * Maps event data to PitchData for square/triangle channels.
-   *
-   * Converts MIDI note numbers to frequencies, applies velocity scaling,
-   * and extracts pitch slide parameters if present.
-   *
-   * @param data Event data object
-   * @returns Formatted pitch data for channel noteOn
-   */
-  private mapPitchData(data: Record<string, unknown>): PitchData {
-    const midi = Number(data.midi ?? 60);
-    const detuneCents = Number(data.detuneCents ?? 0);
-    let slide: PitchSlide | null = null;
-    const slideData = data.slide as Record<string, unknown> | undefined;
-    if (slideData) {
-      if (typeof slideData.targetMidi === "number") {
-        slide = {
-          targetFrequency: midiToFrequency(slideData.targetMidi),
-          durationSeconds: Number(slideData.durationSeconds ?? 0),
-        };
-      } else if (typeof slideData.targetFrequency === "number") {
-        slide = {
-          targetFrequency: slideData.targetFrequency,
-          durationSeconds: Number(slideData.durationSeconds ?? 0),
-        };
-      }
-    }
-
-    return {
-      frequency: midiToFrequency(midi),
-      amplitude: velocityToGain(
-        typeof data.velocity === "number" ? data.velocity : undefined
-      ),
-      duty: typeof data.duty === "number" ? data.duty : undefined,
-      detuneCents,
-      slide,
-    };
-  }
-
-  /**
-   * Maps event data to NoiseData for the noise channel.
-   *
-   * Applies instrument presets (K/S/H/O/T), scales amplitude by velocity,
-   * and extracts envelope/filter parameters.
-   *
-   * @param data Event data object
-   * @returns Formatted noise data for channel noteOn
-   */
-  private mapNoiseData(data: Record<string, unknown>): NoiseData {
-    const velocity = typeof data.velocity === "number" ? data.velocity : 100;
-    const velocityGain = Math.max(0, Math.min(1, velocity / 127));
-    const amplitude = Math.min(
-      1,
-      Math.max(
-        0,
-        (typeof data.amplitude === "number" ? data.amplitude : 0.6) * velocityGain
-      )
-    );
-    const decaySeconds =
-      typeof data.decaySeconds === "number" ? data.decaySeconds : 0.14;
-    const releaseSeconds =
-      typeof data.releaseSeconds === "number" ? data.releaseSeconds : 0.03;
-    const periodIndex =
-      typeof data.periodIndex === "number"
-        ? data.periodIndex
-        : typeof data.clockDivider === "number"
-        ? data.clockDivider
-        : typeof data.period === "number"
-        ? data.period
-        : 3;
-    const mode = (
-      typeof data.mode === "string"
-        ? data.mode
-        : typeof data.noiseMode === "string"
-        ? data.noiseMode
-        : "short"
-    ) as "short" | "long";
-    const cutoffHz =
-      typeof data.cutoffHz === "number" ? data.cutoffHz : DEFAULT_NOISE_CUTOFF_HZ;
-
-    return {
-      amplitude,
-      decaySeconds,
-      releaseSeconds,
-      periodIndex,
-      mode,
-      cutoffHz,
-    };
-  }
 }
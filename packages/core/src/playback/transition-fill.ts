@@ -0,0 +1,116 @@
+/**
+ * Transition fill rendering.
+ *
+ * Turns a drum pattern from the transition library (`motifs/transitions.json`) into
+ * standalone noise-channel events so a runtime can play a fill between two tracks,
+ * e.g. before switching BGM.
+ */
+
+import type { Event, TransitionMotif } from "../types.js";
+import { transitionList } from "../motif-library.js";
+import { generateDrumHitsFromPattern } from "../musicUtils.js";
+import { NOISE_MODE_CONFIG } from "../phase/event-realization.js";
+
+/** Tags preferred when no fill id is given */
+const DEFAULT_FILL_TAGS = ["loop_out"];
+
+/** Longest noise note in a fill (beats); matches the pipeline's drum clamp */
+const FILL_MAX_DURATION_BEATS = 0.5;
+
+export interface TransitionFillOptions {
+  /** Tempo the fill is rendered at */
+  bpm: number;
+  /** Exact fill to use (e.g. `"TR_LOOP_TIGHTENER"`); takes precedence over `tags` */
+  id?: string;
+  /** Candidate fills must carry at least one of these tags (default: `["loop_out"]`) */
+  tags?: string[];
+  /** Picks among matching fills deterministically; the first match is used when omitted */
+  seed?: number;
+}
+
+export interface TransitionFill {
+  /** Id of the transition motif that was rendered */
+  id: string;
+  /** Noise-channel events with times relative to the start of the fill */
+  events: Event[];
+  lengthBeats: number;
+  durationSeconds: number;
+}
+
+/**
+ * Renders a transition fill as playback events.
+ *
+ * @param options Tempo and fill selection
+ * @returns Rendered fill; events start at time 0
+ * @throws Error when `id` is unknown or no fill matches `tags`
+ */
+export function createTransitionFill(options: TransitionFillOptions): TransitionFill {
+  const motif = selectTransitionMotif(options);
+  const secondsPerBeat = 60 / options.bpm;
+  const hits = generateDrumHitsFromPattern(motif.pattern, 0, "transition").filter(
+    (hit) => hit.startBeat < motif.length_beats
+  );
+
+  const events: Event[] = [];
+  hits.forEach((hit, index) => {
+    const config = NOISE_MODE_CONFIG[hit.instrument];
+    if (!config) return;
+    // Each hit ends before the next one starts so note-offs never cut a later hit
+    const nextStart = hits[index + 1]?.startBeat ?? motif.length_beats;
+    const endBeat = Math.min(
+      hit.startBeat + Math.min(hit.durationBeats, FILL_MAX_DURATION_BEATS),
+      nextStart
+    );
+    const releaseSeconds = (config.releaseRange[0] + config.releaseRange[1]) / 2;
+    events.push({
+      time: hit.startBeat * secondsPerBeat,
+      channel: "noise",
+      command: "noteOn",
+      data: {
+        instrument: hit.instrument,
+        mode: config.mode,
+        velocity: config.velocity,
+        amplitude: config.amplitude,
+        releaseSeconds,
+        decaySeconds: Math.max(0.01, releaseSeconds * 0.7),
+        periodIndex: config.periodIndex
+      }
+    });
+    events.push({
+      time: endBeat * secondsPerBeat,
+      channel: "noise",
+      command: "noteOff",
+      data: { releaseSeconds }
+    });
+  });
+
+  return {
+    id: motif.id,
+    events,
+    lengthBeats: motif.length_beats,
+    durationSeconds: motif.length_beats * secondsPerBeat
+  };
+}
+
+function selectTransitionMotif(options: TransitionFillOptions): TransitionMotif {
+  if (options.id !== undefined) {
+    const motif = transitionList.find((candidate) => candidate.id === options.id);
+    if (!motif) {
+      throw new Error(`Unknown transition fill "${options.id}".`);
+    }
+    return motif;
+  }
+
+  const tags = options.tags ?? DEFAULT_FILL_TAGS;
+  const candidates = transitionList.filter(
+    (motif) => motif.channel === "noise" && motif.tags.some((tag) => tags.includes(tag))
+  );
+  if (!candidates.length) {
+    throw new Error(`No transition fill matches tags: ${tags.join(", ")}.`);
+  }
+  if (options.seed === undefined) {
+    return candidates[0]!;
+  }
+  const index = Math.abs(Math.floor(options.seed)) % candidates.length;
+  return candidates[index]!;
+}
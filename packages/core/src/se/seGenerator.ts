@@ -58,8 +58,16 @@
  */
 
 import type { Event, Channel } from "../types.js";
-import type { SEType, SETemplate, SEGenerationOptions, SEGenerationResult } from "./seTypes.js";
-import { loadSETemplates } from "./seTemplates.js";
+import type {
+  SEType,
+  SETemplate,
+  SEGenerationOptions,
+  SEGenerationResult,
+  SEGeneratorOptions,
+  SESynthParams
+} from "./seTypes.js";
+import { loadSETemplates, validateSETemplates } from "./seTemplates.js";
+import { mutateSynthParams, renderSynthParams, sampleSynthParams, synthChannels } from "./seSynth.js";
 import { midiToFrequency, frequencyToSemitones, quantizeMidiToChord } from "../musicUtils.js";
 import { VELOCITY_CHANNEL_SCALE } from "../constants/velocity-config.js";
 
@@ -88,8 +96,44 @@ function seedRandom(seed: number): () => number {
 export class SEGenerator {
   private templates: SETemplate[];
 
-  constructor() {
+  constructor(options: SEGeneratorOptions = {}) {
     this.templates = loadSETemplates();
+    if (options.templates) {
+      this.registerTemplates(options.templates);
+    }
+  }
+
+  /**
+   * Adds templates to this generator's library.
+   *
+   * Templates may introduce new type strings (e.g. "dash"), which `generateSE` then accepts.
+   * A template whose id matches an existing one replaces it. Nothing is registered when any
+   * template fails validation.
+   *
+   * @param templates - Templates to add
+   * @throws Error naming the template id and field of the first invalid template
+   */
+  registerTemplates(templates: SETemplate[]): void {
+    validateSETemplates(templates);
+    const replaced = new Set(templates.map((template) => template.id));
+    this.templates = [...this.templates.filter((template) => !replaced.has(template.id)), ...templates];
+  }
+
+  /**
+   * Returns copies of the registered templates, e.g. as starting points for an editor.
+   *
+   * @param type - Only return templates of this type
+   */
+  getTemplates(type?: SEType): SETemplate[] {
+    const templates = type === undefined ? this.templates : this.templates.filter((template) => template.type === type);
+    return JSON.parse(JSON.stringify(templates));
+  }
+
+  /**
+   * Lists the SE types that have at least one template, built-in types first.
+   */
+  getTypes(): SEType[] {
+    return [...new Set(this.templates.map((template) => template.type))];
   }
 
   /**
@@ -108,6 +152,10 @@ export class SEGenerator {
     const seed = options.seed ?? Math.floor(Math.random() * 1e9);
     const rng = seedRandom(seed);
 
+    if (options.synth) {
+      return this.generateProceduralSE(options, seed, rng);
+    }
+
     // 1. テンプレート選択
     const template = this.selectTemplate(options, rng);
 
@@ -158,6 +206,87 @@ export class SEGenerator {
     };
   }
 
+  /**
+   * Varies a procedural SE for design iteration.
+   *
+   * The result's synthesis parameters are nudged by up to `amount` (0-1) and rendered again
+   * with the same type, timing and mixing. The returned result replays like any other SE.
+   *
+   * @param result - SE generated with `synth` options (or an earlier mutation)
+   * @param amount - How far parameters may move (default: 0.2)
+   * @param seed - Seed for the variation (undefined = random)
+   * @throws Error when `result` was generated from a template
+   */
+  mutate(result: SEGenerationResult, amount = 0.2, seed?: number): SEGenerationResult {
+    const synth = result.meta.replayOptions.synth as SESynthParams | undefined;
+    if (!synth) {
+      throw new Error(
+        `Cannot mutate SE from template ${result.meta.templateId}; generate it with \`synth\` options first`
+      );
+    }
+    if (!Number.isFinite(amount) || amount < 0 || amount > 1) {
+      throw new Error(`Invalid mutation amount ${amount}; expected a number from 0 to 1`);
+    }
+    const mutationSeed = seed ?? Math.floor(Math.random() * 1e9);
+    return this.generateSE({
+      ...result.meta.replayOptions,
+      seed: mutationSeed,
+      synth: mutateSynthParams(synth, amount, seedRandom(mutationSeed))
+    });
+  }
+
+  private generateProceduralSE(
+    options: SEGenerationOptions,
+    seed: number,
+    rng: () => number
+  ): SEGenerationResult {
+    const synth = sampleSynthParams(options.type, rng, options.synth);
+    const startTime = options.startTime ?? 0.0;
+
+    // Pitch shift and chord quantization apply at render time, so replay keeps the designed pitches
+    let rendered = synth;
+    if (options.baseFrequency !== undefined || options.quantizeToChord !== undefined) {
+      const pitchShift = options.baseFrequency !== undefined
+        ? Math.round(frequencyToSemitones(options.baseFrequency / midiToFrequency(synth.startPitch)))
+        : 0;
+      rendered = { ...synth, startPitch: this.resolvePitch(synth.startPitch, pitchShift, options.quantizeToChord) };
+      if (synth.endPitch !== undefined) {
+        rendered.endPitch = this.resolvePitch(synth.endPitch, pitchShift, options.quantizeToChord);
+      }
+    }
+
+    const events = renderSynthParams(rendered, startTime, options.velocityScale ?? 1);
+    events.sort((a, b) => a.time - b.time);
+
+    const replayOptions: SEGenerationOptions = {
+      type: options.type,
+      seed,
+      startTime,
+      synth
+    };
+    if (options.baseFrequency !== undefined) {
+      replayOptions.baseFrequency = options.baseFrequency;
+    }
+    if (options.quantizeToChord !== undefined) {
+      replayOptions.quantizeToChord = options.quantizeToChord;
+    }
+    if (options.velocityScale !== undefined) {
+      replayOptions.velocityScale = options.velocityScale;
+    }
+
+    return {
+      events,
+      meta: {
+        type: options.type,
+        templateId: "procedural",
+        seed,
+        duration: this.calculateEventDuration(events, startTime, 0),
+        channels: synthChannels(synth),
+        replayOptions
+      }
+    };
+  }
+
   private selectTemplate(options: SEGenerationOptions, rng: () => number): SETemplate {
     // templateId が指定されていれば強制選択
     if (options.templateId) {
@@ -0,0 +1,465 @@
+/**
+ * Procedural (sfxr-style) SE synthesis.
+ *
+ * Templates describe a sound as ranges around a fixed shape; this module works on the
+ * shape itself. A sound is a single {@link SESynthParams} value: waveform, ADSR envelope,
+ * pitch slide, vibrato, arpeggio, duty sweep, noise layer and retrigger. Each SE type has
+ * a sampler that draws a plausible starting point from the seed, and designers iterate
+ * from there with {@link mutateSynthParams}.
+ *
+ * ## Frame Driver
+ *
+ * Rendering follows how NES sound drivers work: the note starts once and pitch, duty and
+ * volume are rewritten every 1/60 s. Events are only written when a value changes, pitch
+ * moves use instant `pitchBend` steps, duty snaps to the APU duty cycles and volume to the
+ * 4-bit range, so procedural sounds export to APU registers like BGM does.
+ */
+
+import type { Channel, Event } from "../types.js";
+import type { BuiltInSEType, SESynthParams, SEType } from "./seTypes.js";
+import { APU_DUTY_CYCLES, APU_FRAME_RATE } from "../apu/register-log.js";
+
+/** Longest single shot (attack + decay + sustain + release), in seconds */
+const MAX_SHOT_SECONDS = 4;
+/** Most retriggers after the first shot */
+const MAX_REPEATS = 16;
+/** Pitch changes smaller than this (semitones) are not written */
+const PITCH_EPSILON = 0.01;
+
+const DEFAULT_VELOCITY = 110;
+
+/** Per-channel velocity scale, matching template SEs (square -20%, noise -15%) */
+const CHANNEL_VELOCITY_SCALE: Record<Channel, number> = {
+  square1: 0.8,
+  square2: 0.8,
+  triangle: 1.0,
+  noise: 0.85
+};
+
+interface Sampler {
+  range(min: number, max: number): number;
+  int(min: number, max: number): number;
+  choose<T>(options: readonly T[]): T;
+  chance(probability: number): boolean;
+}
+
+/**
+ * Starting points per SE type, modeled on the sfxr generator buttons.
+ */
+const SYNTH_SAMPLERS: Record<BuiltInSEType, (r: Sampler) => SESynthParams> = {
+  coin: (r) => ({
+    waveform: "square",
+    envelope: { attack: 0, decay: r.range(0.03, 0.08), sustain: r.range(0.4, 0.7), sustainTime: r.range(0.04, 0.1), release: r.range(0.06, 0.16) },
+    startPitch: r.int(76, 88),
+    arpeggio: { steps: [0, r.choose([5, 7, 12])], stepSeconds: r.range(0.04, 0.09) },
+    duty: r.choose([0.25, 0.5])
+  }),
+  jump: (r) => {
+    const startPitch = r.int(58, 70);
+    return {
+      waveform: "square",
+      envelope: { attack: 0, decay: r.range(0.02, 0.06), sustain: r.range(0.5, 0.8), sustainTime: r.range(0.08, 0.16), release: r.range(0.04, 0.1) },
+      startPitch,
+      endPitch: startPitch + r.int(7, 19),
+      slideCurve: r.choose(["linear", "exponential"] as const),
+      duty: r.choose([0.25, 0.5])
+    };
+  },
+  explosion: (r) => {
+    const startPitch = r.int(60, 76);
+    return {
+      waveform: "noise",
+      envelope: { attack: 0, decay: r.range(0.08, 0.2), sustain: r.range(0.35, 0.6), sustainTime: r.range(0.1, 0.3), release: r.range(0.2, 0.45) },
+      startPitch,
+      endPitch: startPitch - r.int(12, 30),
+      noiseMode: r.choose(["long", "long", "short"] as const),
+      ...(r.chance(0.3) ? { repeat: { count: 1, interval: r.range(0.12, 0.25) } } : {})
+    };
+  },
+  hit: (r) => {
+    const startPitch = r.int(60, 74);
+    return {
+      waveform: "square",
+      envelope: { attack: 0, decay: r.range(0.02, 0.05), sustain: r.range(0.3, 0.5), sustainTime: r.range(0.02, 0.05), release: r.range(0.04, 0.09) },
+      startPitch,
+      endPitch: startPitch - r.int(10, 20),
+      duty: r.choose([0.5, 0.75]),
+      noiseMix: r.range(0.4, 0.8),
+      noiseMode: "short"
+    };
+  },
+  powerup: (r) => {
+    const startPitch = r.int(58, 68);
+    return {
+      waveform: "square",
+      envelope: { attack: 0, decay: r.range(0.03, 0.08), sustain: r.range(0.5, 0.75), sustainTime: r.range(0.15, 0.3), release: r.range(0.08, 0.2) },
+      startPitch,
+      endPitch: startPitch + r.int(12, 24),
+      duty: r.choose([0.25, 0.5]),
+      ...(r.chance(0.5)
+        ? { vibrato: { depth: r.range(0.2, 0.5), rate: r.range(8, 14) } }
+        : { repeat: { count: r.int(1, 3), interval: r.range(0.08, 0.15) } })
+    };
+  },
+  select: (r) => ({
+    waveform: "square",
+    envelope: { attack: 0, decay: r.range(0.01, 0.03), sustain: r.range(0.5, 0.7), sustainTime: r.range(0.03, 0.06), release: r.range(0.02, 0.05) },
+    startPitch: r.int(72, 84),
+    duty: r.choose([0.25, 0.5])
+  }),
+  laser: (r) => ({
+    waveform: "square",
+    envelope: { attack: 0, decay: r.range(0.01, 0.03), sustain: r.range(0.5, 0.8), sustainTime: r.range(0.05, 0.15), release: r.range(0.03, 0.08) },
+    startPitch: r.int(84, 100),
+    endPitch: r.int(48, 64),
+    slideCurve: r.choose(["linear", "exponential"] as const),
+    duty: 0.125,
+    ...(r.chance(0.5) ? { dutyEnd: 0.5 } : {})
+  }),
+  click: (r) => ({
+    waveform: "square",
+    envelope: { attack: 0, decay: r.range(0.005, 0.01), sustain: r.range(0.2, 0.4), sustainTime: r.range(0.005, 0.015), release: r.range(0.005, 0.012) },
+    startPitch: r.int(90, 100),
+    duty: 0.125
+  }),
+  synth: (r) => ({
+    waveform: "square",
+    envelope: { attack: r.range(0.01, 0.05), decay: r.range(0.05, 0.1), sustain: r.range(0.5, 0.8), sustainTime: r.range(0.2, 0.4), release: r.range(0.1, 0.3) },
+    startPitch: r.int(60, 76),
+    duty: 0.25,
+    dutyEnd: 0.75,
+    vibrato: { depth: r.range(0.1, 0.3), rate: r.range(4, 7) }
+  }),
+  tone: (r) => ({
+    waveform: "triangle",
+    envelope: { attack: r.range(0, 0.02), decay: r.range(0.03, 0.08), sustain: r.range(0.7, 0.9), sustainTime: r.range(0.2, 0.4), release: r.range(0.05, 0.1) },
+    startPitch: r.int(55, 72)
+  })
+};
+
+function createSampler(rng: () => number): Sampler {
+  return {
+    range: (min, max) => round4(min + rng() * (max - min)),
+    int: (min, max) => Math.min(max, min + Math.floor(rng() * (max - min + 1))),
+    choose: (options) => options[Math.min(options.length - 1, Math.floor(rng() * options.length))],
+    chance: (probability) => rng() < probability
+  };
+}
+
+/**
+ * Completes synthesis parameters for an SE type.
+ *
+ * Values given in `overrides` are kept as they are; the rest are sampled for `type`.
+ * Sampling always consumes the same random draws, so an override does not shift the others.
+ * Once `waveform` is given the overrides describe the whole shape: optional features they
+ * leave out stay off, and only the envelope and start pitch are filled in.
+ * Custom types have no sampler, so their overrides must include all three.
+ *
+ * @throws Error when the completed parameters are out of range (see {@link validateSynthParams})
+ */
+export function sampleSynthParams(
+  type: SEType,
+  rng: () => number,
+  overrides: Partial<SESynthParams> = {}
+): SESynthParams {
+  const sampler = Object.prototype.hasOwnProperty.call(SYNTH_SAMPLERS, type)
+    ? SYNTH_SAMPLERS[type as BuiltInSEType]
+    : undefined;
+  if (!sampler) {
+    const { waveform, envelope, startPitch } = overrides;
+    if (waveform === undefined || envelope === undefined || startPitch === undefined) {
+      throw new Error(
+        `No procedural sampler for SE type "${type}"; pass waveform, envelope and startPitch in synth`
+      );
+    }
+  }
+  const sampled = sampler ? sampler(createSampler(rng)) : ({} as SESynthParams);
+  const params: SESynthParams = overrides.waveform !== undefined
+    ? { waveform: sampled.waveform, envelope: sampled.envelope, startPitch: sampled.startPitch }
+    : { ...sampled };
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value !== undefined) {
+      (params as unknown as Record<string, unknown>)[key] = value;
+    }
+  }
+  validateSynthParams(params);
+  return params;
+}
+
+/**
+ * Checks that synthesis parameters describe a playable sound.
+ *
+ * @throws Error naming the first parameter that is out of range
+ */
+export function validateSynthParams(params: SESynthParams): void {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid SE synth params: ${message}`);
+  };
+  const isNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+  if (!["square", "triangle", "noise"].includes(params.waveform)) {
+    fail(`waveform ${JSON.stringify(params.waveform)}; expected "square", "triangle" or "noise"`);
+  }
+  const envelope = params.envelope;
+  if (!envelope || typeof envelope !== "object") {
+    fail("envelope is required");
+  }
+  for (const key of ["attack", "decay", "sustainTime", "release"] as const) {
+    if (!isNumber(envelope[key]) || envelope[key] < 0) {
+      fail(`envelope.${key} ${String(envelope[key])}; expected seconds >= 0`);
+    }
+  }
+  if (!isNumber(envelope.sustain) || envelope.sustain < 0 || envelope.sustain > 1) {
+    fail(`envelope.sustain ${String(envelope.sustain)}; expected a level from 0 to 1`);
+  }
+  const shot = shotSeconds(params);
+  if (shot <= 0 || shot > MAX_SHOT_SECONDS) {
+    fail(`envelope lasts ${shot}s; expected more than 0 and at most ${MAX_SHOT_SECONDS}s`);
+  }
+  for (const key of ["startPitch", "endPitch"] as const) {
+    const value = params[key];
+    if ((key === "startPitch" || value !== undefined) && (!isNumber(value) || value < 0 || value > 127)) {
+      fail(`${key} ${String(value)}; expected a MIDI note from 0 to 127`);
+    }
+  }
+  if (params.slideCurve !== undefined && params.slideCurve !== "linear" && params.slideCurve !== "exponential") {
+    fail(`slideCurve ${JSON.stringify(params.slideCurve)}; expected "linear" or "exponential"`);
+  }
+  if (params.vibrato && (!isNumber(params.vibrato.depth) || params.vibrato.depth < 0 || !isNumber(params.vibrato.rate) || params.vibrato.rate <= 0)) {
+    fail("vibrato needs depth >= 0 semitones and rate > 0 Hz");
+  }
+  if (
+    params.arpeggio &&
+    (!Array.isArray(params.arpeggio.steps) ||
+      params.arpeggio.steps.length === 0 ||
+      !params.arpeggio.steps.every(isNumber) ||
+      !isNumber(params.arpeggio.stepSeconds) ||
+      params.arpeggio.stepSeconds <= 0)
+  ) {
+    fail("arpeggio needs at least one semitone step and stepSeconds > 0");
+  }
+  for (const key of ["duty", "dutyEnd", "noiseMix"] as const) {
+    const value = params[key];
+    if (value !== undefined && (!isNumber(value) || value < 0 || value > 1)) {
+      fail(`${key} ${String(value)}; expected a value from 0 to 1`);
+    }
+  }
+  if (params.noiseMode !== undefined && params.noiseMode !== "short" && params.noiseMode !== "long") {
+    fail(`noiseMode ${JSON.stringify(params.noiseMode)}; expected "short" or "long"`);
+  }
+  if (
+    params.repeat &&
+    (!Number.isInteger(params.repeat.count) ||
+      params.repeat.count < 0 ||
+      params.repeat.count > MAX_REPEATS ||
+      !isNumber(params.repeat.interval) ||
+      params.repeat.interval <= 0)
+  ) {
+    fail(`repeat needs a whole count from 0 to ${MAX_REPEATS} and interval > 0`);
+  }
+  if (params.velocity !== undefined && (!isNumber(params.velocity) || params.velocity < 1 || params.velocity > 127)) {
+    fail(`velocity ${String(params.velocity)}; expected 1-127`);
+  }
+}
+
+/**
+ * Randomly varies synthesis parameters around their current values.
+ *
+ * `amount` (0-1) scales every change: times and rates move by up to ×e^amount, pitches by up
+ * to 12 × amount semitones, levels and duties by up to half of `amount`. The waveform, the
+ * arpeggio intervals and which features are present stay as they are.
+ */
+export function mutateSynthParams(params: SESynthParams, amount: number, rng: () => number): SESynthParams {
+  const spread = () => rng() * 2 - 1;
+  const scale = (value: number) => round4(value * Math.exp(spread() * amount));
+  const shift = (value: number, by: number, min: number, max: number) =>
+    round4(Math.min(max, Math.max(min, value + spread() * by * amount)));
+
+  const mutated: SESynthParams = {
+    ...params,
+    envelope: {
+      attack: scale(params.envelope.attack),
+      decay: scale(params.envelope.decay),
+      sustain: shift(params.envelope.sustain, 0.5, 0, 1),
+      sustainTime: scale(params.envelope.sustainTime),
+      release: scale(params.envelope.release)
+    },
+    startPitch: shift(params.startPitch, 12, 0, 127)
+  };
+  if (params.endPitch !== undefined) mutated.endPitch = shift(params.endPitch, 12, 0, 127);
+  if (params.vibrato) mutated.vibrato = { depth: scale(params.vibrato.depth), rate: scale(params.vibrato.rate) };
+  if (params.arpeggio) mutated.arpeggio = { steps: [...params.arpeggio.steps], stepSeconds: scale(params.arpeggio.stepSeconds) };
+  if (params.duty !== undefined) mutated.duty = shift(params.duty, 0.5, 0, 1);
+  if (params.dutyEnd !== undefined) mutated.dutyEnd = shift(params.dutyEnd, 0.5, 0, 1);
+  if (params.noiseMix !== undefined) mutated.noiseMix = shift(params.noiseMix, 0.5, 0, 1);
+  if (params.repeat) mutated.repeat = { count: params.repeat.count, interval: scale(params.repeat.interval) };
+
+  // Keep the shot within the playable length
+  const shot = shotSeconds(mutated);
+  if (shot > MAX_SHOT_SECONDS) {
+    const factor = MAX_SHOT_SECONDS / shot;
+    for (const key of ["attack", "decay", "sustainTime", "release"] as const) {
+      mutated.envelope[key] = Math.floor(mutated.envelope[key] * factor * 1e4) / 1e4;
+    }
+  }
+  return mutated;
+}
+
+/** Channels a parameter set plays on */
+export function synthChannels(params: SESynthParams): Channel[] {
+  const main = synthMainChannel(params);
+  return main !== "noise" && (params.noiseMix ?? 0) > 0 ? [main, "noise"] : [main];
+}
+
+/**
+ * Renders synthesis parameters as events.
+ *
+ * @param params Complete, validated parameters
+ * @param startTime Time of the first event in seconds
+ * @param velocityScale Multiplies the velocity for context mixing
+ */
+export function renderSynthParams(params: SESynthParams, startTime: number, velocityScale = 1): Event[] {
+  const events: Event[] = [];
+  const shot = shotSeconds(params);
+  const repeat = params.repeat ?? { count: 0, interval: shot };
+  // A retrigger cuts the previous shot
+  const shotLength = repeat.count > 0 ? Math.min(shot, repeat.interval) : shot;
+  for (let index = 0; index <= repeat.count; index++) {
+    events.push(...renderShot(params, startTime + index * repeat.interval, shotLength, velocityScale));
+  }
+  return events;
+}
+
+function renderShot(params: SESynthParams, start: number, length: number, velocityScale: number): Event[] {
+  const events: Event[] = [];
+  const main = synthMainChannel(params);
+  const velocity = params.velocity ?? DEFAULT_VELOCITY;
+  const channelVelocity = (channel: Channel, scale = 1) =>
+    Math.round(Math.max(1, Math.min(127, velocity * scale * velocityScale * CHANNEL_VELOCITY_SCALE[channel])));
+  const frames = Math.max(1, Math.round(length * APU_FRAME_RATE));
+  const at = (frame: number) => start + frame / APU_FRAME_RATE;
+  const release = params.envelope.attack + params.envelope.decay + params.envelope.sustainTime;
+
+  const layers: Array<{ channel: Channel; velocity: number }> = [{ channel: main, velocity: channelVelocity(main) }];
+  if (main !== "noise" && (params.noiseMix ?? 0) > 0) {
+    layers.push({ channel: "noise", velocity: channelVelocity("noise", params.noiseMix) });
+  }
+
+  for (const layer of layers) {
+    const { channel } = layer;
+    const pitchAt = (frame: number) => synthPitchAt(params, frame / APU_FRAME_RATE, shotSeconds(params));
+    if (channel === "square1" || channel === "square2") {
+      events.push({ time: start, channel, command: "setParam", data: { param: "duty", value: snapDuty(params.duty ?? 0.5) } });
+    }
+    if (channel === "noise") {
+      events.push({
+        time: start,
+        channel,
+        command: "noteOn",
+        data: {
+          velocity: layer.velocity,
+          mode: params.noiseMode ?? "long",
+          periodIndex: midiToNoisePeriodIndex(pitchAt(0)),
+          decaySeconds: length,
+          releaseSeconds: 0.01
+        }
+      });
+    } else {
+      events.push({ time: start, channel, command: "noteOn", data: { midi: round4(pitchAt(0)), velocity: layer.velocity } });
+    }
+
+    let lastPitch = pitchAt(0);
+    let lastPeriod = midiToNoisePeriodIndex(lastPitch);
+    let lastLevel = -1;
+    let lastDuty = snapDuty(params.duty ?? 0.5);
+    for (let frame = 0; frame < frames; frame++) {
+      const time = at(frame);
+      const seconds = frame / APU_FRAME_RATE;
+      if (channel !== "triangle") {
+        const level = Math.round(envelopeLevel(params, seconds) * 15);
+        if (level !== lastLevel) {
+          events.push({ time, channel, command: "setParam", data: { param: "volume", value: round4(level / 15) } });
+          lastLevel = level;
+        }
+      }
+      if (frame === 0) continue;
+
+      const pitch = pitchAt(frame);
+      if (channel === "noise") {
+        const period = midiToNoisePeriodIndex(pitch);
+        if (period !== lastPeriod) {
+          events.push({ time, channel, command: "setParam", data: { param: "periodIndex", value: period } });
+          lastPeriod = period;
+        }
+      } else if (Math.abs(pitch - lastPitch) >= PITCH_EPSILON) {
+        events.push({ time, channel, command: "setParam", data: { param: "pitchBend", value: round4(pitch), rampDuration: 0 } });
+        lastPitch = pitch;
+      }
+      if ((channel === "square1" || channel === "square2") && params.dutyEnd !== undefined) {
+        const duty = snapDuty((params.duty ?? 0.5) + (params.dutyEnd - (params.duty ?? 0.5)) * (seconds / length));
+        if (duty !== lastDuty) {
+          events.push({ time, channel, command: "setParam", data: { param: "duty", value: duty } });
+          lastDuty = duty;
+        }
+      }
+    }
+
+    const end = channel === "triangle" ? start + Math.min(length, Math.max(release, 1 / APU_FRAME_RATE)) : start + length;
+    events.push({ time: end, channel, command: "noteOff", data: {} });
+  }
+  return events;
+}
+
+function synthMainChannel(params: SESynthParams): Channel {
+  return params.waveform === "square" ? "square1" : params.waveform;
+}
+
+function shotSeconds(params: SESynthParams): number {
+  const { attack, decay, sustainTime, release } = params.envelope;
+  return attack + decay + sustainTime + release;
+}
+
+/** Envelope level (0-1) at a time into the shot */
+function envelopeLevel(params: SESynthParams, seconds: number): number {
+  const { attack, decay, sustain, sustainTime, release } = params.envelope;
+  if (seconds < attack) return seconds / attack;
+  const afterAttack = seconds - attack;
+  if (afterAttack < decay) return 1 - (1 - sustain) * (afterAttack / decay);
+  const afterDecay = afterAttack - decay;
+  if (afterDecay < sustainTime) return sustain;
+  const afterSustain = afterDecay - sustainTime;
+  return afterSustain < release ? sustain * (1 - afterSustain / release) : 0;
+}
+
+/** Pitch (MIDI) at a time into the shot: slide + vibrato + arpeggio step */
+function synthPitchAt(params: SESynthParams, seconds: number, shot: number): number {
+  let pitch = params.startPitch;
+  if (params.endPitch !== undefined) {
+    const ratio = Math.min(1, seconds / shot);
+    const curved = params.slideCurve === "exponential" ? ratio * ratio * ratio : ratio;
+    pitch += (params.endPitch - params.startPitch) * curved;
+  }
+  if (params.vibrato) {
+    pitch += params.vibrato.depth * Math.sin(2 * Math.PI * params.vibrato.rate * seconds);
+  }
+  if (params.arpeggio) {
+    const { steps, stepSeconds } = params.arpeggio;
+    pitch += steps[Math.floor(seconds / stepSeconds + 1e-9) % steps.length];
+  }
+  return Math.max(0, Math.min(127, pitch));
+}
+
+function snapDuty(duty: number): number {
+  return APU_DUTY_CYCLES.reduce((best, candidate) =>
+    Math.abs(candidate - duty) < Math.abs(best - duty) ? candidate : best
+  );
+}
+
+/** Higher pitches pick shorter LFSR periods (index 0 is the brightest) */
+function midiToNoisePeriodIndex(midi: number): number {
+  return Math.max(0, Math.min(15, Math.round((108 - midi) / 5)));
+}
+
+function round4(value: number): number {
+  return Math.round(value * 1e4) / 1e4;
+}
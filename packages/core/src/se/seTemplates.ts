@@ -1,7 +1,33 @@
 import type { SETemplate } from "./seTypes.js";
+import { lintSETemplates } from "../motif-schema.js";
 import seTemplatesJson from "../../motifs/se-templates.json" with { type: "json" };
 
 export function loadSETemplates(): SETemplate[] {
   const json = seTemplatesJson as { templates: SETemplate[] };
   return json.templates;
 }
+
+/**
+ * Checks user templates against the SE template schema used by `npm run lint:motifs`.
+ * Custom type strings are allowed.
+ *
+ * @throws Error naming the template id and field of the first invalid entry
+ */
+export function validateSETemplates(templates: readonly SETemplate[]): void {
+  if (!Array.isArray(templates)) {
+    throw new Error("Custom SE templates must be an array");
+  }
+  const issue = lintSETemplates(templates, "templates", { customTypes: true }).find(
+    (candidate) => candidate.severity === "error"
+  );
+  if (!issue) {
+    return;
+  }
+  if (!issue.id) {
+    throw new Error(`Custom SE template at ${issue.path} is invalid: ${issue.message}`);
+  }
+  if (issue.rule === "duplicate-id") {
+    throw new Error(`Custom SE template "${issue.id}" is defined more than once`);
+  }
+  throw new Error(`Custom SE template "${issue.id}" is invalid: ${issue.path}: ${issue.message}`);
+}
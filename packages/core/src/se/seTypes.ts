@@ -14,10 +14,11 @@
  *
  * ## Type Hierarchy
  *
- * - **SEType**: High-level category (jump, coin, explosion, etc.)
+ * - **SEType**: High-level category (jump, coin, explosion, etc., or a registered custom type)
  * - **SETemplate**: Concrete template with parameter ranges
  * - **SEGenerationOptions**: User-facing API for SE generation
  * - **SEGenerationResult**: Output format compatible with BGM Event[]
+ * - **SESynthParams**: sfxr-style parameter space for procedural SEs (no template)
  *
  * ## Channel Parameter Architecture
  *
@@ -45,7 +46,13 @@ import type { Event, Channel } from "../types.js";
  * - Distinct synthesis characteristics (each requires different parameter profiles)
  * - Gameplay feedback roles (powerup = positive, hit = negative, etc.)
  */
-export type SEType = "jump" | "coin" | "explosion" | "hit" | "powerup" | "select" | "laser" | "click" | "synth" | "tone";
+export type BuiltInSEType = "jump" | "coin" | "explosion" | "hit" | "powerup" | "select" | "laser" | "click" | "synth" | "tone";
+
+/**
+ * SE type accepted by the generator: a built-in category, or a custom category
+ * (e.g. "dash", "door") backed by templates registered with `SEGenerator`.
+ */
+export type SEType = BuiltInSEType | (string & {});
 
 /**
  * Optional tags used to select a flavor within an SE type.
@@ -191,6 +198,58 @@ export interface SETemplate {
   };
 }
 
+/**
+ * SEGenerator construction options.
+ */
+export interface SEGeneratorOptions {
+  /**
+   * Templates added to the built-in library, validated like `registerTemplates()`.
+   * A template whose id matches a built-in one replaces it.
+   */
+  templates?: SETemplate[];
+}
+
+/**
+ * sfxr-style synthesis parameters.
+ *
+ * Instead of jittering a template, a procedural SE is rendered straight from these values
+ * by a 60 Hz frame driver (the NES sound-driver model): pitch, duty and volume are rewritten
+ * once per frame, so the result also exports to APU registers.
+ *
+ * Pitches are MIDI note numbers and may be fractional; times are in seconds.
+ */
+export interface SESynthParams {
+  /** square → square1, triangle → triangle, noise → noise channel */
+  waveform: "square" | "triangle" | "noise";
+  /**
+   * Volume envelope of one shot. Attack rises to full level, decay falls to the
+   * `sustain` level (0-1), which holds for `sustainTime` before the release fades out.
+   * The triangle has no volume control, so it plays at full level until the release starts.
+   */
+  envelope: { attack: number; decay: number; sustain: number; sustainTime: number; release: number };
+  startPitch: number;
+  /** Pitch reached at the end of the shot (default: no slide) */
+  endPitch?: number;
+  /** "exponential" eases into the slide like template sweeps (default: "linear" in semitones) */
+  slideCurve?: "linear" | "exponential";
+  /** Pitch wobble: depth in semitones, rate in Hz */
+  vibrato?: { depth: number; rate: number };
+  /** Semitone offsets cycled every `stepSeconds` on top of the pitch (e.g. [0, 4, 7]) */
+  arpeggio?: { steps: number[]; stepSeconds: number };
+  /** Square duty at the start; snapped to the APU duties 12.5/25/50/75% (default: 0.5) */
+  duty?: number;
+  /** Duty at the end of the shot, swept in APU duty steps */
+  dutyEnd?: number;
+  /** Noise layered under a square or triangle shot, 0-1 of its velocity */
+  noiseMix?: number;
+  /** LFSR mode of the noise channel (default: "long") */
+  noiseMode?: "short" | "long";
+  /** Retriggers the shot `count` more times, every `interval` seconds */
+  repeat?: { count: number; interval: number };
+  /** Note velocity 1-127 (default: 110) */
+  velocity?: number;
+}
+
 /**
  * SE generation options (user-facing API).
  *
@@ -208,6 +267,13 @@ export interface SEGenerationOptions {
   quantizeToChord?: string;      // Optional: Quantize pitched SE notes to nearest chord tones (e.g., "C", "Am")
   variantIntent?: SETemplateTag;  // Optional: Prefer templates with this flavor/use-case tag
   velocityScale?: number;        // Optional: Scale note velocities for context mixing (default: 1.0)
+  /**
+   * Optional: Synthesize from sfxr-style parameters instead of a template.
+   * Parameters left out are sampled for `type` from the seed (once `waveform` is given,
+   * left-out optional features stay off); `replayOptions.synth` always holds the complete
+   * set, so the exact sound can be stored and replayed.
+   */
+  synth?: Partial<SESynthParams>;
 }
 
 /**
@@ -222,7 +288,7 @@ export interface SEGenerationResult {
   /** SE metadata for debugging and replay */
   meta: {
     type: SEType;                // Original SE type
-    templateId: string;          // Selected template ID
+    templateId: string;          // Selected template ID ("procedural" for `synth` sounds)
     seed: number;                // Seed used (for reproducibility)
     duration: number;            // Actual SE duration in seconds
     channels: Channel[];         // Channels used
@@ -65,7 +65,9 @@
 
 import {
   DEFAULT_SECTION_REPEAT_BIAS,
+  type CompositionForm,
   type CompositionOptions,
+  type CustomHook,
   type PipelineCompositionOptions,
   type MoodSetting,
   type ResolvedStyleProfile,
@@ -73,6 +75,7 @@ import {
   type StyleProfile,
   type StylePreset,
   type StyleOverrides,
+  type TheoryAuditOptions,
   type TwoAxisStyle
 } from "../types.js";
 import {
@@ -82,6 +85,11 @@ import {
   inferTagsFromAxis,
   deriveModeFromAxis
 } from "./two-axis-mapper.js";
+import { resolveMotifLibrary, validateCustomHook } from "../motif-library.js";
+import { parseSectionStructure, validateChordProgressions } from "../phase/structure-planning.js";
+import { parseKey, resolveMeter } from "../musicUtils.js";
+import { assertBpm } from "../tempo-map.js";
+import { validateTheoryAuditOptions } from "../phase/theory-audit.js";
 /**
  * Resolution result containing pipeline format, resolved profile, and replay options.
  */
@@ -103,7 +111,8 @@ const INTENT_KEYS: IntentKey[] = [
   "filterMotion",
   "syncopationBias",
   "atmosPad",
-  "lofiFeel"
+  "lofiFeel",
+  "pivotModulation"
 ];
 
 const DEFAULT_INTENT: StyleIntent = {
@@ -116,9 +125,12 @@ const DEFAULT_INTENT: StyleIntent = {
   filterMotion: 0,
   syncopationBias: 0,
   atmosPad: 0,
-  lofiFeel: 0
+  lofiFeel: 0,
+  pivotModulation: 0
 };
 
+const COMPOSITION_FORMS: CompositionForm[] = ["loop", "oneShot"];
+
 const DEFAULT_PROFILE: StyleProfile = {
   tempo: "medium",
   intent: { ...DEFAULT_INTENT },
@@ -163,6 +175,26 @@ function ensureIntent(partial: Partial<StyleIntent>, rng: (() => number) | null,
   return intent;
 }
 
+/** Rules are kept by reference because their checks are functions */
+function copyTheoryAuditOptions(options: TheoryAuditOptions): TheoryAuditOptions {
+  const copy: TheoryAuditOptions = {};
+  if (options.rules?.length) {
+    copy.rules = [...options.rules];
+  }
+  if (options.severity) {
+    copy.severity = { ...options.severity };
+  }
+  return copy;
+}
+
+function copyCustomHook(hook: CustomHook): CustomHook {
+  return { degrees: [...hook.degrees], rhythm: hook.rhythm.map((step) => ({ ...step })) };
+}
+
+function copyChordProgressions(progressions: Record<string, string[]>): Record<string, string[]> {
+  return Object.fromEntries(Object.entries(progressions).map(([section, chords]) => [section, [...chords]]));
+}
+
 function mergeProfile(base: StyleProfile, patch: StyleOverrides): StyleProfile {
   const intent: StyleIntent = { ...base.intent };
   if (patch.intent) {
@@ -195,7 +227,18 @@ function mergeProfile(base: StyleProfile, patch: StyleOverrides): StyleProfile {
  *
  * ## Input Validation and Defaults
  *
- * - **lengthInMeasures**: Truncate to integer, default to 32 if invalid
+ * - **lengthInMeasures**: Truncate to integer, default to the `structure` length or 32 if invalid
+ * - **structure**: Parsed into sections; its length is checked during structure planning
+ * - **timeSignature**: Must be a supported meter, default "4/4"
+ * - **form**: Must be "loop" or "oneShot", default "loop"
+ * - **introOnce**: The form's first section must be an Intro; checked during structure planning
+ * - **theoryAudit**: Custom rules need unique ids and a check function; overrides must name known rules
+ * - **hook**: One degree per sounding rhythm step; the rhythm must fill 1-4 whole measures
+ * - **chordProgressions**: Non-empty chord lists of known symbols; names are matched to sections during structure planning
+ * - **bpm**: Must be a number from 30 to 300; omitted means the style's tempo bucket
+ * - **key**: Must be a tonic plus `_Major`/`_Minor` and agree with `mode` when both are given
+ * - **tempoChanges**: Positions and tempos are checked during structure planning
+ * - **modulations**: Sections and semitone offsets are checked during structure planning
  * - **seed**: Truncate to integer, generate random if unspecified
  * - **twoAxisStyle**: Clamp to [-1, 1] range, default to {0, 0} if omitted
  *
@@ -215,10 +258,33 @@ function mergeProfile(base: StyleProfile, patch: StyleOverrides): StyleProfile {
  * @returns Resolved context with pipeline format, profile, and replay options
  */
 export function resolveGenerationContext(options: CompositionOptions): ResolveResult {
+  const meter = resolveMeter(options.timeSignature);
+  if (options.form !== undefined && !COMPOSITION_FORMS.includes(options.form)) {
+    throw new Error(`Unsupported form ${JSON.stringify(options.form)}; expected "loop" or "oneShot"`);
+  }
+  const key = options.key !== undefined ? parseKey(options.key) : undefined;
+  if (key && options.mode && options.mode !== key.mode) {
+    throw new Error(`Key ${key.key} conflicts with mode "${options.mode}"`);
+  }
+  if (options.bpm !== undefined) {
+    assertBpm(options.bpm);
+  }
+  if (options.theoryAudit) {
+    validateTheoryAuditOptions(options.theoryAudit);
+  }
+  if (options.hook) {
+    validateCustomHook(options.hook, meter);
+  }
+  if (options.chordProgressions) {
+    validateChordProgressions(options.chordProgressions);
+  }
+  const structure = options.structure ? parseSectionStructure(options.structure) : undefined;
   const resolvedLength =
     typeof options.lengthInMeasures === "number" && options.lengthInMeasures > 0
       ? Math.trunc(options.lengthInMeasures)
-      : 32;
+      : structure
+        ? structure.reduce((sum, section) => sum + section.measures, 0)
+        : 32;
 
   const resolvedSeed =
     typeof options.seed === "number" && Number.isFinite(options.seed)
@@ -280,7 +346,9 @@ export function resolveGenerationContext(options: CompositionOptions): ResolveRe
     }
   }
 
-  const resolvedMode = options.mode ?? deriveModeFromAxis(axis);
+  // Caller-supplied chords decide the mode unless it is given explicitly
+  const resolvedMode =
+    key?.mode ?? options.mode ?? (options.chordProgressions ? undefined : deriveModeFromAxis(axis));
 
   const pipelineOptions: PipelineCompositionOptions = {
     mood,
@@ -294,6 +362,61 @@ export function resolveGenerationContext(options: CompositionOptions): ResolveRe
     sectionRepeatBias: options.sectionRepeatBias ?? DEFAULT_SECTION_REPEAT_BIAS
   };
 
+  if (structure) {
+    pipelineOptions.structure = structure;
+  }
+
+  if (options.timeSignature) {
+    pipelineOptions.timeSignature = meter.timeSignature;
+  }
+
+  if (options.form) {
+    pipelineOptions.form = options.form;
+  }
+
+  if (options.introOnce) {
+    pipelineOptions.introOnce = true;
+  }
+
+  if (options.theoryRepair) {
+    pipelineOptions.theoryRepair = true;
+  }
+
+  if (options.theoryAudit) {
+    pipelineOptions.theoryAudit = copyTheoryAuditOptions(options.theoryAudit);
+  }
+
+  if (options.hook) {
+    pipelineOptions.hook = copyCustomHook(options.hook);
+  }
+
+  if (options.chordProgressions) {
+    pipelineOptions.chordProgressions = copyChordProgressions(options.chordProgressions);
+  }
+
+  if (options.bpm !== undefined) {
+    pipelineOptions.bpm = options.bpm;
+  }
+
+  if (key) {
+    pipelineOptions.key = key.key;
+  }
+
+  if (options.tempoChanges?.length) {
+    pipelineOptions.tempoChanges = options.tempoChanges.map((change) => ({ ...change }));
+  }
+
+  if (options.modulations?.length) {
+    pipelineOptions.modulations = options.modulations.map((modulation) => ({ ...modulation }));
+  }
+
+  if (options.motifLibraries) {
+    pipelineOptions.motifLibrary = resolveMotifLibrary(
+      options.motifLibraries,
+      options.motifLibraryMode
+    );
+  }
+
   const resolvedProfile: ResolvedStyleProfile = {
     ...profile,
     tags: {
@@ -322,6 +445,59 @@ export function resolveGenerationContext(options: CompositionOptions): ResolveRe
     replayOptions.mode = options.mode;
   }
 
+  if (structure) {
+    replayOptions.structure = structure.map((section) => ({ ...section }));
+  }
+
+  if (options.timeSignature) {
+    replayOptions.timeSignature = meter.timeSignature;
+  }
+
+  if (options.form) {
+    replayOptions.form = options.form;
+  }
+
+  if (options.introOnce) {
+    replayOptions.introOnce = true;
+  }
+
+  if (options.theoryRepair) {
+    replayOptions.theoryRepair = true;
+  }
+
+  if (options.theoryAudit) {
+    replayOptions.theoryAudit = copyTheoryAuditOptions(options.theoryAudit);
+  }
+
+  if (options.hook) {
+    replayOptions.hook = copyCustomHook(options.hook);
+  }
+
+  if (options.chordProgressions) {
+    replayOptions.chordProgressions = copyChordProgressions(options.chordProgressions);
+  }
+
+  if (options.bpm !== undefined) {
+    replayOptions.bpm = options.bpm;
+  }
+
+  if (key) {
+    replayOptions.key = key.key;
+  }
+
+  if (options.tempoChanges?.length) {
+    replayOptions.tempoChanges = options.tempoChanges.map((change) => ({ ...change }));
+  }
+
+  if (options.modulations?.length) {
+    replayOptions.modulations = options.modulations.map((modulation) => ({ ...modulation }));
+  }
+
+  if (options.motifLibraries) {
+    replayOptions.motifLibraries = JSON.parse(JSON.stringify(options.motifLibraries));
+    replayOptions.motifLibraryMode = options.motifLibraryMode ?? "merge";
+  }
+
   return {
     pipeline: pipelineOptions,
     profile: resolvedProfile,
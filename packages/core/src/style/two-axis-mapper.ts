@@ -74,6 +74,12 @@ export function mapTwoAxisToStyleIntent(axis: TwoAxisStyle): StyleIntent {
      */
     filterMotion: Math.max(melodicStrength, energyStrength),
 
+    /**
+     * pivotModulation: Continuous strength based on melodic axis.
+     * High values prepare key changes with a shared chord instead of switching directly.
+     */
+    pivotModulation: melodicStrength,
+
     // ========================================
     // Calm side (negative calmEnergetic)
     // ========================================
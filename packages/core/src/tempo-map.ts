@@ -0,0 +1,189 @@
+import type { SectionDefinition, StructurePlanResult, TempoChange, TempoSegment } from "./types.js";
+
+/** Accepted range for explicit tempos (`bpm` and tempo changes) */
+export const MIN_BPM = 30;
+export const MAX_BPM = 300;
+
+/**
+ * Checks an explicit tempo.
+ *
+ * @throws Error when the value is not a number from {@link MIN_BPM} to {@link MAX_BPM}
+ */
+export function assertBpm(value: unknown, context?: string): asserts value is number {
+  if (!(typeof value === "number" && value >= MIN_BPM && value <= MAX_BPM)) {
+    const where = context ? ` for ${context}` : "";
+    throw new Error(`Invalid bpm ${String(value)}${where}; expected a number from ${MIN_BPM} to ${MAX_BPM}`);
+  }
+}
+
+/** Tempo map of a composition that never changes tempo */
+export function steadyTempoMap(bpm: number, totalBeats = 0): TempoSegment[] {
+  return [{ startBeat: 0, endBeat: totalBeats, startBpm: bpm, endBpm: bpm, startTime: 0 }];
+}
+
+/** Tempo map of a structure plan, including plans made before tempo maps existed */
+export function structureTempoMap(phase1: StructurePlanResult): TempoSegment[] {
+  return phase1.tempoMap ?? steadyTempoMap(phase1.bpm);
+}
+
+/**
+ * Resolves `tempoChanges` against the planned sections.
+ *
+ * Changes are ordered by position; each one jumps to its tempo or ramps there from the
+ * tempo in effect, and later changes may not start inside an earlier ramp.
+ *
+ * @param bpm Tempo at the first beat unless a change starts there
+ * @throws Error when a change is out of range, overlaps another, or names neither a measure nor a section
+ */
+export function buildTempoMap(
+  bpm: number,
+  changes: TempoChange[] | undefined,
+  sections: SectionDefinition[],
+  beatsPerMeasure: number
+): TempoSegment[] {
+  const totalMeasures = sections.reduce((sum, section) => sum + section.measures, 0);
+  const totalBeats = totalMeasures * beatsPerMeasure;
+  const resolved = (changes ?? [])
+    .map((change, index) => {
+      const hasMeasure = change?.measure !== undefined;
+      if (hasMeasure === (change?.section !== undefined)) {
+        throw new Error(`Tempo change ${index} needs exactly one of "measure" or "section"`);
+      }
+      assertBpm(change.bpm, `tempo change ${index}`);
+      let measure: number;
+      if (hasMeasure) {
+        measure = change.measure!;
+        if (!Number.isInteger(measure) || measure < 0 || measure >= totalMeasures) {
+          throw new Error(
+            `Tempo change ${index} starts at measure ${String(measure)}, outside the ${totalMeasures}-measure composition`
+          );
+        }
+      } else {
+        const section = sections[change.section!];
+        if (!Number.isInteger(change.section) || !section) {
+          throw new Error(
+            `Tempo change ${index} refers to section ${String(change.section)}; the form has ${sections.length} sections`
+          );
+        }
+        measure = section.startMeasure;
+      }
+      const rampMeasures = change.rampMeasures ?? 0;
+      if (!(rampMeasures >= 0) || measure + rampMeasures > totalMeasures) {
+        throw new Error(`Tempo change ${index} ramps over ${String(rampMeasures)} measures past the end of the composition`);
+      }
+      return {
+        index,
+        startBeat: measure * beatsPerMeasure,
+        endBeat: (measure + rampMeasures) * beatsPerMeasure,
+        bpm: change.bpm
+      };
+    })
+    .sort((a, b) => a.startBeat - b.startBeat || a.index - b.index);
+
+  const points: Array<{ beat: number; bpm: number }> = [{ beat: 0, bpm }];
+  let previous: (typeof resolved)[number] | undefined;
+  for (const change of resolved) {
+    if (previous && change.startBeat < Math.max(previous.endBeat, previous.startBeat + 1e-9)) {
+      throw new Error(`Tempo change ${change.index} starts before tempo change ${previous.index} has finished`);
+    }
+    const current = points.at(-1)!.bpm;
+    if (change.startBeat === 0 && change.endBeat === 0) {
+      points[0].bpm = change.bpm;
+    } else {
+      points.push({ beat: change.startBeat, bpm: current });
+      points.push({ beat: change.endBeat, bpm: change.bpm });
+    }
+    previous = change;
+  }
+  points.push({ beat: totalBeats, bpm: points.at(-1)!.bpm });
+
+  const segments: TempoSegment[] = [];
+  for (let i = 0; i + 1 < points.length; i++) {
+    const [from, to] = [points[i], points[i + 1]];
+    const last = segments.at(-1);
+    const startTime = last ? last.startTime + segmentSeconds(last, last.endBeat) : 0;
+    if (to.beat > from.beat) {
+      segments.push({ startBeat: from.beat, endBeat: to.beat, startBpm: from.bpm, endBpm: to.bpm, startTime });
+    }
+  }
+  if (!segments.length) {
+    return steadyTempoMap(points[0].bpm, totalBeats);
+  }
+  return mergeSteadySegments(segments);
+}
+
+/** Tempo in effect at a beat */
+export function tempoAtBeat(tempoMap: TempoSegment[], beat: number): number {
+  const segment = segmentAtBeat(tempoMap, beat);
+  if (beat >= segment.endBeat) return segment.endBpm;
+  return segment.startBpm + slope(segment) * (beat - segment.startBeat);
+}
+
+/** Seconds from the start of the composition at a beat */
+export function beatToSeconds(tempoMap: TempoSegment[], beat: number): number {
+  const segment = segmentAtBeat(tempoMap, beat);
+  if (beat > segment.endBeat && segment.startBpm !== segment.endBpm) {
+    return segment.startTime + segmentSeconds(segment, segment.endBeat) + (beat - segment.endBeat) * (60 / segment.endBpm);
+  }
+  return segment.startTime + segmentSeconds(segment, beat);
+}
+
+/** Beat position at seconds from the start of the composition */
+export function secondsToBeat(tempoMap: TempoSegment[], seconds: number): number {
+  let segment = tempoMap[0];
+  for (const candidate of tempoMap) {
+    if (candidate.startTime <= seconds) segment = candidate;
+  }
+  const elapsed = seconds - segment.startTime;
+  const k = slope(segment);
+  if (k === 0) {
+    return segment.startBeat + elapsed / (60 / segment.startBpm);
+  }
+  const rampSeconds = segmentSeconds(segment, segment.endBeat);
+  if (elapsed > rampSeconds) {
+    return segment.endBeat + (elapsed - rampSeconds) / (60 / segment.endBpm);
+  }
+  return segment.startBeat + (segment.startBpm * (Math.exp((k * elapsed) / 60) - 1)) / k;
+}
+
+function segmentAtBeat(tempoMap: TempoSegment[], beat: number): TempoSegment {
+  let segment = tempoMap[0];
+  for (const candidate of tempoMap) {
+    if (candidate.startBeat <= beat) segment = candidate;
+  }
+  return segment;
+}
+
+/** Tempo change per beat within a segment */
+function slope(segment: TempoSegment): number {
+  const length = segment.endBeat - segment.startBeat;
+  return length > 0 ? (segment.endBpm - segment.startBpm) / length : 0;
+}
+
+/** Seconds from the start of a segment to a beat, integrating 60 / tempo over beats */
+function segmentSeconds(segment: TempoSegment, beat: number): number {
+  const k = slope(segment);
+  const beats = beat - segment.startBeat;
+  if (k === 0) {
+    return beats * (60 / segment.startBpm);
+  }
+  return (60 / k) * Math.log((segment.startBpm + k * beats) / segment.startBpm);
+}
+
+function mergeSteadySegments(segments: TempoSegment[]): TempoSegment[] {
+  const merged: TempoSegment[] = [];
+  for (const segment of segments) {
+    const last = merged.at(-1);
+    if (
+      last &&
+      last.startBpm === last.endBpm &&
+      segment.startBpm === segment.endBpm &&
+      last.endBpm === segment.startBpm
+    ) {
+      last.endBeat = segment.endBeat;
+    } else {
+      merged.push({ ...segment });
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,183 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { eventsToApuLog, type ApuRegisterLog } from "../apu/register-log.js";
+import { encodeVgm, exportCompositionToVgm } from "../apu/vgm.js";
+import { encodeNsf, exportCompositionToNsf } from "../apu/nsf.js";
+import { runPipeline } from "../pipeline.js";
+import type { Event as PlaybackEvent } from "../types.js";
+
+const melody: PlaybackEvent[] = [
+  { time: 0, channel: "square1", command: "noteOn", data: { midi: 69, velocity: 127, duty: 0.25 } },
+  { time: 0, channel: "triangle", command: "noteOn", data: { midi: 45, velocity: 100 } },
+  { time: 0.25, channel: "noise", command: "noteOn", data: { mode: "long", periodIndex: 3, amplitude: 1, velocity: 127, decaySeconds: 0.05 } },
+  { time: 0.5, channel: "square1", command: "setParam", data: { param: "duty", value: 0.5 } },
+  { time: 0.5, channel: "square1", command: "noteOff", data: {} },
+  { time: 0.5, channel: "triangle", command: "noteOff", data: {} }
+];
+
+function writesAt(log: ApuRegisterLog, frame: number): Array<[number, number]> {
+  return log.writes.filter((write) => write.frame === frame).map((write) => [write.address, write.value]);
+}
+
+test("APU log translates notes into pulse, triangle and noise registers", () => {
+  const log = eventsToApuLog(melody, { durationSeconds: 1, loopStartSeconds: 0 });
+  assert.equal(log.frameCount, 60);
+  assert.equal(log.loopFrame, 0);
+
+  const start = writesAt(log, 0);
+  // A4 on pulse: timer = round(1789773 / (16 * 440)) - 1 = 253, duty 25%, volume 15
+  assert.deepEqual(start.filter(([address]) => address === 0x4000).at(-1), [0x4000, 0x40 | 0x30 | 15]);
+  assert.deepEqual(start.filter(([address]) => address === 0x4002), [[0x4002, 253]]);
+  assert.deepEqual(start.filter(([address]) => address === 0x4003), [[0x4003, 0x08]]);
+  // A2 on triangle: timer = round(1789773 / (32 * 110)) - 1 = 507
+  assert.deepEqual(start.filter(([address]) => address === 0x400a), [[0x400a, 507 & 0xff]]);
+  assert.deepEqual(start.filter(([address]) => address === 0x400b), [[0x400b, 0x08 | (507 >> 8)]]);
+  assert.deepEqual(start.filter(([address]) => address === 0x4008).at(-1), [0x4008, 0xff]);
+
+  const hit = writesAt(log, 15);
+  assert.deepEqual(hit.filter(([address]) => address === 0x400e), [[0x400e, 3]]);
+  assert.deepEqual(hit.filter(([address]) => address === 0x400c), [[0x400c, 0x30 | 15]]);
+  const decay = log.writes.filter((write) => write.address === 0x400c && write.frame > 15);
+  assert.ok(decay.length >= 2, "Noise decay should be written as per-frame volume updates");
+  assert.equal(decay.at(-1)!.value, 0x30);
+
+  const release = writesAt(log, 30);
+  assert.deepEqual(release.filter(([address]) => address === 0x4000), [[0x4000, 0x80 | 0x30 | 15], [0x4000, 0x80 | 0x30]]);
+  assert.deepEqual(release.filter(([address]) => address === 0x4008), [[0x4008, 0x80]]);
+});
+
+test("APU log approximates detune and slides only when asked", () => {
+  const events: PlaybackEvent[] = [
+    { time: 0, channel: "square2", command: "noteOn", data: { midi: 69, detuneCents: 12 } },
+    { time: 0, channel: "triangle", command: "noteOn", data: { midi: 45, slide: { targetMidi: 33, durationSeconds: 0.1 } } },
+    { time: 0.5, channel: "triangle", command: "noteOff", data: {} }
+  ];
+  assert.throws(() => eventsToApuLog(events), /2 event\(s\) are not representable/);
+  const log = eventsToApuLog(events, { durationSeconds: 1, approximatePitch: true });
+
+  // A4 + 12 cents: round(1789773 / (16 * 440 * 2^(12/1200))) - 1 = 251
+  assert.deepEqual(writesAt(log, 0).filter(([address]) => address === 0x4006), [[0x4006, 251]]);
+
+  // A2 → A1 over 6 frames, linear in frequency: 110 Hz down to 55 Hz
+  const triangleTimers = new Map<number, number>();
+  let timer = 0;
+  for (const write of log.writes) {
+    if (write.address === 0x400a) timer = (timer & 0x700) | write.value;
+    else if (write.address === 0x400b) timer = (timer & 0xff) | ((write.value & 0x07) << 8);
+    else continue;
+    triangleTimers.set(write.frame, timer);
+  }
+  const expected = [0, 1, 2, 3, 4, 5, 6].map(
+    (frame) => Math.round(1_789_773 / (32 * (110 - 55 * (frame / 6)))) - 1
+  );
+  assert.deepEqual([0, 1, 2, 3, 4, 5, 6].map((frame) => triangleTimers.get(frame)), expected);
+  assert.ok(log.writes.every((write) => write.frame <= 6 || (write.address !== 0x400a && write.address !== 0x400b)));
+});
+
+test("APU log approximates pitch-bend ramps like slides and range-checks glide targets", () => {
+  const log = eventsToApuLog([
+    { time: 0, channel: "square1", command: "noteOn", data: { midi: 69 } },
+    { time: 0.25, channel: "square1", command: "setParam", data: { param: "pitchBend", value: 81, rampDuration: 0.05, curve: "exponential" } }
+  ], { durationSeconds: 1, approximatePitch: true });
+
+  // A4 → A5 over 3 frames, easing in cubically like the offline renderer
+  const expected = [0, 1, 2, 3].map(
+    (step) => (Math.round(1_789_773 / (16 * (440 + 440 * (step / 3) ** 3))) - 1) & 0xff
+  );
+  const lows = [15, 16, 17, 18].map((frame) => writesAt(log, frame).find(([address]) => address === 0x4002)?.[1] ?? null);
+  assert.deepEqual(lows, [null, ...expected.slice(1)]);
+
+  assert.throws(
+    () =>
+      eventsToApuLog([
+        { time: 0, channel: "square1", command: "noteOn", data: { midi: 60, slide: { targetFrequency: 20_000, durationSeconds: 0.1 } } },
+        { time: 0, channel: "triangle", command: "noteOn", data: { midi: 40, slide: { targetFrequency: 20, durationSeconds: 0.1 } } }
+      ], { approximatePitch: true }),
+    (error: Error) =>
+      /slide target 20000\.0 Hz is outside the pulse timer range/.test(error.message) &&
+      /slide target 20\.0 Hz is outside the triangle timer range/.test(error.message)
+  );
+});
+
+test("APU log rejects events the registers cannot reproduce", () => {
+  const events: PlaybackEvent[] = [
+    { time: 0, channel: "square1", command: "noteOn", data: { midi: 60, detuneCents: 12 } },
+    { time: 0, channel: "triangle", command: "noteOn", data: { midi: 40, slide: { targetMidi: 28, durationSeconds: 0.1 } } },
+    { time: 0.5, channel: "square2", command: "setParam", data: { param: "pitchBend", value: 62, rampDuration: 0.1, curve: "linear" } },
+    { time: 0.5, channel: "square2", command: "setParam", data: { param: "duty", value: 0.6 } }
+  ];
+  assert.throws(
+    () => eventsToApuLog(events),
+    (error: Error) =>
+      /4 event\(s\) are not representable/.test(error.message) &&
+      /square1 noteOn at 0\.000s: detuneCents=12/.test(error.message) &&
+      /triangle noteOn at 0\.000s: slide/.test(error.message) &&
+      /pitchBend ramp \(linear curve/.test(error.message) &&
+      /duty 0\.6/.test(error.message)
+  );
+});
+
+test("VGM and NSF encoders serialize the register stream", () => {
+  const log = eventsToApuLog(melody, { durationSeconds: 1, loopStartSeconds: 0.5 });
+
+  const vgm = encodeVgm(log);
+  const vgmView = new DataView(vgm.buffer);
+  assert.equal(String.fromCharCode(...vgm.slice(0, 4)), "Vgm ");
+  assert.equal(vgmView.getUint32(0x04, true), vgm.length - 4);
+  assert.equal(vgmView.getUint32(0x18, true), 60 * 735);
+  assert.equal(vgmView.getUint32(0x20, true), 30 * 735);
+  assert.equal(vgmView.getUint32(0x84, true), 1_789_773);
+  const dataStart = 0x34 + vgmView.getUint32(0x34, true);
+  assert.deepEqual(Array.from(vgm.slice(dataStart, dataStart + 3)), [0xb4, 0x15, 0x0f]);
+  assert.equal(vgm.filter((byte, index) => index >= dataStart && byte === 0x62).length >= 60, true);
+  assert.equal(vgm[vgm.length - 1], 0x66);
+  const loopStart = 0x1c + vgmView.getUint32(0x1c, true);
+  assert.ok(loopStart > dataStart && loopStart < vgm.length);
+
+  const nsf = encodeNsf(log, { title: "Test Song" });
+  const nsfView = new DataView(nsf.buffer);
+  assert.equal(String.fromCharCode(...nsf.slice(0, 5)), "NESM\x1a");
+  assert.equal(nsfView.getUint16(0x08, true), 0x8000);
+  assert.equal(nsfView.getUint16(0x0c, true), 0x800e);
+  assert.equal(String.fromCharCode(...nsf.slice(0x0e, 0x0e + 9)), "Test Song");
+
+  // Walk the stream the way the 6502 player does
+  const image = nsf.slice(0x80);
+  const dataAddress = image[0x01]! | (image[0x05]! << 8);
+  const loopAddress = image[0x31]! | (image[0x35]! << 8);
+  let pointer = dataAddress - 0x8000;
+  let frames = 0;
+  let writes = 0;
+  while (image[pointer] !== 0xfe) {
+    if (image[pointer] === 0xff) {
+      frames += 1;
+      pointer += 1;
+    } else {
+      writes += 1;
+      pointer += 2;
+    }
+  }
+  assert.equal(frames, log.frameCount);
+  assert.equal(writes, log.writes.length);
+  assert.ok(loopAddress > dataAddress && loopAddress - 0x8000 < pointer);
+});
+
+test("Generated compositions export to VGM and NSF with approximated pitch", () => {
+  let slides = 0;
+  let detuned = 0;
+  for (const seed of [1, 2, 3, 4, 5, 6]) {
+    const result = runPipeline({ seed, lengthInMeasures: 16 });
+    const pitchData = result.events.map((event) => event.data as Record<string, unknown>);
+    slides += pitchData.filter((data) => data.slide).length;
+    detuned += pitchData.filter((data) => data.detuneCents).length;
+
+    if (pitchData.some((data) => data.slide || data.detuneCents)) {
+      assert.throws(() => exportCompositionToVgm(result), /not representable/);
+    }
+    const vgm = exportCompositionToVgm(result, { approximatePitch: true });
+    assert.equal(String.fromCharCode(...vgm.slice(0, 4)), "Vgm ");
+    const nsf = exportCompositionToNsf(result, { title: `Seed ${seed}`, approximatePitch: true });
+    assert.equal(String.fromCharCode(...nsf.slice(0, 5)), "NESM\x1a");
+  }
+  assert.ok(slides > 0 && detuned > 0, `${slides} slides, ${detuned} detuned notes`);
+});
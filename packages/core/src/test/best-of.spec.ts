@@ -0,0 +1,75 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { generateBest, runBestPipeline, runPipeline } from "../pipeline.js";
+import { scoreComposition } from "../composition-score.js";
+import type { PipelineResult } from "../types.js";
+
+const OPTIONS = { lengthInMeasures: 8, seed: 1234, twoAxisStyle: { percussiveMelodic: 0.3, calmEnergetic: 0.1 } };
+
+describe("Best-of-N generation", () => {
+  it("scores every candidate and returns the best one deterministically", async () => {
+    const best = await generateBest(OPTIONS, { candidates: 3 });
+    const bestOf = best.diagnostics.bestOf;
+    assert.ok(bestOf);
+    assert.equal(bestOf.candidates.length, 3);
+    assert.equal(bestOf.candidates[0].seed, 1234);
+    assert.equal(new Set(bestOf.candidates.map((candidate) => candidate.seed)).size, 3);
+
+    const top = Math.max(...bestOf.candidates.map((candidate) => candidate.score));
+    const winner = bestOf.candidates.find((candidate) => candidate.score === top);
+    assert.equal(bestOf.selectedSeed, winner?.seed);
+    assert.equal(best.meta.seed, bestOf.selectedSeed);
+    for (const candidate of bestOf.candidates) {
+      assert.equal(candidate.score, scoreComposition(runPipeline({ ...OPTIONS, seed: candidate.seed })));
+    }
+
+    // Replay options regenerate the winner directly
+    const replay = runPipeline(best.meta.replayOptions);
+    assert.deepEqual(replay.events, best.events);
+    assert.deepEqual(runBestPipeline(OPTIONS, { candidates: 3 }), best);
+  });
+
+  it("uses custom scorers and keeps the earlier candidate on ties", () => {
+    const bpmOf = (result: PipelineResult) => result.meta.bpm;
+    const fastest = runBestPipeline(OPTIONS, { candidates: 4, scorer: bpmOf });
+    const bpms = fastest.diagnostics.bestOf!.candidates.map((candidate) => candidate.score);
+    assert.equal(fastest.meta.bpm, Math.max(...bpms));
+
+    const flat = runBestPipeline(OPTIONS, { candidates: 4, scorer: () => 1 });
+    assert.equal(flat.meta.seed, OPTIONS.seed);
+    assert.deepEqual(flat.events, runPipeline(OPTIONS).events);
+  });
+
+  it("rewards clean, varied songs in the default score", () => {
+    const result = runPipeline(OPTIONS);
+    const baseline = scoreComposition(result);
+    const withError = structuredClone(result);
+    withError.diagnostics.theoryAudit.errors.push({
+      severity: "error",
+      rule: "house_rule",
+      cause: "custom_rule",
+      message: "Injected error",
+      beat: 0,
+      measureIndex: 0,
+      sectionId: "A",
+      channels: [],
+      roles: [],
+      midi: []
+    });
+    assert.equal(scoreComposition(withError), baseline - 10);
+
+    const monotone = structuredClone(result);
+    monotone.diagnostics.theoryAudit.notes = monotone.diagnostics.theoryAudit.notes.map((note) => ({ ...note, midi: 60 }));
+    assert.ok(scoreComposition(monotone) < baseline);
+  });
+
+  it("rejects invalid candidate counts and scores", () => {
+    assert.throws(() => runBestPipeline(OPTIONS, { candidates: 0 }), /Invalid candidates 0; expected a whole number of at least 1/);
+    assert.throws(() => runBestPipeline(OPTIONS, { candidates: 1.5 }), /Invalid candidates 1.5/);
+    assert.throws(
+      () => runBestPipeline(OPTIONS, { candidates: 2, scorer: () => Number.NaN }),
+      /Scorer returned NaN for seed 1234; expected a finite number/
+    );
+  });
+});
@@ -0,0 +1,108 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { runPipeline } from "../pipeline.js";
+import { getChordIntervals, isChordSymbol, quantizeMidiToChord } from "../musicUtils.js";
+import type { CompositionOptions, PipelineResult } from "../types.js";
+
+const BASE: CompositionOptions = {
+  seed: 2,
+  structure: "A4-B4-A4-B2",
+  chordProgressions: {
+    A: ["Am", "F", "C", "G"],
+    B: ["Dm", "E7"],
+    A2: ["Am", "Fmaj7", "Dsus4", "E7sus4"]
+  }
+};
+
+function chordsBySection(result: PipelineResult): Record<string, string[]> {
+  const chords: Record<string, string[]> = {};
+  for (const measure of result.diagnostics.motifSelection.motifSequence) {
+    chords[measure.sectionId] = [...(chords[measure.sectionId] ?? []), measure.chord];
+  }
+  return chords;
+}
+
+describe("Chord symbols", () => {
+  it("parses sevenths, suspensions and extensions", () => {
+    const expected: Array<[string, number[]]> = [
+      ["C", [0, 4, 7]],
+      ["Am", [0, 3, 7]],
+      ["E7", [0, 4, 7, 10]],
+      ["Fmaj7", [0, 4, 7, 11]],
+      ["CM7", [0, 4, 7, 11]],
+      ["Dm7", [0, 3, 7, 10]],
+      ["Bm7b5", [0, 3, 6, 10]],
+      ["Bdim7", [0, 3, 6, 9]],
+      ["CmMaj7", [0, 3, 7, 11]],
+      ["Gsus", [0, 5, 7]],
+      ["Dsus2", [0, 2, 7]],
+      ["E7sus4", [0, 5, 7, 10]],
+      ["Cadd9", [0, 4, 7, 14]],
+      ["Am6", [0, 3, 7, 9]],
+      ["G9", [0, 4, 7, 10, 14]],
+      ["G7b9", [0, 4, 7, 10, 13]],
+      ["Caug", [0, 4, 8]],
+      ["C5", [0, 7]]
+    ];
+    for (const [chord, intervals] of expected) {
+      assert.deepEqual(getChordIntervals(chord), intervals, chord);
+      assert.ok(isChordSymbol(chord), chord);
+    }
+    // Unknown suffixes keep the old triad fallback but are not accepted as input
+    assert.deepEqual(getChordIntervals("Cmystery"), [0, 3, 7]);
+    assert.equal(isChordSymbol("Cmystery"), false);
+    assert.equal(isChordSymbol("H7"), false);
+  });
+
+  it("quantizes to seventh and sus chord tones", () => {
+    // D is the seventh of E7, G the fourth of Dsus4 and B the seventh of Cmaj7
+    assert.equal(quantizeMidiToChord(62, "E7"), 62);
+    assert.equal(quantizeMidiToChord(66, "Dsus4"), 67);
+    assert.equal(quantizeMidiToChord(70, "Cmaj7"), 71);
+    assert.equal(quantizeMidiToChord(70, "C"), 72);
+  });
+});
+
+describe("Explicit chord progressions", () => {
+  it("uses the progressions per template and section id", () => {
+    const result = runPipeline(BASE);
+    assert.deepEqual(chordsBySection(result), {
+      A1: ["Am", "F", "C", "G"],
+      B1: ["Dm", "E7", "Dm", "E7"],
+      A2: ["Am", "Fmaj7", "Dsus4", "E7sus4"],
+      B2: ["Dm", "E7"]
+    });
+    assert.equal(result.meta.key, "A_Minor");
+    assert.equal(runPipeline({ ...BASE, key: "C_Major" }).meta.key, "C_Major");
+  });
+
+  it("classifies tones against the supplied chords", () => {
+    const { notes } = runPipeline(BASE).diagnostics.theoryAudit;
+    const tone = (chord: string, interval: number) =>
+      notes.filter((note) => note.chord === chord && note.chordInterval === interval);
+    // G# over E7 and the sevenths of E7 and Fmaj7 are chord tones, not tensions or out of key
+    for (const [chord, interval] of [["E7", 4], ["E7", 10], ["Fmaj7", 11]] as const) {
+      assert.ok(tone(chord, interval).length > 0, `${chord} +${interval}`);
+      assert.ok(tone(chord, interval).every((note) => note.toneClass === "chord_tone"), `${chord} +${interval}`);
+    }
+    // The suspended fourth replaces the third
+    assert.ok(tone("Dsus4", 5).every((note) => note.toneClass === "chord_tone"));
+    assert.ok(tone("Dsus4", 4).every((note) => note.toneClass !== "chord_tone"));
+  });
+
+  it("replays and validates the progressions", () => {
+    const result = runPipeline(BASE);
+    assert.deepEqual(result.meta.replayOptions.chordProgressions, BASE.chordProgressions);
+    assert.deepEqual(runPipeline(result.meta.replayOptions).events, result.events);
+
+    const invalid: Array<[Record<string, string[]>, RegExp]> = [
+      [{ A: [] }, /Chord progression for "A" must be a non-empty array of chord symbols/],
+      [{ A: ["Am", "Fmaj7", "Xm"] }, /Chord progression for "A" has unsupported chord "Xm" at \[2\]/],
+      [{ C: ["C"] }, /Chord progression for "C" matches no section; the form has A1, B1, A2, B2/]
+    ];
+    for (const [chordProgressions, message] of invalid) {
+      assert.throws(() => runPipeline({ ...BASE, chordProgressions }), message);
+    }
+  });
+});
@@ -0,0 +1,132 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { runPipeline } from "../pipeline.js";
+import { chordRootToMidi, getChordIntervals } from "../musicUtils.js";
+import type { CompositionOptions, CustomHook, PipelineResult } from "../types.js";
+
+// "Do-mi-sol-do', ti-sol-la-sol" over two measures of 4/4
+const HOOK: CustomHook = {
+  degrees: [1, 3, 5, 8, 7, 5, 6, 5],
+  rhythm: [
+    { value: 4 }, { value: 8 }, { value: 8 }, { value: 2 },
+    { value: 4 }, { value: 4 }, { value: 4 }, { value: 4 }
+  ]
+};
+
+const BASE: CompositionOptions = {
+  seed: 12,
+  structure: "A4-B4-A4-B4",
+  sectionRepeatBias: 1,
+  hook: HOOK
+};
+
+function hookNotes(result: PipelineResult, sectionId: string) {
+  return result.diagnostics.motifSelection.melodyPitch.filter(
+    (note) => note.sectionId === sectionId && note.motifId === "HOOK"
+  );
+}
+
+/** Hook notes that are tones of the chord under them in `result`, doubled on strong beats */
+function hookFit(result: PipelineResult, hookResult: PipelineResult): number {
+  const chords = new Map(
+    result.diagnostics.motifSelection.motifSequence.map((measure) => [measure.measureIndex, measure.chord])
+  );
+  return hookNotes(hookResult, "A1").reduce((score, note) => {
+    const chord = chords.get(note.measureIndex) ?? "";
+    const root = chordRootToMidi(chord, 0);
+    const chordTone = getChordIntervals(chord).some((interval) => (root + interval - note.correctedMidi) % 12 === 0);
+    return chordTone ? score + (note.strongBeat ? 2 : 1) : score;
+  }, 0);
+}
+
+describe("Custom hook", () => {
+  it("opens the first A section with the hook as written", () => {
+    const result = runPipeline(BASE);
+    const notes = hookNotes(result, "A1");
+    const plan = result.diagnostics.sectionMotifPlan.find((entry) => entry.sectionId === "A1");
+
+    assert.equal(plan?.primaryMelody, "HOOK");
+    assert.equal(plan?.primaryMelodyRhythm, "HOOK_RHYTHM");
+    assert.deepEqual(notes.map((note) => note.degree), HOOK.degrees);
+    assert.deepEqual(notes.map((note) => note.startBeat), [0, 1, 1.5, 2, 4, 5, 6, 7]);
+    // D major from the tonic: no note is snapped to the chord
+    assert.deepEqual(notes.map((note) => note.correctedMidi - notes[0].correctedMidi), [0, 4, 7, 12, 11, 7, 9, 7]);
+    assert.ok(notes.every((note) => !note.changed));
+    assert.ok(
+      result.diagnostics.motifSelection.cacheEvents.some(
+        (event) => event.sectionId === "A1" && event.category === "melody" && event.source === "custom_hook"
+      )
+    );
+  });
+
+  it("reprises the hook through the hook cache", () => {
+    const exact = runPipeline(BASE);
+    assert.equal(exact.diagnostics.motifSelection.hookReuse.exact, 1);
+    // Led in by the hook's last note as a pickup
+    assert.deepEqual(hookNotes(exact, "A2").map((note) => note.degree), [5, ...HOOK.degrees]);
+
+    const varied = runPipeline({ ...BASE, seed: 1, sectionRepeatBias: 0 });
+    const reprise = varied.diagnostics.sectionMotifPlan.find((entry) => entry.sectionId === "A2");
+    assert.equal(varied.diagnostics.motifSelection.hookReuse.varied, 1);
+    assert.equal(reprise?.hookReuse, "varied");
+    assert.equal(reprise?.hookOriginalMelody, "HOOK");
+    assert.equal(reprise?.primaryMelodyRhythm, "HOOK_RHYTHM");
+  });
+
+  it("prefers progressions that fit the hook", () => {
+    let improved = 0;
+    for (const seed of [1, 2, 3, 12]) {
+      const withHook = runPipeline({ ...BASE, seed });
+      const without = runPipeline({ ...BASE, seed, hook: undefined });
+      const fit = hookFit(withHook, withHook);
+      const baseline = hookFit(without, withHook);
+      assert.ok(fit >= baseline, `seed ${seed}: ${fit} < ${baseline}`);
+      if (fit > baseline) improved++;
+    }
+    assert.ok(improved > 0);
+  });
+
+  it("phrases the rest of a hook section normally after a long hook", () => {
+    const quarters = (count: number): CustomHook => ({
+      degrees: Array.from({ length: count }, (_, index) => [1, 3, 5, 3, 2, 1][index % 6]),
+      rhythm: Array.from({ length: count }, () => ({ value: 4 }))
+    });
+    const cases: Array<[CompositionOptions["timeSignature"], number]> = [
+      ["4/4", 3], ["4/4", 4], ["3/4", 3], ["3/4", 4]
+    ];
+    for (const [timeSignature, measures] of cases) {
+      const beatsPerMeasure = timeSignature === "3/4" ? 3 : 4;
+      const hook = quarters(measures * beatsPerMeasure);
+      for (const seed of [1, 2, 3]) {
+        const label = `${timeSignature}, ${measures}-measure hook, seed ${seed}`;
+        const result = runPipeline({ seed, lengthInMeasures: 16, timeSignature, hook });
+        // Skip a pickup note leading in from the previous section
+        const notes = hookNotes(result, "A1").slice(-hook.degrees.length);
+        const start = notes[0].startBeat;
+        assert.deepEqual(notes.map((note) => note.degree), hook.degrees, label);
+        assert.deepEqual(notes.map((note) => note.startBeat - start), hook.degrees.map((_, index) => index), label);
+      }
+    }
+  });
+
+  it("replays and validates the hook", () => {
+    const result = runPipeline(BASE);
+    assert.deepEqual(result.meta.replayOptions.hook, HOOK);
+    assert.notEqual(result.meta.replayOptions.hook, HOOK);
+    assert.deepEqual(runPipeline(result.meta.replayOptions).events, result.events);
+
+    const invalid: Array<[Partial<CompositionOptions>, RegExp]> = [
+      [{ hook: { degrees: [], rhythm: HOOK.rhythm } }, /Hook degrees must be a non-empty array/],
+      [{ hook: { degrees: [1.5], rhythm: [{ value: 1 }] } }, /Hook degree at \[0\] is 1.5; expected a whole number/],
+      [{ hook: { degrees: [1], rhythm: [{ value: 3 }] } }, /Hook rhythm step at \[0\] has value 3; expected 2, 4, 8 or 16/],
+      [{ hook: { degrees: [1, 2], rhythm: [{ value: 2 }, { value: 2, rest: true }] } }, /Hook has 2 degrees for 1 sounding rhythm steps/],
+      [{ hook: { degrees: [1, 2, 3], rhythm: [{ value: 2 }, { value: 2 }, { value: 2 }] } }, /Hook rhythm lasts 6 beats; expected 1 to 4 whole measures of 4\/4/],
+      [{ hook: HOOK, timeSignature: "3/4", structure: "A4" }, /Hook rhythm lasts 8 beats; expected 1 to 4 whole measures of 3\/4/],
+      [{ structure: "Intro2-B4" }, /The hook needs an "A" section to open; the form has none/]
+    ];
+    for (const [options, message] of invalid) {
+      assert.throws(() => runPipeline({ ...BASE, ...options }), message);
+    }
+  });
+});
@@ -0,0 +1,74 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { generateComposition } from "../pipeline.js";
+import { exportCompositionToMidi } from "../midi/smf-export.js";
+import type { CompositionOptions } from "../types.js";
+
+const BASE: CompositionOptions = {
+  seed: 6,
+  twoAxisStyle: { percussiveMelodic: 0.2, calmEnergetic: 0.3 },
+  structure: "Intro2-A4-B4-A4",
+  bpm: 120
+};
+
+/**
+ * Whether the SMF has a "loopStart" marker right after the given delta-time bytes.
+ * Every earlier conductor event is at tick 0, so the delta is the marker's tick.
+ */
+function hasLoopStartAt(bytes: Uint8Array, delta: number[]): boolean {
+  const marker = Buffer.from([...delta, 0xff, 0x06, 9, ...Buffer.from("loopStart", "latin1")]);
+  return Buffer.from(bytes).includes(marker);
+}
+
+describe("Intro played once", () => {
+  it("starts the loop after the intro", async () => {
+    const whole = await generateComposition(BASE);
+    const result = await generateComposition({ ...BASE, introOnce: true });
+    const { loopInfo } = result.meta;
+
+    assert.equal(whole.meta.loopInfo.loopStartBeat, 0);
+    assert.equal(loopInfo.loopStartBeat, 8);
+    assert.equal(loopInfo.loopStartTime, 4);
+    assert.equal(loopInfo.loopEndBeat, 56);
+    assert.deepEqual(result.events, whole.events);
+
+    assert.ok(hasLoopStartAt(exportCompositionToMidi(whole, { ppq: 96 }), [0x00]));
+    // 8 beats at 96 PPQ is tick 768, written as the variable-length quantity 86 00
+    assert.ok(hasLoopStartAt(exportCompositionToMidi(result, { ppq: 96 }), [0x86, 0x00]));
+
+    assert.equal(result.meta.replayOptions.introOnce, true);
+    const replay = await generateComposition(result.meta.replayOptions);
+    assert.deepEqual(replay.meta.loopInfo, loopInfo);
+  });
+
+  it("checks the loop seam at the loop start", async () => {
+    const result = await generateComposition({ ...BASE, introOnce: true });
+    const { loopStartTime } = result.meta.loopInfo;
+    const { loopIntegrity, loopWindow } = result.diagnostics;
+
+    for (const window of loopIntegrity.windows) {
+      const expected = result.events.filter(
+        (event) => event.time >= loopStartTime && event.time < loopStartTime + window.seconds
+      ).length;
+      assert.equal(window.headEvents, expected, `${window.seconds}s window`);
+    }
+    assert.ok(loopWindow.head.length > 0);
+    assert.ok(loopWindow.head.every((event) => event.time >= loopStartTime));
+  });
+
+  it("needs a looping form that starts with an intro", async () => {
+    await assert.rejects(
+      generateComposition({ ...BASE, structure: "A4-Intro2-B4", introOnce: true }),
+      /introOnce needs a form that starts with an Intro followed by more sections, got "A4-Intro2-B4"/
+    );
+    await assert.rejects(
+      generateComposition({ ...BASE, structure: "Intro4", introOnce: true }),
+      /got "Intro4"/
+    );
+    await assert.rejects(
+      generateComposition({ ...BASE, form: "oneShot", introOnce: true }),
+      /introOnce needs a looping form/
+    );
+  });
+});
@@ -0,0 +1,132 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { JingleGenerator } from "../jingle/jingleGenerator.js";
+import { generateComposition } from "../pipeline.js";
+import { chordRootToMidi, parseKey } from "../musicUtils.js";
+import type { JingleType } from "../jingle/jingleTypes.js";
+
+const TYPES: JingleType[] = ["fanfare", "defeat", "itemGet", "levelStart"];
+
+/** Semitones from the key's tonic to a chord's root */
+function rootDegree(chord: string, key: string): number {
+  return (chordRootToMidi(chord, 0) - parseKey(key).semitone + 12) % 12;
+}
+
+describe("Jingle generation", () => {
+  const generator = new JingleGenerator();
+
+  it("closes each type on its cadence", () => {
+    const expected: Record<JingleType, { approach: string; arrival: number }> = {
+      fanfare: { approach: "7:7", arrival: 0 },
+      itemGet: { approach: "7:7", arrival: 0 },
+      defeat: { approach: "5:m", arrival: 0 },
+      levelStart: { approach: "5:", arrival: 7 }
+    };
+    for (const type of TYPES) {
+      for (const seed of [1, 2, 3, 17]) {
+        const { events, meta } = generator.generateJingle({ type, seed });
+        const [approach, arrival] = meta.chords.slice(-2);
+        const suffix = approach.chord.replace(/^[A-G](#|b)?/, "");
+        assert.equal(`${rootDegree(approach.chord, meta.key)}:${suffix}`, expected[type].approach, `${type} ${seed}`);
+        assert.equal(rootDegree(arrival.chord, meta.key), expected[type].arrival, `${type} ${seed}`);
+
+        // Every pitched channel holds the arrival chord until the end
+        const arrivalTime = (arrival.startBeat * 60) / meta.bpm;
+        for (const channel of ["square1", "square2", "triangle"] as const) {
+          const last = events.filter((event) => event.channel === channel && event.command === "noteOn").at(-1)!;
+          assert.ok(Math.abs(last.time - arrivalTime) < 1e-9, `${type} ${seed} ${channel}`);
+          const pitchClass = ((last.data.midi as number) - chordRootToMidi(arrival.chord, 0) + 12) % 12;
+          if (channel === "square1" && type !== "levelStart") {
+            assert.equal(pitchClass, 0, `${type} ${seed} melody ends on the tonic`);
+          }
+        }
+      }
+    }
+  });
+
+  it("stays between 2 and 6 seconds at any tempo", () => {
+    for (const type of TYPES) {
+      for (const bpm of [30, 72, 120, 200, 300]) {
+        const { events, meta } = generator.generateJingle({ type, seed: 4, bpm, startTime: 1 });
+        assert.ok(meta.duration >= 2 && meta.duration <= 6, `${type} at ${bpm}: ${meta.duration}s`);
+        assert.ok(Math.abs(meta.duration - (meta.lengthBeats * 60) / bpm) < 1e-9);
+        assert.ok(Math.abs(events.at(-1)!.time - (1 + meta.duration)) < 1e-9);
+        assert.ok(events.every((event) => event.time >= 1));
+      }
+    }
+  });
+
+  it("follows the key and tempo of a composition and replays without it", async () => {
+    const composition = await generateComposition({
+      seed: 3,
+      key: "Bb_Major",
+      bpm: 132,
+      lengthInMeasures: 8,
+      twoAxisStyle: { percussiveMelodic: 0.2, calmEnergetic: 0.6 }
+    });
+    const fanfare = generator.generateJingle({ type: "fanfare", seed: 8, match: composition });
+    const defeat = generator.generateJingle({ type: "defeat", seed: 8, match: composition });
+
+    assert.equal(fanfare.meta.key, "Bb_Major");
+    assert.equal(defeat.meta.key, "Bb_Minor");
+    assert.equal(fanfare.meta.bpm, 132);
+    assert.deepEqual(fanfare.meta.chords.slice(-2).map(({ chord }) => chord), ["F7", "Bb"]);
+    assert.deepEqual(defeat.meta.chords.slice(-2).map(({ chord }) => chord), ["Ebm", "Bbm"]);
+
+    assert.deepEqual(fanfare.meta.replayOptions, { type: "fanfare", seed: 8, key: "Bb_Major", bpm: 132, startTime: 0 });
+    assert.deepEqual(generator.generateJingle(fanfare.meta.replayOptions), fanfare);
+    assert.deepEqual(generator.generateJingle({ type: "fanfare", seed: 8, key: "Bb_Major", bpm: 150 }).meta.chords, fanfare.meta.chords);
+  });
+
+  it("follows the tempo and key at the matched beat", async () => {
+    // Four 4-measure sections: up a whole step in B, back home in the second A, slower from measure 8
+    const composition = await generateComposition({
+      seed: 3,
+      key: "C_Major",
+      bpm: 150,
+      structure: "A4-B4-A4-B4",
+      modulations: [{ section: 1, semitones: 2 }, { section: 2, semitones: 0 }],
+      tempoChanges: [{ measure: 8, bpm: 100 }]
+    });
+    const at = (matchBeat: number) => generator.generateJingle({ type: "fanfare", seed: 8, match: composition, matchBeat });
+
+    assert.deepEqual([at(0).meta.key, at(0).meta.bpm], ["C_Major", 150]);
+    assert.deepEqual([at(20).meta.key, at(20).meta.bpm], ["D_Major", 150]);
+    assert.deepEqual([at(40).meta.key, at(40).meta.bpm], ["C_Major", 100]);
+    // The second pass of the loop starts over at 150 BPM in C
+    assert.deepEqual([at(64 + 20).meta.key, at(64 + 20).meta.bpm], ["D_Major", 150]);
+    assert.deepEqual(at(20).meta.replayOptions, { type: "fanfare", seed: 8, key: "D_Major", bpm: 150, startTime: 0 });
+    assert.throws(() => at(-1), /Invalid matchBeat -1 for jingle; expected a non-negative number/);
+  });
+
+  it("draws on the motif libraries", () => {
+    const { events, meta } = generator.generateJingle({ type: "fanfare", seed: 5, velocityScale: 0.5 });
+    assert.match(meta.melodyId, /^MF/);
+    assert.match(meta.rhythmId, /^MR/);
+    assert.match(meta.bassPatternId, /^BP_/);
+    assert.match(meta.fillId ?? "", /^TR_/);
+    assert.deepEqual(meta.channels, ["square1", "square2", "triangle", "noise"]);
+    assert.ok(events.some((event) => event.channel === "noise"));
+    assert.ok(
+      events.every((event) => event.command !== "noteOn" || (event.data.velocity as number) <= 64),
+      "velocityScale applies to every channel"
+    );
+
+    const itemGet = generator.generateJingle({ type: "itemGet", seed: 5 });
+    assert.equal(itemGet.meta.fillId, undefined);
+    assert.ok(itemGet.events.every((event) => event.channel !== "noise"));
+  });
+
+  it("rejects unknown types, keys and tempos", () => {
+    assert.throws(
+      () => generator.generateJingle({ type: "bonus" as JingleType }),
+      /Unknown jingle type "bonus"; expected one of fanfare, defeat, itemGet, levelStart/
+    );
+    assert.throws(() => generator.generateJingle({ type: "fanfare", key: "H_Major" }), /Unsupported key "H_Major"/);
+    assert.throws(
+      () => generator.generateJingle({ type: "fanfare", bpm: 0 }),
+      /Invalid bpm 0 for jingle; expected a number from 30 to 300/
+    );
+  });
+});
@@ -0,0 +1,94 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { generateComposition } from "../pipeline.js";
+import { chordRootToMidi, parseKey } from "../musicUtils.js";
+import type { MusicalKey } from "../types.js";
+import chordsJson from "../../motifs/chords.json" with { type: "json" };
+
+const STYLE = { percussiveMelodic: 0.2, calmEnergetic: 0.3 };
+
+function chordsOf(result: Awaited<ReturnType<typeof generateComposition>>): Set<string> {
+  return new Set(result.diagnostics.theoryAudit.notes.map((note) => note.chord));
+}
+
+describe("Explicit bpm and key", () => {
+  it("uses the exact bpm and key and replays them from meta", async () => {
+    const result = await generateComposition({ seed: 8, twoAxisStyle: STYLE, lengthInMeasures: 8, bpm: 128.5, key: "Bb_Major" });
+
+    assert.equal(result.meta.bpm, 128.5);
+    assert.equal(result.meta.key, "Bb_Major");
+    assert.equal(result.meta.replayOptions.bpm, 128.5);
+    assert.equal(result.meta.replayOptions.key, "Bb_Major");
+    assert.equal(result.meta.loopInfo.loopEndTime, (8 * 4 * 60) / 128.5);
+
+    const replay = await generateComposition(result.meta.replayOptions);
+    assert.deepEqual(replay.events, result.events);
+  });
+
+  it("transposes progressions of the same mode into keys without their own entry", async () => {
+    const cases: Array<[MusicalKey, string]> = [
+      ["Eb_Major", "Eb"],
+      ["F#_Minor", "F#m"],
+      ["G_Minor", "Gm"]
+    ];
+    for (const [key, tonicChord] of cases) {
+      const result = await generateComposition({ seed: 5, twoAxisStyle: STYLE, lengthInMeasures: 16, key });
+      const chords = chordsOf(result);
+      const { preferFlats } = parseKey(key);
+
+      assert.ok(chords.has(tonicChord), `${key} should use its tonic chord, got ${[...chords].join(" ")}`);
+      for (const chord of chords) {
+        assert.doesNotMatch(chord, preferFlats ? /^[A-G]#/ : /^[A-G]b/, `${chord} is misspelled for ${key}`);
+      }
+      assert.equal(result.diagnostics.theoryAudit.toneCounts.non_scale_tone, 0);
+      assert.equal(result.diagnostics.theoryAudit.errors.length, 0);
+    }
+  });
+
+  it("keeps the library's own progressions for keys that have them", async () => {
+    const result = await generateComposition({ seed: 2, twoAxisStyle: STYLE, lengthInMeasures: 16, key: "D_Minor" });
+    const library = new Set(Object.values(chordsJson.D_Minor).flat(2));
+    for (const chord of chordsOf(result)) {
+      assert.ok(library.has(chord), `${chord} is not a D_Minor library chord`);
+    }
+    assert.equal(result.meta.replayOptions.mode, undefined);
+  });
+
+  it("reads flat roots as flats", () => {
+    assert.equal(chordRootToMidi("Bb", 60), 70);
+    assert.equal(chordRootToMidi("Eb_Minor", 60), 63);
+    assert.equal(chordRootToMidi("F#m", 48), 54);
+  });
+
+  it("sounds flat-root chords of the library keys on their own roots", async () => {
+    const FLAT_ROOTS: Record<string, number> = { Eb: 3, Ab: 8, Bb: 10 };
+    // Before flat roots were parsed, "Bb" was looked up as "BB" and every flat-root chord
+    // was voiced as C: the bass under Bb, Eb and Ab played C-chord tones
+    for (const key of ["C_Minor", "D_Minor", "F_Major"] as const) {
+      const result = await generateComposition({ seed: 2, key, lengthInMeasures: 16, twoAxisStyle: STYLE });
+      const secondsPerMeasure = (result.meta.beatsPerMeasure * 60) / result.meta.bpm;
+      const flatMeasures = result.diagnostics.motifSelection.motifSequence.filter((measure) => /^[A-G]b/.test(measure.chord));
+      assert.ok(flatMeasures.length > 0, key);
+      for (const { chord, measureIndex } of flatMeasures) {
+        const downbeat = result.events.find(
+          (event) =>
+            event.channel === "triangle" &&
+            event.command === "noteOn" &&
+            Math.abs(event.time - measureIndex * secondsPerMeasure) < 1e-6 &&
+            !event.data.slide
+        );
+        if (!downbeat) continue;
+        const interval = ((downbeat.data.midi as number) - FLAT_ROOTS[chord.slice(0, 2)] + 120) % 12;
+        assert.ok([0, 3, 4, 7].includes(interval), `${key} measure ${measureIndex}: bass ${String(downbeat.data.midi)} under ${chord}`);
+      }
+    }
+  });
+
+  it("rejects unknown keys, conflicting modes and out-of-range bpm", async () => {
+    await assert.rejects(generateComposition({ seed: 1, key: "H_Major" as MusicalKey }), /Unsupported key "H_Major"/);
+    await assert.rejects(generateComposition({ seed: 1, key: "A_Minor", mode: "major" }), /Key A_Minor conflicts with mode "major"/);
+    await assert.rejects(generateComposition({ seed: 1, bpm: 0 }), /Invalid bpm 0; expected a number from 30 to 300/);
+    await assert.rejects(generateComposition({ seed: 1, bpm: Number.NaN }), /Invalid bpm NaN/);
+  });
+});
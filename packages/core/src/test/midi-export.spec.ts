@@ -0,0 +1,100 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { runPipeline } from "../pipeline.js";
+import { exportCompositionToMidi, GM_DRUM_NOTES, DUTY_CONTROLLER } from "../midi/smf-export.js";
+import type { PipelineResult } from "../types.js";
+
+/** Splits an SMF into its chunks without interpreting track events. */
+function readChunks(bytes: Uint8Array): Array<{ id: string; body: Uint8Array }> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: Array<{ id: string; body: Uint8Array }> = [];
+  let offset = 0;
+  while (offset < bytes.length) {
+    const id = String.fromCharCode(...bytes.slice(offset, offset + 4));
+    const length = view.getUint32(offset + 4);
+    chunks.push({ id, body: bytes.slice(offset + 8, offset + 8 + length) });
+    offset += 8 + length;
+  }
+  return chunks;
+}
+
+function includesSequence(haystack: Uint8Array, needle: number[]): boolean {
+  outer: for (let i = 0; i <= haystack.length - needle.length; i++) {
+    for (let j = 0; j < needle.length; j++) {
+      if (haystack[i + j] !== needle[j]) continue outer;
+    }
+    return true;
+  }
+  return false;
+}
+
+function ascii(text: string): number[] {
+  return Array.from(text, (char) => char.charCodeAt(0));
+}
+
+test("MIDI export writes a Type-1 file with conductor and one track per channel", () => {
+  const result = runPipeline({ lengthInMeasures: 8, seed: 12345 });
+  const smf = exportCompositionToMidi(result);
+  const chunks = readChunks(smf);
+
+  assert.equal(chunks[0].id, "MThd");
+  assert.deepEqual(Array.from(chunks[0].body), [0, 1, 0, 5, 0x01, 0xe0]);
+  assert.deepEqual(chunks.slice(1).map((chunk) => chunk.id), ["MTrk", "MTrk", "MTrk", "MTrk", "MTrk"]);
+
+  const conductor = chunks[1].body;
+  const micros = Math.round(60_000_000 / result.meta.bpm);
+  assert(includesSequence(conductor, [0xff, 0x51, 3, (micros >> 16) & 0xff, (micros >> 8) & 0xff, micros & 0xff]));
+  assert(includesSequence(conductor, [0xff, 0x58, 4, 4, 2]));
+  assert(includesSequence(conductor, [0xff, 0x06, 9, ...ascii("loopStart")]));
+  assert(includesSequence(conductor, [0xff, 0x06, 7, ...ascii("loopEnd")]));
+
+  const trackNames = ["square1", "square2", "triangle", "noise"];
+  trackNames.forEach((name, index) => {
+    assert(includesSequence(chunks[index + 2].body, [0xff, 0x03, name.length, ...ascii(name)]));
+  });
+
+  const noiseTrack = chunks[5].body;
+  assert(includesSequence(noiseTrack, [0x99, GM_DRUM_NOTES.K]), "Expected kick drum notes on GM channel 10");
+  assert(!includesSequence(noiseTrack, [0xe9]), "Noise track should not carry pitch bends");
+});
+
+test("MIDI export writes the composition's time signature", () => {
+  const result = runPipeline({ lengthInMeasures: 4, seed: 7, timeSignature: "6/8" });
+  const conductor = readChunks(exportCompositionToMidi(result))[1].body;
+  assert(includesSequence(conductor, [0xff, 0x58, 4, 6, 3]));
+});
+
+test("MIDI export encodes key signatures, detune, slides and duty changes", () => {
+  const base = runPipeline({ lengthInMeasures: 4, seed: 1 });
+  const result: PipelineResult = {
+    ...base,
+    meta: { ...base.meta, key: "E_Minor", bpm: 120 },
+    events: [
+      { time: 0, channel: "square1", command: "setParam", data: { param: "duty", value: 0.25 } },
+      { time: 0, channel: "square1", command: "noteOn", data: { midi: 72, velocity: 100, detuneCents: 50 } },
+      { time: 0.5, channel: "square1", command: "noteOff", data: {} },
+      { time: 0.5, channel: "square2", command: "noteOn", data: { midi: 60, velocity: 90, slide: { targetMidi: 64, durationSeconds: 0.1 } } },
+      { time: 1, channel: "square2", command: "noteOff", data: {} },
+      { time: 1, channel: "noise", command: "noteOn", data: { velocity: 80, mode: "short", periodIndex: 0 } },
+      { time: 1.1, channel: "noise", command: "noteOff", data: {} }
+    ]
+  };
+  const chunks = readChunks(exportCompositionToMidi(result, { pitchBendRange: 12 }));
+
+  // E minor = 1 sharp, minor flag
+  assert(includesSequence(chunks[1].body, [0xff, 0x59, 2, 1, 1]));
+
+  const square1 = chunks[2].body;
+  assert(includesSequence(square1, [0xb0, DUTY_CONTROLLER, Math.round(0.25 * 127)]));
+  // +50 cents with a 12-semitone range → 8192 + 8192 * 0.5 / 12
+  const detuneBend = Math.round(8192 + (8192 * 0.5) / 12);
+  assert(includesSequence(square1, [0xe0, detuneBend & 0x7f, detuneBend >> 7]));
+  assert(includesSequence(square1, [0x90, 72, 100]));
+
+  // Slide up 4 semitones ends at 8192 + 8192 * 4 / 12
+  const slideEnd = Math.round(8192 + (8192 * 4) / 12);
+  assert(includesSequence(chunks[3].body, [0xe1, slideEnd & 0x7f, slideEnd >> 7]));
+
+  // Noise without instrument code falls back to closed hi-hat
+  assert(includesSequence(chunks[5].body, [0x99, GM_DRUM_NOTES.H, 80]));
+});
@@ -0,0 +1,117 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { runPipeline } from "../pipeline.js";
+import { exportCompositionToMidi } from "../midi/smf-export.js";
+import { importMidiToEvents } from "../midi/smf-import.js";
+import {
+  SMF_PRIORITY,
+  buildSmf,
+  buildTrackChunk,
+  channelMessage,
+  tempoMetaEvent,
+  type SmfTrackEvent
+} from "../midi/smf.js";
+
+const PPQ = 480;
+
+function note(channel: number, midi: number, startBeat: number, lengthBeats: number, velocity = 100): SmfTrackEvent[] {
+  return [
+    { tick: startBeat * PPQ, priority: SMF_PRIORITY.NOTE_ON, bytes: channelMessage(0x90, channel, midi, velocity) },
+    { tick: (startBeat + lengthBeats) * PPQ, priority: SMF_PRIORITY.NOTE_OFF, bytes: channelMessage(0x80, channel, midi, 0) }
+  ];
+}
+
+test("MIDI import round-trips exported compositions onto the same chip channels", () => {
+  const result = runPipeline({ lengthInMeasures: 8, seed: 12345 });
+  const imported = importMidiToEvents(exportCompositionToMidi(result));
+
+  assert.equal(Math.round(imported.meta.bpm), Math.round(result.meta.bpm));
+  for (const channel of ["square1", "square2", "triangle", "noise"] as const) {
+    const original = result.events.filter((event) => event.channel === channel && event.command === "noteOn");
+    const roundTrip = imported.events.filter((event) => event.channel === channel && event.command === "noteOn");
+    assert.equal(roundTrip.length, original.length, `${channel} note count`);
+  }
+  const firstLead = imported.events.find((event) => event.channel === "square1" && event.command === "noteOn");
+  const originalLead = result.events.find((event) => event.channel === "square1" && event.command === "noteOn");
+  assert.equal(firstLead?.data.midi, originalLead?.data.midi);
+  assert.ok(Math.abs((firstLead?.time ?? 0) - (originalLead?.time ?? 0)) < 0.01);
+
+  const kick = imported.events.find((event) => event.channel === "noise" && event.data.instrument === "K");
+  assert.ok(kick, "Expected GM kicks to map back to K hits");
+  assert.equal(kick.data.mode, "long");
+});
+
+test("MIDI import resolves polyphony by voice stealing and reports dropped notes", () => {
+  const melody = buildTrackChunk([
+    ...note(0, 60, 0, 2),
+    ...note(0, 64, 0, 2),
+    ...note(0, 67, 1, 1)
+  ]);
+  const drums = buildTrackChunk([...note(9, 36, 0, 1), ...note(9, 81, 1, 1)]);
+  const conductor = buildTrackChunk([{ tick: 0, priority: SMF_PRIORITY.META, bytes: tempoMetaEvent(120) }]);
+  const imported = importMidiToEvents(buildSmf(1, PPQ, [conductor, melody, drums]));
+
+  const leadOn = imported.events.filter((event) => event.channel === "square1" && event.command === "noteOn");
+  assert.deepEqual(leadOn.map((event) => event.data.midi), [64, 67]);
+  assert.deepEqual(leadOn.map((event) => event.time), [0, 0.5]);
+
+  const reasons = imported.diagnostics.droppedNotes.map((entry) => `${entry.note}:${entry.reason}`);
+  assert.deepEqual(reasons.sort(), ["60:voice_stealing", "64:truncated", "81:no_drum_preset"]);
+  assert.ok(imported.diagnostics.voiceAllocation.some((entry) => entry.channel === "square1" && entry.activeCount === 3));
+
+  for (let i = 1; i < imported.events.length; i++) {
+    assert.ok(imported.events[i].time >= imported.events[i - 1].time, "Events should be sorted by time");
+  }
+});
+
+test("MIDI import applies channel rules and the tempo map", () => {
+  const conductor = buildTrackChunk([
+    { tick: 0, priority: SMF_PRIORITY.META, bytes: tempoMetaEvent(120) },
+    { tick: 2 * PPQ, priority: SMF_PRIORITY.META, bytes: tempoMetaEvent(60) }
+  ]);
+  const bass = buildTrackChunk([...note(3, 40, 0, 1), ...note(3, 43, 3, 1)]);
+  const pad = buildTrackChunk(note(4, 72, 0, 4));
+  const imported = importMidiToEvents(buildSmf(1, PPQ, [conductor, bass, pad]), {
+    channelRules: [
+      { track: 1, channel: "triangle" },
+      { midiChannel: 4, channel: null }
+    ],
+    transpose: 12
+  });
+
+  const bassOn = imported.events.filter((event) => event.command === "noteOn");
+  assert.deepEqual(bassOn.map((event) => [event.channel, event.data.midi, event.time]), [
+    ["triangle", 52, 0],
+    ["triangle", 55, 2]
+  ]);
+  assert.deepEqual(imported.diagnostics.droppedNotes.map((entry) => entry.reason), ["unmapped"]);
+  assert.equal(imported.meta.durationSeconds, 3);
+});
+
+test("MIDI import keeps zero-length hits playable", () => {
+  // Drum tracks commonly release a hit on the tick it starts
+  const hit = (startBeat: number, midi: number): SmfTrackEvent[] => [
+    { tick: startBeat * PPQ, priority: SMF_PRIORITY.NOTE_ON, bytes: channelMessage(0x90, 9, midi, 100) },
+    { tick: startBeat * PPQ, priority: SMF_PRIORITY.NOTE_ON, bytes: channelMessage(0x80, 9, midi, 0) }
+  ];
+  const drums = buildTrackChunk([...hit(0, 36), ...hit(1 / 48, 38), ...hit(1, 42), ...note(9, 36, 2, 1)]);
+  const conductor = buildTrackChunk([{ tick: 0, priority: SMF_PRIORITY.META, bytes: tempoMetaEvent(120) }]);
+  const imported = importMidiToEvents(buildSmf(1, PPQ, [conductor, drums]));
+
+  const noise = imported.events.filter((event) => event.channel === "noise");
+  // Times in ticks at 120 BPM; every hit lasts at least a 128th (15 ticks)
+  assert.deepEqual(
+    noise.map((event) => [event.command, Math.round(event.time * 960)]),
+    [
+      ["noteOn", 0],
+      ["noteOff", 10],
+      ["noteOn", 10],
+      ["noteOff", 25],
+      ["noteOn", 480],
+      ["noteOff", 495],
+      ["noteOn", 960],
+      ["noteOff", 1200]
+    ]
+  );
+  assert.deepEqual(imported.diagnostics.droppedNotes, []);
+});
@@ -0,0 +1,127 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { generateComposition } from "../pipeline.js";
+import { planStructure } from "../phase/structure-planning.js";
+import { resolveGenerationContext } from "../style/profile-resolver.js";
+import { chordRootToMidi, transposeKey } from "../musicUtils.js";
+import type { CompositionOptions, KeyModulation } from "../types.js";
+
+const BASE: CompositionOptions = {
+  seed: 9,
+  twoAxisStyle: { percussiveMelodic: 0.3, calmEnergetic: 0.2 },
+  key: "C_Major",
+  structure: "A4-B4-A4-A4"
+};
+
+/** B up a fourth, back home, then a semitone lift for the last A */
+const MODULATIONS: KeyModulation[] = [
+  { section: 1, semitones: 5 },
+  { section: 2, semitones: 0 },
+  { section: 3, semitones: 1 }
+];
+
+/** Key offset of each measure of BASE under MODULATIONS */
+const OFFSET_BY_MEASURE = [0, 0, 0, 0, 5, 5, 5, 5, 0, 0, 0, 0, 1, 1, 1, 1];
+
+function plan(options: CompositionOptions) {
+  return planStructure(resolveGenerationContext(options).pipeline);
+}
+
+function withPivot(pivotModulation: number, modulations?: KeyModulation[]): CompositionOptions {
+  return { ...BASE, overrides: { intent: { pivotModulation } }, ...(modulations ? { modulations } : {}) };
+}
+
+describe("Key modulation", () => {
+  it("gives each section its key and moves its chords there", () => {
+    const home = plan(withPivot(0));
+    const modulated = plan(withPivot(0, MODULATIONS));
+
+    assert.deepEqual(home.sections.map((section) => section.key), ["C_Major", "C_Major", "C_Major", "C_Major"]);
+    assert.deepEqual(modulated.sections.map((section) => section.key), ["C_Major", "F_Major", "C_Major", "Db_Major"]);
+    assert.deepEqual(modulated.sections.map((section) => section.keyOffset), [0, 5, 0, 1]);
+    assert.equal(modulated.key, "C_Major");
+
+    modulated.sections.forEach((section, index) => {
+      const original = home.sections[index].chordProgression;
+      assert.equal(section.chordProgression.length, original.length);
+      section.chordProgression.forEach((chord, position) => {
+        const moved = chordRootToMidi(chord, 0) - chordRootToMidi(original[position], 0);
+        assert.equal((moved + 12) % 12, section.keyOffset, `${original[position]} → ${chord} in ${section.id}`);
+      });
+    });
+    for (const chord of modulated.sections[3].chordProgression) {
+      assert.doesNotMatch(chord, /^[A-G]#/, `${chord} is misspelled for Db major`);
+    }
+  });
+
+  it("resolves melody degrees and the theory audit against the section key", async () => {
+    const home = await generateComposition(withPivot(0));
+    const modulated = await generateComposition(withPivot(0, MODULATIONS));
+    const homeMelody = home.diagnostics.motifSelection!.melodyPitch;
+    const modulatedMelody = modulated.diagnostics.motifSelection!.melodyPitch;
+
+    assert.equal(modulatedMelody.length, homeMelody.length);
+    modulatedMelody.forEach((pitch, index) => {
+      assert.equal(pitch.degree, homeMelody[index].degree);
+      assert.equal(pitch.scaleMidi - homeMelody[index].scaleMidi, OFFSET_BY_MEASURE[pitch.measureIndex]);
+    });
+
+    const audit = modulated.diagnostics.theoryAudit;
+    assert.equal(audit.toneCounts.non_scale_tone, 0);
+    assert.equal(audit.errors.length, 0);
+    assert.ok(audit.notes.some((note) => note.sectionId === "A3" && note.chord === "Db"));
+  });
+
+  it("prepares key changes with a pivot chord when style intent asks for it", () => {
+    const direct = plan(withPivot(0, MODULATIONS));
+    const pivot = plan(withPivot(1, MODULATIONS));
+    const lastChords = (sections: typeof pivot.sections) =>
+      sections.map((section) => section.chordProgression[(section.measures - 1) % section.chordProgression.length]);
+
+    // Dm is ii in C and vi in F; F is IV in C; C and Db share no triad, so Db's dominant leads in
+    assert.deepEqual(lastChords(pivot.sections).slice(0, 3), ["Dm", "F", "Ab7"]);
+    pivot.sections.forEach((section, index) => {
+      assert.deepEqual(
+        section.chordProgression.slice(0, section.measures - 1),
+        Array.from(
+          { length: section.measures - 1 },
+          (_, measure) => direct.sections[index].chordProgression[measure % direct.sections[index].chordProgression.length]
+        )
+      );
+    });
+    assert.deepEqual(lastChords(pivot.sections)[3], lastChords(direct.sections)[3]);
+  });
+
+  it("replays modulations and spells transposed keys conventionally", async () => {
+    const result = await generateComposition({ ...BASE, modulations: MODULATIONS });
+    assert.deepEqual(result.meta.replayOptions.modulations, MODULATIONS);
+    const replay = await generateComposition(result.meta.replayOptions);
+    assert.deepEqual(replay.events, result.events);
+
+    assert.equal(transposeKey("C_Major", 8), "Ab_Major");
+    assert.equal(transposeKey("E_Minor", -3), "C#_Minor");
+    assert.equal(transposeKey("F_Major", 1), "F#_Major");
+  });
+
+  it("rejects modulations that name a missing or repeated section or leave the octave", async () => {
+    await assert.rejects(
+      generateComposition({ ...BASE, modulations: [{ section: 4, semitones: 2 }] }),
+      /Modulation 0 refers to section 4; the form has 4 sections/
+    );
+    await assert.rejects(
+      generateComposition({ ...BASE, modulations: [{ section: 1, semitones: 12 }] }),
+      /Modulation 0 moves 12 semitones; expected a whole number from -11 to 11/
+    );
+    await assert.rejects(
+      generateComposition({
+        ...BASE,
+        modulations: [
+          { section: 2, semitones: 2 },
+          { section: 2, semitones: 3 }
+        ]
+      }),
+      /Modulation 1 repeats section 2/
+    );
+  });
+});
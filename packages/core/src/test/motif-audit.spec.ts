@@ -9,7 +9,7 @@ describe("Motif audit", () => {
 
     assert.deepStrictEqual(report.duplicateIds, []);
     assert.deepStrictEqual(report.rhythmLengthMismatches, []);
-    assert.strictEqual(report.rhythmVariationReferences, 72);
+    assert.strictEqual(report.rhythmVariationReferences, 87);
     assert.strictEqual(report.melodyVariationReferences, 2);
     assert.deepStrictEqual(report.variationIssues, []);
     assert.deepStrictEqual(report.melodyVariationCompatibilityIssues, []);
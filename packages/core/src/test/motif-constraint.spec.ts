@@ -3,11 +3,19 @@ import assert from "node:assert";
 import { readFileSync } from "node:fs";
 import { join } from "node:path";
 
+/** Measure length of motifs tagged for a non-4/4 meter; untagged motifs are 4/4 */
+const METER_TAG_BEATS: Record<string, number> = { meter_3_4: 3, meter_6_8: 3, meter_5_4: 5 };
+
+function taggedMeterBeats(motif: any): number | undefined {
+  const tag = (motif.tags ?? []).find((candidate: string) => candidate in METER_TAG_BEATS);
+  return tag ? METER_TAG_BEATS[tag] : undefined;
+}
+
 describe("Motif Constraint Validation", () => {
   const motifsPath = join(process.cwd(), "packages", "core", "motifs");
 
   describe("Rhythm motif constraints (4 or 8 beats)", () => {
-    it("should have all rhythm motifs with length 4 or 8 beats", () => {
+    it("should have all rhythm motifs with length 4 or 8 beats (one measure in other meters)", () => {
       const rhythmPath = join(motifsPath, "rhythm.json");
       const rhythmData = JSON.parse(readFileSync(rhythmPath, "utf-8"));
 
@@ -18,7 +26,8 @@ describe("Motif Constraint Validation", () => {
       const invalidMotifs: any[] = [];
 
       rhythmData.forEach((motif: any) => {
-        if (!validLengths.includes(motif.length)) {
+        const meterBeats = taggedMeterBeats(motif);
+        if (meterBeats ? motif.length !== meterBeats : !validLengths.includes(motif.length)) {
           invalidMotifs.push({
             id: motif.id,
             length: motif.length
@@ -189,7 +198,7 @@ describe("Motif Constraint Validation", () => {
   });
 
   describe("Drum pattern constraints (4 or 8 beats)", () => {
-    it("should have all drum patterns with length_beats 4 or 8", () => {
+    it("should have all drum patterns with length_beats 4 or 8 (one measure in other meters)", () => {
       const drumsPath = join(motifsPath, "drums.json");
       const drumsData = JSON.parse(readFileSync(drumsPath, "utf-8"));
 
@@ -200,7 +209,8 @@ describe("Motif Constraint Validation", () => {
       const invalidPatterns: any[] = [];
 
       drumsData.forEach((pattern: any) => {
-        if (!validLengths.includes(pattern.length_beats)) {
+        const meterBeats = taggedMeterBeats(pattern);
+        if (meterBeats ? pattern.length_beats !== meterBeats : !validLengths.includes(pattern.length_beats)) {
           invalidPatterns.push({
             id: pattern.id,
             length_beats: pattern.length_beats
@@ -269,7 +279,7 @@ describe("Motif Constraint Validation", () => {
   });
 
   describe("Bass pattern constraints (8 steps)", () => {
-    it("should have all bass patterns with exactly 8 steps", () => {
+    it("should have all bass patterns with exactly 8 steps (one measure in other meters)", () => {
       const bassPath = join(motifsPath, "bass-patterns.json");
       const bassData = JSON.parse(readFileSync(bassPath, "utf-8"));
 
@@ -281,7 +291,7 @@ describe("Motif Constraint Validation", () => {
 
       bassData.patterns.forEach((pattern: any) => {
         if (Array.isArray(pattern.steps)) {
-          if (pattern.steps.length !== 8) {
+          if (pattern.steps.length !== (taggedMeterBeats(pattern) ?? 4) * 2) {
             invalidPatterns.push({
               id: pattern.id,
               stepsLength: pattern.steps.length,
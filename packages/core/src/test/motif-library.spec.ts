@@ -0,0 +1,90 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import type { DrumPattern, MotifLibraries } from "../types.js";
+import { generateComposition } from "../pipeline.js";
+import { DEFAULT_MOTIF_LIBRARY, resolveMotifLibrary } from "../motif-library.js";
+
+const HOUSE_DRUMS: DrumPattern[] = [
+  { id: "HOUSE_BEAT", length_beats: 4, type: "beat", pattern: "K-H-K-H-K-H-K-H-", tags: ["loop_safe"] },
+  { id: "HOUSE_FILL", length_beats: 4, type: "fill", pattern: "K-H-K-H-SSSSSSSS", tags: ["fill"] }
+];
+
+describe("Custom motif libraries", () => {
+  it("merges custom motifs with the defaults, overriding matching ids", () => {
+    const library = resolveMotifLibrary({
+      rhythm: [{ id: "RM001", length: 4, pattern: [2, 2], tags: ["start"], variations: [] }],
+      drums: HOUSE_DRUMS,
+      chords: { C_Major: { house: [["C", "Am", "Dm", "G"]] } }
+    });
+
+    assert.equal(library.rhythm.length, DEFAULT_MOTIF_LIBRARY.rhythm.length);
+    assert.deepEqual(library.rhythmById.get("RM001")?.pattern, [2, 2]);
+    assert.equal(library.drums.length, DEFAULT_MOTIF_LIBRARY.drums.length + 2);
+    assert.ok(library.drumById.has("HOUSE_BEAT"));
+    assert.deepEqual(library.chords.C_Major.house, [["C", "Am", "Dm", "G"]]);
+    assert.deepEqual(library.chords.C_Major.simple, DEFAULT_MOTIF_LIBRARY.chords.C_Major.simple);
+    assert.equal(library.melody, DEFAULT_MOTIF_LIBRARY.melody);
+  });
+
+  it("generates only from replaced lists and replays from meta", async () => {
+    const options = {
+      seed: 11,
+      lengthInMeasures: 16,
+      twoAxisStyle: { percussiveMelodic: -0.3, calmEnergetic: 0.5 },
+      motifLibraries: { drums: HOUSE_DRUMS },
+      motifLibraryMode: "replace" as const
+    };
+    const result = await generateComposition(options);
+
+    const drumIds = Object.keys(result.diagnostics.motifUsage.drums);
+    assert.ok(drumIds.length > 0);
+    assert.ok(drumIds.every((id) => id === "HOUSE_BEAT" || id === "HOUSE_FILL"), drumIds.join(", "));
+    assert.deepEqual(result.meta.replayOptions.motifLibraries, { drums: HOUSE_DRUMS });
+    assert.equal(result.meta.replayOptions.motifLibraryMode, "replace");
+
+    const replay = await generateComposition(result.meta.replayOptions);
+    assert.deepEqual(replay.events, result.events);
+  });
+
+  it("adds chord progressions for keys the built-in library lacks", async () => {
+    const chords = { "F#_Major": { house: [["F#", "D#m", "B", "C#"]] } };
+    for (const mode of ["merge", "replace"] as const) {
+      const library = resolveMotifLibrary({ chords }, mode);
+      assert.deepEqual(library.chords["F#_Major"], chords["F#_Major"]);
+      assert.equal(library.chords.C_Major, DEFAULT_MOTIF_LIBRARY.chords.C_Major);
+    }
+
+    const result = await generateComposition({ seed: 4, key: "F#_Major", lengthInMeasures: 16, motifLibraries: { chords } });
+    const played = new Set(result.diagnostics.motifSelection.motifSequence.map((measure) => measure.chord));
+    assert.deepEqual([...played].sort(), ["B", "C#", "D#m", "F#"]);
+  });
+
+  it("rejects invalid motifs with an error naming the motif id", () => {
+    const cases: Array<[MotifLibraries, RegExp]> = [
+      [
+        { rhythm: [{ id: "HOUSE_RM", length: 4, pattern: [4, 4, 4], tags: [], variations: [] }] },
+        /Custom rhythm motif "HOUSE_RM" is invalid: .*length mismatch/
+      ],
+      [
+        { melodyRhythm: [{ id: "HOUSE_MR", length: 2, pattern: [{ value: 4 }], tags: [] }] },
+        /Custom melodyRhythm motif "HOUSE_MR" is invalid: .*length mismatch/
+      ],
+      [
+        { drums: [HOUSE_DRUMS[0], HOUSE_DRUMS[0]] },
+        /Custom drums motif "HOUSE_BEAT" is defined more than once/
+      ],
+      [
+        { chords: { H_Major: { house: [["H"]] } } },
+        /unknown key "H_Major"/
+      ]
+    ];
+    for (const [custom, pattern] of cases) {
+      assert.throws(() => resolveMotifLibrary(custom), pattern);
+    }
+    assert.throws(
+      () => resolveMotifLibrary({ transitions: [] }, "replace"),
+      /Custom transitions motifs cannot be empty in replace mode/
+    );
+  });
+});
@@ -0,0 +1,96 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { lintMotifFile, MOTIF_FILES, type MotifLintIssue } from "../motif-schema.js";
+import { resolveMotifLibrary } from "../motif-library.js";
+import rhythmJson from "../../motifs/rhythm.json" with { type: "json" };
+import melodyJson from "../../motifs/melody.json" with { type: "json" };
+import melodyRhythmJson from "../../motifs/melody-rhythm.json" with { type: "json" };
+import drumsJson from "../../motifs/drums.json" with { type: "json" };
+import bassJson from "../../motifs/bass-patterns.json" with { type: "json" };
+import transitionsJson from "../../motifs/transitions.json" with { type: "json" };
+import chordsJson from "../../motifs/chords.json" with { type: "json" };
+import techniquesJson from "../../motifs/techniques.json" with { type: "json" };
+import seTemplatesJson from "../../motifs/se-templates.json" with { type: "json" };
+
+const SHIPPED: Record<string, unknown> = {
+  "rhythm.json": rhythmJson,
+  "melody.json": melodyJson,
+  "melody-rhythm.json": melodyRhythmJson,
+  "drums.json": drumsJson,
+  "bass-patterns.json": bassJson,
+  "transitions.json": transitionsJson,
+  "chords.json": chordsJson,
+  "techniques.json": techniquesJson,
+  "se-templates.json": seTemplatesJson
+};
+
+function summarize(issues: MotifLintIssue[]): string[] {
+  return issues.map((issue) => `${issue.severity}:${issue.rule}:${issue.id ?? ""}:${issue.path}`);
+}
+
+describe("Motif schema", () => {
+  it("accepts every shipped motif file", () => {
+    assert.deepEqual(Object.keys(SHIPPED).sort(), Object.keys(MOTIF_FILES).sort());
+    for (const [file, data] of Object.entries(SHIPPED)) {
+      const errors = lintMotifFile(file, data).filter((issue) => issue.severity === "error");
+      assert.deepEqual(errors, [], file);
+    }
+  });
+
+  it("reports rhythm lengths, drum characters and bass steps", () => {
+    assert.deepEqual(
+      summarize(lintMotifFile("rhythm.json", [
+        { id: "RM_BAD", length: 4, pattern: [4, 4, 4], tags: ["start"], variations: [] },
+        { id: "RM_VALUE", length: 1, pattern: [3], tags: ["start"], variations: [] }
+      ])),
+      ["error:rhythm-length:RM_BAD:pattern", "error:note-value:RM_VALUE:pattern[0]"]
+    );
+    assert.deepEqual(
+      summarize(lintMotifFile("drums.json", [
+        { id: "DP_BAD", length_beats: 4, type: "beat", pattern: "K-X-S-H-K-H-S-H-" },
+        { id: "DP_SHORT", length_beats: 4, type: "beat", pattern: "K-H-S-H-" }
+      ])),
+      ["error:drum-char:DP_BAD:pattern[2]", "warning:drum-length:DP_SHORT:pattern"]
+    );
+    assert.deepEqual(
+      summarize(lintMotifFile("bass-patterns.json", {
+        patterns: [{ id: "BP_BAD", texture: "steady", steps: ["root", "third"] }]
+      })),
+      ["error:bass-step:BP_BAD:steps[1]"]
+    );
+  });
+
+  it("reports inverted SE ranges and unknown tags", () => {
+    const template = {
+      id: "SE_BAD",
+      type: "jump",
+      description: "Broken jump",
+      channels: ["square1"],
+      durationRange: [0.3, 0.1],
+      channelParams: { square1: { pitchStart: { min: 72, max: 60 }, velocityRange: [90, 100] } }
+    };
+    assert.deepEqual(
+      summarize(lintMotifFile("se-templates.json", { templates: [template] })),
+      ["error:se-range:SE_BAD:durationRange", "error:se-range:SE_BAD:channelParams.square1.pitchStart"]
+    );
+
+    const issues = lintMotifFile(
+      "melody.json",
+      [
+        { id: "MF_A", pattern: [0, 2], tags: ["start", "house"] },
+        { id: "MF_B", pattern: [4, 2], tags: ["house"] }
+      ],
+      { knownTags: new Set(["start"]) }
+    );
+    assert.deepEqual(summarize(issues), ["warning:unknown-tag:MF_A:tags"]);
+    assert.match(issues[0].message, /"house".*2 motifs: MF_A, MF_B/);
+  });
+
+  it("applies the schema to custom motif libraries", () => {
+    assert.throws(
+      () => resolveMotifLibrary({ bass: [{ id: "HOUSE_BASS", texture: "steady", steps: ["root", "ninth" as "root"] }] }),
+      /Custom bass motif "HOUSE_BASS" is invalid: steps\[1\]: unknown bass step "ninth"/
+    );
+  });
+});
@@ -0,0 +1,87 @@
+import assert from "node:assert/strict";
+import { createHash } from "node:crypto";
+import test from "node:test";
+import { runPipeline } from "../pipeline.js";
+import { SEGenerator } from "../se/seGenerator.js";
+import {
+  encodeWav,
+  renderCompositionToWav,
+  renderEventsToPcm
+} from "../playback/offline-renderer.js";
+import type { Event } from "../types.js";
+
+const SAMPLE_RATE = 22_050;
+
+function hash(bytes: Uint8Array): string {
+  return createHash("sha256").update(bytes).digest("hex");
+}
+
+test("offline renderer produces byte-identical WAV output for the same seed", () => {
+  const options = {
+    lengthInMeasures: 8,
+    seed: 4242,
+    twoAxisStyle: { percussiveMelodic: -0.3, calmEnergetic: 0.5 }
+  };
+  const first = renderCompositionToWav(runPipeline(options), { sampleRate: SAMPLE_RATE });
+  const second = renderCompositionToWav(runPipeline(options), { sampleRate: SAMPLE_RATE });
+  assert.equal(hash(first), hash(second));
+
+  const other = renderCompositionToWav(runPipeline({ ...options, seed: 4243 }), {
+    sampleRate: SAMPLE_RATE
+  });
+  assert.notEqual(hash(first), hash(other));
+});
+
+test("offline renderer writes a mono 16-bit WAV spanning the loop duration", () => {
+  const result = runPipeline({ lengthInMeasures: 4, seed: 7 });
+  const wav = renderCompositionToWav(result, { sampleRate: SAMPLE_RATE });
+  const view = new DataView(wav.buffer, wav.byteOffset, wav.byteLength);
+  const ascii = (offset: number) => String.fromCharCode(...wav.slice(offset, offset + 4));
+
+  assert.equal(ascii(0), "RIFF");
+  assert.equal(ascii(8), "WAVE");
+  assert.equal(ascii(36), "data");
+  assert.equal(view.getUint16(22, true), 1);
+  assert.equal(view.getUint32(24, true), SAMPLE_RATE);
+  assert.equal(view.getUint16(34, true), 16);
+  const frames = view.getUint32(40, true) / 2;
+  assert.equal(frames, Math.ceil(result.meta.loopInfo.totalDuration * SAMPLE_RATE));
+});
+
+test("offline renderer voices every channel and keeps output within range", () => {
+  const events: Event[] = [
+    { time: 0, channel: "square1", command: "setParam", data: { param: "duty", value: 0.25 } },
+    { time: 0, channel: "square1", command: "noteOn", data: { midi: 72, velocity: 100, slide: { targetMidi: 76, durationSeconds: 0.05 } } },
+    { time: 0.1, channel: "square1", command: "noteOff", data: {} },
+    { time: 0.1, channel: "square2", command: "noteOn", data: { midi: 67, velocity: 90 } },
+    { time: 0.1, channel: "square2", command: "setParam", data: { param: "sweep", period: 1, shift: 2, negate: true } },
+    { time: 0.2, channel: "square2", command: "noteOff", data: {} },
+    { time: 0.2, channel: "triangle", command: "noteOn", data: { midi: 48, velocity: 110 } },
+    { time: 0.3, channel: "triangle", command: "noteOff", data: {} },
+    { time: 0.3, channel: "noise", command: "noteOn", data: { velocity: 110, periodIndex: 4, mode: "long" } },
+    { time: 0.4, channel: "noise", command: "noteOff", data: { releaseSeconds: 0.02 } }
+  ];
+  const pcm = renderEventsToPcm(events, { sampleRate: SAMPLE_RATE, tailSeconds: 0.1 });
+  assert.equal(pcm.length, Math.ceil(0.5 * SAMPLE_RATE));
+
+  const windowPeak = (start: number, end: number) => {
+    let peak = 0;
+    for (let i = Math.floor(start * SAMPLE_RATE); i < Math.floor(end * SAMPLE_RATE); i++) {
+      peak = Math.max(peak, Math.abs(pcm[i]!));
+    }
+    return peak;
+  };
+  for (const [start, end] of [[0.01, 0.09], [0.11, 0.19], [0.21, 0.29], [0.31, 0.39]]) {
+    assert(windowPeak(start, end) > 0.01, `Expected audible output between ${start}s and ${end}s`);
+  }
+  assert(pcm.every((sample) => Math.abs(sample) <= 1.5));
+});
+
+test("offline renderer handles sound effects and empty input", () => {
+  const se = new SEGenerator().generateSE({ type: "coin", seed: 11 });
+  const pcm = renderEventsToPcm(se.events, { sampleRate: SAMPLE_RATE });
+  assert(pcm.some((sample) => Math.abs(sample) > 0.01));
+
+  const empty = encodeWav(renderEventsToPcm([], { sampleRate: SAMPLE_RATE, tailSeconds: 0 }), SAMPLE_RATE);
+  assert.equal(empty.byteLength, 44);
+});
@@ -0,0 +1,106 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { generateComposition } from "../pipeline.js";
+import { exportCompositionToVgm } from "../apu/vgm.js";
+import { exportCompositionToMidi } from "../midi/smf-export.js";
+import { DEFAULT_MOTIF_LIBRARY } from "../motif-library.js";
+import type { CompositionForm, CompositionOptions } from "../types.js";
+
+const STYLE = { percussiveMelodic: 0.3, calmEnergetic: 0.4 };
+
+function options(seed: number, form?: CompositionForm): CompositionOptions {
+  return { seed, twoAxisStyle: STYLE, lengthInMeasures: 16, ...(form ? { form } : {}) };
+}
+
+function containsText(bytes: Uint8Array, text: string): boolean {
+  return Buffer.from(bytes).includes(Buffer.from(text, "latin1"));
+}
+
+describe("One-shot form", () => {
+  it("ends on a dominant-to-tonic cadence", async () => {
+    for (const [seed, dominant, tonic] of [
+      [1, "C7", "F"],
+      [4, "D7", "G"],
+      [9, "G7", "C"]
+    ] as const) {
+      const result = await generateComposition(options(seed, "oneShot"));
+      const chordsByMeasure = new Map(result.diagnostics.theoryAudit.notes.map((note) => [note.measureIndex, note.chord]));
+
+      assert.equal(result.meta.form, "oneShot");
+      assert.equal(chordsByMeasure.get(14), dominant, `seed ${seed}`);
+      assert.equal(chordsByMeasure.get(15), tonic, `seed ${seed}`);
+    }
+  });
+
+  it("holds the final chord through a ring-out measure after the form", async () => {
+    const looped = await generateComposition(options(4));
+    const result = await generateComposition(options(4, "oneShot"));
+    const { loopInfo } = result.meta;
+    const secondsPerBeat = 60 / result.meta.bpm;
+
+    assert.equal(looped.meta.form, "loop");
+    assert.equal(looped.meta.loopInfo.totalBeats, 64);
+    assert.equal(loopInfo.totalBeats, 68);
+    assert.equal(loopInfo.loopEndBeat, 68);
+    assert.equal(loopInfo.totalDuration, 68 * secondsPerBeat);
+
+    const ringOut = result.events.filter((event) => event.time >= 64 * secondsPerBeat - 1e-9 && event.command === "noteOn");
+    assert.ok(ringOut.length > 0);
+    assert.equal(new Set(ringOut.map((event) => event.channel)).size, ringOut.length);
+    for (const event of ringOut) {
+      assert.notEqual(event.channel, "noise");
+      assert.equal((event.data.midi as number) % 12, 7, "G major ends on G");
+    }
+    assert.deepEqual(result.diagnostics.loopIntegrity.openNotes, []);
+    assert.equal(result.diagnostics.theoryAudit.errors.length, 0);
+    const ringOutNotes = result.diagnostics.theoryAudit.notes.filter((note) => note.startBeat >= 64);
+    assert.ok(ringOutNotes.length > 0);
+    for (const note of ringOutNotes) {
+      assert.equal(note.chord, "G");
+      assert.equal(note.sectionId, "A2");
+    }
+  });
+
+  it("prefers cadence or end melody fragments in the closing phrase", async () => {
+    for (const seed of [1, 4, 9]) {
+      const result = await generateComposition(options(seed, "oneShot"));
+      const closing = result.diagnostics.motifSelection!.motifSequence.filter((entry) => entry.measureIndex >= 14);
+      assert.ok(closing.length > 0);
+      for (const entry of closing) {
+        const tags = DEFAULT_MOTIF_LIBRARY.melodyById.get(entry.melody!)?.tags ?? [];
+        assert.ok(tags.includes("cadence") || tags.includes("end"), `seed ${seed} measure ${entry.measureIndex}: ${entry.melody}`);
+      }
+    }
+  });
+
+  it("exports without loop points and replays from meta", async () => {
+    const result = await generateComposition(options(9, "oneShot"));
+    assert.equal(result.meta.replayOptions.form, "oneShot");
+    const replay = await generateComposition(result.meta.replayOptions);
+    assert.deepEqual(replay.events, result.events);
+
+    // Only the plain ring-out notes, since detune and slides do not map onto APU registers
+    const ringOutOnly = (source: typeof result) => ({
+      ...source,
+      events: source.events.filter((event) => event.time >= (64 * 60) / source.meta.bpm - 1e-9)
+    });
+    const vgmLoopOffset = (source: typeof result) =>
+      new DataView(exportCompositionToVgm(ringOutOnly(source)).buffer).getUint32(0x1c, true);
+
+    assert.equal(vgmLoopOffset(result), 0);
+    assert.equal(containsText(exportCompositionToMidi(result), "loopStart"), false);
+
+    const looped = await generateComposition(options(9));
+    assert.equal(looped.meta.replayOptions.form, undefined);
+    assert.notEqual(vgmLoopOffset(looped), 0);
+    assert.equal(containsText(exportCompositionToMidi(looped), "loopStart"), true);
+  });
+
+  it("rejects unknown forms", async () => {
+    await assert.rejects(
+      generateComposition({ seed: 1, form: "fade" as CompositionForm }),
+      /Unsupported form "fade"; expected "loop" or "oneShot"/
+    );
+  });
+});
@@ -0,0 +1,56 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import type { Channel, PipelineResult } from "../types.js";
+import { generateComposition, remixComposition } from "../pipeline.js";
+
+function noteOns(result: PipelineResult, channel: Channel): string[] {
+  return result.events
+    .filter((event) => event.channel === channel && event.command === "noteOn")
+    .map((event) => `${event.time.toFixed(4)}:${event.data.midi ?? event.data.instrument}`);
+}
+
+function melodyChannel(result: PipelineResult): Channel {
+  const voice = result.meta.voiceArrangement.voices.find((candidate) => candidate.role === "melody");
+  assert.ok(voice, "Expected a melody voice");
+  return voice.channel;
+}
+
+describe("remixComposition", () => {
+  it("keeps the beat grid, harmony and hooks while re-deriving the arrangement", async () => {
+    const source = await generateComposition({
+      seed: 2024,
+      lengthInMeasures: 16,
+      twoAxisStyle: { percussiveMelodic: 0.4, calmEnergetic: -0.6 }
+    });
+    const style = { percussiveMelodic: -0.8, calmEnergetic: 0.9 };
+    const remix = await remixComposition(source.meta.replayOptions, style);
+
+    assert.equal(remix.meta.bpm, source.meta.bpm);
+    assert.equal(remix.meta.key, source.meta.key);
+    assert.equal(remix.meta.sectionPattern, source.meta.sectionPattern);
+    assert.deepEqual(remix.meta.loopInfo, source.meta.loopInfo);
+    assert.deepEqual(remix.diagnostics.sectionMotifPlan, source.diagnostics.sectionMotifPlan);
+    assert.deepEqual(noteOns(remix, melodyChannel(remix)), noteOns(source, melodyChannel(source)));
+
+    assert.notDeepEqual(remix.meta.styleIntent, source.meta.styleIntent);
+    assert.notDeepEqual(noteOns(remix, "noise"), noteOns(source, "noise"));
+
+    assert.deepEqual(remix.meta.replayOptions.twoAxisStyle, style);
+    assert.deepEqual(remix.meta.remixSource, source.meta.replayOptions);
+    assert.equal(source.meta.remixSource, undefined);
+  });
+
+  it("is deterministic and requires a seeded source", async () => {
+    const source = { seed: 7, lengthInMeasures: 8, twoAxisStyle: { percussiveMelodic: 0, calmEnergetic: 0 } };
+    const style = { percussiveMelodic: 0.5, calmEnergetic: 0.5 };
+    const first = await remixComposition(source, style);
+    const second = await remixComposition(source, style);
+    assert.deepEqual(first.events, second.events);
+
+    await assert.rejects(
+      () => remixComposition({ lengthInMeasures: 8 }, style),
+      /Remix source requires a seed/
+    );
+  });
+});
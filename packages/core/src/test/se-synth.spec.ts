@@ -0,0 +1,142 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { SEGenerator } from "../se/seGenerator.js";
+import { eventsToApuLog } from "../apu/register-log.js";
+import { renderEventsToPcm } from "../playback/offline-renderer.js";
+import type { SESynthParams, SEType } from "../se/seTypes.js";
+
+const SE_TYPES: SEType[] = ["jump", "coin", "explosion", "hit", "powerup", "select", "laser", "click", "synth", "tone"];
+
+function peak(samples: Float32Array, from: number, to: number): number {
+  let max = 0;
+  for (let index = from; index < to; index++) {
+    max = Math.max(max, Math.abs(samples[index]));
+  }
+  return max;
+}
+
+describe("Procedural SE synthesis", () => {
+  const generator = new SEGenerator();
+
+  it("samples every type and replays from the stored parameters", () => {
+    for (const type of SE_TYPES) {
+      const result = generator.generateSE({ type, seed: 11, synth: {}, startTime: 0.5 });
+      assert.equal(result.meta.templateId, "procedural");
+      assert.ok(result.events.length > 0, type);
+      assert.ok(result.events.every((event) => event.time >= 0.5), type);
+      assert.ok(result.meta.duration > 0 && result.meta.duration <= 4, `${type}: ${result.meta.duration}s`);
+
+      const synth = result.meta.replayOptions.synth as SESynthParams;
+      assert.ok(synth.envelope && typeof synth.startPitch === "number", type);
+      assert.deepEqual(generator.generateSE(result.meta.replayOptions), result, type);
+      // Complete parameters need no seed to reproduce the sound
+      assert.deepEqual(generator.generateSE({ type, seed: 99, synth, startTime: 0.5 }).events, result.events, type);
+    }
+  });
+
+  it("keeps given parameters and samples the rest", () => {
+    const result = generator.generateSE({
+      type: "jump",
+      seed: 4,
+      synth: { startPitch: 60, endPitch: 72, vibrato: { depth: 0.5, rate: 10 } }
+    });
+    const synth = result.meta.replayOptions.synth as SESynthParams;
+    assert.equal(synth.startPitch, 60);
+    assert.equal(synth.endPitch, 72);
+    assert.deepEqual(synth.vibrato, { depth: 0.5, rate: 10 });
+    const sampled = generator.generateSE({ type: "jump", seed: 4, synth: {} }).meta.replayOptions.synth as SESynthParams;
+    assert.deepEqual(synth.envelope, sampled.envelope);
+  });
+
+  it("drives pitch, duty and volume once per frame", () => {
+    const synth: SESynthParams = {
+      waveform: "square",
+      envelope: { attack: 0.05, decay: 0.05, sustain: 0.5, sustainTime: 0.1, release: 0.1 },
+      startPitch: 84,
+      endPitch: 60,
+      duty: 0.125,
+      dutyEnd: 0.75,
+      noiseMix: 0.5,
+      repeat: { count: 2, interval: 0.2 }
+    };
+    const { events, meta } = generator.generateSE({ type: "laser", seed: 1, synth });
+    assert.deepEqual(meta.channels, ["square1", "noise"]);
+
+    const noteOns = events.filter((event) => event.channel === "square1" && event.command === "noteOn");
+    assert.deepEqual(noteOns.map((event) => event.time), [0, 0.2, 0.4]);
+
+    const volumes = events.filter((event) => event.channel === "square1" && event.data.param === "volume");
+    const firstShot = volumes.filter((event) => event.time < 0.2).map((event) => event.data.value as number);
+    assert.equal(firstShot[0], 0);
+    assert.equal(Math.max(...firstShot), 1);
+    assert.ok(firstShot.every((value) => Math.abs(value * 15 - Math.round(value * 15)) < 0.01), "4-bit volume steps");
+
+    const bends = events.filter((event) => event.data.param === "pitchBend");
+    assert.ok(bends.length > 5);
+    assert.ok(bends.every((event) => event.data.rampDuration === 0));
+    assert.deepEqual(
+      [...new Set(events.filter((event) => event.data.param === "duty").map((event) => event.data.value))].sort(),
+      [0.125, 0.25, 0.5, 0.75]
+    );
+    assert.ok(events.some((event) => event.channel === "noise" && event.data.param === "periodIndex"));
+
+    // Frame-driven output is exactly representable in APU registers
+    assert.doesNotThrow(() => eventsToApuLog(events));
+  });
+
+  it("shapes the rendered level with the envelope", () => {
+    const sampleRate = 22_050;
+    const { events } = generator.generateSE({
+      type: "synth",
+      seed: 1,
+      synth: {
+        waveform: "square",
+        envelope: { attack: 0, decay: 0, sustain: 1, sustainTime: 0.2, release: 0.2 },
+        startPitch: 69
+      }
+    });
+    const samples = renderEventsToPcm(events, { sampleRate, tailSeconds: 0 });
+    const held = peak(samples, Math.floor(0.05 * sampleRate), Math.floor(0.15 * sampleRate));
+    const fading = peak(samples, Math.floor(0.32 * sampleRate), Math.floor(0.38 * sampleRate));
+    assert.ok(fading > 0 && fading < held * 0.6, `held ${held}, fading ${fading}`);
+  });
+
+  it("mutates parameters deterministically", () => {
+    const original = generator.generateSE({ type: "powerup", seed: 21, synth: {} });
+    const first = generator.mutate(original, 0.3, 5);
+    const second = generator.mutate(original, 0.3, 5);
+    assert.deepEqual(first, second);
+    assert.notDeepEqual(first.meta.replayOptions.synth, original.meta.replayOptions.synth);
+    assert.deepEqual(generator.generateSE(first.meta.replayOptions), first);
+
+    const before = original.meta.replayOptions.synth as SESynthParams;
+    const after = first.meta.replayOptions.synth as SESynthParams;
+    assert.equal(after.waveform, before.waveform);
+    assert.equal(Boolean(after.vibrato), Boolean(before.vibrato));
+    assert.equal(after.repeat?.count, before.repeat?.count);
+    assert.ok(Math.abs(after.startPitch - before.startPitch) <= 0.3 * 12);
+
+    assert.deepEqual(generator.mutate(original, 0, 5).meta.replayOptions.synth, before);
+  });
+
+  it("rejects invalid parameters and template results", () => {
+    const template = generator.generateSE({ type: "coin", seed: 1 });
+    assert.throws(() => generator.mutate(template, 0.2), /Cannot mutate SE from template SE_COIN_\d+; generate it with `synth` options first/);
+    const procedural = generator.generateSE({ type: "coin", seed: 1, synth: {} });
+    assert.throws(() => generator.mutate(procedural, 2), /Invalid mutation amount 2; expected a number from 0 to 1/);
+
+    const invalid: Array<[Partial<SESynthParams>, RegExp]> = [
+      [{ startPitch: 130 }, /startPitch 130; expected a MIDI note from 0 to 127/],
+      [{ envelope: { attack: -1, decay: 0, sustain: 1, sustainTime: 0.1, release: 0 } }, /envelope\.attack -1/],
+      [{ envelope: { attack: 0, decay: 0, sustain: 1, sustainTime: 5, release: 0 } }, /envelope lasts 5s/],
+      [{ arpeggio: { steps: [], stepSeconds: 0.05 } }, /arpeggio needs at least one semitone step/],
+      [{ noiseMix: 1.5 }, /noiseMix 1.5; expected a value from 0 to 1/],
+      [{ repeat: { count: 1.5, interval: 0.1 } }, /repeat needs a whole count/],
+      [{ waveform: "saw" as SESynthParams["waveform"] }, /waveform "saw"/]
+    ];
+    for (const [synth, message] of invalid) {
+      assert.throws(() => generator.generateSE({ type: "coin", seed: 1, synth }), message);
+    }
+  });
+});
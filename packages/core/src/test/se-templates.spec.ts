@@ -0,0 +1,112 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { SEGenerator } from "../se/seGenerator.js";
+import type { SETemplate } from "../se/seTypes.js";
+
+function dashTemplate(overrides: Partial<SETemplate> = {}): SETemplate {
+  return {
+    id: "SE_DASH_01",
+    type: "dash",
+    description: "Quick whoosh",
+    tags: ["short"],
+    channels: ["square1", "noise"],
+    durationRange: [0.12, 0.16],
+    channelParams: {
+      square1: { pitchStart: { min: 60, max: 64 }, pitchEnd: { min: 76, max: 80 }, dutyCycle: [0.25] },
+      noise: { noiseMode: "long", envelope: "fade", velocityRange: [70, 90] }
+    },
+    pitchSweep: { enabled: true, curveType: "exponential" },
+    ...overrides
+  };
+}
+
+describe("Custom SE templates", () => {
+  it("adds new types through constructor options or at runtime", () => {
+    const generator = new SEGenerator({ templates: [dashTemplate()] });
+    const dash = generator.generateSE({ type: "dash", seed: 5 });
+    assert.equal(dash.meta.templateId, "SE_DASH_01");
+    assert.deepEqual(dash.meta.channels, ["square1", "noise"]);
+    assert.ok(dash.events.some((event) => event.channel === "noise"));
+    assert.deepEqual(generator.generateSE(dash.meta.replayOptions), dash);
+
+    assert.throws(() => generator.generateSE({ type: "door" }), /No templates found for type: door/);
+    generator.registerTemplates([
+      {
+        id: "SE_DOOR_01",
+        type: "door",
+        description: "Two-step creak",
+        channels: ["triangle"],
+        durationRange: [0.2, 0.25],
+        channelParams: { triangle: { pitchStart: { min: 40, max: 44 } } },
+        noteSequence: { intervals: [0, -2], noteDurations: [0.1, 0.12] }
+      }
+    ]);
+    assert.equal(generator.generateSE({ type: "door", seed: 1 }).meta.templateId, "SE_DOOR_01");
+    assert.deepEqual(generator.getTypes().slice(-2), ["dash", "door"]);
+    assert.ok(generator.getTypes().includes("jump"));
+
+    // Built-in generators are unaffected
+    assert.throws(() => new SEGenerator().generateSE({ type: "dash" }), /No templates found for type: dash/);
+  });
+
+  it("replaces a template with the same id", () => {
+    const generator = new SEGenerator();
+    generator.registerTemplates([dashTemplate({ id: "SE_COIN_01", type: "coin", description: "Replacement coin" })]);
+    const coin = generator.generateSE({ type: "coin", seed: 1, templateId: "SE_COIN_01" });
+    assert.deepEqual(coin.meta.channels, ["square1", "noise"]);
+    assert.equal(generator.getTemplates("coin").find((template) => template.id === "SE_COIN_01")?.description, "Replacement coin");
+  });
+
+  it("returns copies of the templates", () => {
+    const generator = new SEGenerator();
+    const [jump] = generator.getTemplates("jump");
+    assert.ok(generator.getTemplates("jump").length >= 2);
+    assert.ok(generator.getTemplates().every((template) => typeof template.type === "string"));
+    jump.durationRange[1] = 99;
+    assert.notEqual(generator.getTemplates("jump")[0].durationRange[1], 99);
+  });
+
+  it("rejects invalid templates without registering any", () => {
+    const generator = new SEGenerator();
+    const invalid: Array<[SETemplate, RegExp]> = [
+      [dashTemplate({ type: "" }), /"SE_DASH_01" is invalid: type: type must be a non-empty string/],
+      [dashTemplate({ durationRange: [0.2, 0.1] }), /durationRange is inverted \(min 0.2 > max 0.1\)/],
+      [dashTemplate({ durationRange: [0, 0.1] }), /durationRange must be positive, got min 0/],
+      [dashTemplate({ channels: ["square1"] }), /channelParams\.noise: channelParams\.noise is set but noise is not listed in channels/],
+      [
+        dashTemplate({ channels: ["square1", "noise", "triangle"] }),
+        /channelParams\.triangle: channel triangle is listed in channels but has no channelParams/
+      ],
+      [
+        dashTemplate({ noteSequence: { intervals: [0, 4, 7], noteDurations: [0.05, 0.05] } }),
+        /noteSequence: intervals and noteDurations must be arrays of the same length/
+      ],
+      [
+        dashTemplate({ noteSequence: { intervals: [0, 4], noteDurations: [0.05, 0] } }),
+        /noteSequence\.noteDurations\[1\]: note duration must be positive, got 0/
+      ]
+    ];
+    for (const [template, message] of invalid) {
+      assert.throws(() => generator.registerTemplates([dashTemplate({ id: "SE_DASH_00" }), template]), message);
+    }
+    assert.throws(
+      () => generator.registerTemplates([dashTemplate(), dashTemplate()]),
+      /Custom SE template "SE_DASH_01" is defined more than once/
+    );
+    assert.throws(() => new SEGenerator({ templates: [dashTemplate({ channels: [] })] }), /channels must be a non-empty array/);
+    assert.ok(!generator.getTypes().includes("dash"));
+  });
+
+  it("synthesizes custom types from complete procedural parameters", () => {
+    const generator = new SEGenerator();
+    const envelope = { attack: 0, decay: 0.02, sustain: 0.6, sustainTime: 0.05, release: 0.05 };
+    const shield = generator.generateSE({ type: "shield", seed: 2, synth: { waveform: "square", envelope, startPitch: 70 } });
+    assert.equal(shield.meta.type, "shield");
+    assert.equal(shield.meta.templateId, "procedural");
+    assert.throws(
+      () => generator.generateSE({ type: "shield", synth: { startPitch: 70 } }),
+      /No procedural sampler for SE type "shield"; pass waveform, envelope and startPitch in synth/
+    );
+  });
+});
@@ -0,0 +1,58 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { generateComposition } from "../pipeline.js";
+
+const STYLE = { percussiveMelodic: 0.5, calmEnergetic: 0 };
+
+describe("Custom song structure", () => {
+  it("plans the requested form and keeps hook establishment and reprise", async () => {
+    const result = await generateComposition({
+      seed: 5,
+      twoAxisStyle: STYLE,
+      structure: [
+        { id: "Intro", measures: 2 },
+        { id: "A", measures: 8 },
+        { id: "A", measures: 8 },
+        { id: "B", measures: 8 },
+        { id: "A", measures: 4 },
+        { id: "Outro", measures: 2 }
+      ]
+    });
+
+    assert.equal(result.meta.sectionPattern, "Intro2-A8-A8-B8-A4-Outro2");
+    assert.equal(result.meta.lengthInMeasures, 32);
+
+    const plan = result.diagnostics.sectionMotifPlan;
+    const hookSections = plan.filter((entry) => entry.templateId === "A");
+    assert.deepEqual(hookSections.map((entry) => entry.reprisesHook), [false, true, true]);
+    for (const reprise of hookSections.slice(1)) {
+      assert.equal(reprise.primaryRhythm, hookSections[0].primaryRhythm);
+      assert.equal(reprise.primaryMelodyRhythm, hookSections[0].primaryMelodyRhythm);
+    }
+  });
+
+  it("accepts the sectionPattern notation and replays from meta", async () => {
+    const result = await generateComposition({ seed: 8, twoAxisStyle: STYLE, structure: "A4-B4-A4-Bridge4" });
+    assert.equal(result.meta.sectionPattern, "A4-B4-A4-Bridge4");
+    assert.equal(result.meta.lengthInMeasures, 16);
+
+    const replay = await generateComposition(result.meta.replayOptions);
+    assert.deepEqual(replay.events, result.events);
+  });
+
+  it("rejects forms that do not match lengthInMeasures or are malformed", async () => {
+    await assert.rejects(
+      generateComposition({ seed: 1, lengthInMeasures: 16, structure: "A8" }),
+      /Section length mismatch\. expected=16, actual=8/
+    );
+    await assert.rejects(
+      generateComposition({ seed: 1, structure: "A8-B" }),
+      /Invalid structure section "B"/
+    );
+    await assert.rejects(
+      generateComposition({ seed: 1, structure: [{ id: "A", measures: 0 }] }),
+      /Invalid measure count 0 for structure section "A"/
+    );
+  });
+});
@@ -0,0 +1,145 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { generateComposition } from "../pipeline.js";
+import { exportCompositionToMidi } from "../midi/smf-export.js";
+import { beatToSeconds, buildTempoMap, secondsToBeat, tempoAtBeat } from "../tempo-map.js";
+import type { SectionDefinition } from "../types.js";
+
+const STYLE = { percussiveMelodic: 0.1, calmEnergetic: 0.2 };
+
+function sections(...measures: number[]): SectionDefinition[] {
+  let startMeasure = 0;
+  return measures.map((count, index) => {
+    const section = { id: `S${index}`, templateId: "A", startMeasure, measures: count } as SectionDefinition;
+    startMeasure += count;
+    return section;
+  });
+}
+
+/** Counts Set Tempo meta events (FF 51 03) in SMF bytes */
+function countTempoEvents(bytes: Uint8Array): number {
+  let count = 0;
+  for (let i = 0; i + 2 < bytes.length; i++) {
+    if (bytes[i] === 0xff && bytes[i + 1] === 0x51 && bytes[i + 2] === 0x03) count += 1;
+  }
+  return count;
+}
+
+describe("Tempo map", () => {
+  it("converts beats and seconds across jumps and ramps", () => {
+    const map = buildTempoMap(
+      120,
+      [
+        { section: 1, bpm: 60 },
+        { measure: 6, bpm: 120, rampMeasures: 2 }
+      ],
+      sections(2, 6),
+      4
+    );
+
+    assert.deepEqual(
+      map.map(({ startBeat, endBeat, startBpm, endBpm }) => [startBeat, endBeat, startBpm, endBpm]),
+      [
+        [0, 8, 120, 120],
+        [8, 24, 60, 60],
+        [24, 32, 60, 120]
+      ]
+    );
+    assert.equal(beatToSeconds(map, 8), 4);
+    assert.equal(beatToSeconds(map, 24), 20);
+    assert.equal(tempoAtBeat(map, 28), 90);
+
+    // An accelerando from 60 to 120 BPM over 8 beats takes 8 ln 2 seconds
+    assert.ok(Math.abs(beatToSeconds(map, 32) - (20 + 8 * Math.LN2)) < 1e-9);
+    for (const beat of [0, 3.5, 8, 17.25, 24, 27.5, 32, 40]) {
+      assert.ok(Math.abs(secondsToBeat(map, beatToSeconds(map, beat)) - beat) < 1e-9, `round trip at beat ${beat}`);
+    }
+  });
+
+  it("applies section tempos and a closing ritardando to the composition", async () => {
+    const steady = await generateComposition({ seed: 12, twoAxisStyle: STYLE, lengthInMeasures: 16, bpm: 120 });
+    const result = await generateComposition({
+      seed: 12,
+      twoAxisStyle: STYLE,
+      lengthInMeasures: 16,
+      bpm: 120,
+      tempoChanges: [
+        { section: 1, bpm: 150 },
+        { measure: 14, bpm: 80, rampMeasures: 2 }
+      ]
+    });
+    const map = result.meta.tempoMap;
+
+    assert.equal(result.meta.bpm, 120);
+    assert.equal(map.length, 3);
+    assert.equal(map[2].endBpm, 80);
+    assert.equal(result.meta.loopInfo.totalDuration, beatToSeconds(map, 64));
+    assert.equal(result.meta.loopInfo.loopEndTime, result.meta.loopInfo.totalDuration);
+    assert.deepEqual(result.meta.replayOptions.tempoChanges, [
+      { section: 1, bpm: 150 },
+      { measure: 14, bpm: 80, rampMeasures: 2 }
+    ]);
+
+    // Same notes as the steady version, placed by the tempo map
+    assert.equal(result.events.length, steady.events.length);
+    result.events.forEach((event, index) => {
+      const beat = steady.events[index].time / (60 / 120);
+      assert.ok(Math.abs(event.time - beatToSeconds(map, beat)) < 1e-9);
+    });
+    assert.deepEqual(
+      result.diagnostics.theoryAudit.notes.map((note) => note.chord),
+      steady.diagnostics.theoryAudit.notes.map((note) => note.chord)
+    );
+
+    const replay = await generateComposition(result.meta.replayOptions);
+    assert.deepEqual(replay.events, result.events);
+  });
+
+  it("writes the tempo map to MIDI, stepping through ramps per beat", async () => {
+    const steady = await generateComposition({ seed: 3, twoAxisStyle: STYLE, lengthInMeasures: 8 });
+    assert.equal(countTempoEvents(exportCompositionToMidi(steady)), 1);
+
+    const ritardando = await generateComposition({
+      seed: 3,
+      twoAxisStyle: STYLE,
+      lengthInMeasures: 8,
+      tempoChanges: [{ measure: 6, bpm: 60, rampMeasures: 2 }]
+    });
+    assert.equal(countTempoEvents(exportCompositionToMidi(ritardando)), 1 + 8);
+  });
+
+  it("rejects tempo changes that are out of range or overlap", async () => {
+    const base = { seed: 1, twoAxisStyle: STYLE, lengthInMeasures: 8 };
+    await assert.rejects(
+      generateComposition({ ...base, tempoChanges: [{ bpm: 100 }] }),
+      /Tempo change 0 needs exactly one of "measure" or "section"/
+    );
+    await assert.rejects(
+      generateComposition({ ...base, tempoChanges: [{ measure: 8, bpm: 100 }] }),
+      /Tempo change 0 starts at measure 8, outside the 8-measure composition/
+    );
+    await assert.rejects(
+      generateComposition({ ...base, tempoChanges: [{ section: 9, bpm: 100 }] }),
+      /Tempo change 0 refers to section 9/
+    );
+    await assert.rejects(
+      generateComposition({ ...base, tempoChanges: [{ measure: 2, bpm: 500 }] }),
+      /Invalid bpm 500 for tempo change 0; expected a number from 30 to 300/
+    );
+    await assert.rejects(
+      generateComposition({ ...base, tempoChanges: [{ measure: 6, bpm: 90, rampMeasures: 4 }] }),
+      /Tempo change 0 ramps over 4 measures past the end of the composition/
+    );
+    await assert.rejects(
+      generateComposition({
+        ...base,
+        tempoChanges: [
+          { measure: 2, bpm: 90, rampMeasures: 4 },
+          { measure: 4, bpm: 140 }
+        ]
+      }),
+      /Tempo change 1 starts before tempo change 0 has finished/
+    );
+  });
+});
@@ -2,7 +2,7 @@ import assert from "node:assert/strict";
 import test from "node:test";
 import { runPipeline } from "../pipeline.js";
 import { analyzeTheory } from "../phase/theory-audit.js";
-import type { Event, StructurePlanResult } from "../types.js";
+import type { Event, StructurePlanResult, TheoryAuditRule } from "../types.js";
 
 test("theory audit reconstructs deterministic musical context from the final timeline", () => {
   const options = {
@@ -54,6 +54,102 @@ test("theory audit keeps unresolved motion and dense repeats as warnings", () =>
   assert.equal(audit.errors.length, 0);
 });
 
+test("theory audit applies severity overrides to built-in rules", () => {
+  const structure = createStructure();
+  const events: Event[] = [];
+  for (const start of [0, 0.5, 1, 1.5]) {
+    events.push(noteOn(start, "square1", 71), noteOff(start + 0.5, "square1"));
+  }
+  const audit = analyzeTheory(structure, events, 4, {
+    severity: { dense_unison_repeat: "error", unresolved_leading_tone: "off" }
+  });
+  assert.deepEqual(audit.errors.map((issue) => [issue.rule, issue.severity]), [["dense_unison_repeat", "error"]]);
+  assert.equal(audit.warnings.some((issue) => issue.rule === "unresolved_leading_tone"), false);
+  // Counters keep counting what was detected
+  assert.equal(audit.collisionCounts.denseUnisonRepeats, 1);
+});
+
+test("theory audit runs custom rules over the reconstructed notes", () => {
+  const parallelFifths: TheoryAuditRule = {
+    id: "parallel_fifths_square1_triangle",
+    severity: "error",
+    check: (notes) => {
+      const onsets = (channel: string) => notes.filter((note) => note.channel === channel);
+      const lead = onsets("square1");
+      const bass = onsets("triangle");
+      const findings = [];
+      for (let i = 1; i < lead.length; i++) {
+        const previousBass = bass.find((note) => note.startBeat === lead[i - 1].startBeat);
+        const currentBass = bass.find((note) => note.startBeat === lead[i].startBeat);
+        if (!previousBass || !currentBass || previousBass.midi === currentBass.midi) continue;
+        if ((lead[i - 1].midi - previousBass.midi) % 12 === 7 && (lead[i].midi - currentBass.midi) % 12 === 7) {
+          findings.push({ notes: [lead[i], currentBass], message: "Parallel fifths between square1 and triangle." });
+        }
+      }
+      return findings;
+    }
+  };
+  const phraseRange: TheoryAuditRule = {
+    id: "phrase_range",
+    check: (notes, context) =>
+      context.sections.flatMap((section) => {
+        const melody = notes.filter((note) => note.role === "melody" && note.startBeat >= section.startBeat && note.startBeat < section.endBeat);
+        const low = melody.reduce((min, note) => (note.midi < min.midi ? note : min), melody[0]);
+        const high = melody.reduce((max, note) => (note.midi > max.midi ? note : max), melody[0]);
+        return low && high.midi - low.midi > 18 ? [{ notes: [low, high], message: "Melody spans more than an octave and a half." }] : [];
+      })
+  };
+  const events: Event[] = [
+    noteOn(0, "square1", 55), noteOn(0, "triangle", 48), noteOff(1, "square1"), noteOff(1, "triangle"),
+    noteOn(1, "square1", 57), noteOn(1, "triangle", 50), noteOff(2, "square1"), noteOff(2, "triangle"),
+    noteOn(2, "square1", 76), noteOff(3, "square1")
+  ];
+  const audit = analyzeTheory(createStructure(), events, 4, { rules: [parallelFifths, phraseRange] });
+  const fifths = audit.errors.find((issue) => issue.rule === "parallel_fifths_square1_triangle");
+  assert.ok(fifths);
+  assert.equal(fifths.cause, "custom_rule");
+  assert.deepEqual([fifths.beat, fifths.channels, fifths.roles, fifths.midi], [1, ["square1", "triangle"], ["melody", "bass"], [57, 50]]);
+  assert.deepEqual(
+    audit.warnings.filter((issue) => issue.rule === "phrase_range").map((issue) => [issue.severity, issue.sectionId, issue.midi]),
+    [["warning", "A", [55, 76]]]
+  );
+
+  const demoted = analyzeTheory(createStructure(), events, 4, {
+    rules: [parallelFifths],
+    severity: { parallel_fifths_square1_triangle: "warning" }
+  });
+  assert.ok(demoted.warnings.some((issue) => issue.rule === "parallel_fifths_square1_triangle"));
+});
+
+test("theory audit options flow through generation and are validated", () => {
+  const everyNote: TheoryAuditRule = {
+    id: "house_rule",
+    check: (notes) => notes.slice(0, 2).map((note) => ({ notes: [note], message: "Flagged by the house rule." }))
+  };
+  const options = {
+    lengthInMeasures: 8,
+    seed: 5,
+    theoryAudit: { rules: [everyNote], severity: { house_rule: "error" as const, brief_second_or_seventh: "off" as const } }
+  };
+  const result = runPipeline(options);
+  assert.equal(result.diagnostics.theoryAudit.errors.filter((issue) => issue.rule === "house_rule").length, 2);
+  assert.ok(result.diagnostics.theoryAudit.warnings.every((issue) => issue.rule !== "brief_second_or_seventh"));
+  assert.equal(result.meta.replayOptions.theoryAudit?.rules?.[0], everyNote);
+  assert.deepEqual(runPipeline(result.meta.replayOptions).diagnostics.theoryAudit, result.diagnostics.theoryAudit);
+
+  const invalid: Array<[object, RegExp]> = [
+    [{ rules: [{ id: "", check: () => [] }] }, /Theory audit rule at \[0\] needs a non-empty string id/],
+    [{ rules: [{ id: "x" }] }, /Theory audit rule "x" needs a check function/],
+    [{ rules: [{ id: "voice_crossing", check: () => [] }] }, /"voice_crossing" clashes with a built-in rule/],
+    [{ rules: [everyNote, everyNote] }, /"house_rule" is defined more than once/],
+    [{ severity: { parallel_octaves: "error" } }, /Unknown theory audit rule "parallel_octaves" in severity overrides/],
+    [{ severity: { voice_crossing: "fatal" } }, /Invalid severity "fatal" for theory audit rule "voice_crossing"/]
+  ];
+  for (const [theoryAudit, message] of invalid) {
+    assert.throws(() => runPipeline({ lengthInMeasures: 8, seed: 5, theoryAudit: theoryAudit as never }), message);
+  }
+});
+
 function createStructure(): StructurePlanResult {
   return {
     bpm: 60,
@@ -79,7 +175,8 @@ function createStructure(): StructurePlanResult {
       filterMotion: 0,
       syncopationBias: 0,
       atmosPad: 0,
-      lofiFeel: 0
+      lofiFeel: 0,
+      pivotModulation: 0
     },
     voiceArrangement: {
       id: "standard",
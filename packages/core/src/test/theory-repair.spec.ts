@@ -0,0 +1,203 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { runPipeline } from "../pipeline.js";
+import { analyzeTheory } from "../phase/theory-audit.js";
+import { repairTheory } from "../phase/theory-repair.js";
+import type { Event, StructurePlanResult, TimedEvent } from "../types.js";
+
+test("theory repair nudges bass downbeats and resolves sustained seconds", () => {
+  const structure = createStructure();
+  const events: TimedEvent[] = [
+    noteOn(0, "triangle", 42),
+    noteOn(0, "square1", 72),
+    noteOn(0, "square2", 64),
+    noteOn(1, "square2", 73),
+    noteOff(2, "triangle"),
+    noteOff(1, "square2"),
+    noteOff(3, "square1"),
+    noteOff(3, "square2")
+  ];
+  const { events: repaired, diagnostics } = repairTheory(structure, events, 4);
+  assert.equal(diagnostics.errorsBefore, 2);
+  assert.equal(diagnostics.errorsAfter, 0);
+  assert.deepEqual(diagnostics.rules, {
+    bass_downbeat_conflict: { before: 1, after: 0, changes: 1 },
+    sustained_minor_second: { before: 1, after: 0, changes: 1 }
+  });
+  assert.deepEqual(
+    diagnostics.changes.map((change) => [change.rule, change.action, change.channel, change.before, change.after]),
+    [
+      ["bass_downbeat_conflict", "nudge_to_chord_tone", "triangle", 42, 43],
+      ["sustained_minor_second", "nudge_to_chord_tone", "square2", 73, 76]
+    ]
+  );
+  assert.equal(analyzeTheory(structure, toEvents(repaired), 4).errors.length, 0);
+  // The input timeline is left untouched
+  assert.equal(events[0].data.midi, 42);
+});
+
+test("theory repair prefers moving accompaniment chord tones by octave or stopping them early", () => {
+  const structure = createStructure();
+  const swapped = repairTheory(structure, [
+    noteOn(0, "square1", 65),
+    noteOn(0, "square2", 64),
+    noteOff(2, "square1"),
+    noteOff(2, "square2")
+  ], 4);
+  assert.deepEqual(
+    swapped.diagnostics.changes.map((change) => [change.action, change.channel, change.before, change.after]),
+    [["swap_voicing", "square2", 64, 76]]
+  );
+
+  // No octave left above the accompaniment, so it stops when the melody enters
+  const shortened = repairTheory(structure, [
+    noteOn(0, "square2", 120),
+    noteOn(1, "square1", 121),
+    noteOff(3, "square1"),
+    noteOff(3, "square2")
+  ], 4);
+  assert.deepEqual(
+    shortened.diagnostics.changes.map((change) => [change.action, change.channel, change.before, change.after]),
+    [["shorten_sustain", "square2", 3, 1]]
+  );
+  assert.equal(shortened.events[3].beatTime, 1);
+
+  // Only errors are repaired, so a demoted rule is left alone
+  const demoted = repairTheory(structure, [
+    noteOn(0, "square1", 65),
+    noteOn(0, "square2", 64),
+    noteOff(2, "square1"),
+    noteOff(2, "square2")
+  ], 4, { severity: { sustained_minor_second: "warning" } });
+  assert.deepEqual([demoted.diagnostics.errorsBefore, demoted.diagnostics.changes.length], [0, 0]);
+});
+
+test("theory repair retargets the loop tail and trims release tails", () => {
+  const structure = createStructure();
+  const { events: repaired, diagnostics } = repairTheory(structure, [
+    noteOn(0, "square1", 60),
+    noteOff(1, "square1"),
+    noteOn(3, "square1", 86),
+    { beatTime: 4, channel: "square1", command: "noteOff", data: { releaseSeconds: 0.5 } }
+  ], 4);
+  assert.deepEqual(
+    diagnostics.changes.map((change) => [change.rule, change.action, change.before, change.after]),
+    [
+      ["unresolved_loop_leap", "retarget_loop_tail", 86, 64],
+      ["loop_release_tail", "trim_release", 0.5, 0]
+    ]
+  );
+  assert.equal(repaired[3].data.releaseSeconds, undefined);
+  assert.equal(diagnostics.errorsAfter, 0);
+});
+
+test("theory repair handles warning rules raised to errors", () => {
+  const structure = createStructure();
+  const severity = {
+    voice_crossing: "error",
+    unresolved_leading_tone: "error",
+    loop_tail_non_scale_tone: "error"
+  } as const;
+  const { events: repaired, diagnostics } = repairTheory(structure, [
+    noteOn(0, "square1", 71),
+    noteOn(0, "square2", 88),
+    noteOff(1, "square1"),
+    noteOff(1, "square2"),
+    noteOn(1, "square1", 67),
+    noteOff(3, "square1"),
+    noteOn(3, "square1", 66),
+    noteOff(4, "square1")
+  ], 4, { severity });
+  assert.deepEqual(
+    diagnostics.changes.map((change) => [change.rule, change.action, change.channel, change.before, change.after]),
+    [
+      ["unresolved_leading_tone", "resolve_to_tonic", "square1", 67, 72],
+      ["voice_crossing", "swap_voicing", "square2", 88, 76],
+      ["loop_tail_non_scale_tone", "retarget_loop_tail", "square1", 66, 67]
+    ]
+  );
+  assert.deepEqual([diagnostics.errorsBefore, diagnostics.errorsAfter], [3, 0]);
+  assert.equal(analyzeTheory(structure, toEvents(repaired), 4, { severity }).errors.length, 0);
+});
+
+test("theory repair lowers raised-severity errors on generated songs", () => {
+  const severity = {
+    voice_crossing: "error",
+    unresolved_leading_tone: "error",
+    loop_tail_non_scale_tone: "error"
+  } as const;
+  for (const seed of [1, 9]) {
+    const result = runPipeline({ seed, lengthInMeasures: 16, theoryRepair: true, theoryAudit: { severity } });
+    const repair = result.diagnostics.theoryRepair;
+    assert.ok(repair);
+    assert.ok(repair.errorsAfter < repair.errorsBefore, `seed ${seed}: ${repair.errorsBefore} -> ${repair.errorsAfter}`);
+    assert.equal(repair.errorsAfter, result.diagnostics.theoryAudit.errors.length);
+    assert.ok(repair.changes.every((change) => change.rule in severity));
+  }
+});
+
+test("theory repair is opt-in and recorded in diagnostics and replay options", () => {
+  const options = { lengthInMeasures: 8, seed: 17, twoAxisStyle: { percussiveMelodic: 0.4, calmEnergetic: 0.2 } };
+  const plain = runPipeline(options);
+  const repaired = runPipeline({ ...options, theoryRepair: true });
+  assert.equal(plain.diagnostics.theoryRepair, undefined);
+  assert.equal(plain.meta.replayOptions.theoryRepair, undefined);
+  assert.equal(repaired.meta.replayOptions.theoryRepair, true);
+  const repair = repaired.diagnostics.theoryRepair;
+  assert.ok(repair);
+  assert.equal(repair.errorsAfter, repaired.diagnostics.theoryAudit.errors.length);
+  assert.equal(repair.changes.length, 0);
+  assert.deepEqual(repaired.events, plain.events);
+});
+
+function createStructure(): StructurePlanResult {
+  return {
+    bpm: 60,
+    key: "C_Major",
+    scaleDegrees: [0, 2, 4, 5, 7, 9, 11],
+    sections: [{
+      id: "A",
+      startMeasure: 0,
+      measures: 1,
+      chordProgression: ["C"],
+      templateId: "A",
+      occurrenceIndex: 0,
+      texture: "steady"
+    }],
+    techniqueStrategy: { echoProbability: 0, detuneProbability: 0, fastArpeggioProbability: 0 },
+    styleIntent: {
+      textureFocus: 0,
+      loopCentric: 0,
+      gradualBuild: 0,
+      harmonicStatic: 0,
+      percussiveLayering: 0,
+      breakInsertion: 0,
+      filterMotion: 0,
+      syncopationBias: 0,
+      atmosPad: 0,
+      lofiFeel: 0,
+      pivotModulation: 0
+    },
+    voiceArrangement: {
+      id: "standard",
+      description: "test",
+      voices: [
+        { role: "melody", channel: "square1", priority: 1 },
+        { role: "accompaniment", channel: "square2", priority: 1 },
+        { role: "bass", channel: "triangle", priority: 1 }
+      ]
+    }
+  };
+}
+
+function toEvents(events: TimedEvent[]): Event[] {
+  return events.map(({ beatTime, ...event }) => ({ ...event, time: beatTime }));
+}
+
+function noteOn(beatTime: number, channel: TimedEvent["channel"], midi: number): TimedEvent<"noteOn"> {
+  return { beatTime, channel, command: "noteOn", data: { midi, velocity: 80 } };
+}
+
+function noteOff(beatTime: number, channel: TimedEvent["channel"]): TimedEvent<"noteOff"> {
+  return { beatTime, channel, command: "noteOff", data: {} };
+}
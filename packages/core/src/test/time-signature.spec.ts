@@ -0,0 +1,112 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { generateComposition } from "../pipeline.js";
+import { DEFAULT_MOTIF_LIBRARY } from "../motif-library.js";
+import { lintMotifEntries } from "../motif-schema.js";
+import type { TimeSignature } from "../types.js";
+
+const STYLE = { percussiveMelodic: 0.3, calmEnergetic: 0.2 };
+
+function meterTagOf(ids: Array<string | undefined>, lookup: Map<string, { tags?: string[] }>): Set<string> {
+  return new Set(
+    ids
+      .filter((id): id is string => Boolean(id))
+      .map((id) => lookup.get(id)?.tags?.find((tag) => tag.startsWith("meter_")) ?? "meter_4_4")
+  );
+}
+
+describe("Time signatures", () => {
+  const cases: Array<[TimeSignature, number, string]> = [
+    ["3/4", 3, "meter_3_4"],
+    ["6/8", 3, "meter_6_8"],
+    ["5/4", 5, "meter_5_4"]
+  ];
+
+  for (const [timeSignature, beatsPerMeasure, tag] of cases) {
+    it(`generates ${timeSignature} from motifs written for the meter`, async () => {
+      const result = await generateComposition({ seed: 11, twoAxisStyle: STYLE, lengthInMeasures: 16, timeSignature });
+
+      assert.equal(result.meta.timeSignature, timeSignature);
+      assert.equal(result.meta.beatsPerMeasure, beatsPerMeasure);
+      assert.equal(result.meta.loopInfo.totalBeats, 16 * beatsPerMeasure);
+      assert.equal(result.meta.replayOptions.timeSignature, timeSignature);
+
+      const sequence = result.diagnostics.motifSelection!.motifSequence;
+      assert.deepEqual(meterTagOf(sequence.map((entry) => entry.rhythm), DEFAULT_MOTIF_LIBRARY.rhythmById), new Set([tag]));
+      assert.deepEqual(
+        meterTagOf(sequence.map((entry) => entry.melodyRhythm), DEFAULT_MOTIF_LIBRARY.melodyRhythmById),
+        new Set([tag])
+      );
+      assert.deepEqual(meterTagOf(sequence.map((entry) => entry.drums), DEFAULT_MOTIF_LIBRARY.drumById), new Set([tag]));
+
+      const secondsPerBeat = 60 / result.meta.bpm;
+      for (const event of result.events) {
+        if (event.command === "noteOn") {
+          assert.ok(event.time / secondsPerBeat < result.meta.loopInfo.totalBeats);
+        }
+      }
+    });
+  }
+
+  it("places melody downbeats on measure boundaries of the meter", async () => {
+    const result = await generateComposition({ seed: 4, twoAxisStyle: STYLE, lengthInMeasures: 8, timeSignature: "3/4" });
+    const pitches = result.diagnostics.motifSelection!.melodyPitch;
+    assert.ok(pitches.length > 0);
+    for (const pitch of pitches) {
+      assert.equal(pitch.measureIndex, Math.floor(pitch.startBeat / 3));
+      if (pitch.startBeat % 3 === 0) {
+        assert.equal(pitch.strongBeat, true);
+      } else if (pitch.startBeat % 3 === 1 || pitch.startBeat % 3 === 2) {
+        assert.equal(pitch.strongBeat, false);
+      }
+    }
+  });
+
+  it("defaults to 4/4 and replays odd meters from meta", async () => {
+    const common = await generateComposition({ seed: 3, twoAxisStyle: STYLE, lengthInMeasures: 8 });
+    assert.equal(common.meta.timeSignature, "4/4");
+    assert.equal(common.meta.beatsPerMeasure, 4);
+    assert.equal(common.meta.replayOptions.timeSignature, undefined);
+
+    const compound = await generateComposition({ seed: 3, twoAxisStyle: STYLE, lengthInMeasures: 8, timeSignature: "6/8" });
+    const replay = await generateComposition(compound.meta.replayOptions);
+    assert.deepEqual(replay.events, compound.events);
+  });
+
+  it("rejects unsupported meters and libraries without motifs for the meter", async () => {
+    await assert.rejects(
+      generateComposition({ seed: 1, timeSignature: "7/8" as TimeSignature }),
+      /Unsupported time signature "7\/8"/
+    );
+    await assert.rejects(
+      generateComposition({
+        seed: 1,
+        lengthInMeasures: 8,
+        timeSignature: "3/4",
+        motifLibraryMode: "replace",
+        motifLibraries: { drums: [{ id: "ONLY_44", length_beats: 4, type: "beat", pattern: "K---S---K---S---" }] }
+      }),
+      /No drums motifs for time signature 3\/4; tag them "meter_3_4"/
+    );
+  });
+
+  it("lints meter tags against the meter's measure length", () => {
+    const issues = lintMotifEntries(
+      "drums",
+      [
+        { id: "WALTZ_OK", length_beats: 3, type: "beat", pattern: "K---S---S---", tags: ["meter_3_4"] },
+        { id: "WALTZ_LONG", length_beats: 4, type: "beat", pattern: "K---S---S---S---", tags: ["meter_3_4"] },
+        { id: "ODD", length_beats: 3, type: "beat", pattern: "K---S---S---", tags: ["meter_7_8"] }
+      ],
+      "drums.json"
+    );
+    assert.deepEqual(
+      issues.map((issue) => [issue.id, issue.rule, issue.message]),
+      [
+        ["WALTZ_LONG", "meter", "length_beats must fit in one measure (3 beats) in 3/4"],
+        ["ODD", "meter", 'unknown meter tag "meter_7_8" (expected meter_4_4, meter_3_4, meter_6_8, meter_5_4)']
+      ]
+    );
+  });
+});
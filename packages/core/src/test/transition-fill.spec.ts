@@ -0,0 +1,48 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { createTransitionFill } from "../playback/transition-fill.js";
+import { transitionList } from "../motif-library.js";
+
+describe("createTransitionFill", () => {
+  it("renders a library fill as noise events at the requested tempo", () => {
+    const fill = createTransitionFill({ bpm: 120, id: "TR_LOOP_TIGHTENER" });
+    assert.equal(fill.id, "TR_LOOP_TIGHTENER");
+    assert.equal(fill.lengthBeats, 4);
+    assert.equal(fill.durationSeconds, 2);
+
+    // "K-HS-HK-HS-HK-H-": 10 hits on a 16th grid
+    const noteOns = fill.events.filter((event) => event.command === "noteOn");
+    assert.equal(noteOns.length, 10);
+    assert.ok(fill.events.every((event) => event.channel === "noise"));
+    assert.deepEqual(
+      noteOns.slice(0, 3).map((event) => [event.time, event.data.instrument]),
+      [[0, "K"], [0.25, "H"], [0.375, "S"]]
+    );
+
+    // Every hit ends before the next one starts
+    for (let i = 1; i < fill.events.length; i += 1) {
+      assert.ok(fill.events[i]!.time >= fill.events[i - 1]!.time);
+    }
+    assert.ok(fill.events.at(-1)!.time <= fill.durationSeconds);
+  });
+
+  it("selects fills by tag and rejects unknown ids", () => {
+    const build = transitionList.filter((motif) => motif.tags.includes("build"));
+    const picked = createTransitionFill({ bpm: 90, tags: ["build"], seed: 1 });
+    assert.equal(picked.id, build[1 % build.length]!.id);
+    assert.equal(
+      createTransitionFill({ bpm: 90, tags: ["build"] }).id,
+      build[0]!.id
+    );
+
+    assert.throws(
+      () => createTransitionFill({ bpm: 120, id: "TR_MISSING" }),
+      /Unknown transition fill "TR_MISSING"/
+    );
+    assert.throws(
+      () => createTransitionFill({ bpm: 120, tags: ["no_such_tag"] }),
+      /No transition fill matches tags: no_such_tag/
+    );
+  });
+});
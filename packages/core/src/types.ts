@@ -1,3 +1,5 @@
+import type { MotifLibrary } from "./motif-library.js";
+
 export type TempoSetting = "slow" | "medium" | "fast";
 export type MoodSetting = "upbeat" | "sad" | "tense" | "peaceful";
 
@@ -33,6 +35,8 @@ export interface NoteOnEventData extends Record<string, unknown> {
     durationSeconds?: number;
     curve?: "linear" | "exponential";
   };
+  /** Drum instrument code on noise-channel notes generated from a {@link DrumHit}. */
+  instrument?: DrumHit["instrument"];
 }
 
 export interface NoteOffEventData extends Record<string, unknown> {
@@ -84,6 +88,7 @@ export interface StyleIntent {
   syncopationBias: number;
   atmosPad: number;
   lofiFeel: number;
+  pivotModulation: number;
 }
 
 export interface StyleTags {
@@ -140,6 +145,184 @@ export interface CompositionOptions {
    * Values below 0.25 may choose a varied hook; values 0.25 or above repeat exactly.
    */
   sectionRepeatBias?: number;
+  /**
+   * Explicit song form, e.g. `"Intro2-A8-A8-B8-A4-Outro2"` or the equivalent section list.
+   * Must add up to `lengthInMeasures`; when that is omitted it defaults to the form's length.
+   */
+  structure?: SectionSpec[] | string;
+  /**
+   * Meter of the composition (default "4/4").
+   * `lengthInMeasures` and `structure` count measures of this meter.
+   */
+  timeSignature?: TimeSignature;
+  /**
+   * Whether the piece loops seamlessly (default "loop") or plays once ("oneShot").
+   * One-shots end on a tonic cadence and a ringing final chord, for cutscenes and title screens.
+   */
+  form?: CompositionForm;
+  /**
+   * Plays a leading `Intro` section once and loops from the measure after it (default false).
+   * `meta.loopInfo.loopStartBeat`/`loopStartTime` then point past the intro. Needs a looping
+   * form whose first section is an `Intro`.
+   */
+  introOnce?: boolean;
+  /**
+   * Fixes theory-audit errors before the timeline is finalized (default false).
+   * Pitches move to nearby chord tones, clashing voices swap octaves or stop early, the
+   * last melody note is retargeted for the loop seam and release tails are trimmed.
+   * `diagnostics.theoryRepair` records every edit.
+   */
+  theoryRepair?: boolean;
+  /**
+   * Custom theory-audit rules and severity overrides for built-in ones, e.g.
+   * `{ severity: { brief_second_or_seventh: "off", large_loop_leap: "error" } }`.
+   * Errors are what `theoryRepair` fixes. Rules are functions, so replay options holding
+   * them do not survive JSON serialization.
+   */
+  theoryAudit?: TheoryAuditOptions;
+  /**
+   * Exact tempo in beats per minute (30-300), replacing the style's tempo bucket and seed jitter.
+   * The style still decides how busy the arrangement is.
+   */
+  bpm?: number;
+  /**
+   * Exact key, e.g. `"Bb_Major"` or `"F#_Minor"`; implies `mode`.
+   * Keys without their own chord progressions reuse those of the same mode, transposed.
+   */
+  key?: MusicalKey;
+  /**
+   * Tempo changes after the start, e.g. a faster final section or a ritardando into the ending.
+   * The tempo before the first change is `bpm` (or the style's tempo).
+   */
+  tempoChanges?: TempoChange[];
+  /**
+   * Key changes at section starts, e.g. a B section up a fourth or a final chorus lifted a semitone.
+   * Style intent `pivotModulation` decides whether a shared chord prepares each change.
+   */
+  modulations?: KeyModulation[];
+  /** Custom motifs used alongside or instead of the built-in library. */
+  motifLibraries?: MotifLibraries;
+  /** How `motifLibraries` combines with the built-in motifs (default "merge"). */
+  motifLibraryMode?: MotifLibraryMode;
+  /**
+   * Chord progressions replacing the library's, keyed by section template (`"A"`, for every
+   * A section) or section id (`"A2"`, taking precedence), e.g.
+   * `{ A: ["Am", "F", "C", "G"], B: ["Dm", "E7"] }`. One chord per measure, repeating to
+   * fill the section. Sevenths, sus, sixth, extended and altered chords are understood.
+   * Without `key`, the key the chords fit best is used.
+   */
+  chordProgressions?: Record<string, string[]>;
+  /**
+   * A leitmotif used as the hook instead of a library melody. The first `"A"` section
+   * opens with it, later ones reprise it (exactly or varied, per `sectionRepeatBias`), and
+   * `"A"` sections get the chord progressions that best fit its notes.
+   */
+  hook?: CustomHook;
+}
+
+/**
+ * A user-supplied hook: scale degrees played to a melody rhythm.
+ *
+ * `degrees` are 1-based degrees of the key's scale (8 is the tonic an octave up, 0 the
+ * leading tone below), one per rhythm step that is not a rest. `rhythm` uses the melody
+ * rhythm motif notation (`value` 2 = half, 4 = quarter, 8 = eighth, 16 = sixteenth note)
+ * and must fill one to four whole measures.
+ */
+export interface CustomHook {
+  degrees: number[];
+  rhythm: MelodyRhythmStep[];
+}
+
+/**
+ * One section of an explicit song form.
+ *
+ * `id` is the section template: `"A"` establishes the hook and later `"A"` sections
+ * reprise it, while `"Intro"`, `"B"`, `"Bridge"`, `"C"` and `"Outro"` have their own
+ * texture and phrasing. Other labels are allowed and use the default texture.
+ */
+export interface SectionSpec {
+  id: string;
+  measures: number;
+}
+
+export type TimeSignature = "4/4" | "3/4" | "6/8" | "5/4";
+
+export type CompositionForm = "loop" | "oneShot";
+
+export type KeyTonic =
+  | "C" | "C#" | "Db" | "D" | "D#" | "Eb" | "E" | "F"
+  | "F#" | "Gb" | "G" | "G#" | "Ab" | "A" | "A#" | "Bb" | "B";
+
+/** Composition key in the chord library's notation, e.g. `"C_Major"` or `"Eb_Minor"` */
+export type MusicalKey = `${KeyTonic}_${"Major" | "Minor"}`;
+
+/**
+ * A tempo change within a composition.
+ *
+ * The change starts at `measure` (0-based) or at the first measure of the `section`-th
+ * section of the form (0-based), whichever is given. With `rampMeasures` the tempo moves
+ * linearly from the previous tempo to `bpm` over that many measures (accelerando or
+ * ritardando); without it the tempo jumps.
+ */
+export interface TempoChange {
+  measure?: number;
+  section?: number;
+  bpm: number;
+  rampMeasures?: number;
+}
+
+/**
+ * Piece of a resolved tempo map.
+ *
+ * The tempo moves linearly per beat from `startBpm` to `endBpm`; steady stretches have
+ * both equal. Beats after the last segment keep its `endBpm`.
+ */
+export interface TempoSegment {
+  startBeat: number;
+  endBeat: number;
+  startBpm: number;
+  endBpm: number;
+  /** Seconds from the start of the composition at `startBeat` */
+  startTime: number;
+}
+
+/**
+ * A key change at the start of a section.
+ *
+ * `section` is the 0-based index in the form. `semitones` moves the tonic from the
+ * composition key (5 = up a fourth, 1 = a semitone lift, 0 = back home) and holds until
+ * the next modulation; the mode never changes.
+ */
+export interface KeyModulation {
+  section: number;
+  semitones: number;
+}
+
+export interface ParsedKey {
+  key: MusicalKey;
+  tonic: string;
+  /** Tonic as semitones above C */
+  semitone: number;
+  mode: "major" | "minor";
+  /** Whether chords in this key are spelled with flats (F major, C minor, Bb major, ...) */
+  preferFlats: boolean;
+}
+
+/**
+ * Beat layout of a time signature.
+ *
+ * Beats are always quarter notes, so a 6/8 measure spans 3 beats made of two
+ * dotted-quarter pulses.
+ */
+export interface MeterProfile {
+  timeSignature: TimeSignature;
+  beatsPerMeasure: number;
+  /** Beat offsets within the measure that carry the harmony (melody snaps to chord tones) */
+  strongBeats: number[];
+  /** Beat offsets within the measure that get the heavy snare */
+  accentBeats: number[];
+  /** Motif tag marking library entries written for this meter */
+  tag: string;
 }
 
 export interface PipelineCompositionOptions {
@@ -164,6 +347,25 @@ export interface PipelineCompositionOptions {
    * note-duration motifs are preserved from the original hook.
    */
   sectionRepeatBias?: number;
+  /** Explicit song form replacing the seed-selected section template. */
+  structure?: SectionSpec[];
+  timeSignature?: TimeSignature;
+  form?: CompositionForm;
+  introOnce?: boolean;
+  theoryRepair?: boolean;
+  theoryAudit?: TheoryAuditOptions;
+  /** Chord progressions replacing the selected ones, by section id or template. */
+  chordProgressions?: Record<string, string[]>;
+  /** Leitmotif replacing the selected hook melody and melody rhythm. */
+  hook?: CustomHook;
+  /** Exact tempo replacing the `tempo` bucket's seed-jittered BPM. */
+  bpm?: number;
+  /** Exact key replacing the seed-selected one. */
+  key?: MusicalKey;
+  tempoChanges?: TempoChange[];
+  modulations?: KeyModulation[];
+  /** Resolved motif pools; the built-in library is used when omitted. */
+  motifLibrary?: MotifLibrary;
   /** Internal report-only switches used for isolated generation experiments. */
   experiments?: GenerationExperiments;
 }
@@ -251,9 +453,18 @@ export interface DrumHit {
 }
 
 export interface StructurePlanResult {
+  /** Tempo at the first beat */
   bpm: number;
   key: string;
   scaleDegrees: number[];
+  /** Omitted means 4/4 */
+  timeSignature?: TimeSignature;
+  /** Omitted means "loop" */
+  form?: CompositionForm;
+  /** Measure the loop restarts from; omitted means 0 */
+  loopStartMeasure?: number;
+  /** Omitted means a steady `bpm` */
+  tempoMap?: TempoSegment[];
   sections: SectionDefinition[];
   techniqueStrategy: TechniqueStrategy;
   styleIntent: StyleIntent;
@@ -270,6 +481,12 @@ export interface SectionDefinition {
   templateId: string;
   occurrenceIndex: number;
   texture: TextureProfile;
+  /** Key of this section; omitted means the composition key */
+  key?: string;
+  /** Scale of `key`; omitted means the composition's `scaleDegrees` */
+  scaleDegrees?: number[];
+  /** Signed semitones from the composition key, so registers follow the modulation's direction */
+  keyOffset?: number;
   // Note: phraseLengthMeasures, establishesHook, repriseHook removed per REFACTOR_PLAN.md Step 1-D
   // Use helper functions from phase1.ts: getPhraseLengthForSection(), establishesHook(), repriseHook()
 }
@@ -293,21 +510,49 @@ export interface TechniqueStrategy {
   fastArpeggioProbability: number;
 }
 
+/** Rates a generated composition for {@link generateBest}; higher is better */
+export type CompositionScorer = (result: PipelineResult) => number;
+
+export interface BestOfOptions {
+  /** Number of seeds to generate and score (default 4) */
+  candidates?: number;
+  /** Replaces the default {@link scoreComposition} */
+  scorer?: CompositionScorer;
+}
+
+export interface BestOfDiagnostics {
+  /** Every candidate in generation order; the first one uses the requested seed */
+  candidates: Array<{ seed: number; score: number }>;
+  selectedSeed: number;
+}
+
 export interface PipelineResult {
   events: Event[];
   diagnostics: Diagnostics;
   meta: {
+    /** Tempo at the first beat; see `tempoMap` for later changes */
     bpm: number;
     key: string;
     seed: number;
     mood: MoodSetting;
     tempo: TempoSetting;
     lengthInMeasures: number;
+    timeSignature: TimeSignature;
+    beatsPerMeasure: number;
+    form: CompositionForm;
+    /** Tempo over the composition; a single steady segment without tempo changes */
+    tempoMap: TempoSegment[];
     styleIntent: StyleIntent;
     voiceArrangement: VoiceArrangement;
     profile: ResolvedStyleProfile;
     replayOptions: CompositionOptions;
+    /** Replay options of the source composition when this result is a vertical remix */
+    remixSource?: CompositionOptions;
     sectionPattern: string;
+    /**
+     * Whole timeline; for one-shots this includes the final chord's ring-out measure.
+     * The loop restarts at `loopStartBeat`, which is past the intro with `introOnce`.
+     */
     loopInfo: {
       loopStartBeat: number;
       loopEndBeat: number;
@@ -356,7 +601,8 @@ export type MotifCacheSource =
   | "template_cache"
   | "hook_reuse"
   | "base_reuse"
-  | "variation";
+  | "variation"
+  | "custom_hook";
 
 export interface MotifCacheDiagnostic {
   sectionId: string;
@@ -424,7 +670,8 @@ export type TheoryIssueCause =
   | "quantization"
   | "bass_generation"
   | "accompaniment_generation"
-  | "timeline_finalization";
+  | "timeline_finalization"
+  | "custom_rule";
 
 export interface TheoryNoteDiagnostic {
   startBeat: number;
@@ -480,6 +727,82 @@ export interface TheoryAuditDiagnostics {
   errors: TheoryIssueDiagnostic[];
 }
 
+/**
+ * A house rule checked by the theory audit alongside the built-in rules.
+ *
+ * `check` receives every reconstructed note (drums excluded) sorted by start beat and
+ * returns findings; each becomes a {@link TheoryIssueDiagnostic} with cause `"custom_rule"`.
+ */
+export interface TheoryAuditRule {
+  /** Rule id reported in `TheoryIssueDiagnostic.rule`; must not reuse a built-in id */
+  id: string;
+  /** Severity of the rule's findings (default "warning"); `severity` overrides take priority */
+  severity?: TheoryIssueSeverity;
+  check: (notes: readonly TheoryNoteDiagnostic[], context: TheoryRuleContext) => TheoryRuleFinding[];
+}
+
+export interface TheoryRuleContext {
+  beatsPerMeasure: number;
+  totalBeats: number;
+  /** Beat the loop wraps back to (past the intro with `introOnce`) */
+  loopStartBeat: number;
+  sections: Array<{ id: string; startBeat: number; endBeat: number }>;
+}
+
+export interface TheoryRuleFinding {
+  /** Notes involved; the first one places the issue in its measure and section */
+  notes: TheoryNoteDiagnostic[];
+  message: string;
+}
+
+/**
+ * Theory audit configuration.
+ *
+ * `severity` maps built-in or custom rule ids to a new severity, or to `"off"` to drop
+ * the rule's issues. Counters such as `collisionCounts` still count every detection.
+ */
+export interface TheoryAuditOptions {
+  rules?: TheoryAuditRule[];
+  severity?: Record<string, TheoryIssueSeverity | "off">;
+}
+
+export type TheoryRepairAction =
+  | "nudge_to_chord_tone"
+  | "swap_voicing"
+  | "shorten_sustain"
+  | "retarget_loop_tail"
+  | "resolve_to_tonic"
+  | "trim_release";
+
+/** One edit made by the theory repair pass */
+export interface TheoryRepairChange {
+  /** Audit rule of the error the edit fixed */
+  rule: string;
+  action: TheoryRepairAction;
+  /** Start beat of the edited note (the note-off beat for `trim_release`) */
+  beat: number;
+  channel: Channel;
+  role: TheoryNoteRole;
+  /** MIDI note for pitch edits, end beat for `shorten_sustain`, release seconds for `trim_release` */
+  before: number;
+  after: number;
+}
+
+/**
+ * Before/after changelog of the theory repair pass.
+ *
+ * `rules` counts audit errors per rule before and after the pass together with the edits
+ * made for it; `diagnostics.theoryAudit` describes the repaired timeline.
+ */
+export interface TheoryRepairDiagnostics {
+  errorsBefore: number;
+  errorsAfter: number;
+  warningsBefore: number;
+  warningsAfter: number;
+  rules: Record<string, { before: number; after: number; changes: number }>;
+  changes: TheoryRepairChange[];
+}
+
 export interface Diagnostics {
   voiceAllocation: Array<{
     time: number;
@@ -492,6 +815,10 @@ export interface Diagnostics {
   };
   loopIntegrity: LoopIntegrityDiagnostics;
   theoryAudit: TheoryAuditDiagnostics;
+  /** Present when the composition was generated with `theoryRepair: true` */
+  theoryRepair?: TheoryRepairDiagnostics;
+  /** Present on results of {@link generateBest} */
+  bestOf?: BestOfDiagnostics;
   motifUsage: {
     rhythm: Record<string, number>;
     melody: Record<string, number>;
@@ -554,13 +881,31 @@ export interface MelodyRhythmMotif {
   tags: string[];
 }
 
+/** Chord progressions per key (e.g. `"C_Major"`) and progression tag */
+export type ChordLibrary = Record<string, Record<string, string[][]>>;
+
+/**
+ * User-supplied motifs passed through {@link CompositionOptions.motifLibraries}.
+ * Every list is optional; omitted lists use the built-in motifs.
+ */
 export interface MotifLibraries {
-  chords: Record<string, Record<string, string[][]>>;
-  rhythm: RhythmMotif[];
-  melody: MelodyFragment[];
-  drums: DrumPattern[];
+  /** Chord progressions; keys must be ones the built-in library provides */
+  chords?: ChordLibrary;
+  rhythm?: RhythmMotif[];
+  melody?: MelodyFragment[];
+  melodyRhythm?: MelodyRhythmMotif[];
+  drums?: DrumPattern[];
+  bass?: BassPatternMotif[];
+  transitions?: TransitionMotif[];
 }
 
+/**
+ * How custom motifs combine with the built-in library.
+ * - `merge`: custom motifs are added; a matching id replaces the built-in motif
+ * - `replace`: each provided list replaces the built-in list
+ */
+export type MotifLibraryMode = "merge" | "replace";
+
 export interface RhythmMotif {
   id: string;
   length: number;
@@ -16,6 +16,7 @@ class NoiseProcessor extends AudioWorkletProcessor {
     this.amplitude = 0;
     this.envelope = 0;
     this.envelopeStep = 0;
+    this.released = true;
     this.currentSample = 1;
     this.filterState = 0;
     this.filterAlpha = 1;
@@ -50,6 +51,7 @@ class NoiseProcessor extends AudioWorkletProcessor {
         this.periodCounter = 0;
         this.envelope = this.amplitude;
         this.envelopeStep = this.amplitude / decaySamples;
+        this.released = false;
         this.releaseSamples = Math.max(1, event.releaseSamples ?? Math.round(0.02 * sampleRate));
         const cutoffHz = Math.max(100, Math.min(sampleRate / 2, event.cutoffHz ?? 6000));
         this.filterAlpha = 1 - Math.exp((-2 * Math.PI * cutoffHz) / sampleRate);
@@ -60,12 +62,18 @@ class NoiseProcessor extends AudioWorkletProcessor {
         if (this.envelope > 0) {
           this.envelopeStep = this.envelope / releaseSamples;
         }
+        this.released = true;
         break;
       }
       case "setParam":
         if (event.param === "mode") {
           this.mode = event.value === "long" ? "long" : "short";
         }
+        // Holds the level relative to the note's amplitude, replacing the decay
+        if (event.param === "volume" && typeof event.value === "number" && !this.released) {
+          this.envelope = this.amplitude * Math.min(1, Math.max(0, event.value));
+          this.envelopeStep = 0;
+        }
         if (event.param === "periodIndex" && typeof event.value === "number") {
           const index = Math.max(0, Math.min(NOISE_PERIOD_TABLE.length - 1, Math.round(event.value)));
           this.periodIndex = index;
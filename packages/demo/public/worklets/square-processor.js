@@ -8,6 +8,8 @@ class SquareProcessor extends AudioWorkletProcessor {
     this.sampleFrame = 0;
     this.eventQueue = [];
     this.amplitude = 0;
+    // Note level before the "volume" envelope is applied
+    this.noteAmplitude = 0;
     this.duty = 0.5;
     this.phase = 0;
     this.baseFrequency = 0;
@@ -50,6 +52,7 @@ class SquareProcessor extends AudioWorkletProcessor {
         this.baseFrequency = event.frequency || 0;
         this.currentFrequency = this.baseFrequency;
         this.amplitude = Math.min(MAX_AMPLITUDE, Math.max(0, event.amplitude ?? MAX_AMPLITUDE));
+        this.noteAmplitude = this.amplitude;
         if (typeof event.duty === "number") {
           this.duty = Math.min(0.99, Math.max(0.01, event.duty));
         }
@@ -75,6 +78,7 @@ class SquareProcessor extends AudioWorkletProcessor {
         break;
       case "noteOff":
         this.amplitude = 0;
+        this.noteAmplitude = 0;
         this.slide = null;
         this.sweepEnabled = false;
         this.sweepMuted = false;
@@ -103,6 +107,10 @@ class SquareProcessor extends AudioWorkletProcessor {
         if (event.param === "duty" && typeof event.value === "number") {
           this.duty = Math.min(0.99, Math.max(0.01, event.value));
         }
+        // Software envelope step, like a driver rewriting the 4-bit volume each frame
+        if (event.param === "volume" && typeof event.value === "number") {
+          this.amplitude = this.noteAmplitude * Math.min(1, Math.max(0, event.value));
+        }
         // Handle pitchBend for SE pitch sweeps; sweep unit takes priority when enabled
         if (event.param === "pitchBend" && typeof event.value === "number" && !this.sweepEnabled) {
           const targetFrequency = event.value;
@@ -0,0 +1,701 @@
+/**
+ * SE template editor page.
+ *
+ * Lets sound designers start from a built-in template, edit every `SETemplate` field,
+ * audition the result through `AudioSession.playSe` with different seeds and export the
+ * JSON for `SEGenerator.registerTemplates()`. A piano roll and a rendered waveform
+ * preview the generated `Event[]` as the form changes.
+ *
+ * The form is built from a field list: each input carries a dotted path into the template
+ * (`channelParams.square1.pitchStart.min`), so reading and writing the form are generic.
+ */
+
+import { renderEventsToPcm, SEGenerator } from "@algo-chip/core";
+import type { Channel, SETemplate } from "@algo-chip/core";
+import { createAudioSession } from "@algo-chip/util";
+import type {
+  AudioSession,
+  PlaybackEvent,
+  SEGenerationResult,
+} from "@algo-chip/util";
+
+// ============================================================================
+// Field Definitions
+// ============================================================================
+
+type FieldKind = "text" | "number" | "numberList" | "select" | "checkbox" | "choices";
+
+interface FieldSpec {
+  path: string;
+  label: string;
+  kind: FieldKind;
+  options?: readonly string[];
+  step?: number;
+}
+
+interface FieldGroup {
+  id: string;
+  legend: string;
+  fields: FieldSpec[];
+  /** Template key that is only written when the group's checkbox is on */
+  optionalKey?: "noteSequence" | "pitchSweep" | "hardwareSweep";
+  /** Channel whose parameters the group edits; shown while the channel is selected */
+  channel?: Channel;
+}
+
+const CHANNELS: readonly Channel[] = ["square1", "square2", "triangle", "noise"];
+const TAGS = ["bright", "soft", "heavy", "short", "long", "ui", "combat", "pickup", "retro"] as const;
+const ENVELOPES = ["", "percussive", "sustained", "pluck", "snap", "fade"] as const;
+const CURVES = ["linear", "exponential"] as const;
+
+function rangeFields(path: string, label: string, step: number, object: boolean): FieldSpec[] {
+  const [min, max] = object ? ["min", "max"] : ["0", "1"];
+  return [
+    { path: `${path}.${min}`, label: `${label} min`, kind: "number", step },
+    { path: `${path}.${max}`, label: `${label} max`, kind: "number", step },
+  ];
+}
+
+function channelGroup(channel: Channel): FieldGroup {
+  const fields: FieldSpec[] = [];
+  const base = `channelParams.${channel}`;
+  if (channel !== "noise") {
+    fields.push(...rangeFields(`${base}.pitchStart`, "Start pitch", 1, true));
+    fields.push(...rangeFields(`${base}.pitchEnd`, "End pitch", 1, true));
+  }
+  if (channel === "square1" || channel === "square2") {
+    fields.push({ path: `${base}.dutyCycle`, label: "Duty options (0.125-0.75)", kind: "numberList" });
+    fields.push(...rangeFields(`${base}.dutyCycleRange`, "Duty range", 0.005, true));
+  }
+  if (channel === "noise") {
+    fields.push({ path: `${base}.noiseMode`, label: "Noise mode", kind: "select", options: ["", "short", "long"] });
+  }
+  fields.push({ path: `${base}.envelope`, label: "Envelope", kind: "select", options: ENVELOPES });
+  fields.push(...rangeFields(`${base}.velocityRange`, "Velocity", 1, false));
+  fields.push(...rangeFields(`${base}.releaseRange`, "Release (s)", 0.005, false));
+  fields.push(...rangeFields(`${base}.startOffsetRange`, "Start offset (s)", 0.005, false));
+  return { id: `channel-${channel}`, legend: channel, fields, channel };
+}
+
+const FIELD_GROUPS: FieldGroup[] = [
+  {
+    id: "general",
+    legend: "Template",
+    fields: [
+      { path: "id", label: "Id", kind: "text" },
+      { path: "type", label: "Type (built-in or custom)", kind: "text" },
+      { path: "description", label: "Description", kind: "text" },
+      { path: "weight", label: "Weight", kind: "number", step: 0.1 },
+      ...rangeFields("durationRange", "Duration (s)", 0.005, false),
+      { path: "tags", label: "Tags", kind: "choices", options: TAGS },
+      { path: "channels", label: "Channels", kind: "choices", options: CHANNELS },
+    ],
+  },
+  ...CHANNELS.map(channelGroup),
+  {
+    id: "note-sequence",
+    legend: "Note sequence",
+    optionalKey: "noteSequence",
+    fields: [
+      { path: "noteSequence.intervals", label: "Intervals (semitones)", kind: "numberList" },
+      { path: "noteSequence.noteDurations", label: "Note durations (s)", kind: "numberList" },
+    ],
+  },
+  {
+    id: "pitch-sweep",
+    legend: "Pitch sweep",
+    optionalKey: "pitchSweep",
+    fields: [
+      { path: "pitchSweep.enabled", label: "Enabled", kind: "checkbox" },
+      { path: "pitchSweep.curveType", label: "Curve", kind: "select", options: ["", ...CURVES] },
+      ...rangeFields("pitchSweep.durationRange", "Sweep (s)", 0.005, false),
+      { path: "pitchSweep.curveOptions", label: "Curve options", kind: "choices", options: CURVES },
+      { path: "pitchSweep.curveWeights.linear", label: "Linear weight", kind: "number", step: 0.1 },
+      { path: "pitchSweep.curveWeights.exponential", label: "Exponential weight", kind: "number", step: 0.1 },
+    ],
+  },
+  {
+    id: "hardware-sweep",
+    legend: "Hardware sweep",
+    optionalKey: "hardwareSweep",
+    fields: [
+      { path: "hardwareSweep.enabled", label: "Enabled", kind: "checkbox" },
+      { path: "hardwareSweep.period", label: "Period (0-7)", kind: "number", step: 1 },
+      { path: "hardwareSweep.shift", label: "Shift (0-7)", kind: "number", step: 1 },
+      { path: "hardwareSweep.negate", label: "Negate (pitch rises)", kind: "checkbox" },
+    ],
+  },
+];
+
+const CHANNEL_COLORS: Record<Channel, string> = {
+  square1: "#5a9bff",
+  square2: "#b58cff",
+  triangle: "#4fd1a5",
+  noise: "#ffb454",
+};
+
+// ============================================================================
+// DOM Elements
+// ============================================================================
+const typeSelect = document.getElementById("type-select") as HTMLSelectElement;
+const templateSelect = document.getElementById("template-select") as HTMLSelectElement;
+const loadTemplateButton = document.getElementById("load-template-button") as HTMLButtonElement;
+const form = document.getElementById("template-form") as HTMLFormElement;
+const typeList = document.getElementById("se-types") as HTMLDataListElement;
+const seedInput = document.getElementById("seed-input") as HTMLInputElement;
+const playButton = document.getElementById("play-button") as HTMLButtonElement;
+const nextSeedButton = document.getElementById("next-seed-button") as HTMLButtonElement;
+const randomSeedButton = document.getElementById("random-seed-button") as HTMLButtonElement;
+const statusMessage = document.getElementById("status-message") as HTMLParagraphElement;
+const pianoRoll = document.getElementById("piano-roll") as HTMLCanvasElement;
+const waveform = document.getElementById("waveform") as HTMLCanvasElement;
+const jsonOutput = document.getElementById("json-output") as HTMLTextAreaElement;
+const copyJsonButton = document.getElementById("copy-json-button") as HTMLButtonElement;
+const downloadJsonButton = document.getElementById("download-json-button") as HTMLButtonElement;
+const importJsonButton = document.getElementById("import-json-button") as HTMLButtonElement;
+
+// ============================================================================
+// State
+// ============================================================================
+
+/** Built-in templates offered as starting points (edits are never registered here) */
+const library = new SEGenerator();
+let session: AudioSession | null = null;
+let previewTimer: number | null = null;
+
+// ============================================================================
+// Form Building
+// ============================================================================
+
+function buildForm(): void {
+  for (const group of FIELD_GROUPS) {
+    const fieldset = document.createElement("fieldset");
+    fieldset.dataset.group = group.id;
+    if (group.channel) {
+      fieldset.dataset.channel = group.channel;
+    }
+
+    const legend = document.createElement("legend");
+    if (group.optionalKey) {
+      const label = document.createElement("label");
+      const toggle = document.createElement("input");
+      toggle.type = "checkbox";
+      toggle.dataset.optional = group.optionalKey;
+      label.append(toggle, group.legend);
+      legend.append(label);
+    } else {
+      legend.textContent = group.legend;
+    }
+    fieldset.append(legend);
+
+    for (const field of group.fields) {
+      fieldset.append(createField(field));
+    }
+    form.append(fieldset);
+  }
+
+  for (const type of library.getTypes()) {
+    const option = document.createElement("option");
+    option.value = type;
+    typeList.append(option);
+  }
+}
+
+function createField(field: FieldSpec): HTMLElement {
+  if (field.kind === "choices") {
+    const container = document.createElement("div");
+    container.className = "choices";
+    container.dataset.path = field.path;
+    container.dataset.kind = field.kind;
+    const title = document.createElement("span");
+    title.className = "choices-title";
+    title.textContent = field.label;
+    container.append(title);
+    for (const option of field.options ?? []) {
+      const label = document.createElement("label");
+      const input = document.createElement("input");
+      input.type = "checkbox";
+      input.value = option;
+      label.append(input, option);
+      container.append(label);
+    }
+    return container;
+  }
+
+  const label = document.createElement("label");
+  label.textContent = field.label;
+  let input: HTMLInputElement | HTMLSelectElement;
+  if (field.kind === "select") {
+    input = document.createElement("select");
+    for (const option of field.options ?? []) {
+      const element = document.createElement("option");
+      element.value = option;
+      element.textContent = option || "(none)";
+      input.append(element);
+    }
+  } else {
+    input = document.createElement("input");
+    input.type = field.kind === "checkbox" ? "checkbox" : field.kind === "number" ? "number" : "text";
+    if (field.step !== undefined) {
+      input.step = String(field.step);
+    }
+    if (field.kind === "numberList") {
+      input.placeholder = "e.g. 0, 4, 7";
+    }
+    if (field.path === "type") {
+      input.setAttribute("list", "se-types");
+    }
+  }
+  input.dataset.path = field.path;
+  input.dataset.kind = field.kind;
+  label.append(input);
+  return label;
+}
+
+// ============================================================================
+// Form <-> Template
+// ============================================================================
+
+type JsonRecord = Record<string, unknown>;
+
+function getPath(source: unknown, path: string): unknown {
+  return path.split(".").reduce<unknown>((value, key) => {
+    if (value === null || typeof value !== "object") {
+      return undefined;
+    }
+    return (value as JsonRecord)[key];
+  }, source);
+}
+
+function setPath(target: JsonRecord, path: string, value: unknown): void {
+  const keys = path.split(".");
+  let node: JsonRecord = target;
+  keys.slice(0, -1).forEach((key, index) => {
+    if (node[key] === undefined) {
+      // Numeric keys address tuple ranges such as durationRange.0
+      node[key] = /^\d+$/.test(keys[index + 1]!) ? [] : {};
+    }
+    node = node[key] as JsonRecord;
+  });
+  node[keys[keys.length - 1]!] = value;
+}
+
+function fieldElements(): HTMLElement[] {
+  return Array.from(form.querySelectorAll<HTMLElement>("[data-path]"));
+}
+
+function isFieldActive(element: HTMLElement, channels: readonly string[]): boolean {
+  const fieldset = element.closest("fieldset");
+  if (!fieldset) {
+    return true;
+  }
+  if (fieldset.dataset.channel) {
+    return channels.includes(fieldset.dataset.channel);
+  }
+  const toggle = fieldset.querySelector<HTMLInputElement>("[data-optional]");
+  return !toggle || toggle.checked;
+}
+
+function readValue(element: HTMLElement): unknown {
+  const kind = element.dataset.kind as FieldKind;
+  if (kind === "choices") {
+    const checked = Array.from(element.querySelectorAll<HTMLInputElement>("input:checked"));
+    return checked.length ? checked.map((input) => input.value) : undefined;
+  }
+  const input = element as HTMLInputElement | HTMLSelectElement;
+  switch (kind) {
+    case "checkbox":
+      return (input as HTMLInputElement).checked;
+    case "number":
+      return input.value === "" ? undefined : Number(input.value);
+    case "numberList": {
+      const items = input.value.split(/[,\s]+/).filter(Boolean);
+      return items.length ? items.map(Number) : undefined;
+    }
+    default:
+      return input.value === "" ? undefined : input.value;
+  }
+}
+
+/** Builds a template from the form; unset fields and hidden groups are left out */
+function readForm(): SETemplate {
+  const channels = (readValue(form.querySelector<HTMLElement>('[data-path="channels"]')!) as string[]) ?? [];
+  const template: JsonRecord = {};
+  for (const element of fieldElements()) {
+    if (!isFieldActive(element, channels)) {
+      continue;
+    }
+    const value = readValue(element);
+    if (value !== undefined) {
+      setPath(template, element.dataset.path!, value);
+    }
+  }
+  for (const channel of channels) {
+    // A channel without parameters still needs its entry
+    setPath(template, `channelParams.${channel}`, getPath(template, `channelParams.${channel}`) ?? {});
+  }
+  form.querySelectorAll<HTMLInputElement>("[data-optional]").forEach((toggle) => {
+    const key = toggle.dataset.optional!;
+    if (toggle.checked && template[key] === undefined) {
+      template[key] = {};
+    }
+  });
+  return template as unknown as SETemplate;
+}
+
+function writeForm(template: SETemplate): void {
+  for (const element of fieldElements()) {
+    const value = getPath(template, element.dataset.path!);
+    const kind = element.dataset.kind as FieldKind;
+    if (kind === "choices") {
+      const selected = Array.isArray(value) ? value : [];
+      element.querySelectorAll<HTMLInputElement>("input").forEach((input) => {
+        input.checked = selected.includes(input.value);
+      });
+    } else if (kind === "checkbox") {
+      (element as HTMLInputElement).checked = value === true;
+    } else {
+      const input = element as HTMLInputElement | HTMLSelectElement;
+      input.value = Array.isArray(value) ? value.join(", ") : value === undefined ? "" : String(value);
+    }
+  }
+  form.querySelectorAll<HTMLInputElement>("[data-optional]").forEach((toggle) => {
+    toggle.checked = getPath(template, toggle.dataset.optional!) !== undefined;
+  });
+  syncGroupVisibility();
+}
+
+function syncGroupVisibility(): void {
+  const channels = (readValue(form.querySelector<HTMLElement>('[data-path="channels"]')!) as string[]) ?? [];
+  form.querySelectorAll<HTMLFieldSetElement>("fieldset[data-channel]").forEach((fieldset) => {
+    fieldset.hidden = !channels.includes(fieldset.dataset.channel!);
+  });
+}
+
+// ============================================================================
+// Template Selection
+// ============================================================================
+
+function populateTypes(): void {
+  for (const type of library.getTypes()) {
+    const option = document.createElement("option");
+    option.value = type;
+    option.textContent = type;
+    typeSelect.append(option);
+  }
+  populateTemplates();
+}
+
+function populateTemplates(): void {
+  templateSelect.replaceChildren();
+  for (const template of library.getTemplates(typeSelect.value)) {
+    const option = document.createElement("option");
+    option.value = template.id;
+    option.textContent = `${template.id} - ${template.description}`;
+    templateSelect.append(option);
+  }
+}
+
+function loadSelectedTemplate(): void {
+  const template = library.getTemplates(typeSelect.value).find(({ id }) => id === templateSelect.value);
+  if (!template) {
+    return;
+  }
+  writeForm(template);
+  schedulePreview();
+  updateStatus(`Loaded ${template.id}`);
+}
+
+// ============================================================================
+// Generation, Audition and Preview
+// ============================================================================
+
+/**
+ * Validates the edited template and generates it with the current seed.
+ *
+ * @throws Error from template validation, naming the invalid field
+ */
+function generateWith(generator: Pick<SEGenerator, "generateSE" | "registerTemplates">): {
+  template: SETemplate;
+  result: SEGenerationResult;
+} {
+  const template = readForm();
+  generator.registerTemplates([template]);
+  const result = generator.generateSE({
+    type: template.type,
+    templateId: template.id,
+    seed: currentSeed(),
+  });
+  return { template, result };
+}
+
+function refreshPreview(): void {
+  previewTimer = null;
+  try {
+    // A fresh generator per preview keeps earlier edits out of the library
+    const { template, result } = generateWith(new SEGenerator());
+    jsonOutput.value = JSON.stringify(template, null, 2);
+    drawPianoRoll(result.events);
+    drawWaveform(result.events);
+    updateStatus(`${template.id}: ${result.meta.duration.toFixed(3)}s on ${result.meta.channels.join(", ")}`);
+  } catch (error) {
+    jsonOutput.value = JSON.stringify(readForm(), null, 2);
+    updateStatus(error instanceof Error ? error.message : String(error), true);
+  }
+}
+
+function schedulePreview(): void {
+  if (previewTimer !== null) {
+    window.clearTimeout(previewTimer);
+  }
+  previewTimer = window.setTimeout(refreshPreview, 150);
+}
+
+async function audition(): Promise<void> {
+  try {
+    session ??= createAudioSession();
+    session.resumeAudioContext();
+    const { result } = generateWith({
+      generateSE: (options) => session!.generateSe(options),
+      registerTemplates: (templates) => session!.registerSeTemplates(templates),
+    });
+    drawPianoRoll(result.events);
+    drawWaveform(result.events);
+    updateStatus(`Playing seed ${result.meta.seed}`);
+    await session.playSe(result, { duckingDb: 0 });
+  } catch (error) {
+    console.error("Audition failed:", error);
+    updateStatus(error instanceof Error ? error.message : String(error), true);
+  }
+}
+
+function currentSeed(): number {
+  const seed = Math.floor(Number(seedInput.value));
+  return Number.isFinite(seed) && seed >= 0 ? seed : 0;
+}
+
+function setSeed(seed: number): void {
+  seedInput.value = String(seed);
+  void audition();
+}
+
+// ============================================================================
+// Drawing
+// ============================================================================
+
+function prepareCanvas(canvas: HTMLCanvasElement): { ctx: CanvasRenderingContext2D; width: number; height: number } | null {
+  const rect = canvas.getBoundingClientRect();
+  const dpr = window.devicePixelRatio || 1;
+  canvas.width = rect.width * dpr;
+  canvas.height = rect.height * dpr;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) {
+    return null;
+  }
+  ctx.scale(dpr, dpr);
+  ctx.clearRect(0, 0, rect.width, rect.height);
+  return { ctx, width: rect.width, height: rect.height };
+}
+
+interface PitchSegment {
+  channel: Channel;
+  points: Array<{ time: number; midi: number }>;
+  velocity: number;
+}
+
+/** Follows noteOn / pitchBend / noteOff per channel into pitch polylines */
+function collectSegments(events: PlaybackEvent[]): PitchSegment[] {
+  const segments: PitchSegment[] = [];
+  const open = new Map<Channel, PitchSegment>();
+  const start = events.length ? events[0]!.time : 0;
+
+  for (const event of events) {
+    const data = event.data as Record<string, unknown>;
+    const time = event.time - start;
+    const current = open.get(event.channel);
+    if (event.command === "noteOn") {
+      const midi = typeof data.midi === "number" ? data.midi : 40;
+      const segment: PitchSegment = {
+        channel: event.channel,
+        points: [{ time, midi }],
+        velocity: typeof data.velocity === "number" ? data.velocity : 100,
+      };
+      segments.push(segment);
+      open.set(event.channel, segment);
+    } else if (event.command === "noteOff" && current) {
+      current.points.push({ time, midi: current.points.at(-1)!.midi });
+      open.delete(event.channel);
+    } else if (event.command === "setParam" && current && data.param === "pitchBend" && typeof data.value === "number") {
+      const ramp = typeof data.rampDuration === "number" ? data.rampDuration : 0;
+      current.points.push({ time, midi: current.points.at(-1)!.midi });
+      current.points.push({ time: time + ramp, midi: data.value });
+    }
+  }
+  return segments;
+}
+
+function drawPianoRoll(events: PlaybackEvent[]): void {
+  const canvas = prepareCanvas(pianoRoll);
+  if (!canvas || !events.length) {
+    return;
+  }
+  const { ctx, width, height } = canvas;
+  const segments = collectSegments(events);
+  const duration = Math.max(0.05, ...segments.flatMap((segment) => segment.points.map((point) => point.time)));
+  const pitched = segments.filter((segment) => segment.channel !== "noise");
+  const midis = pitched.flatMap((segment) => segment.points.map((point) => point.midi));
+  const low = Math.floor((midis.length ? Math.min(...midis) : 48) - 2);
+  const high = Math.ceil((midis.length ? Math.max(...midis) : 72) + 2);
+  const noiseLane = 24;
+  const rollHeight = height - noiseLane;
+  const x = (time: number) => (time / duration) * (width - 8) + 4;
+  const y = (midi: number) => rollHeight - ((midi - low) / Math.max(1, high - low)) * (rollHeight - 8) - 4;
+
+  // Octave lines
+  ctx.strokeStyle = "rgba(255, 255, 255, 0.08)";
+  ctx.fillStyle = "rgba(255, 255, 255, 0.35)";
+  ctx.font = "10px sans-serif";
+  for (let midi = Math.ceil(low / 12) * 12; midi <= high; midi += 12) {
+    ctx.beginPath();
+    ctx.moveTo(0, y(midi));
+    ctx.lineTo(width, y(midi));
+    ctx.stroke();
+    ctx.fillText(`C${midi / 12 - 1}`, 4, y(midi) - 2);
+  }
+
+  for (const segment of segments) {
+    ctx.strokeStyle = CHANNEL_COLORS[segment.channel];
+    ctx.fillStyle = CHANNEL_COLORS[segment.channel];
+    ctx.globalAlpha = 0.4 + (segment.velocity / 127) * 0.6;
+    const first = segment.points[0]!;
+    const last = segment.points.at(-1)!;
+    if (segment.channel === "noise") {
+      ctx.fillRect(x(first.time), rollHeight + 4, Math.max(2, x(last.time) - x(first.time)), noiseLane - 8);
+      continue;
+    }
+    ctx.lineWidth = 4;
+    ctx.beginPath();
+    segment.points.forEach((point, index) => {
+      if (index === 0) {
+        ctx.moveTo(x(point.time), y(point.midi));
+      } else {
+        ctx.lineTo(x(point.time), y(point.midi));
+      }
+    });
+    if (segment.points.length === 1) {
+      ctx.lineTo(x(first.time) + 3, y(first.midi));
+    }
+    ctx.stroke();
+  }
+  ctx.globalAlpha = 1;
+}
+
+function drawWaveform(events: PlaybackEvent[]): void {
+  const canvas = prepareCanvas(waveform);
+  if (!canvas || !events.length) {
+    return;
+  }
+  const { ctx, width, height } = canvas;
+  const start = events[0]!.time;
+  const samples = renderEventsToPcm(
+    events.map((event) => ({ ...event, time: event.time - start })),
+    { sampleRate: 22_050, tailSeconds: 0.05 }
+  );
+  const perPixel = Math.max(1, Math.floor(samples.length / width));
+  const middle = height / 2;
+
+  ctx.strokeStyle = "rgba(255, 255, 255, 0.15)";
+  ctx.beginPath();
+  ctx.moveTo(0, middle);
+  ctx.lineTo(width, middle);
+  ctx.stroke();
+
+  ctx.fillStyle = "#5a9bff";
+  for (let column = 0; column < width; column++) {
+    let min = 0;
+    let max = 0;
+    const from = column * perPixel;
+    for (let index = from; index < Math.min(samples.length, from + perPixel); index++) {
+      min = Math.min(min, samples[index]!);
+      max = Math.max(max, samples[index]!);
+    }
+    ctx.fillRect(column, middle - max * middle, 1, Math.max(1, (max - min) * middle));
+  }
+}
+
+// ============================================================================
+// JSON Export / Import
+// ============================================================================
+
+async function copyJson(): Promise<void> {
+  try {
+    await navigator.clipboard.writeText(jsonOutput.value);
+    updateStatus("Template JSON copied");
+  } catch (error) {
+    console.error("Failed to copy template JSON:", error);
+    updateStatus("Failed to copy template JSON", true);
+  }
+}
+
+function downloadJson(): void {
+  const template = readForm();
+  const blob = new Blob([JSON.stringify({ templates: [template] }, null, 2)], { type: "application/json" });
+  const link = document.createElement("a");
+  link.href = URL.createObjectURL(blob);
+  link.download = `${template.id || "se-template"}.json`;
+  link.click();
+  URL.revokeObjectURL(link.href);
+}
+
+function importJson(): void {
+  try {
+    const parsed = JSON.parse(jsonOutput.value) as SETemplate | { templates: SETemplate[] };
+    const template = "templates" in parsed ? parsed.templates[0] : parsed;
+    if (!template) {
+      throw new Error("No template found in the JSON");
+    }
+    writeForm(template);
+    refreshPreview();
+  } catch (error) {
+    updateStatus(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`, true);
+  }
+}
+
+// ============================================================================
+// UI Updates
+// ============================================================================
+
+function updateStatus(message: string, isError = false): void {
+  statusMessage.textContent = message;
+  statusMessage.classList.toggle("error", isError);
+}
+
+// ============================================================================
+// Event Listeners
+// ============================================================================
+typeSelect.addEventListener("change", () => {
+  populateTemplates();
+  loadSelectedTemplate();
+});
+templateSelect.addEventListener("change", () => loadSelectedTemplate());
+loadTemplateButton.addEventListener("click", () => loadSelectedTemplate());
+form.addEventListener("input", () => {
+  syncGroupVisibility();
+  schedulePreview();
+});
+form.addEventListener("submit", (event) => event.preventDefault());
+seedInput.addEventListener("change", () => schedulePreview());
+playButton.addEventListener("click", () => void audition());
+nextSeedButton.addEventListener("click", () => setSeed(currentSeed() + 1));
+randomSeedButton.addEventListener("click", () => setSeed(Math.floor(Math.random() * 1e6)));
+copyJsonButton.addEventListener("click", () => void copyJson());
+downloadJsonButton.addEventListener("click", () => downloadJson());
+importJsonButton.addEventListener("click", () => importJson());
+window.addEventListener("resize", () => schedulePreview());
+
+// ============================================================================
+// Initialization
+// ============================================================================
+buildForm();
+populateTypes();
+loadSelectedTemplate();
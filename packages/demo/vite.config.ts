@@ -7,7 +7,10 @@ export default defineConfig({
     outDir: "dist",
     emptyOutDir: true,
     rollupOptions: {
-      input: resolve(__dirname, "index.html"),
+      input: {
+        main: resolve(__dirname, "index.html"),
+        seEditor: resolve(__dirname, "se-editor.html"),
+      },
     },
   },
   resolve: {
@@ -7,12 +7,14 @@
 
 import {
   generateComposition,
+  createTransitionFill,
   SEGenerator,
   AlgoChipSynthesizer,
 } from "@algo-chip/core";
 
 import type {
   ActiveTimeline,
+  BgmIntensityOptions,
   CompositionOptions,
   CreateSessionOptions,
   AudioSession,
@@ -26,9 +28,22 @@ import type {
   SynthPlayOptions,
   SEGenerationOptions,
   SEGenerationResult,
+  SETemplate,
+  PlaybackEvent,
+  QuantizedSEOptions,
+  TransitionBgmOptions,
 } from "./types.js";
 
-import { SoundEffectController } from "./playback.js";
+import {
+  SoundEffectController,
+  createTimelineClock,
+  nextSectionBoundary,
+  quantizeStart,
+  tempoAtTime,
+  wrapLoopBeat,
+  wrapLoopSeconds,
+} from "./playback.js";
+import { isEventAudible, resolveLayerStates, type LayerStates } from "./layers.js";
 
 // Default configuration values
 
@@ -50,6 +65,35 @@ const DEFAULT_LEAD_TIME = 0.2;
 /** Default lookahead window for scheduling (seconds). */
 const DEFAULT_LOOKAHEAD = 0.1;
 
+/** Default boundary for BGM intensity changes. */
+const DEFAULT_INTENSITY_QUANTIZE: QuantizedSEOptions = {
+  quantizeTo: "measure",
+  phase: "next",
+};
+
+/** Beats per measure assumed for timelines without meter metadata. */
+const BEATS_PER_MEASURE = 4;
+
+/** Gain ramp used to avoid clicks when a track is cut (seconds). */
+const CUT_RAMP_SECONDS = 0.01;
+
+/** BGM switch in progress between two synthesizers. */
+interface BgmTransition {
+  outgoing: SessionSynthesizer;
+  outgoingTimeline: ActiveTimeline;
+  incoming: SessionSynthesizer;
+  incomingTimeline: ActiveTimeline;
+  incomingResult: PipelineResult;
+  incomingOptions: PlayBgmOptions;
+  /** Outgoing noise events from this time on are replaced by the fill */
+  fillStart: number | null;
+  /** Volume set while the tracks fade; applied once the fade completes */
+  pendingVolume: number | null;
+  switched: boolean;
+  timers: Array<ReturnType<typeof setTimeout>>;
+  resolve: () => void;
+}
+
 /**
  * Internal implementation of the AudioSession interface.
  *
@@ -61,7 +105,13 @@ const DEFAULT_LOOKAHEAD = 0.1;
  */
 export type SessionSynthesizer = Pick<
   AlgoChipSynthesizer,
-  "init" | "play" | "playLoop" | "stop" | "masterGain"
+  | "init"
+  | "play"
+  | "playLoop"
+  | "stop"
+  | "masterGain"
+  | "setEventFilter"
+  | "scheduleOverlay"
 >;
 
 export type SessionSoundEffectController = Pick<
@@ -76,7 +126,7 @@ export interface AudioSessionDependencies {
     context: AudioContext,
     options: { workletBasePath: string; gainNode?: GainNode }
   ): SessionSynthesizer;
-  createSeGenerator(): Pick<SEGenerator, "generateSE">;
+  createSeGenerator(templates?: SETemplate[]): Pick<SEGenerator, "generateSE" | "registerTemplates">;
   createSoundEffectController(
     context: AudioContext,
     seSynth: SessionSynthesizer,
@@ -95,7 +145,7 @@ const DEFAULT_DEPENDENCIES: AudioSessionDependencies = {
     }),
   createSynthesizer: (context, options) =>
     new AlgoChipSynthesizer(context, options),
-  createSeGenerator: () => new SEGenerator(),
+  createSeGenerator: (templates) => new SEGenerator({ templates }),
   createSoundEffectController: (
     context,
     seSynth,
@@ -119,11 +169,19 @@ export class AudioSessionImpl implements AudioSession {
   private readonly gainNode: GainNode | null;
 
   private bgmSynth: SessionSynthesizer | null = null;
+  /** Second BGM synthesizer used as the incoming side of transitions */
+  private standbySynth: SessionSynthesizer | null = null;
+  private transition: BgmTransition | null = null;
+  /**
+   * Shared output of both BGM synthesizers. SE ducking automates this gain, so it
+   * never overwrites the fades of a transition on the synths' master gains.
+   */
+  private bgmBus: GainNode | null = null;
   private seSynth: SessionSynthesizer | null = null;
   private bgmGainBase = 1.0;
   private seGainBase = 1.0;
 
-  private readonly seGenerator: Pick<SEGenerator, "generateSE">;
+  private readonly seGenerator: Pick<SEGenerator, "generateSE" | "registerTemplates">;
   private seDefaults: SePlaybackDefaults;
   private soundEffectController: SessionSoundEffectController | null = null;
 
@@ -132,6 +190,16 @@ export class AudioSessionImpl implements AudioSession {
   private bgmVolume: number;
   private pausedOffsetSeconds: number | null = null;
   private lastPlayOptions: PlayBgmOptions | null = null;
+  private bgmIntensity = 1.0;
+  /** Intensity changes in AudioContext time; the last entry at or before an event applies */
+  private intensityChanges: Array<{ time: number; intensity: number }> = [
+    { time: -Infinity, intensity: 1.0 },
+  ];
+  private layerCache: {
+    meta: unknown;
+    intensity: number;
+    states: LayerStates;
+  } | null = null;
 
   /**
    * Creates a new AudioSessionImpl instance.
@@ -157,7 +225,7 @@ export class AudioSessionImpl implements AudioSession {
       ...(options.seDefaults ?? {}),
     };
     this.bgmVolume = Math.max(0, options.bgmVolume ?? 1.0);
-    this.seGenerator = dependencies.createSeGenerator();
+    this.seGenerator = dependencies.createSeGenerator(options.seTemplates);
   }
 
   /**
@@ -197,8 +265,9 @@ export class AudioSessionImpl implements AudioSession {
     options: PlayBgmOptions = {}
   ): Promise<void> {
     const ctx = await this.ensureReady();
+    this.cancelTransition();
 
-    const loop = options.loop ?? true;
+    const loop = options.loop ?? result.meta.form !== "oneShot";
     const offset = Math.max(0, options.offset ?? 0);
     const leadTime = options.leadTime ?? DEFAULT_LEAD_TIME;
     const lookahead = options.lookahead ?? DEFAULT_LOOKAHEAD;
@@ -216,6 +285,7 @@ export class AudioSessionImpl implements AudioSession {
     const synthOptions: SynthPlayOptions = {
       startTime,
       offset,
+      loopStart: result.meta.loopInfo?.loopStartTime ?? 0,
       leadTime,
       lookahead,
       volume,
@@ -234,6 +304,8 @@ export class AudioSessionImpl implements AudioSession {
     delete storedOptions.startTime;
     this.lastPlayOptions = storedOptions;
     this.pausedOffsetSeconds = null;
+    // Pending changes were aligned to the previous timeline's grid
+    this.intensityChanges = [{ time: -Infinity, intensity: this.bgmIntensity }];
 
     if (loop) {
       this.bgmSynth!.playLoop(result.events, synthOptions);
@@ -244,10 +316,149 @@ export class AudioSessionImpl implements AudioSession {
     }
   }
 
+  /**
+   * Switches to another composition at a musical boundary of the current one.
+   *
+   * @param next - Composition to switch to.
+   * @param options - Transition mode, boundary, and new track playback options.
+   * @returns Promise resolving when the new track becomes audible.
+   */
+  async transitionBgm(
+    next: PipelineResult,
+    options: TransitionBgmOptions = {}
+  ): Promise<void> {
+    const ctx = await this.ensureReady();
+    this.completeTransition();
+
+    const loop = options.loop ?? next.meta.form !== "oneShot";
+    const volume = Math.max(
+      0,
+      options.volume ?? this.lastPlayOptions?.volume ?? this.bgmVolume
+    );
+    const current = this.activeTimeline;
+    if (!current) {
+      await this.playBgm(next, { loop, volume, onEvent: options.onEvent });
+      return;
+    }
+
+    await this.ensureStandbySynth(ctx);
+    const outgoing = this.bgmSynth!;
+    const incoming = this.standbySynth!;
+    const mode = options.mode ?? "crossfade";
+    const lookahead = this.lastPlayOptions?.lookahead ?? DEFAULT_LOOKAHEAD;
+    // Measures and fills follow the tempo playing now, not the composition's opening tempo
+    const bpm = tempoAtTime(current, ctx.currentTime + lookahead);
+    const measureSeconds =
+      ((current.meta.beatsPerMeasure ?? BEATS_PER_MEASURE) * 60) / bpm;
+
+    const fill =
+      mode === "fill"
+        ? createTransitionFill({
+            bpm,
+            id: options.fillId,
+            tags: options.fillTags,
+          })
+        : null;
+
+    // The fill has to fit between now and the boundary
+    const earliest =
+      ctx.currentTime + lookahead + (fill?.durationSeconds ?? 0);
+    const at = options.at ?? "measure";
+    const switchTime =
+      (at === "section"
+        ? nextSectionBoundary(current, earliest)
+        : quantizeStart(current, { quantizeTo: at, phase: "next" }, earliest)) ??
+      earliest;
+    const fadeSeconds =
+      mode === "crossfade"
+        ? Math.max(CUT_RAMP_SECONDS, options.fadeSeconds ?? measureSeconds)
+        : CUT_RAMP_SECONDS;
+
+    let offset = 0;
+    if (options.keepPosition) {
+      // Carry the beat position over so tracks with different tempo maps stay in step
+      const elapsed = Math.max(0, switchTime - current.startTime);
+      const beat = createTimelineClock(current.meta, current.loop).toBeat(elapsed);
+      offset = createTimelineClock(next.meta, false).toSeconds(wrapLoopBeat(next.meta, beat));
+    }
+
+    const incomingOptions: PlayBgmOptions = {
+      ...(this.lastPlayOptions ?? {}),
+      loop,
+      offset,
+      volume,
+      onEvent: options.onEvent,
+    };
+    const incomingTimeline: ActiveTimeline = {
+      startTime: switchTime - offset,
+      loop,
+      meta: next.meta,
+    };
+
+    return new Promise<void>((resolve) => {
+      const transition: BgmTransition = {
+        outgoing,
+        outgoingTimeline: current,
+        incoming,
+        incomingTimeline,
+        incomingResult: next,
+        incomingOptions,
+        fillStart: fill ? switchTime - fill.durationSeconds : null,
+        pendingVolume: null,
+        switched: false,
+        timers: [],
+        resolve,
+      };
+      this.transition = transition;
+
+      const synthOptions: SynthPlayOptions = {
+        startTime: switchTime,
+        offset,
+        loopStart: next.meta.loopInfo?.loopStartTime ?? 0,
+        leadTime: incomingOptions.leadTime,
+        lookahead: incomingOptions.lookahead,
+        volume,
+        onEvent: options.onEvent,
+      };
+      if (loop) {
+        incoming.playLoop(next.events, synthOptions);
+      } else {
+        void incoming.play(next.events, synthOptions).catch((error) => {
+          console.error("BGM playback error:", error);
+        });
+      }
+
+      const targetGain = this.bgmGainBase * volume;
+      const incomingGain = incoming.masterGain.gain;
+      incomingGain.cancelScheduledValues(ctx.currentTime);
+      incomingGain.setValueAtTime(0, ctx.currentTime);
+      incomingGain.setValueAtTime(0, switchTime);
+      incomingGain.linearRampToValueAtTime(targetGain, switchTime + fadeSeconds);
+
+      const outgoingGain = outgoing.masterGain.gain;
+      outgoingGain.cancelScheduledValues(ctx.currentTime);
+      outgoingGain.setValueAtTime(outgoingGain.value, ctx.currentTime);
+      outgoingGain.setValueAtTime(outgoingGain.value, switchTime);
+      outgoingGain.linearRampToValueAtTime(0, switchTime + fadeSeconds);
+
+      if (fill) {
+        outgoing.scheduleOverlay(fill.events, transition.fillStart!);
+      }
+
+      transition.timers.push(
+        this.scheduleAt(ctx, switchTime, () => this.switchTransition(transition)),
+        this.scheduleAt(ctx, switchTime + fadeSeconds, () =>
+          this.finishTransition(transition)
+        )
+      );
+    });
+  }
+
   /**
    * Stops the currently playing background music and resets ducking.
    */
   stopBgm(): void {
+    this.cancelTransition();
     this.bgmSynth?.stop();
     this.soundEffectController?.resetDucking();
     this.activeTimeline = null;
@@ -278,14 +489,14 @@ export class AudioSessionImpl implements AudioSession {
       const ctx = this.context;
       if (timeline && ctx) {
         const elapsed = Math.max(0, ctx.currentTime - timeline.startTime);
-        const totalDuration = timeline.meta?.loopInfo?.totalDuration ?? 0;
-        const offset = totalDuration > 0 ? elapsed % totalDuration : elapsed;
-        this.pausedOffsetSeconds = offset;
+        // Resuming from this offset continues the same lap, after any intro
+        this.pausedOffsetSeconds = wrapLoopSeconds(timeline.meta, elapsed);
       } else {
         this.pausedOffsetSeconds = null;
       }
     }
 
+    this.cancelTransition();
     this.bgmSynth?.stop();
     this.soundEffectController?.resetDucking();
     this.activeTimeline = null;
@@ -330,6 +541,11 @@ export class AudioSessionImpl implements AudioSession {
   setBgmVolume(volume: number): void {
     const clamped = Math.max(0, volume);
     this.bgmVolume = clamped;
+    if (this.transition) {
+      // Setting the gain now would cut both fades short
+      this.transition.pendingVolume = clamped;
+      return;
+    }
     if (this.bgmSynth && this.context) {
       const gainNode = this.bgmSynth.masterGain;
       gainNode.gain.setValueAtTime(
@@ -339,6 +555,54 @@ export class AudioSessionImpl implements AudioSession {
     }
   }
 
+  /**
+   * Sets the adaptive BGM intensity (0–1).
+   *
+   * @param intensity - Target intensity, clamped to 0.0-1.0 (1.0 = every voice).
+   * @param options - Boundary quantization (default: next measure).
+   * @returns AudioContext time the change takes effect, or null when no BGM is playing.
+   */
+  setBgmIntensity(
+    intensity: number,
+    options: BgmIntensityOptions = {}
+  ): number | null {
+    const clamped = Math.max(0, Math.min(1, intensity));
+    this.bgmIntensity = clamped;
+
+    const timeline = this.activeTimeline;
+    const ctx = this.context;
+    if (!timeline || !ctx) {
+      this.intensityChanges = [{ time: -Infinity, intensity: clamped }];
+      return null;
+    }
+
+    // Events inside the synth lookahead are already scheduled
+    const lookahead = this.lastPlayOptions?.lookahead ?? DEFAULT_LOOKAHEAD;
+    const earliest = ctx.currentTime + lookahead;
+    const quantize = options.quantize ?? DEFAULT_INTENSITY_QUANTIZE;
+    const time = quantizeStart(timeline, quantize, earliest) ?? earliest;
+
+    // Pending changes at or after the new boundary are superseded
+    const current = this.resolveIntensityAt(ctx.currentTime);
+    this.intensityChanges = [
+      { time: -Infinity, intensity: current },
+      ...this.intensityChanges.filter(
+        (change) => change.time > ctx.currentTime && change.time < time
+      ),
+      { time, intensity: clamped },
+    ];
+    return time;
+  }
+
+  /**
+   * Gets the most recently requested BGM intensity.
+   *
+   * @returns Intensity in 0.0-1.0 (1.0 by default).
+   */
+  getBgmIntensity(): number {
+    return this.bgmIntensity;
+  }
+
   /**
    * Configures default settings for sound effect playback.
    *
@@ -371,6 +635,15 @@ export class AudioSessionImpl implements AudioSession {
     return this.seGenerator.generateSE(options);
   }
 
+  /**
+   * Registers custom SE templates with the session's generator.
+   *
+   * @param templates - Templates to add; an existing id is replaced.
+   */
+  registerSeTemplates(templates: SETemplate[]): void {
+    this.seGenerator.registerTemplates(templates);
+  }
+
   /**
    * Plays a generated sound effect.
    *
@@ -468,7 +741,9 @@ export class AudioSessionImpl implements AudioSession {
       });
     }
     this.context = null;
+    this.bgmBus = null;
     this.bgmSynth = null;
+    this.standbySynth = null;
     this.seSynth = null;
     this.soundEffectController = null;
     this.activeTimeline = null;
@@ -517,11 +792,9 @@ export class AudioSessionImpl implements AudioSession {
     if (this.bgmSynth) {
       return;
     }
-    this.bgmSynth = this.dependencies.createSynthesizer(ctx, {
-      workletBasePath: this.workletBasePath,
-      gainNode: this.gainNode ?? undefined,
-    });
-    await this.bgmSynth.init();
+    this.bgmBus = ctx.createGain();
+    this.bgmBus.connect(this.gainNode ?? ctx.destination);
+    this.bgmSynth = await this.createBgmSynth(ctx);
     this.bgmGainBase = this.bgmSynth.masterGain.gain.value;
     // Apply current volume preference after init
     this.bgmSynth.masterGain.gain.setValueAtTime(
@@ -530,6 +803,189 @@ export class AudioSessionImpl implements AudioSession {
     );
   }
 
+  /**
+   * Ensures the standby BGM synthesizer used by transitions is initialized.
+   *
+   * @param ctx - The AudioContext to use.
+   */
+  private async ensureStandbySynth(ctx: AudioContext): Promise<void> {
+    if (this.standbySynth) {
+      return;
+    }
+    this.standbySynth = await this.createBgmSynth(ctx);
+  }
+
+  /**
+   * Creates and initializes a BGM synthesizer with the layer filter installed.
+   *
+   * @param ctx - The AudioContext to use.
+   */
+  private async createBgmSynth(ctx: AudioContext): Promise<SessionSynthesizer> {
+    const synth = this.dependencies.createSynthesizer(ctx, {
+      workletBasePath: this.workletBasePath,
+      gainNode: this.bgmBus ?? undefined,
+    });
+    await synth.init();
+    synth.setEventFilter((event, when) =>
+      this.filterBgmEvent(synth, event, when)
+    );
+    return synth;
+  }
+
+  /**
+   * Runs a callback once the AudioContext reaches a time.
+   *
+   * @param ctx - The AudioContext providing the clock.
+   * @param time - Absolute AudioContext time.
+   * @param callback - Callback to run.
+   */
+  private scheduleAt(
+    ctx: AudioContext,
+    time: number,
+    callback: () => void
+  ): ReturnType<typeof setTimeout> {
+    const delayMs = Math.max(0, (time - ctx.currentTime) * 1000);
+    return setTimeout(callback, delayMs);
+  }
+
+  /**
+   * Makes the incoming track of a transition the active BGM.
+   *
+   * @param transition - Transition reaching its switch time.
+   */
+  private switchTransition(transition: BgmTransition): void {
+    if (this.transition !== transition || transition.switched) {
+      return;
+    }
+    transition.switched = true;
+    this.bgmSynth = transition.incoming;
+    this.standbySynth = transition.outgoing;
+    this.activeTimeline = transition.incomingTimeline;
+    this.lastBgm = transition.incomingResult;
+    this.lastPlayOptions = transition.incomingOptions;
+    this.pausedOffsetSeconds = null;
+    transition.resolve();
+  }
+
+  /**
+   * Stops the outgoing track once a transition has fully faded.
+   *
+   * @param transition - Transition to finish.
+   */
+  private finishTransition(transition: BgmTransition): void {
+    if (this.transition !== transition) {
+      return;
+    }
+    this.switchTransition(transition);
+    transition.timers.forEach((timer) => clearTimeout(timer));
+    transition.outgoing.stop();
+    transition.outgoing.masterGain.gain.cancelScheduledValues(0);
+    this.transition = null;
+    if (transition.pendingVolume !== null) {
+      this.setBgmVolume(transition.pendingVolume);
+    }
+  }
+
+  /**
+   * Completes a pending transition immediately (incoming track stays scheduled).
+   */
+  private completeTransition(): void {
+    const transition = this.transition;
+    if (!transition) {
+      return;
+    }
+    const incomingGain = transition.incoming.masterGain.gain;
+    incomingGain.cancelScheduledValues(0);
+    incomingGain.setValueAtTime(
+      this.bgmGainBase * (transition.incomingOptions.volume ?? this.bgmVolume),
+      this.context?.currentTime ?? 0
+    );
+    this.finishTransition(transition);
+  }
+
+  /**
+   * Cancels a pending transition and silences both of its tracks.
+   */
+  private cancelTransition(): void {
+    const transition = this.transition;
+    if (!transition) {
+      return;
+    }
+    this.transition = null;
+    transition.timers.forEach((timer) => clearTimeout(timer));
+    for (const synth of [transition.outgoing, transition.incoming]) {
+      synth.stop();
+      synth.masterGain.gain.cancelScheduledValues(0);
+    }
+    transition.resolve();
+  }
+
+  /**
+   * Resolves the intensity in effect at an AudioContext time.
+   *
+   * @param time - Absolute AudioContext time.
+   */
+  private resolveIntensityAt(time: number): number {
+    let intensity = this.intensityChanges[0]!.intensity;
+    for (const change of this.intensityChanges) {
+      if (change.time > time) break;
+      intensity = change.intensity;
+    }
+    return intensity;
+  }
+
+  /**
+   * BGM synth event filter applying the adaptive layer states.
+   *
+   * During a transition each synth is filtered against its own track, and the
+   * outgoing drums are dropped once the transition fill starts.
+   *
+   * @param synth - Synthesizer scheduling the event.
+   * @param event - Event about to be scheduled.
+   * @param when - AudioContext time the event plays at.
+   * @returns Whether the event should play.
+   */
+  private filterBgmEvent(
+    synth: SessionSynthesizer,
+    event: PlaybackEvent,
+    when: number
+  ): boolean {
+    const transition = this.transition;
+    let meta = this.activeTimeline?.meta;
+    if (transition?.outgoing === synth) {
+      if (
+        transition.fillStart !== null &&
+        event.channel === "noise" &&
+        event.command !== "setParam" &&
+        when >= transition.fillStart - 1e-6
+      ) {
+        return false;
+      }
+      meta = transition.outgoingTimeline.meta;
+    } else if (transition?.incoming === synth) {
+      meta = transition.incomingTimeline.meta;
+    }
+    if (!meta) {
+      return true;
+    }
+    const intensity = this.resolveIntensityAt(when);
+    if (intensity >= 1) {
+      return true;
+    }
+    if (
+      !this.layerCache ||
+      this.layerCache.meta !== meta ||
+      this.layerCache.intensity !== intensity
+    ) {
+      this.layerCache = {
+        meta,
+        intensity,
+        states: resolveLayerStates(meta.voiceArrangement, intensity),
+      };
+    }
+    return isEventAudible(event, this.layerCache.states, meta.tempoMap ?? meta.bpm);
+  }
+
   /**
    * Ensures the SE synthesizer is initialized.
    *
@@ -570,13 +1026,9 @@ export class AudioSessionImpl implements AudioSession {
       ctx,
       this.seSynth,
       () => this.activeTimeline,
-      this.bgmSynth.masterGain,
-      () => {
-        // Use the volume from the current playback session if available,
-        // otherwise fall back to the default bgmVolume
-        const effectiveVolume = this.lastPlayOptions?.volume ?? this.bgmVolume;
-        return this.bgmGainBase * effectiveVolume;
-      }
+      this.bgmBus!,
+      // BGM volume lives on the synths' master gains; the bus only carries ducking
+      () => 1
     );
   }
 }
@@ -1,9 +1,12 @@
 export { createAudioSession } from "./core.js";
 export { SoundEffectController } from "./playback.js";
+export { resolveLayerStates, isEventAudible } from "./layers.js";
+export type { LayerState, LayerStates } from "./layers.js";
 export { createVisibilityController } from "./visibility.js";
 export type {
   ActiveTimeline,
   AudioSession,
+  BgmIntensityOptions,
   CompositionOptions,
   CreateSessionOptions,
   PauseBgmOptions,
@@ -12,11 +15,13 @@ export type {
   PlaySeOptions,
   PipelineResult,
   PlaybackEvent,
+  SETemplate,
   SEType,
   ResumeBgmOptions,
   SePlaybackDefaults,
   SEGenerationOptions,
   SEGenerationResult,
+  TransitionBgmOptions,
   TriggerSeOptions,
   QuantizedSEOptions,
 } from "./types.js";
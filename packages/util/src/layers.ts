@@ -0,0 +1,140 @@
+/**
+ * Adaptive BGM layering.
+ *
+ * Maps a runtime intensity (0–1) onto per-channel layer states using the
+ * composition's {@link VoiceArrangement}: every voice gets an importance from its
+ * role and `priority`, and less important voices drop out first as intensity
+ * falls. Layer changes are applied through the synthesizer's event filter, so the
+ * loop keeps running and only note onsets after a change are affected.
+ */
+
+import { secondsToBeat } from "@algo-chip/core";
+import type { TempoSegment } from "@algo-chip/core";
+import type {
+  Channel,
+  PlaybackEvent,
+  VoiceArrangement,
+  VoiceRole,
+} from "./types.js";
+
+/**
+ * Layer state of a single channel.
+ * - `full`: every note plays
+ * - `thin`: only on-beat notes (melodic) or kick/snare hits (drums) play
+ * - `muted`: no new notes start
+ */
+export type LayerState = "full" | "thin" | "muted";
+
+export type LayerStates = Record<Channel, LayerState>;
+
+/** Relative importance of each role before `priority` scaling */
+const ROLE_WEIGHT: Record<VoiceRole, number> = {
+  melody: 1.0,
+  bass: 0.95,
+  melodyAlt: 0.6,
+  accompaniment: 0.5,
+  bassAlt: 0.45,
+  pad: 0.35,
+};
+
+/** Importance of the drum kit (noise channel is not part of the arrangement) */
+const DRUM_IMPORTANCE = 0.4;
+
+/** Intensity range below a voice's full threshold where it plays thinned */
+const THIN_BAND = 0.25;
+
+/** Drum instruments kept when the noise channel is thinned */
+const CORE_DRUMS = new Set(["K", "S"]);
+
+/** Tolerance when testing whether a note starts on a beat */
+const BEAT_EPSILON = 1e-3;
+
+/** Every channel playing in full; used before any arrangement is known */
+export const FULL_LAYERS: LayerStates = {
+  square1: "full",
+  square2: "full",
+  triangle: "full",
+  noise: "full",
+};
+
+/**
+ * Resolves per-channel layer states for an intensity.
+ *
+ * A voice plays in full once `intensity >= 1 - importance`, thinned within
+ * {@link THIN_BAND} below that, and muted otherwise. The most important voice is
+ * never muted so the music does not drop out entirely. Channels without a voice
+ * stay in full.
+ *
+ * @param arrangement Voice arrangement from `PipelineResult.meta`
+ * @param intensity Gameplay intensity (clamped to 0–1)
+ * @returns Layer state per channel
+ */
+export function resolveLayerStates(
+  arrangement: VoiceArrangement | undefined,
+  intensity: number
+): LayerStates {
+  const level = Math.max(0, Math.min(1, intensity));
+  const states: LayerStates = { ...FULL_LAYERS };
+  const voices = arrangement?.voices ?? [];
+
+  const importance = new Map<Channel, number>();
+  for (const voice of voices) {
+    const score =
+      ROLE_WEIGHT[voice.role] * (0.5 + 0.5 * Math.max(0, Math.min(1, voice.priority)));
+    importance.set(voice.channel, Math.max(importance.get(voice.channel) ?? 0, score));
+  }
+  importance.set("noise", DRUM_IMPORTANCE);
+
+  let leadChannel: Channel | null = null;
+  for (const [channel, score] of importance) {
+    if (channel !== "noise" && (leadChannel === null || score > importance.get(leadChannel)!)) {
+      leadChannel = channel;
+    }
+  }
+
+  for (const [channel, score] of importance) {
+    const fullThreshold = 1 - score;
+    if (level >= fullThreshold - 1e-9) {
+      states[channel] = "full";
+    } else if (level >= fullThreshold - THIN_BAND || channel === leadChannel) {
+      states[channel] = "thin";
+    } else {
+      states[channel] = "muted";
+    }
+  }
+  return states;
+}
+
+/**
+ * Decides whether an event plays under the given layer states.
+ *
+ * Only note onsets are filtered; note-offs and parameter changes always pass so
+ * notes that were already sounding end normally.
+ *
+ * @param event Event about to be scheduled
+ * @param states Layer states in effect at the event time
+ * @param tempo Composition tempo or tempo map (used to find on-beat notes)
+ */
+export function isEventAudible(
+  event: PlaybackEvent,
+  states: LayerStates,
+  tempo: number | TempoSegment[]
+): boolean {
+  if (event.command !== "noteOn") {
+    return true;
+  }
+  const state = states[event.channel];
+  if (state === "full") {
+    return true;
+  }
+  if (state === "muted") {
+    return false;
+  }
+  if (event.channel === "noise") {
+    const instrument = event.data.instrument;
+    return typeof instrument !== "string" || CORE_DRUMS.has(instrument);
+  }
+  const beat =
+    typeof tempo === "number" ? (event.time * tempo) / 60 : secondsToBeat(tempo, event.time);
+  return Math.abs(beat - Math.round(beat)) < BEAT_EPSILON;
+}
@@ -11,14 +11,16 @@
  * audio mixing between BGM and SE tracks.
  */
 
-import { AlgoChipSynthesizer } from "@algo-chip/core";
+import { AlgoChipSynthesizer, beatToSeconds, secondsToBeat, steadyTempoMap, tempoAtBeat } from "@algo-chip/core";
+import type { TempoSegment } from "@algo-chip/core";
 import type {
   ActiveTimeline,
   PlaySEOptions,
   QuantizedSEOptions,
   SEGenerationResult,
   SEType,
-  PlaybackEvent
+  PlaybackEvent,
+  PipelineResult
 } from "./types.js";
 
 type ChipSynthesizer = AlgoChipSynthesizer;
@@ -32,6 +34,13 @@ interface NormalizedSEOptions extends Required<Pick<PlaySEOptions, "duckingDb" |
   quantize?: QuantizedSEOptions;
 }
 
+/** Composition metadata a timeline clock reads; non-looping fallbacks carry only `bpm` */
+type TimelineMeta = Pick<PipelineResult["meta"], "bpm"> &
+  Partial<Pick<PipelineResult["meta"], "tempoMap" | "loopInfo">>;
+
+/** Composition metadata that locates a timeline's loop */
+type LoopMeta = Partial<Pick<PipelineResult["meta"], "loopInfo">>;
+
 /** Pending SE job grouped by type */
 interface ScheduledJob {
   result: SEGenerationResult;
@@ -54,6 +63,288 @@ const SCHEDULE_LEAD_SECONDS = 0.03;
 /** Floating point tolerance for comparing quantized times */
 const TIME_EPSILON = 1e-3;
 
+// ============================================================================
+// Quantization
+// ============================================================================
+
+/**
+ * Beat/second conversion relative to a timeline's start.
+ *
+ * Follows the composition's tempo map; timelines without one use their steady `bpm`.
+ * Looping timelines repeat the map from `loopInfo.loopStartBeat` on every lap, so beats
+ * keep counting up across laps while an intro before the loop start plays once.
+ */
+export interface TimelineClock {
+  toBeat(seconds: number): number;
+  toSeconds(beat: number): number;
+}
+
+/**
+ * Builds the clock of a BGM timeline.
+ *
+ * @param meta Composition metadata (`bpm`, optional `tempoMap` and `loopInfo`)
+ * @param loop Whether the timeline loops
+ */
+export function createTimelineClock(meta: TimelineMeta, loop: boolean): TimelineClock {
+  const tempoMap: TempoSegment[] = meta.tempoMap?.length ? meta.tempoMap : steadyTempoMap(meta.bpm);
+  const { startBeat, startSeconds, lapBeats, lapSeconds } = loopSpanOf(meta);
+  // A steady tempo converts the same on every lap, so only tempo changes need wrapping
+  if (!loop || tempoMap.length < 2 || lapBeats <= 0 || lapSeconds <= 0) {
+    return {
+      toBeat: (seconds) => secondsToBeat(tempoMap, seconds),
+      toSeconds: (beat) => beatToSeconds(tempoMap, beat),
+    };
+  }
+  return {
+    toBeat(seconds) {
+      const lap = Math.max(0, Math.floor((seconds - startSeconds) / lapSeconds));
+      return lap * lapBeats + secondsToBeat(tempoMap, seconds - lap * lapSeconds);
+    },
+    toSeconds(beat) {
+      const lap = Math.max(0, Math.floor((beat - startBeat) / lapBeats));
+      return lap * lapSeconds + beatToSeconds(tempoMap, beat - lap * lapBeats);
+    },
+  };
+}
+
+/**
+ * Tempo (BPM) of a BGM timeline at an absolute time, following its tempo map across laps.
+ *
+ * @param timeline Active BGM timeline
+ * @param time Absolute time in seconds
+ */
+export function tempoAtTime(timeline: ActiveTimeline, time: number): number {
+  const meta = timeline.meta;
+  const tempoMap: TempoSegment[] = meta?.tempoMap?.length ? meta.tempoMap : steadyTempoMap(meta?.bpm ?? 0);
+  const beat = createTimelineClock(meta, timeline.loop).toBeat(Math.max(0, time - timeline.startTime));
+  return tempoAtBeat(tempoMap, timeline.loop ? wrapLoopBeat(meta, beat) : beat);
+}
+
+/** Looped part of a timeline: from `loopInfo.loopStartBeat` to the end */
+interface LoopSpan {
+  startBeat: number;
+  startSeconds: number;
+  lapBeats: number;
+  lapSeconds: number;
+}
+
+function loopSpanOf(meta: LoopMeta): LoopSpan {
+  const startBeat = meta.loopInfo?.loopStartBeat ?? 0;
+  const startSeconds = meta.loopInfo?.loopStartTime ?? 0;
+  return {
+    startBeat,
+    startSeconds,
+    lapBeats: (meta.loopInfo?.totalBeats ?? 0) - startBeat,
+    lapSeconds: (meta.loopInfo?.totalDuration ?? 0) - startSeconds,
+  };
+}
+
+/**
+ * Maps a beat counted across laps of a looping timeline back into its first pass.
+ *
+ * Beats before the end are returned as is; later ones land in the looped part after any intro.
+ */
+export function wrapLoopBeat(meta: LoopMeta, beat: number): number {
+  const { startBeat, lapBeats } = loopSpanOf(meta);
+  return wrapIntoLoop(beat, startBeat, lapBeats);
+}
+
+/** Seconds counterpart of {@link wrapLoopBeat} */
+export function wrapLoopSeconds(meta: LoopMeta, seconds: number): number {
+  const { startSeconds, lapSeconds } = loopSpanOf(meta);
+  return wrapIntoLoop(seconds, startSeconds, lapSeconds);
+}
+
+function wrapIntoLoop(value: number, start: number, lap: number): number {
+  if (lap <= 0 || value < start + lap) {
+    return value;
+  }
+  return start + ((value - start) % lap);
+}
+
+/**
+ * Quantizes a start time to the musical grid (beat/measure/subdivision).
+ *
+ * Aligns playback changes (sound effects, BGM layer changes) with the BGM
+ * timeline based on quantization settings.
+ * Supports loop-aware quantization for seamless looping compositions.
+ *
+ * @param timeline Active BGM timeline, or null to use `fallbackTempo`
+ * @param options Quantization settings
+ * @param earliest Earliest allowed start time
+ * @returns Quantized start time or null if no timeline available
+ */
+export function quantizeStart(
+  timeline: ActiveTimeline | null,
+  options: QuantizedSEOptions,
+  earliest: number
+): number | null {
+  let clock: TimelineClock;
+  let startTime: number;
+  let loopBeats: number;
+  let loopStartBeat = 0;
+  let beatsPerMeasure = 4; // fallback tempo and older timelines assume 4/4
+  
+  if (timeline) {
+    // BGM is active: use timeline metadata
+    clock = createTimelineClock(timeline.meta, timeline.loop);
+    startTime = timeline.startTime;
+    loopBeats = timeline.meta.loopInfo.totalBeats;
+    loopStartBeat = timeline.meta.loopInfo.loopStartBeat ?? 0;
+    beatsPerMeasure = timeline.meta.beatsPerMeasure ?? beatsPerMeasure;
+  } else if (options.fallbackTempo !== undefined && options.fallbackTempo > 0) {
+    // No BGM but fallbackTempo specified: use it
+    clock = createTimelineClock({ bpm: options.fallbackTempo }, false);
+    startTime = options.referenceTime ?? 0;
+    loopBeats = 0; // No loop info when using fallback
+  } else {
+    // No BGM and no fallbackTempo: cannot quantize
+    return null;
+  }
+
+  const stepBeats = resolveStepBeats(options.quantizeTo, beatsPerMeasure);
+  if (stepBeats <= 0) {
+    return null;
+  }
+
+  const earliestBeat = Math.max(0, clock.toBeat(earliest - startTime));
+  let targetBeat = resolvePhaseBeat(options.phase ?? "next", earliestBeat, stepBeats, beatsPerMeasure);
+  targetBeat += options.offsetBeats ?? 0;
+
+  if (options.loopAware && loopBeats > 0) {
+    while (clock.toSeconds(targetBeat) + startTime < earliest - 1e-3) {
+      targetBeat += stepBeats;
+    }
+    if (targetBeat >= loopBeats) {
+      // Laps repeat the looped part only, which starts after any intro
+      const loopDurationBeats = loopBeats - loopStartBeat;
+      targetBeat = wrapIntoLoop(targetBeat, loopStartBeat, loopDurationBeats);
+      // Ensure we schedule into the future
+      const loopsAhead = Math.ceil((earliestBeat - targetBeat) / loopDurationBeats);
+      targetBeat += loopsAhead * loopDurationBeats;
+    }
+  } else {
+    let candidate = startTime + clock.toSeconds(targetBeat);
+    while (candidate < earliest - 1e-3) {
+      targetBeat += stepBeats;
+      candidate = startTime + clock.toSeconds(targetBeat);
+    }
+    return candidate;
+  }
+
+  return startTime + clock.toSeconds(targetBeat);
+}
+
+/**
+ * Resolves quantization step size in beats.
+ *
+ * @param quantizeTo Quantization target (beat/half/measure/subdivision)
+ * @param beatsPerMeasure Number of beats per measure (typically 4)
+ * @returns Step size in beats
+ */
+function resolveStepBeats(
+  quantizeTo: QuantizedSEOptions["quantizeTo"],
+  beatsPerMeasure: number
+): number {
+  if (quantizeTo === "beat") {
+    return 1;
+  }
+  if (quantizeTo === "half_beat") {
+    return 0.5;
+  }
+  if (quantizeTo === "measure") {
+    return beatsPerMeasure;
+  }
+  if (typeof quantizeTo === "object" && quantizeTo.subdivision > 0) {
+    return 1 / quantizeTo.subdivision;
+  }
+  return 0;
+}
+
+/**
+ * Resolves target beat position based on phase setting.
+ *
+ * @param phase Phase specification (current/next/absolute)
+ * @param currentBeat Current beat position
+ * @param stepBeats Step size in beats
+ * @param beatsPerMeasure Beats per measure
+ * @returns Target beat position
+ */
+function resolvePhaseBeat(
+  phase: QuantizedSEOptions["phase"],
+  currentBeat: number,
+  stepBeats: number,
+  beatsPerMeasure: number
+): number {
+  if (phase === "current") {
+    const candidate = Math.floor(currentBeat / stepBeats) * stepBeats;
+    if (candidate + 1e-6 < currentBeat) {
+      return candidate + stepBeats;
+    }
+    return candidate;
+  }
+  if (phase === "next" || phase == null) {
+    return Math.ceil((currentBeat - 1e-6) / stepBeats) * stepBeats;
+  }
+  const measure = Math.max(0, phase.measure);
+  const beat = Math.max(0, phase.beat ?? 0);
+  return measure * beatsPerMeasure + beat;
+}
+
+/**
+ * Finds the next section boundary of the BGM timeline.
+ *
+ * Section lengths come from `meta.sectionPattern` (e.g. `"Intro1-A3-B2-A2"`,
+ * template id followed by measure count). Looping timelines wrap to the next
+ * loop start, skipping an intro that plays once; the end of a one-shot timeline
+ * counts as its last boundary.
+ *
+ * @param timeline Active BGM timeline
+ * @param earliest Earliest allowed time
+ * @returns Boundary time, or null when the pattern is missing or already passed
+ */
+export function nextSectionBoundary(
+  timeline: ActiveTimeline,
+  earliest: number
+): number | null {
+  const pattern: unknown = timeline.meta?.sectionPattern;
+  const bpm: number = timeline.meta?.bpm ?? 0;
+  if (typeof pattern !== "string" || !pattern || bpm <= 0) {
+    return null;
+  }
+
+  const beatsPerMeasure: number = timeline.meta?.beatsPerMeasure ?? 4;
+  const boundaries = [0];
+  for (const token of pattern.split("-")) {
+    const match = /(\d+)$/.exec(token);
+    if (!match) {
+      return null;
+    }
+    boundaries.push(boundaries.at(-1)! + Number(match[1]) * beatsPerMeasure);
+  }
+  const loopBeats = boundaries.at(-1)!;
+  if (loopBeats <= 0) {
+    return null;
+  }
+
+  const clock = createTimelineClock(timeline.meta, timeline.loop);
+  const earliestBeat = Math.max(0, clock.toBeat(earliest - timeline.startTime));
+  // Later laps start after the intro, so its boundaries only count on the first pass
+  const loopStartBeat = timeline.loop ? timeline.meta?.loopInfo?.loopStartBeat ?? 0 : 0;
+  const lapBeats = loopBeats - loopStartBeat;
+  const loopIndex = timeline.loop ? Math.max(0, Math.floor((earliestBeat - loopStartBeat) / lapBeats)) : 0;
+  for (const boundary of boundaries) {
+    if (loopIndex > 0 && boundary < loopStartBeat) {
+      continue;
+    }
+    const beat = loopIndex * lapBeats + boundary;
+    if (beat >= earliestBeat - 1e-6) {
+      return timeline.startTime + clock.toSeconds(beat);
+    }
+  }
+  return null;
+}
+
 // ============================================================================
 // Sound Effect Controller
 // ============================================================================
@@ -194,7 +485,7 @@ export class SoundEffectController {
     const earliest = ctx.currentTime;
     let target = earliest;
     if (options.quantize) {
-      const quantized = this.quantizeStart(options.quantize, earliest);
+      const quantized = quantizeStart(this.getTimeline(), options.quantize, earliest);
       if (quantized !== null) {
         target = quantized;
       }
@@ -269,130 +560,6 @@ export class SoundEffectController {
     );
   }
 
-  /**
-   * Quantizes SE start time to musical grid (beat/measure/subdivision).
-   *
-   * Aligns SE playback with the BGM timeline based on quantization settings.
-   * Supports loop-aware quantization for seamless looping compositions.
-   *
-   * @param options Quantization settings
-   * @param earliest Earliest allowed start time
-   * @returns Quantized start time or null if no timeline available
-   */
-  private quantizeStart(options: QuantizedSEOptions, earliest: number): number | null {
-    const timeline = this.getTimeline();
-    
-    let bpm: number;
-    let startTime: number;
-    let loopBeats: number;
-    
-    if (timeline) {
-      // BGM is active: use timeline metadata
-      bpm = timeline.meta.bpm;
-      startTime = timeline.startTime;
-      loopBeats = timeline.meta.loopInfo.totalBeats;
-    } else if (options.fallbackTempo !== undefined && options.fallbackTempo > 0) {
-      // No BGM but fallbackTempo specified: use it
-      bpm = options.fallbackTempo;
-      startTime = options.referenceTime ?? 0;
-      loopBeats = 0; // No loop info when using fallback
-    } else {
-      // No BGM and no fallbackTempo: cannot quantize
-      return null;
-    }
-
-    const beatDuration = 60 / bpm;
-    const beatsPerMeasure = 4; // score.md assumes 4/4 backing
-
-    const stepBeats = this.resolveStepBeats(options.quantizeTo, beatsPerMeasure);
-    if (stepBeats <= 0) {
-      return null;
-    }
-
-    const earliestBeat = Math.max(0, (earliest - startTime) / beatDuration);
-    let targetBeat = this.resolvePhaseBeat(options.phase ?? "next", earliestBeat, stepBeats, beatsPerMeasure);
-    targetBeat += options.offsetBeats ?? 0;
-
-    if (options.loopAware && loopBeats > 0) {
-      while (targetBeat * beatDuration + startTime < earliest - 1e-3) {
-        targetBeat += stepBeats;
-      }
-      const loopDurationBeats = loopBeats;
-      if (targetBeat >= loopDurationBeats) {
-        targetBeat = targetBeat % loopDurationBeats;
-        // Ensure we schedule into the future
-        const loopsAhead = Math.ceil((earliestBeat - targetBeat) / loopDurationBeats);
-        targetBeat += loopsAhead * loopDurationBeats;
-      }
-    } else {
-      const stepDuration = stepBeats * beatDuration;
-      let candidate = startTime + targetBeat * beatDuration;
-      while (candidate < earliest - 1e-3) {
-        candidate += stepDuration;
-        targetBeat += stepBeats;
-      }
-      return candidate;
-    }
-
-    return startTime + targetBeat * beatDuration;
-  }
-
-  /**
-   * Resolves quantization step size in beats.
-   *
-   * @param quantizeTo Quantization target (beat/half/measure/subdivision)
-   * @param beatsPerMeasure Number of beats per measure (typically 4)
-   * @returns Step size in beats
-   */
-  private resolveStepBeats(
-    quantizeTo: QuantizedSEOptions["quantizeTo"],
-    beatsPerMeasure: number
-  ): number {
-    if (quantizeTo === "beat") {
-      return 1;
-    }
-    if (quantizeTo === "half_beat") {
-      return 0.5;
-    }
-    if (quantizeTo === "measure") {
-      return beatsPerMeasure;
-    }
-    if (typeof quantizeTo === "object" && quantizeTo.subdivision > 0) {
-      return 1 / quantizeTo.subdivision;
-    }
-    return 0;
-  }
-
-  /**
-   * Resolves target beat position based on phase setting.
-   *
-   * @param phase Phase specification (current/next/absolute)
-   * @param currentBeat Current beat position
-   * @param stepBeats Step size in beats
-   * @param beatsPerMeasure Beats per measure
-   * @returns Target beat position
-   */
-  private resolvePhaseBeat(
-    phase: QuantizedSEOptions["phase"],
-    currentBeat: number,
-    stepBeats: number,
-    beatsPerMeasure: number
-  ): number {
-    if (phase === "current") {
-      const candidate = Math.floor(currentBeat / stepBeats) * stepBeats;
-      if (candidate + 1e-6 < currentBeat) {
-        return candidate + stepBeats;
-      }
-      return candidate;
-    }
-    if (phase === "next" || phase == null) {
-      return Math.ceil((currentBeat - 1e-6) / stepBeats) * stepBeats;
-    }
-    const measure = Math.max(0, phase.measure);
-    const beat = Math.max(0, phase.beat ?? 0);
-    return measure * beatsPerMeasure + beat;
-  }
-
   /**
    * Applies BGM ducking automation with attack/sustain/release envelope.
    *
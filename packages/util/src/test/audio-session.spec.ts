@@ -1,5 +1,5 @@
 import assert from "node:assert/strict";
-import { describe, it } from "node:test";
+import { describe, it, mock } from "node:test";
 
 import type {
   PipelineResult,
@@ -7,30 +7,50 @@ import type {
   SEGenerationResult,
   SynthPlayOptions,
 } from "../types.js";
+import {
+  SEGenerator,
+  type AlgoChipSynthesizer,
+  type SETemplate,
+  type SynthEventFilter,
+} from "@algo-chip/core";
 import {
   AudioSessionImpl,
   type AudioSessionDependencies,
 } from "../core.js";
+import { SoundEffectController } from "../playback.js";
 
 function createGainNode(initialValue = 0.16) {
   const calls: Array<{ value: number; time: number }> = [];
+  const ramps: Array<{ value: number; time: number }> = [];
   const gain = {
     value: initialValue,
     setValueAtTime(value: number, time: number) {
       this.value = value;
       calls.push({ value, time });
     },
+    linearRampToValueAtTime(value: number, time: number) {
+      ramps.push({ value, time });
+    },
+    cancelScheduledValues(time: number) {
+      // Like Web Audio, drops the automation scheduled at or after `time`
+      for (const list of [calls, ramps]) {
+        list.splice(0, list.length, ...list.filter((entry) => entry.time < time));
+      }
+    },
   };
   return {
-    node: { gain } as unknown as GainNode,
+    node: { gain, connect() {} } as unknown as GainNode,
     calls,
+    ramps,
   };
 }
 
 function createFixture() {
   const bgmGain = createGainNode();
   const seGain = createGainNode();
-  const synths = [bgmGain, seGain].map(({ node }) => ({
+  const standbyGain = createGainNode();
+  const busGain = createGainNode(1);
+  const synths = [bgmGain, seGain, standbyGain].map(({ node }) => ({
     masterGain: node,
     initCalls: 0,
     stopCalls: 0,
@@ -48,6 +68,14 @@ function createFixture() {
     stop() {
       this.stopCalls += 1;
     },
+    eventFilter: null as SynthEventFilter | null,
+    setEventFilter(filter: SynthEventFilter | null) {
+      this.eventFilter = filter;
+    },
+    overlays: [] as Array<{ events: unknown[]; startTime: number }>,
+    scheduleOverlay(events: unknown[], startTime: number) {
+      this.overlays.push({ events, startTime });
+    },
   }));
   const controller = {
     playCalls: [] as Array<{ result: SEGenerationResult; options: unknown }>,
@@ -74,6 +102,8 @@ function createFixture() {
     closeCalls: 0,
     resumeCalls: 0,
     suspendCalls: 0,
+    destination: {},
+    createGain: () => busGain.node,
     async close() {
       contextMock.closeCalls += 1;
     },
@@ -99,6 +129,7 @@ function createFixture() {
         generationCalls.push(options);
         return seResult;
       },
+      registerTemplates() {},
     }),
     createSoundEffectController: () => controller,
   };
@@ -117,6 +148,8 @@ function createFixture() {
     seResult,
     synths,
     bgmGain,
+    standbyGain,
+    busGain,
   };
 }
 
@@ -133,6 +166,7 @@ describe("AudioSession", () => {
     assert.deepEqual(fixture.synths[0].loopCalls[0].options, {
       startTime: 10.4,
       offset: 0,
+      loopStart: 0,
       leadTime: 0.4,
       lookahead: 0.1,
       volume: 0.5,
@@ -219,6 +253,33 @@ describe("AudioSession", () => {
     });
   });
 
+  it("triggers custom SE types from templates given at creation or registered later", async () => {
+    const fixture = createFixture();
+    const template = (id: string, type: string): SETemplate => ({
+      id,
+      type,
+      description: `Custom ${type}`,
+      channels: ["square1"],
+      durationRange: [0.1, 0.12],
+      channelParams: { square1: { pitchStart: { min: 60, max: 64 }, pitchEnd: { min: 72, max: 76 } } },
+      pitchSweep: { enabled: true, curveType: "exponential" },
+    });
+    const session = new AudioSessionImpl(
+      { audioContext: fixture.context, seTemplates: [template("SE_DASH_01", "dash")] },
+      { ...fixture.dependencies, createSeGenerator: (templates) => new SEGenerator({ templates }) }
+    );
+
+    await session.triggerSe({ type: "dash", seed: 3 });
+    assert.throws(() => session.registerSeTemplates([{ ...template("SE_DOOR_01", "door"), channels: [] }]), /SE_DOOR_01/);
+    session.registerSeTemplates([template("SE_DOOR_01", "door")]);
+    await session.triggerSe({ type: "door", seed: 3 });
+
+    assert.deepEqual(
+      fixture.controller.playCalls.map(({ result }) => [result.meta.type, result.meta.templateId]),
+      [["dash", "SE_DASH_01"], ["door", "SE_DOOR_01"]]
+    );
+  });
+
   it("stops all audio and closes only an owned context", async () => {
     const fixture = createFixture();
     const session = new AudioSessionImpl({}, fixture.dependencies);
@@ -232,4 +293,403 @@ describe("AudioSession", () => {
     assert.equal(fixture.context.closeCalls, 1);
     assert.equal(session.getAudioContext(), null);
   });
+
+  it("applies BGM intensity at the next measure without restarting playback", async () => {
+    const fixture = createFixture();
+    const session = new AudioSessionImpl(
+      { audioContext: fixture.context },
+      fixture.dependencies
+    );
+    const result = {
+      events: [],
+      meta: {
+        bpm: 120,
+        loopInfo: { totalDuration: 8, totalBeats: 16 },
+        voiceArrangement: {
+          id: "standard",
+          description: "",
+          voices: [
+            { role: "melody", channel: "square1", priority: 1.0 },
+            { role: "accompaniment", channel: "square2", priority: 0.8 },
+            { role: "bass", channel: "triangle", priority: 1.0 },
+          ],
+        },
+      },
+    } as unknown as PipelineResult;
+
+    assert.equal(session.setBgmIntensity(0.4), null);
+    await session.playBgm(result, { startTime: 10 });
+    const filter = fixture.synths[0].eventFilter!;
+    const note = (channel: string, time: number, data: Record<string, unknown> = {}) =>
+      ({ time, channel, command: "noteOn", data }) as never;
+
+    // Mid intensity from the start: accompaniment and drums thinned, melody in full
+    assert.equal(filter(note("square1", 0.25), 10.25), true);
+    assert.equal(filter(note("square2", 0.25), 10.25), false);
+    assert.equal(filter(note("square2", 0.5), 10.5), true);
+    assert.equal(filter(note("noise", 0, { instrument: "H" }), 10), false);
+    assert.equal(filter(note("noise", 0, { instrument: "K" }), 10), true);
+    assert.equal(filter({ time: 0.25, channel: "square2", command: "noteOff", data: {} } as never, 10.25), true);
+
+    // Raising intensity mid-measure waits for the next bar (2 s per measure at 120 BPM)
+    (fixture.context as { currentTime: number }).currentTime = 10.5;
+    assert.equal(session.setBgmIntensity(1), 12);
+    assert.equal(session.getBgmIntensity(), 1);
+    assert.equal(filter(note("square2", 1.25), 11.25), false);
+    assert.equal(filter(note("square2", 2), 12), true);
+    assert.equal(filter(note("noise", 2, { instrument: "H" }), 12), true);
+
+    // A later request replaces the pending one; at zero only the lead voices remain
+    assert.equal(session.setBgmIntensity(0, { quantize: { quantizeTo: "beat" } }), 11);
+    assert.equal(filter(note("square2", 1), 11), false);
+    assert.equal(filter(note("square2", 2), 12), false);
+    assert.equal(filter(note("noise", 2, { instrument: "K" }), 12), false);
+    assert.equal(filter(note("square1", 2.25), 12.25), true);
+
+    assert.equal(fixture.synths[0].loopCalls.length, 1);
+    assert.equal(fixture.synths[0].stopCalls, 0);
+  });
+
+  it("crossfades to the next BGM on a second synth at the next measure", async () => {
+    mock.timers.enable({ apis: ["setTimeout"] });
+    try {
+      const fixture = createFixture();
+      const session = new AudioSessionImpl(
+        { audioContext: fixture.context },
+        fixture.dependencies
+      );
+      const current = {
+        events: [],
+        meta: { bpm: 120, loopInfo: { totalDuration: 8, totalBeats: 16 } },
+      } as unknown as PipelineResult;
+      const next = {
+        events: [{ time: 0, channel: "square1", command: "noteOn", data: {} }],
+        meta: { bpm: 90, loopInfo: { totalDuration: 16, totalBeats: 24 } },
+      } as unknown as PipelineResult;
+
+      await session.playBgm(current, { startTime: 9 });
+      (fixture.context as { currentTime: number }).currentTime = 10.5;
+      let audible = false;
+      const done = session.transitionBgm(next).then(() => {
+        audible = true;
+      });
+      await new Promise((resolve) => setImmediate(resolve));
+
+      // 2 s per measure at 120 BPM: the next bar after 10.6 starts at 11
+      const [outgoing, , incoming] = fixture.synths;
+      assert.equal(incoming.loopCalls.length, 1);
+      assert.equal(incoming.loopCalls[0].options.startTime, 11);
+      assert.deepEqual(fixture.standbyGain.ramps, [{ value: 0.16, time: 13 }]);
+      assert.deepEqual(fixture.bgmGain.ramps, [{ value: 0, time: 13 }]);
+      assert.equal(session.getActiveTimeline()?.meta, current.meta);
+      assert.equal(audible, false);
+
+      mock.timers.tick(500);
+      await done;
+      assert.equal(session.getActiveTimeline()?.meta, next.meta);
+      assert.equal(session.getActiveTimeline()?.startTime, 11);
+      assert.equal(outgoing.stopCalls, 0);
+
+      // The old track stops once the fade completes
+      mock.timers.tick(2000);
+      assert.equal(outgoing.stopCalls, 1);
+      assert.equal(incoming.stopCalls, 0);
+    } finally {
+      mock.timers.reset();
+    }
+  });
+
+  it("keeps crossfade automation when an SE ducks or the volume changes mid-fade", async () => {
+    mock.timers.enable({ apis: ["setTimeout"] });
+    // The SE controller schedules through window.setTimeout
+    const globals = globalThis as { window?: unknown };
+    globals.window = globalThis;
+    try {
+      const fixture = createFixture();
+      const session = new AudioSessionImpl(
+        { audioContext: fixture.context },
+        {
+          ...fixture.dependencies,
+          createSoundEffectController: (context, seSynth, getTimeline, bgmGain, getBgmBaseVolume) =>
+            new SoundEffectController(
+              context,
+              seSynth as AlgoChipSynthesizer,
+              getTimeline,
+              bgmGain,
+              getBgmBaseVolume
+            ),
+        }
+      );
+      const current = {
+        events: [],
+        meta: { bpm: 120, loopInfo: { totalDuration: 8, totalBeats: 16 } },
+      } as unknown as PipelineResult;
+      const next = {
+        events: [],
+        meta: { bpm: 90, loopInfo: { totalDuration: 16, totalBeats: 24 } },
+      } as unknown as PipelineResult;
+
+      await session.playBgm(current, { startTime: 9 });
+      (fixture.context as { currentTime: number }).currentTime = 10.5;
+      const done = session.transitionBgm(next);
+      await new Promise((resolve) => setImmediate(resolve));
+      mock.timers.tick(500);
+      await done;
+
+      // Halfway through the 11–13 s fade
+      (fixture.context as { currentTime: number }).currentTime = 12;
+      const se = session.playSe(fixture.seResult, { duckingDb: -6 });
+      await new Promise((resolve) => setImmediate(resolve));
+      mock.timers.tick(1);
+      await se;
+      session.setBgmVolume(0.5);
+
+      assert.deepEqual(fixture.bgmGain.ramps, [{ value: 0, time: 13 }]);
+      assert.deepEqual(fixture.standbyGain.ramps, [{ value: 0.16, time: 13 }]);
+      const [duck, release] = fixture.busGain.ramps;
+      assert.ok(Math.abs(duck!.value - Math.pow(10, -6 / 20)) < 1e-9);
+      assert.equal(release!.value, 1);
+
+      // The deferred volume lands on the new track once its fade is done
+      (fixture.context as { currentTime: number }).currentTime = 13;
+      mock.timers.tick(2000);
+      assert.deepEqual(fixture.standbyGain.calls.at(-1), { value: 0.08, time: 13 });
+      assert.deepEqual(fixture.standbyGain.ramps, [{ value: 0.16, time: 13 }]);
+    } finally {
+      delete globals.window;
+      mock.timers.reset();
+    }
+  });
+
+  it("plays a transition fill over the old drums before a section boundary", async () => {
+    mock.timers.enable({ apis: ["setTimeout"] });
+    try {
+      const fixture = createFixture();
+      const session = new AudioSessionImpl(
+        { audioContext: fixture.context },
+        fixture.dependencies
+      );
+      const current = {
+        events: [],
+        meta: {
+          bpm: 120,
+          sectionPattern: "A2-B2",
+          loopInfo: { totalDuration: 8, totalBeats: 16 },
+        },
+      } as unknown as PipelineResult;
+
+      await session.playBgm(current, { startTime: 10 });
+      const done = session.transitionBgm(fixture.result, {
+        mode: "fill",
+        at: "section",
+        fillId: "TR_LOOP_TIGHTENER",
+      });
+      await new Promise((resolve) => setImmediate(resolve));
+
+      // The one-measure fill ends on the B section at 14 s
+      const [outgoing, , incoming] = fixture.synths;
+      assert.equal(incoming.loopCalls[0].options.startTime, 14);
+      assert.equal(outgoing.overlays.length, 1);
+      assert.equal(outgoing.overlays[0].startTime, 12);
+      assert.ok(outgoing.overlays[0].events.length > 0);
+
+      const filter = outgoing.eventFilter!;
+      const hit = { time: 0, channel: "noise", command: "noteOn", data: {} } as never;
+      const lead = { time: 0, channel: "square1", command: "noteOn", data: {} } as never;
+      assert.equal(filter(hit, 11.5), true);
+      assert.equal(filter(hit, 12), false);
+      assert.equal(filter(lead, 12.5), true);
+
+      mock.timers.tick(4000);
+      await done;
+      assert.equal(session.getActiveTimeline()?.startTime, 14);
+
+      session.stopBgm();
+      assert.equal(session.getActiveTimeline(), null);
+    } finally {
+      mock.timers.reset();
+    }
+  });
+
+  it("keeps the loop position when switching to a remix", async () => {
+    mock.timers.enable({ apis: ["setTimeout"] });
+    try {
+      const fixture = createFixture();
+      const session = new AudioSessionImpl(
+        { audioContext: fixture.context },
+        fixture.dependencies
+      );
+      const meta = { bpm: 120, loopInfo: { totalDuration: 8, totalBeats: 16 } };
+      const source = { events: [], meta } as unknown as PipelineResult;
+      const remix = { events: [], meta: { ...meta } } as unknown as PipelineResult;
+
+      await session.playBgm(source, { startTime: 9 });
+      (fixture.context as { currentTime: number }).currentTime = 18.5;
+      const done = session.transitionBgm(remix, { mode: "cut", keepPosition: true });
+      await new Promise((resolve) => setImmediate(resolve));
+
+      // Switching at 19 s is 2 s into the second loop pass
+      const incoming = fixture.synths[2];
+      assert.equal(incoming.loopCalls[0].options.startTime, 19);
+      assert.equal(incoming.loopCalls[0].options.offset, 2);
+
+      mock.timers.tick(500);
+      await done;
+      assert.equal(session.getActiveTimeline()?.startTime, 17);
+    } finally {
+      mock.timers.reset();
+    }
+  });
+
+  it("loops after a one-time intro for section boundaries, kept positions and pause offsets", async () => {
+    mock.timers.enable({ apis: ["setTimeout"] });
+    try {
+      const fixture = createFixture();
+      const session = new AudioSessionImpl(
+        { audioContext: fixture.context },
+        fixture.dependencies
+      );
+      // One intro measure, then three looped measures at 120 BPM (2 s each)
+      const meta = {
+        bpm: 120,
+        beatsPerMeasure: 4,
+        sectionPattern: "Intro1-A2-B1",
+        loopInfo: { loopStartBeat: 4, loopStartTime: 2, totalBeats: 16, totalDuration: 8 },
+      };
+      const source = { events: [], meta } as unknown as PipelineResult;
+      const next = { events: [], meta: { ...meta } } as unknown as PipelineResult;
+
+      await session.playBgm(source, { startTime: 10 });
+      assert.equal(fixture.synths[0].loopCalls[0].options.loopStart, 2);
+
+      // Beat 17 is in the second pass, which has no intro: the next boundary is B at beat 24
+      (fixture.context as { currentTime: number }).currentTime = 18.4;
+      const done = session.transitionBgm(next, { mode: "cut", at: "section", keepPosition: true });
+      await new Promise((resolve) => setImmediate(resolve));
+      const incoming = fixture.synths[2];
+      assert.equal(incoming.loopCalls[0].options.startTime, 22);
+      assert.equal(incoming.loopCalls[0].options.loopStart, 2);
+      // Beat 24 maps back to beat 12 of the first pass
+      assert.equal(incoming.loopCalls[0].options.offset, 6);
+
+      mock.timers.tick(4000);
+      await done;
+      assert.equal(session.getActiveTimeline()?.startTime, 16);
+
+      // 9 s in is 1 s past the loop point on the second pass
+      (fixture.context as { currentTime: number }).currentTime = 25;
+      assert.equal(session.pauseBgm(), 3);
+    } finally {
+      mock.timers.reset();
+    }
+  });
+
+  it("follows the tempo map for quantization, layer thinning and pause offsets", async () => {
+    const fixture = createFixture();
+    const session = new AudioSessionImpl(
+      { audioContext: fixture.context },
+      fixture.dependencies
+    );
+    // Two measures at 120 BPM, then two at 60 BPM
+    const result = {
+      events: [],
+      meta: {
+        bpm: 120,
+        beatsPerMeasure: 4,
+        tempoMap: [
+          { startBeat: 0, endBeat: 8, startBpm: 120, endBpm: 120, startTime: 0 },
+          { startBeat: 8, endBeat: 16, startBpm: 60, endBpm: 60, startTime: 4 },
+        ],
+        loopInfo: { totalDuration: 12, totalBeats: 16 },
+        voiceArrangement: {
+          id: "standard",
+          description: "",
+          voices: [
+            { role: "melody", channel: "square1", priority: 1.0 },
+            { role: "accompaniment", channel: "square2", priority: 0.8 },
+          ],
+        },
+      },
+    } as unknown as PipelineResult;
+
+    session.setBgmIntensity(0.4);
+    await session.playBgm(result, { startTime: 10 });
+    const filter = fixture.synths[0].eventFilter!;
+    const note = (channel: string, time: number) =>
+      ({ time, channel, command: "noteOn", data: {} }) as never;
+
+    // 4.5 s is beat 8.5 in the slow half, so thinned accompaniment skips it
+    assert.equal(filter(note("square2", 4.5), 14.5), false);
+    assert.equal(filter(note("square2", 5), 15), true);
+
+    // Beat 8.6 → measure at beat 12, which starts 8 s into the loop
+    (fixture.context as { currentTime: number }).currentTime = 14.5;
+    assert.equal(session.setBgmIntensity(1), 18);
+
+    // The second lap repeats the map: beat 17.2 → measure at beat 20
+    (fixture.context as { currentTime: number }).currentTime = 22.5;
+    assert.equal(session.setBgmIntensity(0.4), 24);
+
+    (fixture.context as { currentTime: number }).currentTime = 25;
+    assert.equal(session.pauseBgm(), 3);
+    await session.resumeBgm();
+    assert.ok(Math.abs((session.getActiveTimeline()?.startTime ?? 0) - 22.2) < 1e-9);
+    // Resumed at 3 s (beat 6): the next measure is beat 8, 1 s later
+    assert.ok(Math.abs((session.setBgmIntensity(1) ?? 0) - 26.2) < 1e-9);
+  });
+
+  it("sizes transition fades and fills by the tempo playing at the switch", async () => {
+    mock.timers.enable({ apis: ["setTimeout"] });
+    try {
+      const fixture = createFixture();
+      const session = new AudioSessionImpl(
+        { audioContext: fixture.context },
+        fixture.dependencies
+      );
+      // Two measures at 120 BPM, then two at 60 BPM
+      const current = {
+        events: [],
+        meta: {
+          bpm: 120,
+          beatsPerMeasure: 4,
+          tempoMap: [
+            { startBeat: 0, endBeat: 8, startBpm: 120, endBpm: 120, startTime: 0 },
+            { startBeat: 8, endBeat: 16, startBpm: 60, endBpm: 60, startTime: 4 },
+          ],
+          loopInfo: { totalDuration: 12, totalBeats: 16 },
+        },
+      } as unknown as PipelineResult;
+
+      await session.playBgm(current, { startTime: 10 });
+      // 4.5 s in is beat 8.5 at 60 BPM: the fade spans one 4 s measure from beat 12
+      (fixture.context as { currentTime: number }).currentTime = 14.5;
+      const crossfade = session.transitionBgm(fixture.result);
+      await new Promise((resolve) => setImmediate(resolve));
+      assert.equal(fixture.synths[2].loopCalls[0].options.startTime, 18);
+      assert.deepEqual(fixture.bgmGain.ramps, [{ value: 0, time: 22 }]);
+      mock.timers.tick(8000);
+      await crossfade;
+
+      // A one-measure fill at 60 BPM lasts 4 s, so it starts a measure before beat 16 of the new track
+      const fillFixture = createFixture();
+      const fillSession = new AudioSessionImpl(
+        { audioContext: fillFixture.context },
+        fillFixture.dependencies
+      );
+      await fillSession.playBgm(current, { startTime: 10 });
+      (fillFixture.context as { currentTime: number }).currentTime = 14.5;
+      const filled = fillSession.transitionBgm(fillFixture.result, {
+        mode: "fill",
+        fillId: "TR_LOOP_TIGHTENER",
+      });
+      await new Promise((resolve) => setImmediate(resolve));
+      const switchTime = fillFixture.synths[2].loopCalls[0].options.startTime;
+      assert.equal(switchTime, 22);
+      assert.equal(fillFixture.synths[0].overlays[0].startTime, 18);
+      mock.timers.tick(8000);
+      await filled;
+    } finally {
+      mock.timers.reset();
+    }
+  });
 });
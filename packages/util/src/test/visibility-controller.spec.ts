@@ -15,11 +15,14 @@ function createAudioSessionFixture(
     playBgm: async () => {
       throw new Error("not implemented");
     },
+    transitionBgm: async () => {},
     stopBgm: () => {},
     stopAllAudio: () => {},
     pauseBgm: () => null,
     resumeBgm: async () => {},
     setBgmVolume: () => {},
+    setBgmIntensity: () => null,
+    getBgmIntensity: () => 1,
     configureSeDefaults: () => {},
     generateSe: () => {
       throw new Error("not implemented");
@@ -27,6 +30,7 @@ function createAudioSessionFixture(
     playSe: async () => {
       throw new Error("not implemented");
     },
+    registerSeTemplates: () => {},
     triggerSe: async () => {},
     cancelScheduledSe: () => {},
     getActiveTimeline: () => null,
@@ -13,8 +13,12 @@ import type {
   PipelineResult,
   SEGenerationOptions,
   SEGenerationResult,
+  SETemplate,
   SEType,
   SynthPlayOptions,
+  Voice,
+  VoiceArrangement,
+  VoiceRole,
 } from "@algo-chip/core";
 
 // ============================================================================
@@ -29,8 +33,12 @@ export type {
   PipelineResult,
   SEGenerationOptions,
   SEGenerationResult,
+  SETemplate,
   SEType,
   SynthPlayOptions,
+  Voice,
+  VoiceArrangement,
+  VoiceRole,
 } from "@algo-chip/core";
 
 // ============================================================================
@@ -70,6 +78,17 @@ export interface QuantizedSEOptions {
   referenceTime?: number;
 }
 
+/**
+ * Options for {@link AudioSession.setBgmIntensity}.
+ */
+export interface BgmIntensityOptions {
+  /**
+   * Boundary the change waits for while BGM is playing
+   * (default: next measure, `{ quantizeTo: "measure", phase: "next" }`).
+   */
+  quantize?: QuantizedSEOptions;
+}
+
 /**
  * SE playback options.
  *
@@ -129,15 +148,18 @@ export interface CreateSessionOptions {
   seDefaults?: Partial<SePlaybackDefaults>;
   /** Initial background music volume (default: 1.0) */
   bgmVolume?: number;
+  /** Custom SE templates, which may add new types for triggerSe() (e.g. "dash") */
+  seTemplates?: SETemplate[];
 }
 
 /**
  * Options for playing background music.
  *
- * Extends synthesizer playback options with loop control.
+ * Extends synthesizer playback options with loop control. Loops restart at
+ * `meta.loopInfo.loopStartTime`, so the composition decides its loop point.
  */
-export type PlayBgmOptions = Partial<SynthPlayOptions> & {
-  /** Whether to loop the composition (default: true) */
+export type PlayBgmOptions = Partial<Omit<SynthPlayOptions, "loopStart">> & {
+  /** Whether to loop the composition (default: true, false for one-shots) */
   loop?: boolean;
 };
 
@@ -153,6 +175,41 @@ export interface ResumeBgmOptions extends PlayBgmOptions {
   offsetSeconds?: number;
 }
 
+/**
+ * Options passed to transitionBgm.
+ *
+ * The switch happens at the next `at` boundary of the current BGM timeline.
+ */
+export interface TransitionBgmOptions {
+  /**
+   * How the tracks are joined (default: "crossfade").
+   * - `crossfade`: both tracks overlap while the gains ramp
+   * - `cut`: the new track replaces the old one at the boundary
+   * - `fill`: a transition drum fill replaces the old drums for the measure
+   *   before the boundary, then the new track starts
+   */
+  mode?: "crossfade" | "cut" | "fill";
+  /** Boundary of the current track the switch waits for (default: "measure") */
+  at?: "beat" | "measure" | "section";
+  /** Crossfade length in seconds (default: one measure of the current track) */
+  fadeSeconds?: number;
+  /** Transition fill id from transitions.json (fill mode; default: first `loop_out` fill) */
+  fillId?: string;
+  /** Tags used to pick the fill when `fillId` is omitted */
+  fillTags?: string[];
+  /** Whether to loop the new track (default: true, false for one-shots) */
+  loop?: boolean;
+  /**
+   * Continue the new track from the current track's position instead of its start
+   * (default: false). Intended for vertical remixes, which share the loop length.
+   */
+  keepPosition?: boolean;
+  /** Volume of the new track (default: current BGM volume) */
+  volume?: number;
+  /** Event callback for the new track */
+  onEvent?: SynthPlayOptions["onEvent"];
+}
+
 /**
  * Audio session for background music generation and sound effect playback.
  *
@@ -199,6 +256,20 @@ export interface AudioSession {
    */
   playBgm(result: PipelineResult, options?: PlayBgmOptions): Promise<void>;
 
+  /**
+   * Switches to another composition at a musical boundary of the current one.
+   *
+   * The new track plays on a second synthesizer so both can overlap during a
+   * crossfade. Starts `next` right away when no BGM is playing. A transition
+   * requested while another is pending completes the pending one first.
+   *
+   * @param next - Composition to switch to.
+   * @param options - Transition mode, boundary, and new track playback options.
+   * @returns Promise resolving when the new track becomes audible (or when the
+   *   transition is cancelled by stopBgm/pauseBgm/playBgm).
+   */
+  transitionBgm(next: PipelineResult, options?: TransitionBgmOptions): Promise<void>;
+
   /**
    * Stops the currently playing background music and resets ducking.
    */
@@ -232,6 +303,27 @@ export interface AudioSession {
    */
   setBgmVolume(volume: number): void;
 
+  /**
+   * Sets the adaptive BGM intensity (0–1).
+   *
+   * Lower intensities thin and then mute less important voices (by
+   * `VoiceArrangement` role and priority, drums first). While BGM is playing the
+   * change waits for the next quantized boundary and never restarts playback;
+   * otherwise it applies to the next `playBgm()` immediately.
+   *
+   * @param intensity - Target intensity, clamped to 0.0-1.0 (1.0 = every voice).
+   * @param options - Boundary quantization (default: next measure).
+   * @returns AudioContext time the change takes effect, or null when no BGM is playing.
+   */
+  setBgmIntensity(intensity: number, options?: BgmIntensityOptions): number | null;
+
+  /**
+   * Gets the most recently requested BGM intensity.
+   *
+   * @returns Intensity in 0.0-1.0 (1.0 by default).
+   */
+  getBgmIntensity(): number;
+
   /**
    * Configures default settings for sound effect playback.
    *
@@ -247,6 +339,16 @@ export interface AudioSession {
    */
   generateSe(options: SEGenerationOptions): SEGenerationResult;
 
+  /**
+   * Registers custom SE templates with the session's generator.
+   *
+   * Their types can then be passed to generateSe() and triggerSe().
+   *
+   * @param templates - Templates to add; an existing id is replaced.
+   * @throws Error naming the first invalid template (nothing is registered).
+   */
+  registerSeTemplates(templates: SETemplate[]): void;
+
   /**
    * Plays a generated sound effect.
    *
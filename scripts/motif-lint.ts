@@ -0,0 +1,82 @@
+import { readdirSync, readFileSync } from "node:fs";
+import { dirname, join, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { lintMotifFile, MOTIF_FILES, type MotifLintIssue } from "../packages/core/src/motif-schema.js";
+
+/** Source whose string literals define the tag vocabulary the generator reacts to */
+const MOTIF_SELECTION_SOURCE = join("packages", "core", "src", "phase", "motif-selection.ts");
+
+export interface MotifLintReport {
+  files: string[];
+  issues: MotifLintIssue[];
+  errorCount: number;
+  warningCount: number;
+}
+
+/**
+ * Collects every string literal in a source file.
+ * Motif selection refers to tags only through literals, so this is the tag vocabulary.
+ */
+export function referencedTags(source: string): Set<string> {
+  const tags = new Set<string>();
+  for (const match of source.matchAll(/"([^"\\\n]*)"|'([^'\\\n]*)'/g)) {
+    tags.add(match[1] ?? match[2]);
+  }
+  return tags;
+}
+
+export function lintMotifs(repoRoot = process.cwd()): MotifLintReport {
+  const motifsDir = join(repoRoot, "packages", "core", "motifs");
+  const knownTags = referencedTags(readFileSync(join(repoRoot, MOTIF_SELECTION_SOURCE), "utf8"));
+  const files = readdirSync(motifsDir).filter((file) => file.endsWith(".json")).sort();
+
+  const issues = files.flatMap((file) => {
+    const raw = readFileSync(join(motifsDir, file), "utf8");
+    let data: unknown;
+    try {
+      data = JSON.parse(raw);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return [{ severity: "error", rule: "shape", file, path: "", message: `Invalid JSON: ${message}` } satisfies MotifLintIssue];
+    }
+    return lintMotifFile(file, data, { knownTags });
+  });
+
+  const missing = Object.keys(MOTIF_FILES).filter((file) => !files.includes(file));
+  for (const file of missing) {
+    issues.push({ severity: "error", rule: "shape", file, path: "", message: "File is missing" });
+  }
+
+  return {
+    files,
+    issues,
+    errorCount: issues.filter((issue) => issue.severity === "error").length,
+    warningCount: issues.filter((issue) => issue.severity === "warning").length
+  };
+}
+
+function formatIssue(issue: MotifLintIssue): string {
+  const location = [issue.file, issue.id, issue.path].filter(Boolean).join(" ");
+  return `${issue.severity.padEnd(7)} ${location}: ${issue.message} [${issue.rule}]`;
+}
+
+function printReport(report: MotifLintReport, args: string[]): void {
+  if (args.includes("--json")) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    const shown = args.includes("--quiet")
+      ? report.issues.filter((issue) => issue.severity === "error")
+      : report.issues;
+    shown.forEach((issue) => console.log(formatIssue(issue)));
+    console.log(
+      `${report.files.length} files checked: ${report.errorCount} errors, ${report.warningCount} warnings`
+    );
+  }
+  const strict = args.includes("--strict");
+  if (report.errorCount > 0 || (strict && report.warningCount > 0)) process.exitCode = 1;
+}
+
+const invokedPath = process.argv[1] ? resolve(process.argv[1]) : "";
+if (invokedPath === fileURLToPath(import.meta.url)) {
+  printReport(lintMotifs(dirname(dirname(fileURLToPath(import.meta.url)))), process.argv.slice(2));
+}